@@ -0,0 +1,161 @@
+/**
+ * Council Evaluate API
+ *
+ * Re-judges a stored set of blinded responses without querying the engines
+ * again. When the session's encoded mapping is supplied, the rankings are
+ * also de-anonymized and aggregated.
+ */
+
+import { NextResponse } from "next/server";
+import {
+  evaluateBlindedResponses,
+  toCouncilRankings,
+} from "../../../../services/councilService";
+import { decodeMapping, type BlindMapping } from "../../../../lib/council/blind-review";
+import { aggregateRankings, type Evaluation } from "../../../../lib/council/rankings";
+import { councilEvaluateRequestSchema } from "../../../../lib/security/validators";
+import { validateUrlForSSRF } from "../../../../lib/security/ssrf-guard";
+import { apiKeyManager } from "../../../../lib/security/api-keys";
+import {
+  estimateEvaluationCost,
+  validateRequestCost,
+} from "../../../../lib/security/cost-guard";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parseResult = councilEvaluateRequestSchema.safeParse(body);
+    if (!parseResult.success) {
+      const errors = parseResult.error.issues.map((e) => ({
+        path: e.path.join("."),
+        message: e.message,
+      }));
+      return NextResponse.json(
+        {
+          error: "Validation Error",
+          message: "Invalid request",
+          details: errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { blindedResponses, prompt, userUrl, judgeEngine, mapping, mock } =
+      parseResult.data;
+
+    const ssrfCheck = validateUrlForSSRF(userUrl);
+    if (!ssrfCheck.valid) {
+      return NextResponse.json(
+        {
+          error: "URL Validation Error",
+          message: ssrfCheck.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Decode before spending anything so a bad mapping fails fast
+    let decodedMapping: BlindMapping[] | undefined;
+    if (mapping) {
+      try {
+        decodedMapping = decodeMapping(mapping);
+      } catch {
+        return NextResponse.json(
+          { error: "Validation Error", message: "Invalid mapping data" },
+          { status: 400 }
+        );
+      }
+
+      const mappedIds = new Set(decodedMapping.map((m) => m.blindId));
+      const unmapped = blindedResponses.filter((r) => !mappedIds.has(r.blindId));
+      if (unmapped.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Validation Error",
+            message: `Mapping does not cover: ${unmapped.map((r) => r.blindId).join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    let evaluation: Evaluation;
+    let tokenCount = { prompt: 0, completion: 0, total: 0 };
+    let cost = 0;
+
+    if (mock) {
+      await new Promise((resolve) => setTimeout(resolve, 800));
+      evaluation = {
+        judgeId: judgeEngine,
+        rankings: blindedResponses.map((r, index) => ({ blindId: r.blindId, rank: index + 1 })),
+        reasoning: "Mock evaluation: responses ranked in the order provided.",
+        timestamp: Date.now(),
+      };
+    } else {
+      const missingKeys = apiKeyManager.getMissingKeysForModels([judgeEngine]);
+      if (missingKeys.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Council Mode Unavailable",
+            message: `${missingKeys.join(", ")} is not configured.`,
+          },
+          { status: 503 }
+        );
+      }
+
+      const costCheck = validateRequestCost(
+        estimateEvaluationCost(judgeEngine, blindedResponses.length)
+      );
+      if (!costCheck.allowed) {
+        return NextResponse.json(
+          { error: "Cost Limit Exceeded", message: costCheck.reason },
+          { status: 400 }
+        );
+      }
+
+      const judged = await evaluateBlindedResponses(
+        judgeEngine,
+        prompt,
+        userUrl,
+        blindedResponses
+      );
+      evaluation = judged.evaluation;
+      tokenCount = judged.tokenCount;
+      cost = judged.cost;
+    }
+
+    const aggregation = decodedMapping
+      ? aggregateRankings([evaluation], decodedMapping)
+      : undefined;
+
+    return NextResponse.json({
+      evaluation,
+      rankings: aggregation ? toCouncilRankings(aggregation) : undefined,
+      winner: aggregation?.winner.engineId,
+      consensusLevel: aggregation?.consensusLevel,
+      costs: {
+        inputTokens: tokenCount.prompt,
+        outputTokens: tokenCount.completion,
+        totalCost: cost,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error in /api/council/evaluate:", error);
+    return NextResponse.json(
+      {
+        error: "Evaluation Failed",
+        message: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,632 @@
+/**
+ * Council Stream API
+ *
+ * Runs a full council session: queries every configured engine, optionally
+ * runs debate rounds in which each engine critiques the others' blinded
+ * answers and revises its own, blinds the answers, has the judge (or, in peer mode, every engine) rank them -
+ * either as a full list or, in pairwise mode, two at a time - aggregates
+ * the rankings and optionally synthesizes a combined answer.
+ * Blinded answers are audited for residual identity leaks before judging.
+ * Progress is streamed as CouncilStreamEvents.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  queryModel,
+  isQueryError,
+  checkUrlMention,
+  type OpenRouterResponse,
+} from "../../../../services/openRouterService";
+import {
+  evaluateBlindedResponses,
+  synthesizeResponses,
+  toCouncilRankings,
+  toCouncilSelfPreference,
+  getEngineVendor,
+  buildComparisonPairs,
+  compareBlindedPair,
+  probeJudgeIdentityGuesses,
+  toCouncilIdentityAudit,
+  reviseAfterDebate,
+  type DebateRevisionResult,
+  type IdentityProbeResult,
+  type JudgeEvaluationResult,
+  type PairwiseJudgeResult,
+} from "../../../../services/councilService";
+import {
+  blindResponses,
+  encodeMapping,
+  validateBlindingCompleteness,
+  type BlindedResponse,
+  type BlindingResult,
+} from "../../../../lib/council/blind-review";
+import {
+  aggregateRankings,
+  aggregatePairwiseComparisons,
+  type AggregationResult,
+  type Evaluation,
+  type PairwiseComparison,
+} from "../../../../lib/council/rankings";
+import { aggregatePeerReview } from "../../../../lib/council/peer-review";
+import { applyJudgeGuesses } from "../../../../lib/council/identity-audit";
+import { councilStreamRequestSchema } from "../../../../lib/security/validators";
+import { validateUrlForSSRF } from "../../../../lib/security/ssrf-guard";
+import { apiKeyManager } from "../../../../lib/security/api-keys";
+import { estimateCouncilSessionCost } from "../../../../lib/security/cost-guard";
+import { SSE_HEADERS, sendEvent, closeController } from "../../../../lib/streaming/sse";
+import {
+  type LLMModelId,
+  type CouncilSelfPreference,
+  type CouncilIdentityAudit,
+  type CouncilDebateRound,
+  type CouncilStreamEvent,
+  type CouncilStreamEventType,
+} from "../../../../types";
+
+const CONTENT_PREVIEW_LENGTH = 300;
+
+// ============================================
+// Mock Data
+// ============================================
+
+async function mockQueryEngine(engineId: LLMModelId): Promise<OpenRouterResponse> {
+  const { MOCK_COUNCIL_RESPONSES } = await import("../../../../data/mockData");
+  await new Promise((resolve) => setTimeout(resolve, 400 + Math.random() * 800));
+
+  // Models without their own mock reuse one from the same provider
+  const mocks = Object.values(MOCK_COUNCIL_RESPONSES);
+  const mock =
+    mocks.find((m) => m.engineId === engineId) ??
+    mocks.find((m) => getEngineVendor(m.engineId) === getEngineVendor(engineId)) ??
+    mocks[0];
+  return {
+    engineId,
+    content: mock.content,
+    tokenCount: mock.tokenCount,
+    cost: mock.cost,
+    latencyMs: mock.latencyMs,
+  };
+}
+
+// Position in the fixed mock ranking; models without a mock rank last
+function mockOrderIndex(
+  rankings: ReadonlyArray<{ engineId: string }>,
+  engineId: LLMModelId
+): number {
+  const index = rankings.findIndex((r) => r.engineId === engineId);
+  return index === -1 ? rankings.length : index;
+}
+
+async function mockCompare(
+  judgeEngine: LLMModelId,
+  blinding: BlindingResult,
+  first: BlindedResponse,
+  second: BlindedResponse
+): Promise<PairwiseJudgeResult> {
+  const { MOCK_COUNCIL_EVALUATION } = await import("../../../../data/mockData");
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  // Prefer whichever engine ranks higher in the fixed mock order
+  const position = (blindId: string) =>
+    mockOrderIndex(
+      MOCK_COUNCIL_EVALUATION.rankings,
+      blinding.mapping.find((m) => m.blindId === blindId)!.engineId
+    );
+
+  return {
+    comparison: {
+      judgeId: judgeEngine,
+      blindIdA: first.blindId,
+      blindIdB: second.blindId,
+      winner: position(first.blindId) < position(second.blindId) ? first.blindId : second.blindId,
+      reasoning: "Mock comparison: the more comprehensive response wins.",
+      timestamp: Date.now(),
+    },
+    tokenCount: { prompt: 900, completion: 150, total: 1050 },
+    cost: 0.001,
+    latencyMs: 300,
+  };
+}
+
+async function mockEvaluate(
+  judgeEngine: LLMModelId,
+  blinding: BlindingResult
+): Promise<JudgeEvaluationResult> {
+  const { MOCK_COUNCIL_EVALUATION } = await import("../../../../data/mockData");
+  await new Promise((resolve) => setTimeout(resolve, 800));
+
+  // Rank in the fixed mock order, translated to this session's blind IDs
+  const ranked = [...blinding.mapping].sort(
+    (a, b) =>
+      mockOrderIndex(MOCK_COUNCIL_EVALUATION.rankings, a.engineId) -
+      mockOrderIndex(MOCK_COUNCIL_EVALUATION.rankings, b.engineId)
+  );
+
+  return {
+    evaluation: {
+      judgeId: judgeEngine,
+      rankings: ranked.map((m, index) => ({ blindId: m.blindId, rank: index + 1 })),
+      reasoning: "Mock evaluation: responses ranked by comprehensiveness and natural retailer mentions.",
+      timestamp: Date.now(),
+    },
+    tokenCount: { prompt: 1800, completion: 400, total: 2200 },
+    cost: 0.003,
+    latencyMs: 800,
+  };
+}
+
+async function mockProbe(
+  blinding: BlindingResult,
+  fingerprintGuesses: Record<string, string>
+): Promise<IdentityProbeResult> {
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  // The mock judge only "recognizes" what the fingerprints already caught
+  return {
+    guesses: Object.fromEntries(
+      blinding.blindedResponses
+        .filter((r) => fingerprintGuesses[r.blindId])
+        .map((r) => [r.blindId, fingerprintGuesses[r.blindId]])
+    ),
+    tokenCount: { prompt: 1500, completion: 40, total: 1540 },
+    cost: 0.001,
+    latencyMs: 300,
+  };
+}
+
+async function mockRevise(ownContent: string): Promise<DebateRevisionResult> {
+  await new Promise((resolve) => setTimeout(resolve, 500 + Math.random() * 500));
+
+  return {
+    critique: "Mock critique: the other answers cover similar picks; one lists a retailer without saying why it is a good place to buy.",
+    revisedContent: `${ownContent}\n\nAfter comparing notes, these recommendations still stand.`,
+    tokenCount: { prompt: 2400, completion: 900, total: 3300 },
+    cost: 0.002,
+    latencyMs: 700,
+  };
+}
+
+// ============================================
+// POST Handler
+// ============================================
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = councilStreamRequestSchema.safeParse(body);
+  if (!parseResult.success) {
+    const errors = parseResult.error.issues.map((e) => ({
+      path: e.path.join("."),
+      message: e.message,
+    }));
+    return NextResponse.json(
+      {
+        error: "Validation Error",
+        message: "Invalid request",
+        details: errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { prompt, userUrl, config, mock } = parseResult.data;
+  const engines = Array.from(new Set(config.engines));
+  const judgeEngine = config.judgeEngine;
+
+  const ssrfCheck = validateUrlForSSRF(userUrl);
+  if (!ssrfCheck.valid) {
+    return NextResponse.json(
+      {
+        error: "URL Validation Error",
+        message: ssrfCheck.error,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Peer judges' same-vendor rankings are dropped, so one vendor alone leaves nothing to rank
+  if (config.evaluationMode === "peer" && new Set(engines.map(getEngineVendor)).size < 2) {
+    return NextResponse.json(
+      {
+        error: "Validation Error",
+        message: "Peer review needs engines from at least two vendors",
+      },
+      { status: 400 }
+    );
+  }
+
+  // Every engine (and the judge) needs the key of the adapter it's queried through
+  const missingKeys = mock ? [] : apiKeyManager.getMissingKeysForModels([...engines, judgeEngine]);
+  if (missingKeys.length > 0) {
+    return NextResponse.json(
+      {
+        error: "Council Mode Unavailable",
+        message: `${missingKeys.join(", ")} is not configured. Enable Mock Mode to try council mode without API keys.`,
+      },
+      { status: 503 }
+    );
+  }
+
+  const estimate = estimateCouncilSessionCost(
+    engines,
+    judgeEngine,
+    config.enableSynthesis,
+    config.evaluationMode,
+    config.identityProbe,
+    config.debateRounds
+  );
+  if (!mock && !estimate.withinBudget) {
+    return NextResponse.json(
+      {
+        error: "Cost Limit Exceeded",
+        message: estimate.warnings[0],
+        estimatedCost: estimate.totalCost,
+      },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const isClosed = { value: false };
+      const emit = (type: CouncilStreamEventType, data: Record<string, unknown>) =>
+        sendEvent(controller, encoder, { type, data, timestamp: Date.now() } satisfies CouncilStreamEvent, isClosed);
+      const sessionStart = Date.now();
+      let totalCost = 0;
+
+      try {
+        // Stage 1: query every engine in parallel
+        emit("stage", { stage: 1, name: "query", description: "Querying AI models" });
+
+        const responses: OpenRouterResponse[] = [];
+
+        await Promise.all(
+          engines.map(async (engineId) => {
+            emit("engine_start", { engineId });
+
+            const result = mock
+              ? await mockQueryEngine(engineId)
+              : await queryModel(engineId, prompt);
+
+            if (isQueryError(result)) {
+              emit("engine_error", { engineId, error: result.error });
+              return;
+            }
+
+            responses.push(result);
+            totalCost += result.cost;
+            emit("engine_complete", {
+              engineId,
+              tokenCount: result.tokenCount,
+              latencyMs: result.latencyMs,
+              cost: result.cost,
+              contentPreview: result.content.slice(0, CONTENT_PREVIEW_LENGTH),
+            });
+          })
+        );
+
+        if (responses.length < 2) {
+          emit("error", {
+            error: "Not enough responses",
+            message: `Only ${responses.length} of ${engines.length} engines responded; at least 2 are needed for evaluation.`,
+          });
+          closeController(controller, isClosed);
+          return;
+        }
+
+        // Stage 2 (optional): debate rounds. Every engine critiques the
+        // others' blinded answers from the same round and revises its own.
+        const debate: CouncilDebateRound[] = [];
+        const hasDebate = config.debateRounds > 0;
+        if (hasDebate) {
+          emit("stage", { stage: 2, name: "debate", description: "Debating answers" });
+
+          for (let round = 1; round <= config.debateRounds; round++) {
+            emit("debate_round_start", { round, totalRounds: config.debateRounds });
+            const current = responses.map((r) => ({ ...r }));
+            const debateRound: CouncilDebateRound = { round, revisions: [] };
+
+            await Promise.all(
+              current.map(async (own, index) => {
+                const others = blindResponses(
+                  current
+                    .filter((r) => r.engineId !== own.engineId)
+                    .map((r) => ({ engineId: r.engineId, content: r.content })),
+                  { normalizeMarkdown: config.normalizeMarkdown }
+                ).blindedResponses;
+
+                try {
+                  const revision = mock
+                    ? await mockRevise(own.content)
+                    : await reviseAfterDebate(own.engineId, prompt, own.content, others);
+
+                  const entry = {
+                    engineId: own.engineId,
+                    critique: revision.critique,
+                    contentPreview: revision.revisedContent.slice(0, CONTENT_PREVIEW_LENGTH),
+                    urlMentionedBefore: checkUrlMention(own.content, userUrl).found,
+                    urlMentionedAfter: checkUrlMention(revision.revisedContent, userUrl).found,
+                    cost: revision.cost,
+                    latencyMs: revision.latencyMs,
+                  };
+                  debateRound.revisions.push(entry);
+                  responses[index] = {
+                    ...responses[index],
+                    content: revision.revisedContent,
+                    cost: responses[index].cost + revision.cost,
+                  };
+                  totalCost += revision.cost;
+
+                  emit("debate_revision_complete", { round, ...entry });
+                } catch (error: any) {
+                  // The engine keeps its previous answer for the next round
+                  emit("debate_revision_error", { round, engineId: own.engineId, error: error.message });
+                }
+              })
+            );
+
+            debate.push(debateRound);
+            emit("debate_round_complete", {
+              round,
+              revisions: debateRound.revisions.length,
+              mentionsKept: debateRound.revisions.filter(
+                (r) => r.urlMentionedBefore && r.urlMentionedAfter
+              ).length,
+              mentionsDropped: debateRound.revisions.filter(
+                (r) => r.urlMentionedBefore && !r.urlMentionedAfter
+              ).length,
+              mentionsAdded: debateRound.revisions.filter(
+                (r) => !r.urlMentionedBefore && r.urlMentionedAfter
+              ).length,
+            });
+          }
+        }
+
+        // Next stage: blind review of the final answers by the judge or peer panel
+        const evaluateStage = hasDebate ? 3 : 2;
+        emit("stage", { stage: evaluateStage, name: "evaluate", description: "Evaluating responses" });
+
+        const blinding = blindResponses(
+          responses.map((r) => ({
+            engineId: r.engineId,
+            content: r.content,
+            metadata: {
+              tokenCount: r.tokenCount.total,
+              latencyMs: r.latencyMs,
+              cost: r.cost,
+            },
+          })),
+          { normalizeMarkdown: config.normalizeMarkdown }
+        );
+
+        // Score residual identity signals; optionally ask the judge to guess
+        let leakage = validateBlindingCompleteness(
+          blinding,
+          responses.map((r) => r.engineId),
+          getEngineVendor
+        ).leakage!;
+
+        if (config.identityProbe) {
+          try {
+            const vendors = Array.from(new Set(responses.map((r) => getEngineVendor(r.engineId))));
+            const probe = mock
+              ? await mockProbe(
+                  blinding,
+                  Object.fromEntries(
+                    leakage.responses
+                      .filter((r) => r.likelyVendor)
+                      .map((r) => [r.blindId, r.likelyVendor!])
+                  )
+                )
+              : await probeJudgeIdentityGuesses(judgeEngine, blinding.blindedResponses, vendors);
+            totalCost += probe.cost;
+            leakage = applyJudgeGuesses(leakage, probe.guesses);
+          } catch (error: any) {
+            // The probe only adds evidence; judging can proceed without it
+            console.error("[Council] Identity probe failed:", error.message);
+          }
+        }
+
+        const identityAudit: CouncilIdentityAudit = toCouncilIdentityAudit(leakage, blinding.mapping);
+        emit("identity_audit", { ...identityAudit });
+
+        const evaluations: Evaluation[] = [];
+        const comparisons: PairwiseComparison[] = [];
+
+        if (config.evaluationMode === "pairwise") {
+          // One judge, one call per pair of responses
+          const pairs = buildComparisonPairs(blinding.blindedResponses);
+          emit("evaluation_start", {
+            judgeEngine,
+            sessionId: blinding.sessionId,
+            comparisons: pairs.length,
+          });
+
+          let pairwiseCost = 0;
+          await Promise.all(
+            pairs.map(async ([first, second]) => {
+              try {
+                const judged = mock
+                  ? await mockCompare(judgeEngine, blinding, first, second)
+                  : await compareBlindedPair(judgeEngine, prompt, userUrl, first, second);
+                pairwiseCost += judged.cost;
+                comparisons.push(judged.comparison);
+
+                emit("comparison_complete", {
+                  judgeEngine,
+                  blindIdA: judged.comparison.blindIdA,
+                  blindIdB: judged.comparison.blindIdB,
+                  winner: judged.comparison.winner,
+                  reasoning: judged.comparison.reasoning,
+                  cost: judged.cost,
+                  latencyMs: judged.latencyMs,
+                });
+              } catch (error: any) {
+                // Missing pairs only widen the confidence intervals
+                console.error(
+                  `[Council] Comparison ${first.blindId} vs ${second.blindId} failed:`,
+                  error.message
+                );
+              }
+            })
+          );
+          totalCost += pairwiseCost;
+
+          if (comparisons.length === 0) {
+            throw new Error("Every pairwise comparison failed");
+          }
+
+          emit("evaluation_complete", {
+            judgeEngine,
+            comparisons: comparisons.length,
+            cost: pairwiseCost,
+          });
+        } else {
+          // Peer mode: every engine that answered also judges; judge mode: one judge
+          const judges: LLMModelId[] =
+            config.evaluationMode === "peer"
+              ? responses.map((r) => r.engineId)
+              : [judgeEngine];
+
+          await Promise.all(
+            judges.map(async (judgeId) => {
+              emit("evaluation_start", { judgeEngine: judgeId, sessionId: blinding.sessionId });
+
+              try {
+                const judged = mock
+                  ? await mockEvaluate(judgeId, blinding)
+                  : await evaluateBlindedResponses(judgeId, prompt, userUrl, blinding.blindedResponses);
+                totalCost += judged.cost;
+                evaluations.push(judged.evaluation);
+
+                emit("evaluation_complete", {
+                  judgeEngine: judgeId,
+                  reasoning: judged.evaluation.reasoning,
+                  rankings: judged.evaluation.rankings,
+                  cost: judged.cost,
+                  latencyMs: judged.latencyMs,
+                });
+              } catch (error: any) {
+                // A single judge failing is fatal only when it is the only judge
+                if (judges.length === 1) throw error;
+                console.error(`[Council] Peer judge ${judgeId} failed:`, error.message);
+              }
+            })
+          );
+
+          if (evaluations.length === 0) {
+            throw new Error("Every peer judge failed to return a ranking");
+          }
+        }
+
+        let aggregation: AggregationResult;
+        let selfPreference: CouncilSelfPreference[] | undefined;
+        if (config.evaluationMode === "pairwise") {
+          aggregation = aggregatePairwiseComparisons(comparisons, blinding.mapping);
+        } else if (config.evaluationMode === "peer") {
+          const panel = aggregatePeerReview(evaluations, blinding.mapping, getEngineVendor);
+          aggregation = panel.aggregation;
+          selfPreference = toCouncilSelfPreference(panel.selfPreference);
+        } else {
+          aggregation = aggregateRankings(evaluations, blinding.mapping);
+        }
+
+        const rankings = toCouncilRankings(aggregation);
+        const winner = aggregation.winner.engineId;
+
+        emit("rankings", {
+          rankings,
+          winner,
+          consensusLevel: aggregation.consensusLevel,
+          selfPreference,
+        });
+
+        const rankByEngine = new Map(rankings.map((r) => [r.engineId as string, r.finalRank]));
+
+        // Stage 3: optional synthesis (non-fatal if it fails)
+        let synthesizedContent: string | undefined;
+        if (config.enableSynthesis) {
+          emit("stage", {
+            stage: evaluateStage + 1,
+            name: "synthesize",
+            description: "Synthesizing optimal answer",
+          });
+          emit("synthesis_start", { engineId: judgeEngine });
+
+          try {
+            if (mock) {
+              const { MOCK_COUNCIL_SYNTHESIS } = await import("../../../../data/mockData");
+              await new Promise((resolve) => setTimeout(resolve, 800));
+              synthesizedContent = MOCK_COUNCIL_SYNTHESIS;
+              totalCost += 0.002;
+            } else {
+              const synthesis = await synthesizeResponses(
+                judgeEngine,
+                prompt,
+                userUrl,
+                responses.map((r) => ({
+                  engineId: r.engineId,
+                  content: r.content,
+                  rank: rankByEngine.get(r.engineId),
+                }))
+              );
+              synthesizedContent = synthesis.content;
+              totalCost += synthesis.cost;
+            }
+
+            emit("synthesis_complete", { content: synthesizedContent });
+          } catch (error: any) {
+            console.error("[Council] Synthesis failed:", error.message);
+          }
+        }
+
+        emit("complete", {
+          sessionId: blinding.sessionId,
+          prompt,
+          userUrl,
+          winner,
+          consensusLevel: aggregation.consensusLevel,
+          selfPreference,
+          identityAudit,
+          debate: hasDebate ? debate : undefined,
+          synthesizedContent,
+          totalCost,
+          totalLatencyMs: Date.now() - sessionStart,
+          engineResponses: responses.map((r) => ({
+            engineId: r.engineId,
+            content: r.content,
+            rank: rankByEngine.get(r.engineId),
+            tokenCount: r.tokenCount,
+            cost: r.cost,
+            latencyMs: r.latencyMs,
+          })),
+          // Kept so the session can be re-judged or re-synthesized later
+          blindedResponses: blinding.blindedResponses,
+          mapping: encodeMapping(blinding.mapping),
+          evaluations,
+          comparisons,
+        });
+
+        closeController(controller, isClosed);
+      } catch (error: any) {
+        emit("error", {
+          error: "Council session failed",
+          message: error.message || "Unknown error",
+        });
+        closeController(controller, isClosed);
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,188 @@
+/**
+ * Council Synthesize API
+ *
+ * Produces the synthesizedContent of a CouncilResult from stored engine
+ * responses, without querying the engines again. Ranks are taken from the
+ * supplied evaluations (de-anonymized with the session mapping) or, failing
+ * that, from the rank on each engine response.
+ */
+
+import { NextResponse } from "next/server";
+import {
+  synthesizeResponses,
+  type RankedResponse,
+} from "../../../../services/councilService";
+import { decodeMapping, type BlindMapping } from "../../../../lib/council/blind-review";
+import { aggregateRankings } from "../../../../lib/council/rankings";
+import { councilSynthesizeRequestSchema } from "../../../../lib/security/validators";
+import { validateUrlForSSRF } from "../../../../lib/security/ssrf-guard";
+import { apiKeyManager } from "../../../../lib/security/api-keys";
+import {
+  estimateSynthesisCost,
+  validateRequestCost,
+} from "../../../../lib/security/cost-guard";
+import type { LLMModelId } from "../../../../types";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const parseResult = councilSynthesizeRequestSchema.safeParse(body);
+    if (!parseResult.success) {
+      const errors = parseResult.error.issues.map((e) => ({
+        path: e.path.join("."),
+        message: e.message,
+      }));
+      return NextResponse.json(
+        {
+          error: "Validation Error",
+          message: "Invalid request",
+          details: errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      engineResponses,
+      evaluations,
+      mapping,
+      synthesizerEngine,
+      prompt,
+      userUrl,
+      mock,
+    } = parseResult.data;
+
+    const ssrfCheck = validateUrlForSSRF(userUrl);
+    if (!ssrfCheck.valid) {
+      return NextResponse.json(
+        {
+          error: "URL Validation Error",
+          message: ssrfCheck.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Resolve ranks: aggregated evaluations win over client-supplied ranks
+    const rankByEngine = new Map<LLMModelId, number>();
+    if (evaluations.length > 0) {
+      // Blind IDs mean nothing without the mapping; silently falling back would ignore the evaluations
+      if (!mapping) {
+        return NextResponse.json(
+          { error: "Validation Error", message: "mapping is required when evaluations are supplied" },
+          { status: 400 }
+        );
+      }
+
+      let decoded: BlindMapping[] = [];
+      try {
+        decoded = decodeMapping(mapping);
+      } catch {
+        // Falls through to the invalid-mapping response below
+      }
+      if (!Array.isArray(decoded) || decoded.length === 0 || decoded.some((m) => typeof m?.engineId !== "string")) {
+        return NextResponse.json(
+          { error: "Validation Error", message: "Invalid mapping data" },
+          { status: 400 }
+        );
+      }
+
+      // A mapping from another session would attach its ranks to the wrong responses
+      const mappedEngines = new Set<string>(decoded.map((m) => m.engineId));
+      const responseEngines = Object.keys(engineResponses);
+      if (
+        mappedEngines.size !== responseEngines.length ||
+        responseEngines.some((engineId) => !mappedEngines.has(engineId))
+      ) {
+        return NextResponse.json(
+          { error: "Validation Error", message: "mapping engines do not match engineResponses" },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const aggregation = aggregateRankings(evaluations, decoded);
+        aggregation.rankings.forEach((r) => rankByEngine.set(r.engineId, r.finalRank));
+      } catch {
+        return NextResponse.json(
+          { error: "Validation Error", message: "Invalid mapping data" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const responses: RankedResponse[] = Object.entries(engineResponses).map(
+      ([engineId, response]) => ({
+        engineId: engineId as LLMModelId,
+        content: response.content,
+        rank: rankByEngine.get(engineId as LLMModelId) ?? response.rank,
+      })
+    );
+
+    if (mock) {
+      const { MOCK_COUNCIL_SYNTHESIS } = await import("../../../../data/mockData");
+      await new Promise((resolve) => setTimeout(resolve, 800));
+      return NextResponse.json({
+        synthesizedContent: MOCK_COUNCIL_SYNTHESIS,
+        rankings: responses.map((r) => ({ engineId: r.engineId, rank: r.rank })),
+        costs: { inputTokens: 0, outputTokens: 0, totalCost: 0 },
+      });
+    }
+
+    const missingKeys = apiKeyManager.getMissingKeysForModels([synthesizerEngine]);
+    if (missingKeys.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Council Mode Unavailable",
+          message: `${missingKeys.join(", ")} is not configured.`,
+        },
+        { status: 503 }
+      );
+    }
+
+    const costCheck = validateRequestCost(
+      estimateSynthesisCost(synthesizerEngine, responses.length)
+    );
+    if (!costCheck.allowed) {
+      return NextResponse.json(
+        { error: "Cost Limit Exceeded", message: costCheck.reason },
+        { status: 400 }
+      );
+    }
+
+    const synthesis = await synthesizeResponses(
+      synthesizerEngine,
+      prompt,
+      userUrl,
+      responses
+    );
+
+    return NextResponse.json({
+      synthesizedContent: synthesis.content,
+      rankings: responses.map((r) => ({ engineId: r.engineId, rank: r.rank })),
+      costs: {
+        inputTokens: synthesis.tokenCount.prompt,
+        outputTokens: synthesis.tokenCount.completion,
+        totalCost: synthesis.cost,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error in /api/council/synthesize:", error);
+    return NextResponse.json(
+      {
+        error: "Synthesis Failed",
+        message: error?.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
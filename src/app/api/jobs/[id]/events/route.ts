@@ -0,0 +1,91 @@
+/**
+ * Background Job Events API
+ *
+ * SSE stream of a job's run events, in the same format as
+ * /api/visibility/test. A queued job sends a "queued" event first and the
+ * run's events once the worker starts it. Reconnect with a Last-Event-ID
+ * header (or ?lastEventId) to replay what was missed. Disconnecting never
+ * stops the job.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getVisibilityJob, isValidRunId } from "../../../../../lib/storage/visibility-runs";
+import { hasVisibilityRunLog } from "../../../../../services/visibilityRunService";
+import {
+  subscribeToVisibilityJob,
+  isVisibilityJobPending,
+} from "../../../../../services/visibilityJobQueue";
+import { SSE_HEADERS, sendEvent, closeController } from "../../../../../lib/streaming/sse";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET Handler
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  const job = isValidRunId(id) ? await getVisibilityJob(id) : null;
+  if (!job) {
+    return NextResponse.json(
+      { error: "Not Found", message: `Job ${id} does not exist` },
+      { status: 404 }
+    );
+  }
+
+  // Finished and its event log has expired: GET /api/jobs/:id has the result
+  if (!isVisibilityJobPending(job) && !hasVisibilityRunLog(job.runId)) {
+    return NextResponse.json(
+      { error: "Gone", message: `Job ${id} has finished; load it from /api/jobs/${id}` },
+      { status: 410 }
+    );
+  }
+
+  const lastEventId = parseInt(
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId") ?? "0",
+    10
+  );
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const isClosed = { value: false };
+
+      unsubscribe = subscribeToVisibilityJob(
+        job,
+        Number.isFinite(lastEventId) ? lastEventId : 0,
+        (event) => {
+          sendEvent(controller, encoder, event, isClosed);
+          if (event.type === "complete" || event.type === "cancelled" || event.type === "error") {
+            closeController(controller, isClosed);
+          }
+        }
+      );
+
+      request.signal.addEventListener("abort", () => {
+        unsubscribe?.();
+        closeController(controller, isClosed);
+      });
+
+      // The job finished between the check above and now
+      if (!unsubscribe) {
+        sendEvent(controller, encoder, {
+          type: "error",
+          data: { runId: job.runId, error: "Job is no longer active" },
+          timestamp: Date.now(),
+        }, isClosed);
+        closeController(controller, isClosed);
+      }
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,58 @@
+/**
+ * Background Job API
+ *
+ * GET returns a job's status and progress together with its run as
+ * checkpointed so far (null while the job is queued). DELETE cancels it;
+ * a running job keeps the results it already has.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getVisibilityJob, getVisibilityRun, isValidRunId } from "../../../../lib/storage/visibility-runs";
+import { cancelVisibilityJob } from "../../../../services/visibilityJobQueue";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFoundResponse(id: string) {
+  return NextResponse.json(
+    { error: "Not Found", message: `Job ${id} does not exist` },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidRunId(id)) return notFoundResponse(id);
+
+  try {
+    const job = await getVisibilityJob(id);
+    if (!job) return notFoundResponse(id);
+
+    const run = await getVisibilityRun(job.runId);
+    return NextResponse.json({ job, run });
+  } catch (error: any) {
+    console.error(`[Jobs] Failed to load job ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load job" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidRunId(id)) return notFoundResponse(id);
+
+  try {
+    const job = await cancelVisibilityJob(id);
+    if (!job) return notFoundResponse(id);
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    console.error(`[Jobs] Failed to cancel job ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
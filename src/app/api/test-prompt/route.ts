@@ -7,6 +7,7 @@ import {
 } from "../../../lib/security/validators";
 import { validateUrlForSSRF } from "../../../lib/security/ssrf-guard";
 import { getGeminiKey } from "../../../lib/security/api-keys";
+import { hasRecordedResponse, testModelVisibility } from "../../../services/visibilityService";
 
 // Lazy initialization of AI client
 let ai: GoogleGenAI | null = null;
@@ -48,6 +49,27 @@ async function generateWithRetry(
   }
 }
 
+/**
+ * Replay the recorded Gemini grounded answer for this prompt through the
+ * visibility detection pipeline (see lib/providers/fixtures)
+ *
+ * @returns null if no answer was recorded for the prompt
+ */
+async function replayGroundedResult(prompt: string, userUrl: string) {
+  if (!(await hasRecordedResponse("gemini-grounded", prompt))) return null;
+
+  const result = await testModelVisibility("gemini-grounded", prompt, userUrl, undefined, { replay: true });
+  if (result.status !== "complete") return null;
+
+  return {
+    status: result.found ? "found" : "not-found",
+    rank: result.rank ?? null,
+    sentiment: result.sentiment,
+    answerText: result.responseText ?? "",
+    sources: result.sources ?? [],
+  };
+}
+
 export async function POST(request: Request) {
   let prompt = "";
   try {
@@ -91,12 +113,13 @@ export async function POST(request: Request) {
         const result = await testPromptWithOpenAI(prompt, userUrl, engine, true);
         return NextResponse.json(result);
       }
-      // Existing Gemini mock logic
-      const { MOCK_TEST_RESULT } = await import("../../../data/mockData");
+      // Gemini mock: a recorded grounded answer if there is one, else the canned result
       await new Promise((resolve) => setTimeout(resolve, 1000));
-      // Randomize rank slightly for realism
-      const rank = Math.random() > 0.5 ? 3 : 1;
-      return NextResponse.json({ ...MOCK_TEST_RESULT, rank });
+      const replayed = await replayGroundedResult(prompt, userUrl);
+      if (replayed) return NextResponse.json(replayed);
+
+      const { MOCK_TEST_RESULT } = await import("../../../data/mockData");
+      return NextResponse.json(MOCK_TEST_RESULT);
     }
 
     if (engine.id === "gpt4o") {
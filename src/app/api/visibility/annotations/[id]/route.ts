@@ -0,0 +1,33 @@
+/**
+ * Site Change Annotation API
+ *
+ * DELETE removes one annotation.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSiteAnnotation } from "../../../../../lib/storage/visibility-runs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteSiteAnnotation(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Not Found", message: `Annotation ${id} does not exist` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ deleted: true, id });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to delete annotation ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to delete annotation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Site Change Annotations API
+ *
+ * GET lists annotations for a brand; POST records when the brand's site
+ * changed so trend charts can mark it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import {
+  listSiteAnnotations,
+  addSiteAnnotation,
+} from "../../../../lib/storage/visibility-runs";
+import { getBrandKey } from "../../../../services/trendAnalysisService";
+import type { SiteChangeAnnotation } from "../../../../types";
+
+const annotationRequestSchema = z.object({
+  brandUrl: z.string().url(),
+  date: z.union([z.number().int().positive(), z.string().datetime({ offset: true }), z.string().date()]),
+  label: z.string().trim().min(1).max(120),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const brandUrl = request.nextUrl.searchParams.get("brandUrl");
+
+  try {
+    const annotations = await listSiteAnnotations(brandUrl ? getBrandKey(brandUrl) : undefined);
+    return NextResponse.json({ annotations });
+  } catch (error: any) {
+    console.error("[Visibility] Failed to list annotations:", error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load annotations" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = annotationRequestSchema.safeParse(body);
+  if (!parseResult.success) {
+    const errors = parseResult.error.issues.map((e) => ({
+      path: e.path.join("."),
+      message: e.message,
+    }));
+    return NextResponse.json(
+      {
+        error: "Validation Error",
+        message: "Invalid request",
+        details: errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { brandUrl, date, label, note } = parseResult.data;
+  const annotation: SiteChangeAnnotation = {
+    id: nanoid(12),
+    brandKey: getBrandKey(brandUrl),
+    date: typeof date === "number" ? date : new Date(date).getTime(),
+    label,
+    note: note || undefined,
+    createdAt: Date.now(),
+  };
+
+  try {
+    await addSiteAnnotation(annotation);
+    return NextResponse.json({ annotation }, { status: 201 });
+  } catch (error: any) {
+    console.error("[Visibility] Failed to save annotation:", error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to save annotation" },
+      { status: 500 }
+    );
+  }
+}
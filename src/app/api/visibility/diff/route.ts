@@ -0,0 +1,46 @@
+/**
+ * Visibility Run Diff API
+ *
+ * GET ?base=<runId>&compare=<runId> returns the cell-by-cell differences
+ * between two persisted runs: found/not-found flips, citation rank moves,
+ * sentiment changes, competitor churn and cost/latency deltas.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getVisibilityRun, isValidRunId } from "../../../../lib/storage/visibility-runs";
+import { diffVisibilityRuns } from "../../../../services/runDiffService";
+
+export async function GET(request: NextRequest) {
+  const base = request.nextUrl.searchParams.get("base") ?? "";
+  const compare = request.nextUrl.searchParams.get("compare") ?? "";
+
+  if (!isValidRunId(base) || !isValidRunId(compare)) {
+    return NextResponse.json(
+      { error: "Validation Error", message: "base and compare must be valid run IDs" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [baseRun, compareRun] = await Promise.all([
+      getVisibilityRun(base),
+      getVisibilityRun(compare),
+    ]);
+
+    const missing = !baseRun ? base : !compareRun ? compare : null;
+    if (missing || !baseRun || !compareRun) {
+      return NextResponse.json(
+        { error: "Not Found", message: `Run ${missing} does not exist` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ diff: diffVisibilityRuns(baseRun, compareRun) });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to diff runs ${base} and ${compare}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load runs for comparison" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Visibility Monitor API
+ *
+ * PATCH pauses or resumes a monitor; DELETE removes it. Runs a monitor
+ * already produced stay in the run store.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  updateVisibilityMonitor,
+  deleteVisibilityMonitor,
+} from "../../../../../lib/storage/visibility-runs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const monitorUpdateSchema = z.object({
+  status: z.enum(["active", "paused"]),
+});
+
+function notFoundResponse(id: string) {
+  return NextResponse.json(
+    { error: "Not Found", message: `Monitor ${id} does not exist` },
+    { status: 404 }
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = monitorUpdateSchema.safeParse(body);
+  if (!parseResult.success) {
+    const errors = parseResult.error.issues.map((e) => ({
+      path: e.path.join("."),
+      message: e.message,
+    }));
+    return NextResponse.json(
+      {
+        error: "Validation Error",
+        message: "Invalid request",
+        details: errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { status } = parseResult.data;
+
+  try {
+    // A resumed monitor that missed its slot runs on the next tick
+    const monitor = await updateVisibilityMonitor(id, (m) => ({ ...m, status }));
+    if (!monitor) return notFoundResponse(id);
+    return NextResponse.json({ monitor });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to update monitor ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to update monitor" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteVisibilityMonitor(id);
+    if (!deleted) return notFoundResponse(id);
+    return NextResponse.json({ deleted: true, id });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to delete monitor ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to delete monitor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Visibility Monitors API
+ *
+ * GET lists saved monitors with their last-run status; POST saves a new
+ * monitor that the server re-runs daily or weekly. A new monitor's first
+ * run happens on the next scheduler tick, so there's a baseline right away.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import {
+  listVisibilityMonitors,
+  addVisibilityMonitor,
+} from "../../../../lib/storage/visibility-runs";
+import {
+  planVisibilityRun,
+  VisibilityRunError,
+  MAX_SAMPLES_PER_CELL,
+} from "../../../../services/visibilityRunService";
+import { startMonitorScheduler } from "../../../../services/monitorScheduler";
+import { brandMatchingSchema, visibilityQuerySchema } from "../../../../lib/security/validators";
+import type { VisibilityMonitor } from "../../../../types";
+
+const monitorRequestSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  brandUrl: z.string().url(),
+  brandName: z.string().optional(),
+  brandMatching: brandMatchingSchema.optional(),
+  queries: z.array(visibilityQuerySchema).min(1),
+  models: z.array(z.string()).min(1),
+  executionMode: z.enum(["all-queries-all-models", "all-queries-one-model", "one-query-all-models"]),
+  selectedModel: z.string().optional(),
+  selectedQueryId: z.string().optional(),
+  mock: z.boolean().optional().default(false),
+  samplesPerCell: z.number().int().min(1).max(MAX_SAMPLES_PER_CELL).optional(),
+  cadence: z.enum(["daily", "weekly"]),
+  budgetCap: z.number().positive().max(1000),
+});
+
+export async function GET() {
+  // Also covers servers where the instrumentation hook didn't run
+  startMonitorScheduler();
+
+  try {
+    const monitors = await listVisibilityMonitors();
+    return NextResponse.json({ monitors });
+  } catch (error: any) {
+    console.error("[Visibility] Failed to list monitors:", error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load monitors" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parseResult = monitorRequestSchema.safeParse(body);
+  if (!parseResult.success) {
+    const errors = parseResult.error.issues.map((e) => ({
+      path: e.path.join("."),
+      message: e.message,
+    }));
+    return NextResponse.json(
+      {
+        error: "Validation Error",
+        message: "Invalid request",
+        details: errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { name, cadence, budgetCap, ...runRequest } = parseResult.data;
+
+  // Reject monitors that could never run rather than failing every tick
+  try {
+    planVisibilityRun(runRequest);
+  } catch (error: any) {
+    if (error instanceof VisibilityRunError) {
+      return NextResponse.json(
+        { error: "Validation Error", message: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  const now = Date.now();
+  const monitor: VisibilityMonitor = {
+    id: nanoid(12),
+    name: name || runRequest.brandName || runRequest.brandUrl,
+    request: runRequest,
+    cadence,
+    budgetCap,
+    status: "active",
+    nextRunAt: now,
+    createdAt: now,
+  };
+
+  try {
+    await addVisibilityMonitor(monitor);
+    startMonitorScheduler();
+    return NextResponse.json({ monitor }, { status: 201 });
+  } catch (error: any) {
+    console.error("[Visibility] Failed to save monitor:", error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to save monitor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Visibility Run Re-analysis API
+ *
+ * POST re-runs brand, sentiment and competitor detection on a stored run's
+ * responses, optionally with a new brand name or brand matching config
+ * (aliases, negative contexts), and saves the outcome as a new run. No
+ * models are called, so the new run costs $0.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getVisibilityRun, isValidRunId } from "../../../../../../lib/storage/visibility-runs";
+import { reanalyzeVisibilityRun } from "../../../../../../services/visibilityRunService";
+import { brandMatchingSchema } from "../../../../../../lib/security/validators";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const reanalyzeRequestSchema = z.object({
+  brandName: z.string().trim().max(200).optional(),
+  brandMatching: brandMatchingSchema.optional(),
+});
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidRunId(id)) {
+    return NextResponse.json(
+      { error: "Validation Error", message: "Invalid run ID" },
+      { status: 400 }
+    );
+  }
+
+  // The body is optional; without one the run's own brand name and matching config are reused
+  let body: unknown = {};
+  const text = await request.text();
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json(
+        { error: "Validation Error", message: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+  }
+
+  const parseResult = reanalyzeRequestSchema.safeParse(body);
+  if (!parseResult.success) {
+    const errors = parseResult.error.issues.map((e) => ({
+      path: e.path.join("."),
+      message: e.message,
+    }));
+    return NextResponse.json(
+      {
+        error: "Validation Error",
+        message: "Invalid request",
+        details: errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const source = await getVisibilityRun(id);
+    if (!source) {
+      return NextResponse.json(
+        { error: "Not Found", message: `Run ${id} does not exist` },
+        { status: 404 }
+      );
+    }
+
+    const { run, persisted } = await reanalyzeVisibilityRun(
+      source,
+      parseResult.data.brandName || undefined,
+      parseResult.data.brandMatching
+    );
+    if (!persisted) {
+      throw new Error("Failed to persist re-analyzed run");
+    }
+
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to re-analyze run ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to re-analyze run" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Visibility Run API
+ *
+ * GET returns a persisted run with the full VisibilityAnalysisResult,
+ * including per-model response text, sources and cost.
+ * DELETE removes the run from the store.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getVisibilityRun,
+  deleteVisibilityRun,
+  isValidRunId,
+} from "../../../../../lib/storage/visibility-runs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function invalidIdResponse() {
+  return NextResponse.json(
+    { error: "Validation Error", message: "Invalid run ID" },
+    { status: 400 }
+  );
+}
+
+function notFoundResponse(id: string) {
+  return NextResponse.json(
+    { error: "Not Found", message: `Run ${id} does not exist` },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidRunId(id)) return invalidIdResponse();
+
+  try {
+    const run = await getVisibilityRun(id);
+    if (!run) return notFoundResponse(id);
+    return NextResponse.json({ run });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to load run ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load run" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidRunId(id)) return invalidIdResponse();
+
+  try {
+    const deleted = await deleteVisibilityRun(id);
+    if (!deleted) return notFoundResponse(id);
+    return NextResponse.json({ deleted: true, id });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to delete run ${id}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to delete run" },
+      { status: 500 }
+    );
+  }
+}
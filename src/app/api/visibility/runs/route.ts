@@ -0,0 +1,34 @@
+/**
+ * Visibility Runs API
+ *
+ * Lists persisted visibility runs for the run history, newest first.
+ * Summaries only; fetch /api/visibility/runs/:id for the full result.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listVisibilityRuns } from "../../../../lib/storage/visibility-runs";
+
+const MAX_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  const limitParam = request.nextUrl.searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : 50;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: "Validation Error", message: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const runs = await listVisibilityRuns(limit);
+    return NextResponse.json({ runs });
+  } catch (error: any) {
+    console.error("[Visibility] Failed to list runs:", error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load run history" },
+      { status: 500 }
+    );
+  }
+}
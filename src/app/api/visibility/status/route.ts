@@ -3,11 +3,17 @@
  *
  * Returns information about configured API keys and available features.
  * Does NOT expose actual key values, only their configured status.
+ * Self-hosted endpoints are listed as model entries without their base
+ * URLs or keys; the page keeps them so they can be selected.
  */
 
 import { NextResponse } from "next/server";
+import { getLocalEndpointSummaries } from "../../../../lib/providers/local";
+import { getLocalModels } from "../../../../lib/providers/local-models";
 
 export async function GET() {
+  const localModels = getLocalModels();
+
   const status = {
     gemini: {
       configured: Boolean(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY),
@@ -17,14 +23,19 @@ export async function GET() {
       configured: Boolean(process.env.OPENROUTER_API_KEY),
       models: ["gpt-4o", "claude-sonnet", "perplexity-sonar", "llama-70b"],
     },
+    local: {
+      configured: localModels.length > 0,
+      models: localModels,
+      endpoints: getLocalEndpointSummaries(),
+    },
     allConfigured: false,
     anyConfigured: false,
     missingKeys: [] as string[],
   };
 
-  // Check overall status
+  // Check overall status; self-hosted endpoints alone are enough to run tests
   status.allConfigured = status.gemini.configured && status.openRouter.configured;
-  status.anyConfigured = status.gemini.configured || status.openRouter.configured;
+  status.anyConfigured = status.gemini.configured || status.openRouter.configured || status.local.configured;
 
   // Build missing keys list
   if (!status.gemini.configured) {
@@ -0,0 +1,51 @@
+/**
+ * Visibility Trends API
+ *
+ * Returns time series of scores, per-model citation rates and per-query
+ * citation rates for one brand, built from its stored runs, plus the site
+ * change annotations to overlay on the charts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listVisibilityRuns,
+  getVisibilityRun,
+  listSiteAnnotations,
+} from "../../../../lib/storage/visibility-runs";
+import { buildVisibilityTrends, getBrandKey, selectTrendRuns } from "../../../../services/trendAnalysisService";
+import type { StoredVisibilityRun } from "../../../../types";
+
+// Most recent runs considered per brand
+const MAX_TREND_RUNS = 100;
+
+export async function GET(request: NextRequest) {
+  const brandUrl = request.nextUrl.searchParams.get("brandUrl");
+  const includeMock = request.nextUrl.searchParams.get("includeMock") === "true";
+
+  if (!brandUrl) {
+    return NextResponse.json(
+      { error: "Validation Error", message: "brandUrl is required" },
+      { status: 400 }
+    );
+  }
+
+  const brandKey = getBrandKey(brandUrl);
+
+  try {
+    const summaries = selectTrendRuns(await listVisibilityRuns(), brandKey, includeMock).slice(0, MAX_TREND_RUNS);
+
+    const runs = (await Promise.all(summaries.map((r) => getVisibilityRun(r.id)))).filter(
+      (run): run is StoredVisibilityRun => run !== null
+    );
+
+    const annotations = await listSiteAnnotations(brandKey);
+
+    return NextResponse.json({ trends: buildVisibilityTrends(brandKey, runs, annotations) });
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to build trends for ${brandKey}:`, error.message);
+    return NextResponse.json(
+      { error: "Storage Error", message: "Failed to load trends" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,23 @@
 "use client";
 
-import React, { useState, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useMemo, useEffect } from "react";
 import Link from "next/link";
 import {
-  LLM_MODELS,
   MODEL_PRESETS,
   DEFAULT_ADVANCED_SETTINGS,
   type LLMModelId,
   type ModelPreset,
   type ExecutionMode,
   type AdvancedAnalysisSettings,
+  type VisibilityRunRequest,
+  type BrandMatchConfig,
 } from "../../types";
 import { useQueryDiscovery } from "../../hooks/useQueryDiscovery";
 import { useVisibilityTest } from "../../hooks/useVisibilityTest";
+import { useVisibilityRuns } from "../../hooks/useVisibilityRuns";
+import { useLocalStorage } from "../../hooks/useLocalStorage";
+import { useApiStatus } from "../../hooks/useApiStatus";
+import { getAllModels, getModel } from "../../lib/providers/models";
 import { useCost } from "../../context/CostContext";
 import { CostDisplay } from "../../components/CostDisplay";
 import { QueryResultCard } from "../../components/visibility/QueryResultCard";
@@ -20,15 +25,26 @@ import { CostOptimizationTips } from "../../components/visibility/CostOptimizati
 import { ApiKeyWarning } from "../../components/visibility/ApiKeyWarning";
 import { AdvancedSettingsPanel } from "../../components/visibility/AdvancedSettingsPanel";
 import { CoverageAnalysisPanel } from "../../components/visibility/CoverageAnalysisPanel";
+import { RunHistoryPanel } from "../../components/visibility/RunHistoryPanel";
+import { TrendsPanel } from "../../components/visibility/TrendsPanel";
+import { RunDiffPanel } from "../../components/visibility/RunDiffPanel";
+import { MonitorsPanel } from "../../components/visibility/MonitorsPanel";
 
 // ============================================
 // Main Page Component
 // ============================================
 
 export default function VisibilityPage() {
+  const [activeTab, setActiveTab] = useState<"analyze" | "trends" | "compare" | "monitors">("analyze");
+
   // Section 1: Brand Info
   const [brandUrl, setBrandUrl] = useState("");
   const [brandName, setBrandName] = useState("");
+  const [brandAliases, setBrandAliases] = useState("");
+  const [caseSensitiveAliases, setCaseSensitiveAliases] = useState("");
+  const [negativeContexts, setNegativeContexts] = useState("");
+  const [ownedDomains, setOwnedDomains] = useState("");
+  const [storefronts, setStorefronts] = useState("");
   const [industry, setIndustry] = useState("");
 
   // Section 2: Queries
@@ -45,6 +61,9 @@ export default function VisibilityPage() {
   const [selectedModelForExecution, setSelectedModelForExecution] = useState<LLMModelId | null>(null);
   const [selectedQueryForExecution, setSelectedQueryForExecution] = useState<string | null>(null);
   const [useMockMode, setUseMockMode] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [samplesPerCell, setSamplesPerCell] = useState(1);
+  const [runInBackground, setRunInBackground] = useState(false);
 
   // Advanced Settings (GEO Framework)
   const [advancedSettings, setAdvancedSettings] = useState<AdvancedAnalysisSettings>(DEFAULT_ADVANCED_SETTINGS);
@@ -52,13 +71,23 @@ export default function VisibilityPage() {
   // Budget tracking
   const { wouldExceedBudget, budgetLimit, budgetRemaining, budgetStatus } = useCost();
 
+  // Provider status, including the self-hosted models that can be selected below
+  const apiStatus = useApiStatus();
+  const { localModels } = apiStatus;
+  const allModels = useMemo(() => getAllModels(localModels), [localModels]);
+
+  // Run History
+  const visibilityRuns = useVisibilityRuns();
+
   // Visibility Test
   const visibilityTest = useVisibilityTest({
     onComplete: (state) => {
       console.log("Test complete:", state);
+      visibilityRuns.refresh();
     },
     onError: (error) => {
       console.error("Test error:", error);
+      visibilityRuns.refresh();
     },
   });
 
@@ -94,6 +123,22 @@ export default function VisibilityPage() {
     }
   }, [handlePresetChange]);
 
+  // Brand profile lists, entered comma-separated
+  const brandMatching = useMemo<BrandMatchConfig | undefined>(() => {
+    const split = (value: string) => {
+      const items = value.split(",").map((v) => v.trim()).filter(Boolean);
+      return items.length > 0 ? items : undefined;
+    };
+    const config: BrandMatchConfig = {
+      aliases: split(brandAliases),
+      caseSensitiveAliases: split(caseSensitiveAliases),
+      negativeContexts: split(negativeContexts),
+      ownedDomains: split(ownedDomains),
+      storefronts: split(storefronts),
+    };
+    return Object.values(config).some(Boolean) ? config : undefined;
+  }, [brandAliases, caseSensitiveAliases, negativeContexts, ownedDomains, storefronts]);
+
   const handleRunTest = useCallback(async () => {
     if (!brandUrl || queryDiscovery.selectedCount === 0 || selectedModels.length === 0) {
       return;
@@ -102,16 +147,21 @@ export default function VisibilityPage() {
     await visibilityTest.startTest({
       brandUrl,
       brandName: brandName || undefined,
+      brandMatching,
       queries: queryDiscovery.queries,
       models: selectedModels,
       executionMode,
       selectedModel: selectedModelForExecution || undefined,
       selectedQueryId: selectedQueryForExecution || undefined,
       mock: useMockMode,
+      bypassCache,
+      samplesPerCell,
+      background: runInBackground,
     });
   }, [
     brandUrl,
     brandName,
+    brandMatching,
     queryDiscovery.queries,
     queryDiscovery.selectedCount,
     selectedModels,
@@ -119,9 +169,60 @@ export default function VisibilityPage() {
     selectedModelForExecution,
     selectedQueryForExecution,
     useMockMode,
+    bypassCache,
+    samplesPerCell,
+    runInBackground,
     visibilityTest,
   ]);
 
+  // Remember the last background job so a closed tab can attach to it again
+  const [lastJobId, setLastJobId] = useLocalStorage<string | null>("visibility-last-job", null);
+  const currentJobId = visibilityTest.state.jobId;
+  useEffect(() => {
+    if (currentJobId) setLastJobId(currentJobId);
+  }, [currentJobId]);
+
+  const handleOpenRun = useCallback(async (runId: string) => {
+    const run = await visibilityRuns.openRun(runId);
+    if (!run) return;
+
+    setBrandUrl(run.result.brandUrl);
+    setBrandName(run.result.brandName || "");
+    setBrandAliases(run.result.brandMatching?.aliases?.join(", ") ?? "");
+    setCaseSensitiveAliases(run.result.brandMatching?.caseSensitiveAliases?.join(", ") ?? "");
+    setNegativeContexts(run.result.brandMatching?.negativeContexts?.join(", ") ?? "");
+    setOwnedDomains(run.result.brandMatching?.ownedDomains?.join(", ") ?? "");
+    setStorefronts(run.result.brandMatching?.storefronts?.join(", ") ?? "");
+    setSamplesPerCell(run.result.samplesPerCell ?? 1);
+    visibilityTest.loadRun(run);
+  }, [visibilityRuns, visibilityTest]);
+
+  const handleDeleteRun = useCallback(async (runId: string) => {
+    await visibilityRuns.deleteRun(runId);
+    if (visibilityTest.state.runId === runId) {
+      visibilityTest.reset();
+    }
+  }, [visibilityRuns, visibilityTest]);
+
+  // Continue an interrupted run; only its missing cells are tested
+  const handleResumeRun = useCallback(async (runId: string) => {
+    const run = visibilityRuns.runs.find((r) => r.id === runId);
+    if (run) {
+      setBrandUrl(run.brandUrl);
+      setBrandName(run.brandName || "");
+    }
+    await visibilityTest.resumeRun(runId);
+  }, [visibilityRuns.runs, visibilityTest]);
+
+  // Re-run detection on the open run's stored responses with the current brand name and matching
+  const handleReanalyzeRun = useCallback(async () => {
+    const runId = visibilityTest.state.runId;
+    if (!runId) return;
+
+    const run = await visibilityRuns.reanalyzeRun(runId, brandName || undefined, brandMatching ?? {});
+    if (run) visibilityTest.loadRun(run);
+  }, [visibilityRuns, visibilityTest, brandName, brandMatching]);
+
   // ============================================
   // Computed Values
   // ============================================
@@ -153,22 +254,51 @@ export default function VisibilityPage() {
     const modelsPerQuery = executionMode === "all-queries-one-model" ? 1 : selectedModels.length;
 
     for (const modelId of selectedModels) {
-      const model = LLM_MODELS[modelId];
+      const model = getModel(modelId, localModels);
       if (model) {
         const inputCost = (avgInputTokens / 1_000_000) * model.costPer1MInput;
         const outputCost = (avgOutputTokens / 1_000_000) * model.costPer1MOutput;
         const testsForThisModel = executionMode === "all-queries-one-model" && selectedModels[0] !== modelId
           ? 0
           : queriesPerModel;
-        totalCost += (inputCost + outputCost) * testsForThisModel;
+        totalCost += (inputCost + outputCost) * testsForThisModel * samplesPerCell;
       }
     }
 
     return totalCost;
-  }, [testCount, selectedModels, queryDiscovery.selectedCount, executionMode]);
+  }, [testCount, selectedModels, localModels, queryDiscovery.selectedCount, executionMode, samplesPerCell]);
 
   const canRunTest = brandUrl && queryDiscovery.selectedCount > 0 && selectedModels.length > 0;
 
+  // The current setup as a run request, for saving as a scheduled monitor
+  const monitorRequest = useMemo<VisibilityRunRequest | null>(() => {
+    if (!canRunTest) return null;
+    return {
+      brandUrl,
+      brandName: brandName || undefined,
+      brandMatching,
+      queries: queryDiscovery.queries,
+      models: selectedModels,
+      executionMode,
+      selectedModel: selectedModelForExecution || undefined,
+      selectedQueryId: selectedQueryForExecution || undefined,
+      mock: useMockMode,
+      samplesPerCell: samplesPerCell > 1 ? samplesPerCell : undefined,
+    };
+  }, [
+    canRunTest,
+    brandUrl,
+    brandName,
+    brandMatching,
+    queryDiscovery.queries,
+    selectedModels,
+    executionMode,
+    selectedModelForExecution,
+    selectedQueryForExecution,
+    useMockMode,
+    samplesPerCell,
+  ]);
+
   // Budget warnings
   const willExceedBudget = !useMockMode && wouldExceedBudget(estimatedCost);
   const budgetWarning = !useMockMode && budgetStatus === 'warning';
@@ -215,734 +345,924 @@ export default function VisibilityPage() {
         </header>
 
         <main className="space-y-6">
-          {/* API Key Warning */}
-          <ApiKeyWarning />
-
-          {/* Mock Mode Toggle */}
-          <div className="flex justify-end">
-            <label className="inline-flex items-center cursor-pointer">
-              <input
-                type="checkbox"
-                className="sr-only peer"
-                checked={useMockMode}
-                onChange={(e) => setUseMockMode(e.target.checked)}
-              />
-              <div className="relative w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
-              <span className="ms-3 text-sm font-medium text-slate-700">
-                Mock Mode (No Cost)
-              </span>
-            </label>
+          {/* Tabs */}
+          <div className="flex gap-1 bg-white rounded-lg border border-slate-200 p-1 w-fit">
+            {([
+              { id: "analyze", label: "Analyze" },
+              { id: "trends", label: "Trends" },
+              { id: "compare", label: "Compare" },
+              { id: "monitors", label: "Monitors" },
+            ] as const).map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  activeTab === tab.id
+                    ? "bg-indigo-600 text-white"
+                    : "text-slate-600 hover:bg-slate-100"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
 
-          {/* Section 1: Brand Info */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-            <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
-              <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">1</span>
-              Your Brand
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Website URL <span className="text-red-500">*</span>
-                </label>
+          {activeTab === "trends" && <TrendsPanel brandUrl={brandUrl} localModels={localModels} />}
+
+          {activeTab === "compare" && <RunDiffPanel runs={visibilityRuns.runs} localModels={localModels} />}
+
+          {activeTab === "monitors" && (
+            <MonitorsPanel currentRequest={monitorRequest} estimatedCost={estimatedCost} />
+          )}
+
+          {activeTab === "analyze" && (
+            <>
+            {/* API Key Warning */}
+            <ApiKeyWarning status={apiStatus.status} />
+
+            {/* Mock Mode and Cache Toggles */}
+            <div className="flex justify-end items-center">
+              <label className="inline-flex items-center cursor-pointer">
                 <input
-                  type="url"
-                  value={brandUrl}
-                  onChange={(e) => setBrandUrl(e.target.value)}
-                  placeholder="https://www.yourbrand.com"
-                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  disabled={visibilityTest.isRunning}
+                  type="checkbox"
+                  className="sr-only peer"
+                  checked={useMockMode}
+                  onChange={(e) => setUseMockMode(e.target.checked)}
                 />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Brand Name <span className="text-slate-400">(optional)</span>
-                </label>
+                <div className="relative w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+                <span className="ms-3 text-sm font-medium text-slate-700">
+                  Mock Mode (No Cost)
+                </span>
+              </label>
+              <label className="inline-flex items-center gap-2 ms-6 text-sm text-slate-700" title="Cached responses are reused for 24h by default and cost nothing">
                 <input
-                  type="text"
-                  value={brandName}
-                  onChange={(e) => setBrandName(e.target.value)}
-                  placeholder="Your Brand Name"
-                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  disabled={visibilityTest.isRunning}
+                  type="checkbox"
+                  checked={bypassCache}
+                  onChange={(e) => setBypassCache(e.target.checked)}
                 />
-              </div>
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Industry <span className="text-slate-400">(for better query suggestions)</span>
-                </label>
-                <select
-                  value={industry}
-                  onChange={(e) => setIndustry(e.target.value)}
-                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  disabled={visibilityTest.isRunning}
-                >
-                  <option value="">Select industry...</option>
-                  {queryDiscovery.industries.map((ind) => (
-                    <option key={ind.id} value={ind.id}>{ind.name}</option>
-                  ))}
-                </select>
-              </div>
+                Fresh responses (skip cache)
+              </label>
+              <label className="inline-flex items-center gap-2 ms-6 text-sm text-slate-700" title="Answers vary between runs; repeated samples give a mention probability with a confidence interval. Each sample is billed.">
+                Samples per cell
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={samplesPerCell}
+                  onChange={(e) => setSamplesPerCell(Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className="w-14 px-2 py-1 border border-slate-300 rounded-md text-sm"
+                />
+              </label>
+              <label className="inline-flex items-center gap-2 ms-6 text-sm text-slate-700" title="The run continues on the server if this tab closes">
+                <input
+                  type="checkbox"
+                  checked={runInBackground}
+                  onChange={(e) => setRunInBackground(e.target.checked)}
+                />
+                Run as background job
+              </label>
             </div>
-          </section>
 
-          {/* Section 2: Query Discovery */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-            <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
-              <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">2</span>
-              Discover Queries
-            </h2>
+            {lastJobId && !visibilityTest.isRunning && visibilityTest.state.jobId !== lastJobId && (
+              <div className="flex items-center justify-between gap-3 p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-800">
+                <span>Your last background job ({lastJobId}) may still be running.</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() => visibilityTest.attachToJob(lastJobId)}
+                    className="font-medium text-indigo-700 hover:text-indigo-900"
+                  >
+                    Attach
+                  </button>
+                  <button
+                    onClick={() => setLastJobId(null)}
+                    className="text-indigo-400 hover:text-indigo-600"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )}
 
-            {/* Query Generation Buttons */}
-            <div className="flex flex-wrap gap-2 mb-4">
-              <button
-                onClick={() => brandUrl && queryDiscovery.suggestWithAI(brandUrl, brandName, industry)}
-                disabled={!brandUrl || queryDiscovery.isLoading || visibilityTest.isRunning}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-              >
-                {queryDiscovery.isLoading ? (
-                  <>
-                    <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                    </svg>
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                    </svg>
-                    AI Suggest
-                  </>
-                )}
-              </button>
+            {/* Section 1: Brand Info */}
+            <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">1</span>
+                Your Brand
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Website URL <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="url"
+                    value={brandUrl}
+                    onChange={(e) => setBrandUrl(e.target.value)}
+                    placeholder="https://www.yourbrand.com"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Brand Name <span className="text-slate-400">(optional)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={brandName}
+                    onChange={(e) => setBrandName(e.target.value)}
+                    placeholder="Your Brand Name"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Aliases <span className="text-slate-400">(optional, comma-separated)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={brandAliases}
+                    onChange={(e) => setBrandAliases(e.target.value)}
+                    placeholder="Product lines, sub-brands, ticker"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Case-Sensitive Aliases <span className="text-slate-400">(optional, exact case only)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={caseSensitiveAliases}
+                    onChange={(e) => setCaseSensitiveAliases(e.target.value)}
+                    placeholder="GAP, TGT"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Ignore Phrases <span className="text-slate-400">(optional, comma-separated)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={negativeContexts}
+                    onChange={(e) => setNegativeContexts(e.target.value)}
+                    placeholder="target audience, gap between"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Other Owned Domains <span className="text-slate-400">(optional, comma-separated)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={ownedDomains}
+                    onChange={(e) => setOwnedDomains(e.target.value)}
+                    placeholder="yourbrand.co.uk, yourbrandblog.com"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Marketplace Storefronts <span className="text-slate-400">(optional, comma-separated)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={storefronts}
+                    onChange={(e) => setStorefronts(e.target.value)}
+                    placeholder="amazon.com/stores/yourbrand"
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Industry <span className="text-slate-400">(for better query suggestions)</span>
+                  </label>
+                  <select
+                    value={industry}
+                    onChange={(e) => setIndustry(e.target.value)}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    disabled={visibilityTest.isRunning}
+                  >
+                    <option value="">Select industry...</option>
+                    {queryDiscovery.industries.map((ind) => (
+                      <option key={ind.id} value={ind.id}>{ind.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </section>
 
-              {industry && (
-                <button
-                  onClick={() => queryDiscovery.loadIndustryTemplate(industry)}
-                  disabled={queryDiscovery.isLoading || visibilityTest.isRunning}
-                  className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  Load {queryDiscovery.industries.find(i => i.id === industry)?.name} Templates
-                </button>
-              )}
+            {/* Section 2: Query Discovery */}
+            <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">2</span>
+                Discover Queries
+              </h2>
 
-              {/* Content-Derived Queries (GEO Framework) */}
-              {advancedSettings.enableContentDerivedQueries && brandUrl && (
+              {/* Query Generation Buttons */}
+              <div className="flex flex-wrap gap-2 mb-4">
                 <button
-                  onClick={() => queryDiscovery.deriveFromContent(
-                    brandUrl,
-                    10,
-                    advancedSettings.enableMatchRateScoring
-                  )}
-                  disabled={queryDiscovery.isLoading || visibilityTest.isRunning}
-                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-green-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                  onClick={() => brandUrl && queryDiscovery.suggestWithAI(brandUrl, brandName, industry)}
+                  disabled={!brandUrl || queryDiscovery.isLoading || visibilityTest.isRunning}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
                 >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                  Derive from Content
-                </button>
-              )}
-
-              {/* Classify Queries Button (GEO Framework) */}
-              {(advancedSettings.enableIntentClassification || advancedSettings.enableFunnelStageMapping) &&
-                queryDiscovery.queries.length > 0 && (
-                <button
-                  onClick={() => queryDiscovery.classifyQueries(
-                    brandUrl || undefined,
-                    advancedSettings.enableMatchRateScoring
+                  {queryDiscovery.isLoading ? (
+                    <>
+                      <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                      </svg>
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                      </svg>
+                      AI Suggest
+                    </>
                   )}
-                  disabled={queryDiscovery.isLoading || visibilityTest.isRunning}
-                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-purple-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-                  </svg>
-                  Classify Queries
                 </button>
-              )}
 
-              {queryDiscovery.queries.length > 0 && (
-                <>
+                {industry && (
                   <button
-                    onClick={queryDiscovery.selectAll}
-                    className="px-3 py-2 text-sm text-slate-600 hover:text-slate-800"
+                    onClick={() => queryDiscovery.loadIndustryTemplate(industry)}
+                    disabled={queryDiscovery.isLoading || visibilityTest.isRunning}
+                    className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
-                    Select All
+                    Load {queryDiscovery.industries.find(i => i.id === industry)?.name} Templates
                   </button>
+                )}
+
+                {/* Content-Derived Queries (GEO Framework) */}
+                {advancedSettings.enableContentDerivedQueries && brandUrl && (
                   <button
-                    onClick={queryDiscovery.deselectAll}
-                    className="px-3 py-2 text-sm text-slate-600 hover:text-slate-800"
+                    onClick={() => queryDiscovery.deriveFromContent(
+                      brandUrl,
+                      10,
+                      advancedSettings.enableMatchRateScoring
+                    )}
+                    disabled={queryDiscovery.isLoading || visibilityTest.isRunning}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-green-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
                   >
-                    Deselect All
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                    Derive from Content
                   </button>
+                )}
+
+                {/* Classify Queries Button (GEO Framework) */}
+                {(advancedSettings.enableIntentClassification || advancedSettings.enableFunnelStageMapping) &&
+                  queryDiscovery.queries.length > 0 && (
                   <button
-                    onClick={queryDiscovery.clearQueries}
-                    className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+                    onClick={() => queryDiscovery.classifyQueries(
+                      brandUrl || undefined,
+                      advancedSettings.enableMatchRateScoring
+                    )}
+                    disabled={queryDiscovery.isLoading || visibilityTest.isRunning}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-purple-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
                   >
-                    Clear All
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                    </svg>
+                    Classify Queries
                   </button>
-                </>
-              )}
-            </div>
-
-            {/* Custom Query Input */}
-            <div className="flex gap-2 mb-4">
-              <input
-                type="text"
-                placeholder="Add a custom query..."
-                className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                disabled={visibilityTest.isRunning}
-                onKeyPress={(e) => {
-                  if (e.key === "Enter") {
-                    const input = e.target as HTMLInputElement;
-                    queryDiscovery.addCustomQuery(input.value);
-                    input.value = "";
-                  }
-                }}
-              />
-              <button
-                onClick={(e) => {
-                  const input = (e.target as HTMLButtonElement).previousSibling as HTMLInputElement;
-                  queryDiscovery.addCustomQuery(input.value);
-                  input.value = "";
-                }}
-                className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
-              >
-                Add
-              </button>
-            </div>
+                )}
 
-            {/* Query List */}
-            {queryDiscovery.queries.length > 0 ? (
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {queryDiscovery.queries.map((query) => (
-                  <div
-                    key={query.id}
-                    className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
-                      query.selected
-                        ? "bg-indigo-50 border-indigo-200"
-                        : "bg-slate-50 border-slate-200"
-                    }`}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={query.selected}
-                      onChange={() => queryDiscovery.toggleQuery(query.id)}
-                      className="w-4 h-4 text-indigo-600 rounded"
-                      disabled={visibilityTest.isRunning}
-                    />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm text-slate-800 truncate">{query.text}</p>
-                      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
-                        <span>{query.category} · {query.source.replace("-", " ")}</span>
-                        {query.intent && (
-                          <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded">
-                            {query.intent}
-                          </span>
-                        )}
-                        {query.funnelStage && (
-                          <span className="px-1.5 py-0.5 bg-purple-100 text-purple-700 rounded">
-                            {query.funnelStage}
-                          </span>
-                        )}
-                        {query.matchScore !== undefined && (
-                          <span className={`px-1.5 py-0.5 rounded ${
-                            query.matchScore >= 0.6 ? 'bg-green-100 text-green-700' :
-                            query.matchScore >= 0.3 ? 'bg-amber-100 text-amber-700' :
-                            'bg-red-100 text-red-700'
-                          }`}>
-                            {Math.round(query.matchScore * 100)}% match
-                          </span>
-                        )}
-                      </div>
-                    </div>
+                {queryDiscovery.queries.length > 0 && (
+                  <>
                     <button
-                      onClick={() => queryDiscovery.removeQuery(query.id)}
-                      className="text-slate-400 hover:text-red-500 transition-colors"
-                      disabled={visibilityTest.isRunning}
+                      onClick={queryDiscovery.selectAll}
+                      className="px-3 py-2 text-sm text-slate-600 hover:text-slate-800"
                     >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
+                      Select All
                     </button>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-8 text-slate-500">
-                <p>No queries yet. Use AI Suggest or add custom queries above.</p>
-              </div>
-            )}
-
-            {queryDiscovery.error && (
-              <p className="mt-2 text-sm text-red-600">{queryDiscovery.error}</p>
-            )}
-
-            <p className="mt-3 text-sm text-slate-500">
-              {queryDiscovery.selectedCount} of {queryDiscovery.queries.length} queries selected
-            </p>
-
-            {/* Content Analysis Summary */}
-            {queryDiscovery.contentAnalysis && (
-              <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
-                <p className="text-sm font-medium text-green-800">
-                  Content Analysis: {queryDiscovery.contentAnalysis.pageType}
-                </p>
-                <p className="text-xs text-green-700 mt-1">
-                  {queryDiscovery.contentAnalysis.title} · {queryDiscovery.contentAnalysis.chunkCount} content chunks analyzed
-                </p>
-                {queryDiscovery.contentAnalysis.categories.length > 0 && (
-                  <p className="text-xs text-green-600 mt-1">
-                    Categories: {queryDiscovery.contentAnalysis.categories.slice(0, 5).join(", ")}
-                  </p>
+                    <button
+                      onClick={queryDiscovery.deselectAll}
+                      className="px-3 py-2 text-sm text-slate-600 hover:text-slate-800"
+                    >
+                      Deselect All
+                    </button>
+                    <button
+                      onClick={queryDiscovery.clearQueries}
+                      className="px-3 py-2 text-sm text-red-600 hover:text-red-800"
+                    >
+                      Clear All
+                    </button>
+                  </>
                 )}
               </div>
-            )}
-          </section>
-
-          {/* Advanced Analysis Settings (GEO Framework) */}
-          <AdvancedSettingsPanel
-            settings={advancedSettings}
-            onSettingsChange={setAdvancedSettings}
-            disabled={visibilityTest.isRunning}
-          />
-
-          {/* Coverage Analysis - Show when queries have classification */}
-          {advancedSettings.enableCoverageAnalysis &&
-            queryDiscovery.queries.some((q) => q.intent || q.funnelStage) && (
-            <CoverageAnalysisPanel
-              queries={queryDiscovery.queries}
-            />
-          )}
 
-          {/* Section 3: Model Selection */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-            <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
-              <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">3</span>
-              Select AI Platforms
-            </h2>
-
-            {/* Presets */}
-            <div className="flex flex-wrap gap-2 mb-4">
-              {(Object.entries(MODEL_PRESETS) as [ModelPreset, typeof MODEL_PRESETS[ModelPreset]][]).map(([key, preset]) => (
-                <button
-                  key={key}
-                  onClick={() => handlePresetChange(key)}
+              {/* Custom Query Input */}
+              <div className="flex gap-2 mb-4">
+                <input
+                  type="text"
+                  placeholder="Add a custom query..."
+                  className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   disabled={visibilityTest.isRunning}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    modelPreset === key
-                      ? "bg-indigo-600 text-white"
-                      : "bg-slate-100 text-slate-700 hover:bg-slate-200"
-                  }`}
+                  onKeyPress={(e) => {
+                    if (e.key === "Enter") {
+                      const input = e.target as HTMLInputElement;
+                      queryDiscovery.addCustomQuery(input.value);
+                      input.value = "";
+                    }
+                  }}
+                />
+                <button
+                  onClick={(e) => {
+                    const input = (e.target as HTMLButtonElement).previousSibling as HTMLInputElement;
+                    queryDiscovery.addCustomQuery(input.value);
+                    input.value = "";
+                  }}
+                  className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
                 >
-                  {preset.name}
-                  <span className="ml-1 opacity-70">{preset.description}</span>
+                  Add
                 </button>
-              ))}
-            </div>
+              </div>
 
-            {/* Model Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Search Platforms */}
-              <div>
-                <h3 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
-                  <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                  Search Platforms
-                  <span className="text-xs text-slate-500">(citations & traffic)</span>
-                </h3>
-                <div className="space-y-2">
-                  {Object.values(LLM_MODELS)
-                    .filter((m) => m.platformType === "search")
-                    .map((model) => (
-                      <label
-                        key={model.id}
-                        className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
-                          selectedModels.includes(model.id)
-                            ? "bg-green-50 border-green-200"
-                            : "bg-slate-50 border-slate-200 hover:bg-slate-100"
-                        }`}
-                      >
-                        <input
-                          type="checkbox"
-                          checked={selectedModels.includes(model.id)}
-                          onChange={() => handleModelToggle(model.id)}
-                          className="w-4 h-4 text-green-600 rounded"
-                          disabled={visibilityTest.isRunning}
-                        />
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-slate-800">
-                            {model.name}
-                            {model.costTier === "premium" && (
-                              <span className="ml-1 text-amber-500">★</span>
-                            )}
-                          </p>
-                          <p className="text-xs text-slate-500">{model.consumerProduct}</p>
+              {/* Query List */}
+              {queryDiscovery.queries.length > 0 ? (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {queryDiscovery.queries.map((query) => (
+                    <div
+                      key={query.id}
+                      className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
+                        query.selected
+                          ? "bg-indigo-50 border-indigo-200"
+                          : "bg-slate-50 border-slate-200"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={query.selected}
+                        onChange={() => queryDiscovery.toggleQuery(query.id)}
+                        className="w-4 h-4 text-indigo-600 rounded"
+                        disabled={visibilityTest.isRunning}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-800 truncate">{query.text}</p>
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                          <span>{query.category} · {query.source.replace("-", " ")}</span>
+                          {query.intent && (
+                            <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded">
+                              {query.intent}
+                            </span>
+                          )}
+                          {query.funnelStage && (
+                            <span className="px-1.5 py-0.5 bg-purple-100 text-purple-700 rounded">
+                              {query.funnelStage}
+                            </span>
+                          )}
+                          {query.matchScore !== undefined && (
+                            <span className={`px-1.5 py-0.5 rounded ${
+                              query.matchScore >= 0.6 ? 'bg-green-100 text-green-700' :
+                              query.matchScore >= 0.3 ? 'bg-amber-100 text-amber-700' :
+                              'bg-red-100 text-red-700'
+                            }`}>
+                              {Math.round(query.matchScore * 100)}% match
+                            </span>
+                          )}
                         </div>
-                      </label>
-                    ))}
+                      </div>
+                      <button
+                        onClick={() => queryDiscovery.removeQuery(query.id)}
+                        className="text-slate-400 hover:text-red-500 transition-colors"
+                        disabled={visibilityTest.isRunning}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
                 </div>
-              </div>
+              ) : (
+                <div className="text-center py-8 text-slate-500">
+                  <p>No queries yet. Use AI Suggest or add custom queries above.</p>
+                </div>
+              )}
 
-              {/* Chat Platforms */}
-              <div>
-                <h3 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
-                  <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
-                  Chat Platforms
-                  <span className="text-xs text-slate-500">(brand awareness)</span>
-                </h3>
-                <div className="space-y-2">
-                  {Object.values(LLM_MODELS)
-                    .filter((m) => m.platformType === "chat")
-                    .map((model) => (
-                      <label
-                        key={model.id}
-                        className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
-                          selectedModels.includes(model.id)
-                            ? "bg-blue-50 border-blue-200"
-                            : "bg-slate-50 border-slate-200 hover:bg-slate-100"
-                        }`}
-                      >
-                        <input
-                          type="checkbox"
-                          checked={selectedModels.includes(model.id)}
-                          onChange={() => handleModelToggle(model.id)}
-                          className="w-4 h-4 text-blue-600 rounded"
-                          disabled={visibilityTest.isRunning}
-                        />
-                        <div className="flex-1">
-                          <p className="text-sm font-medium text-slate-800">
-                            {model.name}
-                            {model.costTier === "premium" && (
-                              <span className="ml-1 text-amber-500">★</span>
-                            )}
-                          </p>
-                          <p className="text-xs text-slate-500">{model.consumerProduct}</p>
-                        </div>
-                      </label>
-                    ))}
+              {queryDiscovery.error && (
+                <p className="mt-2 text-sm text-red-600">{queryDiscovery.error}</p>
+              )}
+
+              <p className="mt-3 text-sm text-slate-500">
+                {queryDiscovery.selectedCount} of {queryDiscovery.queries.length} queries selected
+              </p>
+
+              {/* Content Analysis Summary */}
+              {queryDiscovery.contentAnalysis && (
+                <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-sm font-medium text-green-800">
+                    Content Analysis: {queryDiscovery.contentAnalysis.pageType}
+                  </p>
+                  <p className="text-xs text-green-700 mt-1">
+                    {queryDiscovery.contentAnalysis.title} · {queryDiscovery.contentAnalysis.chunkCount} content chunks analyzed
+                  </p>
+                  {queryDiscovery.contentAnalysis.categories.length > 0 && (
+                    <p className="text-xs text-green-600 mt-1">
+                      Categories: {queryDiscovery.contentAnalysis.categories.slice(0, 5).join(", ")}
+                    </p>
+                  )}
                 </div>
+              )}
+            </section>
+
+            {/* Advanced Analysis Settings (GEO Framework) */}
+            <AdvancedSettingsPanel
+              settings={advancedSettings}
+              onSettingsChange={setAdvancedSettings}
+              disabled={visibilityTest.isRunning}
+            />
+
+            {/* Coverage Analysis - Show when queries have classification */}
+            {advancedSettings.enableCoverageAnalysis &&
+              queryDiscovery.queries.some((q) => q.intent || q.funnelStage) && (
+              <CoverageAnalysisPanel
+                queries={queryDiscovery.queries}
+              />
+            )}
+
+            {/* Section 3: Model Selection */}
+            <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">3</span>
+                Select AI Platforms
+              </h2>
+
+              {/* Presets */}
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(Object.entries(MODEL_PRESETS) as [ModelPreset, typeof MODEL_PRESETS[ModelPreset]][]).map(([key, preset]) => (
+                  <button
+                    key={key}
+                    onClick={() => handlePresetChange(key)}
+                    disabled={visibilityTest.isRunning}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      modelPreset === key
+                        ? "bg-indigo-600 text-white"
+                        : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                    }`}
+                  >
+                    {preset.name}
+                    <span className="ml-1 opacity-70">{preset.description}</span>
+                  </button>
+                ))}
               </div>
-            </div>
 
-            <p className="mt-3 text-sm text-slate-500">
-              {selectedModels.length} platforms selected
-              <span className="ml-2 text-xs">★ = Premium tier</span>
-            </p>
-          </section>
-
-          {/* Section 4: Run Test */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-            <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
-              <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">4</span>
-              Run Test
-            </h2>
-
-            {/* Execution Mode */}
-            <div className="space-y-3 mb-6">
-              <label className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-slate-50">
-                <input
-                  type="radio"
-                  name="executionMode"
-                  checked={executionMode === "all-queries-all-models"}
-                  onChange={() => setExecutionMode("all-queries-all-models")}
-                  className="w-4 h-4 text-indigo-600"
-                  disabled={visibilityTest.isRunning}
-                />
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-slate-800">All queries × All platforms</p>
-                  <p className="text-xs text-slate-500">Complete visibility matrix</p>
+              {/* Model Grid */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Search Platforms */}
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-green-500 rounded-full"></span>
+                    Search Platforms
+                    <span className="text-xs text-slate-500">(citations & traffic)</span>
+                  </h3>
+                  <div className="space-y-2">
+                    {allModels
+                      .filter((m) => m.platformType === "search")
+                      .map((model) => (
+                        <label
+                          key={model.id}
+                          className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                            selectedModels.includes(model.id)
+                              ? "bg-green-50 border-green-200"
+                              : "bg-slate-50 border-slate-200 hover:bg-slate-100"
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedModels.includes(model.id)}
+                            onChange={() => handleModelToggle(model.id)}
+                            className="w-4 h-4 text-green-600 rounded"
+                            disabled={visibilityTest.isRunning}
+                          />
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-slate-800">
+                              {model.name}
+                              {model.costTier === "premium" && (
+                                <span className="ml-1 text-amber-500">★</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-slate-500">{model.consumerProduct}</p>
+                          </div>
+                        </label>
+                      ))}
+                  </div>
                 </div>
-                <span className="text-sm text-slate-600">
-                  {queryDiscovery.selectedCount * selectedModels.length} tests
-                </span>
-              </label>
 
-              <label className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-slate-50">
-                <input
-                  type="radio"
-                  name="executionMode"
-                  checked={executionMode === "all-queries-one-model"}
-                  onChange={() => setExecutionMode("all-queries-one-model")}
-                  className="w-4 h-4 text-indigo-600"
-                  disabled={visibilityTest.isRunning}
-                />
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-slate-800">All queries × One platform</p>
-                  <p className="text-xs text-slate-500">Deep dive on a single platform</p>
+                {/* Chat Platforms */}
+                <div>
+                  <h3 className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
+                    Chat Platforms
+                    <span className="text-xs text-slate-500">(brand awareness)</span>
+                  </h3>
+                  <div className="space-y-2">
+                    {allModels
+                      .filter((m) => m.platformType === "chat")
+                      .map((model) => (
+                        <label
+                          key={model.id}
+                          className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                            selectedModels.includes(model.id)
+                              ? "bg-blue-50 border-blue-200"
+                              : "bg-slate-50 border-slate-200 hover:bg-slate-100"
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedModels.includes(model.id)}
+                            onChange={() => handleModelToggle(model.id)}
+                            className="w-4 h-4 text-blue-600 rounded"
+                            disabled={visibilityTest.isRunning}
+                          />
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-slate-800">
+                              {model.name}
+                              {model.costTier === "premium" && (
+                                <span className="ml-1 text-amber-500">★</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-slate-500">{model.consumerProduct}</p>
+                          </div>
+                        </label>
+                      ))}
+                  </div>
                 </div>
-                <span className="text-sm text-slate-600">
-                  {queryDiscovery.selectedCount} tests
-                </span>
-              </label>
+              </div>
 
-              <label className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-slate-50">
-                <input
-                  type="radio"
-                  name="executionMode"
-                  checked={executionMode === "one-query-all-models"}
-                  onChange={() => setExecutionMode("one-query-all-models")}
-                  className="w-4 h-4 text-indigo-600"
-                  disabled={visibilityTest.isRunning}
-                />
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-slate-800">One query × All platforms</p>
-                  <p className="text-xs text-slate-500">Quick spot check across platforms</p>
-                </div>
-                <span className="text-sm text-slate-600">
-                  {selectedModels.length} tests
-                </span>
-              </label>
-            </div>
+              <p className="mt-3 text-sm text-slate-500">
+                {selectedModels.length} platforms selected
+                <span className="ml-2 text-xs">★ = Premium tier</span>
+              </p>
+            </section>
 
-            {/* Budget Warning */}
-            {(willExceedBudget || budgetExceeded) && (
-              <div className={`mb-4 p-4 rounded-lg border ${
-                budgetExceeded
-                  ? 'bg-red-50 border-red-200'
-                  : 'bg-amber-50 border-amber-200'
-              }`}>
-                <div className="flex items-start gap-3">
-                  <div className={`p-1 rounded-full ${budgetExceeded ? 'bg-red-100' : 'bg-amber-100'}`}>
-                    <svg className={`w-5 h-5 ${budgetExceeded ? 'text-red-600' : 'text-amber-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                    </svg>
+            {/* Section 4: Run Test */}
+            <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                <span className="bg-indigo-100 text-indigo-700 rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">4</span>
+                Run Test
+              </h2>
+
+              {/* Execution Mode */}
+              <div className="space-y-3 mb-6">
+                <label className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-slate-50">
+                  <input
+                    type="radio"
+                    name="executionMode"
+                    checked={executionMode === "all-queries-all-models"}
+                    onChange={() => setExecutionMode("all-queries-all-models")}
+                    className="w-4 h-4 text-indigo-600"
+                    disabled={visibilityTest.isRunning}
+                  />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-slate-800">All queries × All platforms</p>
+                    <p className="text-xs text-slate-500">Complete visibility matrix</p>
                   </div>
+                  <span className="text-sm text-slate-600">
+                    {queryDiscovery.selectedCount * selectedModels.length} tests
+                  </span>
+                </label>
+
+                <label className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-slate-50">
+                  <input
+                    type="radio"
+                    name="executionMode"
+                    checked={executionMode === "all-queries-one-model"}
+                    onChange={() => setExecutionMode("all-queries-one-model")}
+                    className="w-4 h-4 text-indigo-600"
+                    disabled={visibilityTest.isRunning}
+                  />
                   <div className="flex-1">
-                    <h4 className={`text-sm font-semibold ${budgetExceeded ? 'text-red-800' : 'text-amber-800'}`}>
-                      {budgetExceeded ? 'Budget Exceeded' : 'Budget Warning'}
-                    </h4>
-                    <p className={`text-sm mt-1 ${budgetExceeded ? 'text-red-700' : 'text-amber-700'}`}>
-                      {budgetExceeded
-                        ? `You've exceeded your session budget of $${budgetLimit.toFixed(2)}. Click the budget settings to increase your limit or reset the session.`
-                        : `This test will cost ~$${estimatedCost.toFixed(4)}, which would exceed your remaining budget of $${budgetRemaining.toFixed(4)}.`
-                      }
-                    </p>
-                    {!budgetExceeded && (
-                      <p className="text-xs text-amber-600 mt-2">
-                        Consider using Mock Mode for testing, or selecting fewer queries/models.
+                    <p className="text-sm font-medium text-slate-800">All queries × One platform</p>
+                    <p className="text-xs text-slate-500">Deep dive on a single platform</p>
+                  </div>
+                  <span className="text-sm text-slate-600">
+                    {queryDiscovery.selectedCount} tests
+                  </span>
+                </label>
+
+                <label className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors hover:bg-slate-50">
+                  <input
+                    type="radio"
+                    name="executionMode"
+                    checked={executionMode === "one-query-all-models"}
+                    onChange={() => setExecutionMode("one-query-all-models")}
+                    className="w-4 h-4 text-indigo-600"
+                    disabled={visibilityTest.isRunning}
+                  />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-slate-800">One query × All platforms</p>
+                    <p className="text-xs text-slate-500">Quick spot check across platforms</p>
+                  </div>
+                  <span className="text-sm text-slate-600">
+                    {selectedModels.length} tests
+                  </span>
+                </label>
+              </div>
+
+              {/* Budget Warning */}
+              {(willExceedBudget || budgetExceeded) && (
+                <div className={`mb-4 p-4 rounded-lg border ${
+                  budgetExceeded
+                    ? 'bg-red-50 border-red-200'
+                    : 'bg-amber-50 border-amber-200'
+                }`}>
+                  <div className="flex items-start gap-3">
+                    <div className={`p-1 rounded-full ${budgetExceeded ? 'bg-red-100' : 'bg-amber-100'}`}>
+                      <svg className={`w-5 h-5 ${budgetExceeded ? 'text-red-600' : 'text-amber-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                      </svg>
+                    </div>
+                    <div className="flex-1">
+                      <h4 className={`text-sm font-semibold ${budgetExceeded ? 'text-red-800' : 'text-amber-800'}`}>
+                        {budgetExceeded ? 'Budget Exceeded' : 'Budget Warning'}
+                      </h4>
+                      <p className={`text-sm mt-1 ${budgetExceeded ? 'text-red-700' : 'text-amber-700'}`}>
+                        {budgetExceeded
+                          ? `You've exceeded your session budget of $${budgetLimit.toFixed(2)}. Click the budget settings to increase your limit or reset the session.`
+                          : `This test will cost ~$${estimatedCost.toFixed(4)}, which would exceed your remaining budget of $${budgetRemaining.toFixed(4)}.`
+                        }
                       </p>
-                    )}
+                      {!budgetExceeded && (
+                        <p className="text-xs text-amber-600 mt-2">
+                          Consider using Mock Mode for testing, or selecting fewer queries/models.
+                        </p>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Cost Optimization Tips - Show when not in mock mode and have models selected */}
-            {!useMockMode && selectedModels.length > 0 && queryDiscovery.selectedCount > 0 && (
-              <CostOptimizationTips
-                selectedModels={selectedModels}
-                queryCount={queryDiscovery.selectedCount}
-                estimatedCost={estimatedCost}
-                onApplySuggestion={handleApplyCostSuggestion}
-              />
-            )}
+              {/* Cost Optimization Tips - Show when not in mock mode and have models selected */}
+              {!useMockMode && selectedModels.length > 0 && queryDiscovery.selectedCount > 0 && (
+                <CostOptimizationTips
+                  selectedModels={selectedModels}
+                  queryCount={queryDiscovery.selectedCount}
+                  estimatedCost={estimatedCost}
+                  localModels={localModels}
+                  onApplySuggestion={handleApplyCostSuggestion}
+                />
+              )}
 
-            {/* Run Button */}
-            <div className="flex items-center justify-between">
-              <div className="text-sm text-slate-600">
-                <span className="font-medium">{testCount}</span> tests
-                {!useMockMode && (
-                  <span className={`ml-2 ${willExceedBudget ? 'text-amber-600 font-medium' : ''}`}>
-                    · Est. cost: <span className="font-medium">${estimatedCost.toFixed(4)}</span>
-                    {willExceedBudget && <span className="text-xs ml-1">(exceeds budget)</span>}
-                  </span>
-                )}
-                {visibilityTest.state.totalCost > 0 && (
-                  <span className="ml-2">· Actual: <span className="font-medium">${visibilityTest.state.totalCost.toFixed(4)}</span></span>
-                )}
-              </div>
+              {/* Run Button */}
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-slate-600">
+                  <span className="font-medium">{testCount}</span> tests
+                  {samplesPerCell > 1 && <span> × {samplesPerCell} samples</span>}
+                  {!useMockMode && (
+                    <span className={`ml-2 ${willExceedBudget ? 'text-amber-600 font-medium' : ''}`}>
+                      · Est. cost: <span className="font-medium">${estimatedCost.toFixed(4)}</span>
+                      {willExceedBudget && <span className="text-xs ml-1">(exceeds budget)</span>}
+                    </span>
+                  )}
+                  {visibilityTest.state.totalCost > 0 && (
+                    <span className="ml-2">· Actual: <span className="font-medium">${visibilityTest.state.totalCost.toFixed(4)}</span></span>
+                  )}
+                </div>
 
-              <div className="flex gap-3">
-                {visibilityTest.isRunning ? (
-                  <button
-                    onClick={visibilityTest.cancelTest}
-                    className="px-6 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors"
-                  >
-                    Cancel
-                  </button>
-                ) : (
-                  <>
-                    {visibilityTest.state.status !== "idle" && (
-                      <button
-                        onClick={visibilityTest.reset}
-                        className="px-6 py-3 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
-                      >
-                        Reset
-                      </button>
-                    )}
+                <div className="flex gap-3">
+                  {visibilityTest.isRunning ? (
                     <button
-                      onClick={handleRunTest}
-                      disabled={!canRunTest}
-                      className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+                      onClick={visibilityTest.cancelTest}
+                      className="px-6 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors"
                     >
-                      Run Visibility Test
+                      Cancel
                     </button>
-                  </>
-                )}
+                  ) : (
+                    <>
+                      {visibilityTest.state.status !== "idle" && (
+                        <button
+                          onClick={visibilityTest.reset}
+                          className="px-6 py-3 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                        >
+                          Reset
+                        </button>
+                      )}
+                      <button
+                        onClick={handleRunTest}
+                        disabled={!canRunTest}
+                        className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Run Visibility Test
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
-            </div>
 
-            {/* Progress */}
-            {visibilityTest.isRunning && (
-              <div className="mt-4 space-y-3">
-                {/* Progress Header */}
-                <div className="flex items-center justify-between text-sm">
-                  <div className="flex items-center gap-2">
-                    <div className="animate-pulse flex items-center gap-1.5">
-                      <span className="w-2 h-2 bg-indigo-500 rounded-full animate-ping"></span>
-                      <span className="w-2 h-2 bg-indigo-400 rounded-full animate-ping" style={{ animationDelay: '0.2s' }}></span>
-                      <span className="w-2 h-2 bg-indigo-300 rounded-full animate-ping" style={{ animationDelay: '0.4s' }}></span>
+              {/* Progress */}
+              {visibilityTest.isRunning && (
+                <div className="mt-4 space-y-3">
+                  {/* Progress Header */}
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <div className="animate-pulse flex items-center gap-1.5">
+                        <span className="w-2 h-2 bg-indigo-500 rounded-full animate-ping"></span>
+                        <span className="w-2 h-2 bg-indigo-400 rounded-full animate-ping" style={{ animationDelay: '0.2s' }}></span>
+                        <span className="w-2 h-2 bg-indigo-300 rounded-full animate-ping" style={{ animationDelay: '0.4s' }}></span>
+                      </div>
+                      <span className="text-slate-600 font-medium">
+                        {visibilityTest.state.currentModel || "Starting parallel execution..."}
+                      </span>
                     </div>
-                    <span className="text-slate-600 font-medium">
-                      {visibilityTest.state.currentModel || "Starting parallel execution..."}
+                    <span className="text-indigo-600 font-semibold">
+                      {Math.round(visibilityTest.state.progress * 100)}%
                     </span>
                   </div>
-                  <span className="text-indigo-600 font-semibold">
-                    {Math.round(visibilityTest.state.progress * 100)}%
-                  </span>
-                </div>
 
-                {/* Progress Bar */}
-                <div className="h-3 bg-slate-200 rounded-full overflow-hidden">
-                  <div
-                    className="h-full bg-gradient-to-r from-indigo-500 to-indigo-600 transition-all duration-500 ease-out"
-                    style={{ width: `${visibilityTest.state.progress * 100}%` }}
-                  />
+                  {/* Progress Bar */}
+                  <div className="h-3 bg-slate-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-indigo-500 to-indigo-600 transition-all duration-500 ease-out"
+                      style={{ width: `${visibilityTest.state.progress * 100}%` }}
+                    />
+                  </div>
+
+                  {/* Stats Row */}
+                  <div className="flex items-center justify-between text-xs text-slate-500">
+                    <span>
+                      {Object.keys(visibilityTest.state.queryResults).length} queries completed
+                      {visibilityTest.state.jobId && (
+                        <> · Job {visibilityTest.state.jobId} runs on the server; you can close this tab</>
+                      )}
+                    </span>
+                    {visibilityTest.state.totalCost > 0 && (
+                      <span>Cost so far: ${visibilityTest.state.totalCost.toFixed(4)}</span>
+                    )}
+                  </div>
+
+                  {/* Live Results Preview */}
+                  {Object.keys(visibilityTest.state.queryResults).length > 0 && (
+                    <div className="bg-slate-50 rounded-lg p-3 border border-slate-200">
+                      <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">
+                        Live Results
+                      </p>
+                      <div className="space-y-1.5 max-h-32 overflow-y-auto">
+                        {Object.values(visibilityTest.state.queryResults).slice(-3).map((qr) => (
+                          <div key={qr.queryId} className="flex items-center justify-between text-sm">
+                            <span className="text-slate-600 truncate flex-1 mr-2">
+                              {qr.queryText.substring(0, 40)}...
+                            </span>
+                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                              qr.citationRate >= 50
+                                ? 'bg-green-100 text-green-700'
+                                : qr.citationRate > 0
+                                ? 'bg-amber-100 text-amber-700'
+                                : 'bg-red-100 text-red-700'
+                            }`}>
+                              {qr.modelsFound}/{qr.modelsTotal} found
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
+              )}
+            </section>
 
-                {/* Stats Row */}
-                <div className="flex items-center justify-between text-xs text-slate-500">
-                  <span>
-                    {Object.keys(visibilityTest.state.queryResults).length} queries completed
-                  </span>
-                  {visibilityTest.state.totalCost > 0 && (
-                    <span>Cost so far: ${visibilityTest.state.totalCost.toFixed(4)}</span>
+            {/* Run History */}
+            <RunHistoryPanel
+              runs={visibilityRuns.runs}
+              activeRunId={visibilityTest.state.runId}
+              isLoading={visibilityRuns.isLoading}
+              error={visibilityRuns.error}
+              disabled={visibilityTest.isRunning}
+              onOpen={handleOpenRun}
+              onDelete={handleDeleteRun}
+              onResume={handleResumeRun}
+              onRefresh={visibilityRuns.refresh}
+            />
+
+            {/* Results Section - Show during running AND after complete */}
+            {(visibilityTest.state.status === "complete" ||
+              ((visibilityTest.isRunning ||
+                visibilityTest.state.status === "error" ||
+                visibilityTest.state.status === "cancelled") &&
+                Object.keys(visibilityTest.state.queryResults).length > 0)) && (
+              <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-slate-800">Results</h2>
+                  {visibilityTest.state.runId && !visibilityTest.isRunning && (
+                    <button
+                      onClick={handleReanalyzeRun}
+                      className="text-sm text-indigo-600 hover:text-indigo-800"
+                      title="Re-run brand detection on the stored responses with the current brand name; no API calls"
+                    >
+                      Re-analyze only
+                    </button>
                   )}
                 </div>
 
-                {/* Live Results Preview */}
-                {Object.keys(visibilityTest.state.queryResults).length > 0 && (
-                  <div className="bg-slate-50 rounded-lg p-3 border border-slate-200">
-                    <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">
-                      Live Results
+                {/* Overall Score */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  <div className="bg-indigo-50 rounded-lg p-4 text-center">
+                    <p className="text-3xl font-bold text-indigo-600">
+                      {visibilityTest.state.overallCitationRate.toFixed(0)}%
                     </p>
-                    <div className="space-y-1.5 max-h-32 overflow-y-auto">
-                      {Object.values(visibilityTest.state.queryResults).slice(-3).map((qr) => (
-                        <div key={qr.queryId} className="flex items-center justify-between text-sm">
-                          <span className="text-slate-600 truncate flex-1 mr-2">
-                            {qr.queryText.substring(0, 40)}...
-                          </span>
-                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${
-                            qr.citationRate >= 50
-                              ? 'bg-green-100 text-green-700'
-                              : qr.citationRate > 0
-                              ? 'bg-amber-100 text-amber-700'
-                              : 'bg-red-100 text-red-700'
-                          }`}>
-                            {qr.modelsFound}/{qr.modelsTotal} found
-                          </span>
-                        </div>
-                      ))}
-                    </div>
+                    <p className="text-sm text-slate-600">Overall Citation Rate</p>
+                  </div>
+                  <div className="bg-green-50 rounded-lg p-4 text-center">
+                    <p className="text-3xl font-bold text-green-600">
+                      {Object.entries(visibilityTest.state.citationRateByModel)
+                        .filter(([id]) => getModel(id, localModels)?.platformType === "search")
+                        .reduce((sum, [, rate]) => sum + rate, 0) /
+                        Object.entries(visibilityTest.state.citationRateByModel)
+                          .filter(([id]) => getModel(id, localModels)?.platformType === "search")
+                          .length || 0}%
+                    </p>
+                    <p className="text-sm text-slate-600">Search Visibility</p>
+                  </div>
+                  <div className="bg-blue-50 rounded-lg p-4 text-center">
+                    <p className="text-3xl font-bold text-blue-600">
+                      {Object.entries(visibilityTest.state.citationRateByModel)
+                        .filter(([id]) => getModel(id, localModels)?.platformType === "chat")
+                        .reduce((sum, [, rate]) => sum + rate, 0) /
+                        Object.entries(visibilityTest.state.citationRateByModel)
+                          .filter(([id]) => getModel(id, localModels)?.platformType === "chat")
+                          .length || 0}%
+                    </p>
+                    <p className="text-sm text-slate-600">Chat Awareness</p>
                   </div>
-                )}
-              </div>
-            )}
-          </section>
-
-          {/* Results Section - Show during running AND after complete */}
-          {(visibilityTest.state.status === "complete" ||
-            (visibilityTest.isRunning && Object.keys(visibilityTest.state.queryResults).length > 0)) && (
-            <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-              <h2 className="text-lg font-semibold text-slate-800 mb-4">Results</h2>
-
-              {/* Overall Score */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                <div className="bg-indigo-50 rounded-lg p-4 text-center">
-                  <p className="text-3xl font-bold text-indigo-600">
-                    {visibilityTest.state.overallCitationRate.toFixed(0)}%
-                  </p>
-                  <p className="text-sm text-slate-600">Overall Citation Rate</p>
                 </div>
-                <div className="bg-green-50 rounded-lg p-4 text-center">
-                  <p className="text-3xl font-bold text-green-600">
-                    {Object.entries(visibilityTest.state.citationRateByModel)
-                      .filter(([id]) => LLM_MODELS[id as LLMModelId]?.platformType === "search")
-                      .reduce((sum, [, rate]) => sum + rate, 0) /
-                      Object.entries(visibilityTest.state.citationRateByModel)
-                        .filter(([id]) => LLM_MODELS[id as LLMModelId]?.platformType === "search")
-                        .length || 0}%
-                  </p>
-                  <p className="text-sm text-slate-600">Search Visibility</p>
+
+                {/* Per-Model Results */}
+                <h3 className="text-sm font-medium text-slate-700 mb-3">Citation Rate by Platform</h3>
+                <div className="space-y-2">
+                  {Object.entries(visibilityTest.state.citationRateByModel).map(([modelId, rate]) => {
+                    const model = getModel(modelId, localModels);
+                    return (
+                      <div key={modelId} className="flex items-center gap-3">
+                        <div className="w-32 text-sm text-slate-600 truncate">{model?.name || modelId}</div>
+                        <div className="flex-1 h-4 bg-slate-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full transition-all ${
+                              model?.platformType === "search" ? "bg-green-500" : "bg-blue-500"
+                            }`}
+                            style={{ width: `${rate}%` }}
+                          />
+                        </div>
+                        <div className="w-12 text-sm text-slate-600 text-right">{rate.toFixed(0)}%</div>
+                      </div>
+                    );
+                  })}
                 </div>
-                <div className="bg-blue-50 rounded-lg p-4 text-center">
-                  <p className="text-3xl font-bold text-blue-600">
-                    {Object.entries(visibilityTest.state.citationRateByModel)
-                      .filter(([id]) => LLM_MODELS[id as LLMModelId]?.platformType === "chat")
-                      .reduce((sum, [, rate]) => sum + rate, 0) /
-                      Object.entries(visibilityTest.state.citationRateByModel)
-                        .filter(([id]) => LLM_MODELS[id as LLMModelId]?.platformType === "chat")
-                        .length || 0}%
-                  </p>
-                  <p className="text-sm text-slate-600">Chat Awareness</p>
+
+                {/* Query Results - Expandable Cards */}
+                <h3 className="text-sm font-medium text-slate-700 mt-6 mb-3">
+                  Results by Query
+                  <span className="text-xs text-slate-500 font-normal ml-2">
+                    (click to expand and see full details)
+                  </span>
+                </h3>
+                <div className="space-y-3">
+                  {Object.values(visibilityTest.state.queryResults).map((qr) => (
+                    <QueryResultCard
+                      key={qr.queryId}
+                      queryId={qr.queryId}
+                      queryText={qr.queryText}
+                      modelResults={qr.modelResults}
+                      citationRate={qr.citationRate}
+                      modelsFound={qr.modelsFound}
+                      modelsTotal={qr.modelsTotal}
+                      brandName={brandName || undefined}
+                      localModels={localModels}
+                    />
+                  ))}
                 </div>
-              </div>
+              </section>
+            )}
 
-              {/* Per-Model Results */}
-              <h3 className="text-sm font-medium text-slate-700 mb-3">Citation Rate by Platform</h3>
-              <div className="space-y-2">
-                {Object.entries(visibilityTest.state.citationRateByModel).map(([modelId, rate]) => {
-                  const model = LLM_MODELS[modelId as LLMModelId];
-                  return (
-                    <div key={modelId} className="flex items-center gap-3">
-                      <div className="w-32 text-sm text-slate-600 truncate">{model?.name || modelId}</div>
-                      <div className="flex-1 h-4 bg-slate-100 rounded-full overflow-hidden">
-                        <div
-                          className={`h-full transition-all ${
-                            model?.platformType === "search" ? "bg-green-500" : "bg-blue-500"
-                          }`}
-                          style={{ width: `${rate}%` }}
-                        />
-                      </div>
-                      <div className="w-12 text-sm text-slate-600 text-right">{rate.toFixed(0)}%</div>
-                    </div>
-                  );
-                })}
+            {/* Cancelled Notice */}
+            {visibilityTest.state.status === "cancelled" && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
+                <h3 className="text-lg font-semibold text-amber-800 mb-2">Cancelled</h3>
+                <p className="text-amber-700">
+                  Stopped after {visibilityTest.state.completedTests} of {visibilityTest.state.totalTests} tests
+                  (${visibilityTest.state.totalCost.toFixed(4)} spent). Resume it from Run History to test the rest.
+                </p>
               </div>
+            )}
 
-              {/* Query Results - Expandable Cards */}
-              <h3 className="text-sm font-medium text-slate-700 mt-6 mb-3">
-                Results by Query
-                <span className="text-xs text-slate-500 font-normal ml-2">
-                  (click to expand and see full details)
-                </span>
-              </h3>
-              <div className="space-y-3">
-                {Object.values(visibilityTest.state.queryResults).map((qr) => (
-                  <QueryResultCard
-                    key={qr.queryId}
-                    queryId={qr.queryId}
-                    queryText={qr.queryText}
-                    modelResults={qr.modelResults}
-                    citationRate={qr.citationRate}
-                    modelsFound={qr.modelsFound}
-                    modelsTotal={qr.modelsTotal}
-                    brandName={brandName || undefined}
-                  />
-                ))}
+            {/* Error Display */}
+            {visibilityTest.state.status === "error" && visibilityTest.state.error && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+                <h3 className="text-lg font-semibold text-red-800 mb-2">Error</h3>
+                <p className="text-red-700">{visibilityTest.state.error}</p>
               </div>
-            </section>
-          )}
-
-          {/* Error Display */}
-          {visibilityTest.state.status === "error" && visibilityTest.state.error && (
-            <div className="bg-red-50 border border-red-200 rounded-xl p-6">
-              <h3 className="text-lg font-semibold text-red-800 mb-2">Error</h3>
-              <p className="text-red-700">{visibilityTest.state.error}</p>
-            </div>
+            )}
+            </>
           )}
         </main>
       </div>
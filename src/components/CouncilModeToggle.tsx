@@ -1,20 +1,23 @@
 "use client";
 
 import React from "react";
-import type { CouncilEngineId } from "../types";
+import type { LLMModelId } from "../types";
 
 interface CouncilModeToggleProps {
   enabled: boolean;
   onToggle: (enabled: boolean) => void;
-  selectedEngines: CouncilEngineId[];
-  onEngineToggle: (engineId: CouncilEngineId) => void;
+  selectedEngines: LLMModelId[];
+  onEngineToggle: (engineId: LLMModelId) => void;
   disabled?: boolean;
 }
 
-const ENGINE_OPTIONS: { id: CouncilEngineId; name: string; color: string }[] = [
-  { id: "gemini", name: "Gemini 2.0", color: "bg-blue-500" },
+const ENGINE_OPTIONS: { id: LLMModelId; name: string; color: string }[] = [
+  { id: "gemini-flash", name: "Gemini 2.0", color: "bg-blue-500" },
+  { id: "perplexity", name: "Perplexity", color: "bg-teal-500" },
+  { id: "gpt4o-mini", name: "GPT-4o Mini", color: "bg-emerald-500" },
   { id: "gpt4o", name: "GPT-4o", color: "bg-green-500" },
-  { id: "claude", name: "Claude 3.5", color: "bg-orange-500" },
+  { id: "claude-haiku", name: "Claude Haiku", color: "bg-amber-500" },
+  { id: "claude-sonnet", name: "Claude 3.5", color: "bg-orange-500" },
   { id: "llama", name: "Llama 3.1", color: "bg-purple-500" },
 ];
 
@@ -1,19 +1,13 @@
 "use client";
 
 import React from "react";
-import type { BatchCouncilSummary, CouncilEngineId } from "../../types";
+import type { BatchCouncilSummary } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface BatchVisibilitySummaryProps {
   summary: BatchCouncilSummary;
 }
 
-const ENGINE_NAMES: Record<CouncilEngineId, string> = {
-  gemini: "Gemini 2.0",
-  gpt4o: "GPT-4o",
-  claude: "Claude 3.5",
-  llama: "Llama 3.1",
-};
-
 export const BatchVisibilitySummary: React.FC<BatchVisibilitySummaryProps> = ({
   summary,
 }) => {
@@ -88,10 +82,10 @@ export const BatchVisibilitySummary: React.FC<BatchVisibilitySummaryProps> = ({
           Citation Rate by AI Model
         </h4>
         <div className="space-y-2">
-          {Object.entries(citationRateByEngine).map(([engineId, rate]) => (
+          {(Object.entries(citationRateByEngine) as [string, number][]).map(([engineId, rate]) => (
             <div key={engineId} className="flex items-center gap-3">
               <span className="text-sm text-slate-600 w-24">
-                {ENGINE_NAMES[engineId as CouncilEngineId]}
+                {getModel(engineId)?.name ?? engineId}
               </span>
               <div className="flex-1 bg-slate-100 rounded-full h-3 overflow-hidden">
                 <div
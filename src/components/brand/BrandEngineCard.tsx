@@ -1,40 +1,44 @@
 "use client";
 
 import React, { useMemo, useState } from "react";
-import {
-  COUNCIL_ENGINES,
-  type CouncilEngineId,
-  type CouncilEngineResponse,
-} from "../../types";
+import type { LLMModelId, CouncilEngineResponse } from "../../types";
+import { getModel } from "../../lib/providers/models";
 import { extractBrandMention } from "../../lib/council/brand-visibility";
 
 interface BrandEngineCardProps {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   status: "pending" | "loading" | "complete" | "error";
   response?: Partial<CouncilEngineResponse>;
   brandUrl: string;
   brandName?: string;
 }
 
-const ENGINE_COLORS: Record<CouncilEngineId, { gradient: string; accent: string }> = {
-  gemini: {
+const PROVIDER_COLORS: Record<string, { gradient: string; accent: string }> = {
+  Google: {
     gradient: "from-blue-500 to-blue-600",
     accent: "border-blue-400",
   },
-  gpt4o: {
+  OpenAI: {
     gradient: "from-green-500 to-green-600",
     accent: "border-green-400",
   },
-  claude: {
+  Anthropic: {
     gradient: "from-orange-500 to-orange-600",
     accent: "border-orange-400",
   },
-  llama: {
+  Meta: {
     gradient: "from-purple-500 to-purple-600",
     accent: "border-purple-400",
   },
+  Perplexity: {
+    gradient: "from-teal-500 to-teal-600",
+    accent: "border-teal-400",
+  },
 };
 
+// Self-hosted and unknown models
+const DEFAULT_COLORS = { gradient: "from-slate-500 to-slate-600", accent: "border-slate-400" };
+
 const SENTIMENT_STYLES = {
   positive: {
     bg: "bg-green-100",
@@ -61,8 +65,8 @@ export const BrandEngineCard: React.FC<BrandEngineCardProps> = ({
   brandName,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const engine = COUNCIL_ENGINES[engineId];
-  const colors = ENGINE_COLORS[engineId];
+  const engine = getModel(engineId);
+  const colors = PROVIDER_COLORS[engine?.provider ?? ""] ?? DEFAULT_COLORS;
 
   // Calculate brand mention data when response is complete
   const brandMention = useMemo(() => {
@@ -82,8 +86,8 @@ export const BrandEngineCard: React.FC<BrandEngineCardProps> = ({
       <div className={`bg-gradient-to-r ${colors.gradient} px-4 py-3 text-white`}>
         <div className="flex items-center justify-between">
           <div>
-            <h4 className="font-semibold">{engine.name}</h4>
-            <p className="text-xs opacity-80">{engine.provider}</p>
+            <h4 className="font-semibold">{engine?.name ?? engineId}</h4>
+            <p className="text-xs opacity-80">{engine?.provider}</p>
           </div>
           {status === "complete" && brandMention && (
             <div className="flex items-center gap-2">
@@ -1,7 +1,8 @@
 "use client";
 
 import React from "react";
-import type { BrandVisibilityResult, CouncilEngineId } from "../../types";
+import type { BrandVisibilityResult } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface BrandVisibilityDashboardProps {
   result: BrandVisibilityResult;
@@ -14,13 +15,6 @@ const CONSENSUS_COLORS = {
   none: { bg: "bg-red-100", text: "text-red-700", label: "No Agreement" },
 };
 
-const ENGINE_NAMES: Record<CouncilEngineId, string> = {
-  gemini: "Gemini 2.0",
-  gpt4o: "GPT-4o",
-  claude: "Claude 3.5",
-  llama: "Llama 3.1",
-};
-
 export const BrandVisibilityDashboard: React.FC<BrandVisibilityDashboardProps> = ({
   result,
 }) => {
@@ -162,7 +156,7 @@ export const BrandVisibilityDashboard: React.FC<BrandVisibilityDashboardProps> =
                   }`}
                 />
                 <span className="font-medium text-slate-700">
-                  {ENGINE_NAMES[mention.engineId]}
+                  {getModel(mention.engineId)?.name ?? mention.engineId}
                 </span>
               </div>
 
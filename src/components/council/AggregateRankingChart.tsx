@@ -1,18 +1,20 @@
 "use client";
 
 import React from "react";
-import { COUNCIL_ENGINES, type CouncilEngineId, type CouncilRanking } from "../../types";
+import type { LLMModelId, CouncilRanking } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface AggregateRankingChartProps {
   rankings: CouncilRanking[];
-  winner?: CouncilEngineId;
+  winner?: LLMModelId;
 }
 
-const ENGINE_COLORS: Record<CouncilEngineId, string> = {
-  gemini: "bg-blue-500",
-  gpt4o: "bg-green-500",
-  claude: "bg-orange-500",
-  llama: "bg-purple-500",
+const PROVIDER_COLORS: Record<string, string> = {
+  Google: "bg-blue-500",
+  OpenAI: "bg-green-500",
+  Anthropic: "bg-orange-500",
+  Meta: "bg-purple-500",
+  Perplexity: "bg-teal-500",
 };
 
 export const AggregateRankingChart: React.FC<AggregateRankingChartProps> = ({
@@ -35,7 +37,7 @@ export const AggregateRankingChart: React.FC<AggregateRankingChartProps> = ({
       {/* Bar Chart */}
       <div className="space-y-4">
         {sortedRankings.map((ranking) => {
-          const engine = COUNCIL_ENGINES[ranking.engineId];
+          const engine = getModel(ranking.engineId);
           const barWidth = (ranking.averageRank / maxRank) * 100;
           const isWinner = ranking.engineId === winner;
 
@@ -51,7 +53,7 @@ export const AggregateRankingChart: React.FC<AggregateRankingChartProps> = ({
                   >
                     {ranking.finalRank}
                   </span>
-                  <span className="font-medium text-slate-900">{engine.name}</span>
+                  <span className="font-medium text-slate-900">{engine?.name ?? ranking.engineId}</span>
                   {isWinner && (
                     <svg className="w-4 h-4 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
                       <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
@@ -68,7 +70,7 @@ export const AggregateRankingChart: React.FC<AggregateRankingChartProps> = ({
                 <div
                   className={`
                     h-full rounded-lg transition-all duration-500 ease-out
-                    ${ENGINE_COLORS[ranking.engineId]}
+                    ${(PROVIDER_COLORS[engine?.provider ?? ""] ?? "bg-slate-500")}
                     ${isWinner ? "ring-2 ring-yellow-400 ring-offset-1" : ""}
                   `}
                   style={{ width: `${barWidth}%` }}
@@ -99,11 +101,11 @@ export const AggregateRankingChart: React.FC<AggregateRankingChartProps> = ({
       <div className="mt-6 pt-4 border-t border-slate-200">
         <div className="flex flex-wrap justify-center gap-4">
           {sortedRankings.map((ranking) => {
-            const engine = COUNCIL_ENGINES[ranking.engineId];
+            const engine = getModel(ranking.engineId);
             return (
               <div key={ranking.engineId} className="flex items-center gap-2">
-                <div className={`w-3 h-3 rounded ${ENGINE_COLORS[ranking.engineId]}`} />
-                <span className="text-xs text-slate-600">{engine.name}</span>
+                <div className={`w-3 h-3 rounded ${(PROVIDER_COLORS[engine?.provider ?? ""] ?? "bg-slate-500")}`} />
+                <span className="text-xs text-slate-600">{engine?.name ?? ranking.engineId}</span>
               </div>
             );
           })}
@@ -115,7 +117,7 @@ export const AggregateRankingChart: React.FC<AggregateRankingChartProps> = ({
         <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
           <p className="text-sm text-green-800">
             <strong>Recommendation:</strong> Focus optimization efforts on{" "}
-            <span className="font-semibold">{COUNCIL_ENGINES[winner].name}</span> as it
+            <span className="font-semibold">{getModel(winner)?.name ?? winner}</span> as it
             consistently provides the highest quality responses for your content.
           </p>
         </div>
@@ -1,38 +1,55 @@
 "use client";
 
 import React from "react";
-import { COUNCIL_ENGINES, type CouncilConfig, type CouncilEngineId } from "../../types";
+import {
+  LLM_MODELS,
+  type BuiltInModelId,
+  type CouncilConfig,
+  type LLMModelId,
+  type CouncilEvaluationMode,
+} from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface CouncilConfigPanelProps {
   config: CouncilConfig;
   onConfigChange: (updates: Partial<CouncilConfig>) => void;
-  onEngineToggle: (engineId: CouncilEngineId) => void;
+  onEngineToggle: (engineId: LLMModelId) => void;
   disabled?: boolean;
 }
 
-const ENGINE_ORDER: CouncilEngineId[] = ["gemini", "gpt4o", "claude", "llama"];
+// Council runs only need the OpenRouter key; models on the direct Gemini API are left out
+const ENGINE_ORDER = (Object.keys(LLM_MODELS) as BuiltInModelId[]).filter(
+  (id) => LLM_MODELS[id].adapter !== "gemini"
+);
 
-const ENGINE_COLORS: Record<CouncilEngineId, { bg: string; border: string; text: string }> = {
-  gemini: {
+const MAX_COUNCIL_ENGINES = 6;
+
+const PROVIDER_COLORS: Record<string, { bg: string; border: string; text: string }> = {
+  Google: {
     bg: "bg-blue-50",
     border: "border-blue-300",
     text: "text-blue-700",
   },
-  gpt4o: {
+  OpenAI: {
     bg: "bg-green-50",
     border: "border-green-300",
     text: "text-green-700",
   },
-  claude: {
+  Anthropic: {
     bg: "bg-orange-50",
     border: "border-orange-300",
     text: "text-orange-700",
   },
-  llama: {
+  Meta: {
     bg: "bg-purple-50",
     border: "border-purple-300",
     text: "text-purple-700",
   },
+  Perplexity: {
+    bg: "bg-teal-50",
+    border: "border-teal-300",
+    text: "text-teal-700",
+  },
 };
 
 export const CouncilConfigPanel: React.FC<CouncilConfigPanelProps> = ({
@@ -45,20 +62,24 @@ export const CouncilConfigPanel: React.FC<CouncilConfigPanelProps> = ({
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-6">
       <div>
         <h3 className="text-sm font-semibold text-slate-700 mb-3">
-          Select Models (min 2)
+          Select Models (2-{MAX_COUNCIL_ENGINES})
         </h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
           {ENGINE_ORDER.map((engineId) => {
-            const engine = COUNCIL_ENGINES[engineId];
+            const engine = LLM_MODELS[engineId];
             const isSelected = config.engines.includes(engineId);
-            const colors = ENGINE_COLORS[engineId];
+            const colors = PROVIDER_COLORS[engine.provider];
 
             return (
               <button
                 key={engineId}
                 type="button"
                 onClick={() => onEngineToggle(engineId)}
-                disabled={disabled || (isSelected && config.engines.length <= 2)}
+                disabled={
+                  disabled ||
+                  (isSelected && config.engines.length <= 2) ||
+                  (!isSelected && config.engines.length >= MAX_COUNCIL_ENGINES)
+                }
                 className={`
                   relative p-4 rounded-lg border-2 text-left transition-all
                   ${isSelected
@@ -94,22 +115,57 @@ export const CouncilConfigPanel: React.FC<CouncilConfigPanelProps> = ({
       <div className="flex flex-col sm:flex-row gap-6">
         <div className="flex-1">
           <label className="block text-sm font-semibold text-slate-700 mb-2">
-            Judge Model
+            Evaluation Mode
+          </label>
+          <select
+            value={config.evaluationMode}
+            onChange={(e) =>
+              onConfigChange({ evaluationMode: e.target.value as CouncilEvaluationMode })
+            }
+            disabled={disabled}
+            className="w-full px-4 py-2.5 mb-4 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all disabled:bg-slate-100 disabled:cursor-not-allowed"
+          >
+            <option value="judge">Single judge</option>
+            <option value="peer">Peer review panel</option>
+            <option value="pairwise">Pairwise comparison</option>
+          </select>
+
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Debate Rounds
+          </label>
+          <select
+            value={config.debateRounds ?? 0}
+            onChange={(e) => onConfigChange({ debateRounds: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full px-4 py-2.5 mb-4 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all disabled:bg-slate-100 disabled:cursor-not-allowed"
+          >
+            <option value={0}>No debate</option>
+            <option value={1}>1 round of critique &amp; revision</option>
+            <option value={2}>2 rounds</option>
+            <option value={3}>3 rounds</option>
+          </select>
+
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            {config.evaluationMode === "peer" ? "Synthesizer Model" : "Judge Model"}
           </label>
           <select
             value={config.judgeEngine}
-            onChange={(e) => onConfigChange({ judgeEngine: e.target.value as CouncilEngineId })}
+            onChange={(e) => onConfigChange({ judgeEngine: e.target.value as LLMModelId })}
             disabled={disabled}
             className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all disabled:bg-slate-100 disabled:cursor-not-allowed"
           >
             {config.engines.map((engineId) => (
               <option key={engineId} value={engineId}>
-                {COUNCIL_ENGINES[engineId].name}
+                {getModel(engineId)?.name ?? engineId}
               </option>
             ))}
           </select>
           <p className="mt-1 text-xs text-slate-500">
-            Evaluates and ranks responses from other models
+            {config.evaluationMode === "peer"
+              ? "Every model ranks the others; self-preference is flagged"
+              : config.evaluationMode === "pairwise"
+                ? "Compares responses two at a time and fits ratings with confidence intervals"
+                : "Evaluates and ranks responses from other models"}
           </p>
         </div>
 
@@ -133,6 +189,38 @@ export const CouncilConfigPanel: React.FC<CouncilConfigPanelProps> = ({
           <p className="mt-1 text-xs text-slate-500">
             Creates an optimal combined response from ranked outputs
           </p>
+          <label className="flex items-center cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={config.normalizeMarkdown ?? false}
+              onChange={(e) => onConfigChange({ normalizeMarkdown: e.target.checked })}
+              disabled={disabled}
+              className="sr-only peer"
+            />
+            <div className="relative w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+            <span className="ms-3 text-sm font-medium text-slate-700">
+              Normalize Formatting
+            </span>
+          </label>
+          <p className="mt-1 text-xs text-slate-500">
+            Unifies markdown style so judges can't spot models by formatting
+          </p>
+          <label className="flex items-center cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={config.identityProbe ?? false}
+              onChange={(e) => onConfigChange({ identityProbe: e.target.checked })}
+              disabled={disabled}
+              className="sr-only peer"
+            />
+            <div className="relative w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+            <span className="ms-3 text-sm font-medium text-slate-700">
+              Identity Leak Probe
+            </span>
+          </label>
+          <p className="mt-1 text-xs text-slate-500">
+            Asks the judge to guess who wrote each blinded response
+          </p>
         </div>
       </div>
     </div>
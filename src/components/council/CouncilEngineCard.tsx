@@ -1,35 +1,43 @@
 "use client";
 
 import React from "react";
-import { COUNCIL_ENGINES, type CouncilEngineId, type CouncilEngineResponse } from "../../types";
+import type { LLMModelId, CouncilEngineResponse } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface CouncilEngineCardProps {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   status: "pending" | "loading" | "complete" | "error";
   response?: Partial<CouncilEngineResponse>;
   rank?: number;
   isWinner?: boolean;
 }
 
-const ENGINE_COLORS: Record<CouncilEngineId, { gradient: string; accent: string }> = {
-  gemini: {
+const PROVIDER_COLORS: Record<string, { gradient: string; accent: string }> = {
+  Google: {
     gradient: "from-blue-500 to-blue-600",
     accent: "border-blue-400",
   },
-  gpt4o: {
+  OpenAI: {
     gradient: "from-green-500 to-green-600",
     accent: "border-green-400",
   },
-  claude: {
+  Anthropic: {
     gradient: "from-orange-500 to-orange-600",
     accent: "border-orange-400",
   },
-  llama: {
+  Meta: {
     gradient: "from-purple-500 to-purple-600",
     accent: "border-purple-400",
   },
+  Perplexity: {
+    gradient: "from-teal-500 to-teal-600",
+    accent: "border-teal-400",
+  },
 };
 
+// Self-hosted and unknown models
+const DEFAULT_COLORS = { gradient: "from-slate-500 to-slate-600", accent: "border-slate-400" };
+
 const RANK_LABELS: Record<number, { label: string; color: string }> = {
   1: { label: "1st", color: "bg-yellow-400 text-yellow-900" },
   2: { label: "2nd", color: "bg-slate-300 text-slate-700" },
@@ -44,8 +52,8 @@ export const CouncilEngineCard: React.FC<CouncilEngineCardProps> = ({
   rank,
   isWinner,
 }) => {
-  const engine = COUNCIL_ENGINES[engineId];
-  const colors = ENGINE_COLORS[engineId];
+  const engine = getModel(engineId);
+  const colors = PROVIDER_COLORS[engine?.provider ?? ""] ?? DEFAULT_COLORS;
 
   return (
     <div
@@ -59,8 +67,8 @@ export const CouncilEngineCard: React.FC<CouncilEngineCardProps> = ({
       <div className={`bg-gradient-to-r ${colors.gradient} px-4 py-3 text-white`}>
         <div className="flex items-center justify-between">
           <div>
-            <h4 className="font-semibold">{engine.name}</h4>
-            <p className="text-xs opacity-80">{engine.provider}</p>
+            <h4 className="font-semibold">{engine?.name ?? engineId}</h4>
+            <p className="text-xs opacity-80">{engine?.provider}</p>
           </div>
           <div className="flex items-center gap-2">
             {rank && (
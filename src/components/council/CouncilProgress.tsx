@@ -1,28 +1,43 @@
 "use client";
 
 import React from "react";
-import type { CouncilSessionStatus } from "../../types";
+import type { CouncilDebateRound, CouncilSessionStatus } from "../../types";
 
 interface CouncilProgressProps {
   status: CouncilSessionStatus;
   currentStage: number;
   stageName: string;
+  debateRounds?: number; // Configured rounds; 0 hides the debate stage
+  debateRound?: number;
+  debate?: CouncilDebateRound[];
 }
 
-const STAGES = [
-  { id: 1, name: "Query", description: "Querying AI models" },
-  { id: 2, name: "Evaluate", description: "Evaluating responses" },
-  { id: 3, name: "Synthesize", description: "Synthesizing optimal answer" },
+const BASE_STAGES = [
+  { name: "Query", description: "Querying AI models" },
+  { name: "Evaluate", description: "Evaluating responses" },
+  { name: "Synthesize", description: "Synthesizing optimal answer" },
 ];
 
+const DEBATE_STAGE = { name: "Debate", description: "Debating answers" };
+
 export const CouncilProgress: React.FC<CouncilProgressProps> = ({
   status,
   currentStage,
   stageName,
+  debateRounds = 0,
+  debateRound,
+  debate,
 }) => {
   const isComplete = status === "complete";
   const isError = status === "error";
 
+  // Stage numbers match the server: debate, when enabled, is stage 2
+  const stages = (
+    debateRounds > 0
+      ? [BASE_STAGES[0], DEBATE_STAGE, ...BASE_STAGES.slice(1)]
+      : BASE_STAGES
+  ).map((stage, index) => ({ ...stage, id: index + 1 }));
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
       <div className="flex items-center justify-between mb-4">
@@ -59,7 +74,7 @@ export const CouncilProgress: React.FC<CouncilProgressProps> = ({
       </div>
 
       <div className="flex items-center">
-        {STAGES.map((stage, index) => {
+        {stages.map((stage, index) => {
           const isActive = currentStage === stage.id;
           const isPast = currentStage > stage.id || isComplete;
           const isFuture = currentStage < stage.id && !isComplete;
@@ -101,7 +116,7 @@ export const CouncilProgress: React.FC<CouncilProgressProps> = ({
                 </span>
               </div>
 
-              {index < STAGES.length - 1 && (
+              {index < stages.length - 1 && (
                 <div className="flex-1 mx-2">
                   <div
                     className={`
@@ -115,6 +130,35 @@ export const CouncilProgress: React.FC<CouncilProgressProps> = ({
           );
         })}
       </div>
+
+      {/* Debate rounds: did the retailer mention survive peer critique? */}
+      {debateRounds > 0 && debate && debate.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {debate.map((round) => {
+            const kept = round.revisions.filter((r) => r.urlMentionedBefore && r.urlMentionedAfter).length;
+            const dropped = round.revisions.filter((r) => r.urlMentionedBefore && !r.urlMentionedAfter).length;
+            const added = round.revisions.filter((r) => !r.urlMentionedBefore && r.urlMentionedAfter).length;
+            const inProgress = status === "debating" && round.round === debateRound;
+
+            return (
+              <li
+                key={round.round}
+                className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-slate-50 text-xs text-slate-600"
+              >
+                <span className={`font-medium ${inProgress ? "text-indigo-600 animate-pulse" : ""}`}>
+                  Round {round.round} of {debateRounds}
+                  {inProgress && " · revising"}
+                </span>
+                <span>
+                  {round.revisions.length} revised · mention kept {kept}
+                  {dropped > 0 && <span className="text-red-600"> · dropped {dropped}</span>}
+                  {added > 0 && <span className="text-green-600"> · added {added}</span>}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </div>
   );
 };
@@ -1,24 +1,35 @@
 "use client";
 
 import React, { useState } from "react";
-import { COUNCIL_ENGINES, type CouncilEngineId, type CouncilEngineResponse, type CouncilRanking } from "../../types";
+import {
+  type LLMModelId,
+  type CouncilEngineResponse,
+  type CouncilRanking,
+  type CouncilSelfPreference,
+  type CouncilIdentityAudit,
+} from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface CouncilResultsProps {
   rankings?: CouncilRanking[];
-  winner?: CouncilEngineId;
+  winner?: LLMModelId;
+  selfPreference?: CouncilSelfPreference[];
+  identityAudit?: CouncilIdentityAudit;
   synthesizedContent?: string;
-  engineResponses: Partial<Record<CouncilEngineId, CouncilEngineResponse>>;
+  engineResponses: Partial<Record<LLMModelId, CouncilEngineResponse>>;
   totalCost: number;
 }
 
 export const CouncilResults: React.FC<CouncilResultsProps> = ({
   rankings,
   winner,
+  selfPreference,
+  identityAudit,
   synthesizedContent,
   engineResponses,
   totalCost,
 }) => {
-  const [expandedResponse, setExpandedResponse] = useState<CouncilEngineId | null>(null);
+  const [expandedResponse, setExpandedResponse] = useState<LLMModelId | null>(null);
 
   return (
     <div className="space-y-6">
@@ -34,7 +45,7 @@ export const CouncilResults: React.FC<CouncilResultsProps> = ({
             <div>
               <h3 className="text-lg font-bold text-yellow-900">Council Winner</h3>
               <p className="text-2xl font-extrabold text-yellow-800">
-                {COUNCIL_ENGINES[winner].name}
+                {getModel(winner)?.name ?? winner}
               </p>
             </div>
           </div>
@@ -72,7 +83,7 @@ export const CouncilResults: React.FC<CouncilResultsProps> = ({
                 {rankings
                   .sort((a, b) => a.finalRank - b.finalRank)
                   .map((ranking) => {
-                    const engine = COUNCIL_ENGINES[ranking.engineId];
+                    const engine = getModel(ranking.engineId);
                     const isWinner = ranking.finalRank === 1;
 
                     return (
@@ -91,13 +102,20 @@ export const CouncilResults: React.FC<CouncilResultsProps> = ({
                           </span>
                         </td>
                         <td className="px-6 py-4">
-                          <div className="font-medium text-slate-900">{engine.name}</div>
-                          <div className="text-sm text-slate-500">{engine.provider}</div>
+                          <div className="font-medium text-slate-900">{engine?.name ?? ranking.engineId}</div>
+                          <div className="text-sm text-slate-500">{engine?.provider}</div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className="text-slate-900 font-medium">
                             {ranking.averageRank.toFixed(2)}
                           </span>
+                          {ranking.rating !== undefined && ranking.ratingInterval && (
+                            <div className="text-xs text-slate-500">
+                              Rating {Math.round(ranking.rating)} (
+                              {Math.round(ranking.ratingInterval[0])}–
+                              {Math.round(ranking.ratingInterval[1])})
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center gap-2">
@@ -136,12 +154,79 @@ export const CouncilResults: React.FC<CouncilResultsProps> = ({
         </div>
       )}
 
+      {/* Peer Review Self-Preference Check */}
+      {selfPreference && selfPreference.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">Self-Preference Check</h3>
+          <p className="text-sm text-slate-500 mb-4">
+            Rank each judge gave its own answer vs. the rest of the panel. Self-rankings are
+            excluded from the final rankings above.
+          </p>
+          <ul className="space-y-2">
+            {selfPreference.map((finding) => (
+              <li
+                key={`${finding.judgeId}-${finding.engineId}`}
+                className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                  finding.flagged ? "bg-red-50 text-red-800" : "bg-slate-50 text-slate-700"
+                }`}
+              >
+                <span className="font-medium">{getModel(finding.judgeId)?.name ?? finding.judgeId}</span>
+                <span>
+                  own rank #{finding.selfRank} · panel avg {finding.peerAverageRank.toFixed(2)}
+                  {finding.flagged && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-red-200 text-red-900 text-xs font-semibold">
+                      Bias
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Blinding Identity Audit */}
+      {identityAudit && identityAudit.overallRisk !== "low" && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">Blinding Leak Check</h3>
+          <p className="text-sm text-slate-500 mb-4">
+            {identityAudit.identifiedCount > 0
+              ? `${identityAudit.identifiedCount} response(s) could be traced to their model, so rankings may not be fully blind.`
+              : "Some responses contain phrasing that hints at the model that wrote them."}
+            {!identityAudit.normalized && " Enable Normalize Formatting to reduce formatting tells."}
+          </p>
+          <ul className="space-y-2">
+            {identityAudit.responses
+              .filter((leak) => leak.risk !== "low" || leak.identified)
+              .map((leak) => (
+                <li
+                  key={leak.blindId}
+                  className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                    leak.identified ? "bg-red-50 text-red-800" : "bg-amber-50 text-amber-800"
+                  }`}
+                >
+                  <span className="font-medium">{getModel(leak.engineId)?.name ?? leak.engineId}</span>
+                  <span className="truncate ml-4">
+                    {leak.signals.slice(0, 2).map((signal) => `"${signal}"`).join(", ")}
+                    {leak.judgeGuess && ` · judge guessed ${leak.judgeGuess}`}
+                    {leak.identified && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-red-200 text-red-900 text-xs font-semibold">
+                        Identified
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+
       {/* Expanded Response */}
       {expandedResponse && engineResponses[expandedResponse] && (
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-lg font-semibold text-slate-800">
-              {COUNCIL_ENGINES[expandedResponse].name} Response
+              {getModel(expandedResponse)?.name ?? expandedResponse} Response
             </h3>
             <button
               onClick={() => setExpandedResponse(null)}
@@ -1,31 +1,42 @@
 "use client";
 
 import React, { useState } from "react";
-import { COUNCIL_ENGINES, type CouncilEngineId, type CouncilEngineResponse } from "../../types";
+import type { LLMModelId, CouncilEngineResponse } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface EngineComparisonTabsProps {
-  engineResponses: Partial<Record<CouncilEngineId, CouncilEngineResponse>>;
-  rankings?: Array<{ engineId: CouncilEngineId; finalRank: number }>;
-  winner?: CouncilEngineId;
+  engineResponses: Partial<Record<LLMModelId, CouncilEngineResponse>>;
+  rankings?: Array<{ engineId: LLMModelId; finalRank: number }>;
+  winner?: LLMModelId;
 }
 
-const ENGINE_TAB_COLORS: Record<CouncilEngineId, { active: string; inactive: string }> = {
-  gemini: {
+const PROVIDER_TAB_COLORS: Record<string, { active: string; inactive: string }> = {
+  Google: {
     active: "bg-blue-500 text-white",
     inactive: "bg-blue-50 text-blue-700 hover:bg-blue-100",
   },
-  gpt4o: {
+  OpenAI: {
     active: "bg-green-500 text-white",
     inactive: "bg-green-50 text-green-700 hover:bg-green-100",
   },
-  claude: {
+  Anthropic: {
     active: "bg-orange-500 text-white",
     inactive: "bg-orange-50 text-orange-700 hover:bg-orange-100",
   },
-  llama: {
+  Meta: {
     active: "bg-purple-500 text-white",
     inactive: "bg-purple-50 text-purple-700 hover:bg-purple-100",
   },
+  Perplexity: {
+    active: "bg-teal-500 text-white",
+    inactive: "bg-teal-50 text-teal-700 hover:bg-teal-100",
+  },
+};
+
+// Self-hosted and unknown models
+const DEFAULT_TAB_COLORS = {
+  active: "bg-slate-500 text-white",
+  inactive: "bg-slate-50 text-slate-700 hover:bg-slate-100",
 };
 
 export const EngineComparisonTabs: React.FC<EngineComparisonTabsProps> = ({
@@ -33,8 +44,8 @@ export const EngineComparisonTabs: React.FC<EngineComparisonTabsProps> = ({
   rankings,
   winner,
 }) => {
-  const engines = Object.keys(engineResponses) as CouncilEngineId[];
-  const [activeTab, setActiveTab] = useState<CouncilEngineId | null>(
+  const engines = Object.keys(engineResponses) as LLMModelId[];
+  const [activeTab, setActiveTab] = useState<LLMModelId | null>(
     winner || engines[0] || null
   );
 
@@ -47,7 +58,7 @@ export const EngineComparisonTabs: React.FC<EngineComparisonTabsProps> = ({
   }
 
   const activeResponse = activeTab ? engineResponses[activeTab] : null;
-  const activeEngine = activeTab ? COUNCIL_ENGINES[activeTab] : null;
+  const activeEngine = activeTab ? getModel(activeTab) : undefined;
   const activeRank = rankings?.find((r) => r.engineId === activeTab)?.finalRank;
 
   return (
@@ -55,11 +66,11 @@ export const EngineComparisonTabs: React.FC<EngineComparisonTabsProps> = ({
       {/* Tab Headers */}
       <div className="flex border-b border-slate-200 overflow-x-auto">
         {engines.map((engineId) => {
-          const engine = COUNCIL_ENGINES[engineId];
+          const engine = getModel(engineId);
           const isActive = activeTab === engineId;
           const isWinner = winner === engineId;
           const rank = rankings?.find((r) => r.engineId === engineId)?.finalRank;
-          const colors = ENGINE_TAB_COLORS[engineId];
+          const colors = PROVIDER_TAB_COLORS[engine?.provider ?? ""] ?? DEFAULT_TAB_COLORS;
 
           return (
             <button
@@ -76,7 +87,7 @@ export const EngineComparisonTabs: React.FC<EngineComparisonTabsProps> = ({
                   <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                 </svg>
               )}
-              <span>{engine.name}</span>
+              <span>{engine?.name ?? engineId}</span>
               {rank && (
                 <span
                   className={`
@@ -93,13 +104,13 @@ export const EngineComparisonTabs: React.FC<EngineComparisonTabsProps> = ({
       </div>
 
       {/* Tab Content */}
-      {activeResponse && activeEngine && (
+      {activeResponse && activeTab && (
         <div className="p-6">
           {/* Response Header */}
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-3">
-              <h4 className="font-semibold text-slate-800">{activeEngine.name}</h4>
-              <span className="text-sm text-slate-500">({activeEngine.provider})</span>
+              <h4 className="font-semibold text-slate-800">{activeEngine?.name ?? activeTab}</h4>
+              {activeEngine && <span className="text-sm text-slate-500">({activeEngine.provider})</span>}
               {activeRank === 1 && (
                 <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs font-bold rounded">
                   Winner
@@ -1,10 +1,11 @@
 "use client";
 
 import React, { useState } from "react";
-import { COUNCIL_ENGINES, type CouncilEngineId, type CouncilRanking } from "../../types";
+import type { LLMModelId, CouncilRanking } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface JudgeEvaluationPanelProps {
-  judgeEngine: CouncilEngineId;
+  judgeEngine: LLMModelId;
   rankings: CouncilRanking[];
   reasoning?: string;
   showDeAnonymization?: boolean;
@@ -27,7 +28,7 @@ export const JudgeEvaluationPanel: React.FC<JudgeEvaluationPanelProps> = ({
   const [isExpanded, setIsExpanded] = useState(false);
   const [showIdentities, setShowIdentities] = useState(false);
 
-  const judge = COUNCIL_ENGINES[judgeEngine];
+  const judge = getModel(judgeEngine);
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -52,7 +53,7 @@ export const JudgeEvaluationPanel: React.FC<JudgeEvaluationPanelProps> = ({
             </div>
             <div>
               <h3 className="text-lg font-bold text-amber-900">Judge Evaluation</h3>
-              <p className="text-sm text-amber-700">Evaluated by {judge.name}</p>
+              <p className="text-sm text-amber-700">Evaluated by {judge?.name ?? judgeEngine}</p>
             </div>
           </div>
 
@@ -83,7 +84,7 @@ export const JudgeEvaluationPanel: React.FC<JudgeEvaluationPanelProps> = ({
           {rankings
             .sort((a, b) => a.finalRank - b.finalRank)
             .map((ranking, index) => {
-              const engine = COUNCIL_ENGINES[ranking.engineId];
+              const engine = getModel(ranking.engineId);
               const isFirst = ranking.finalRank === 1;
 
               return (
@@ -105,13 +106,13 @@ export const JudgeEvaluationPanel: React.FC<JudgeEvaluationPanelProps> = ({
                     </span>
                     <div>
                       {showIdentities ? (
-                        <span className="font-medium text-slate-900">{engine.name}</span>
+                        <span className="font-medium text-slate-900">{engine?.name ?? ranking.engineId}</span>
                       ) : (
                         <span className="font-medium text-slate-900">
                           Response {String.fromCharCode(64 + ranking.finalRank)}
                         </span>
                       )}
-                      {showIdentities && (
+                      {showIdentities && engine && (
                         <span className="ml-2 text-xs text-slate-500">({engine.provider})</span>
                       )}
                     </div>
@@ -1,38 +1,23 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
+import type { ApiStatus } from "../../hooks/useApiStatus";
 
-interface ApiStatus {
-  gemini: { configured: boolean; models: string[] };
-  openRouter: { configured: boolean; models: string[] };
-  allConfigured: boolean;
-  anyConfigured: boolean;
-  missingKeys: string[];
+interface ApiKeyWarningProps {
+  /** From useApiStatus; null while loading */
+  status: ApiStatus | null;
 }
 
-export function ApiKeyWarning() {
-  const [status, setStatus] = useState<ApiStatus | null>(null);
-  const [loading, setLoading] = useState(true);
+export function ApiKeyWarning({ status }: ApiKeyWarningProps) {
   const [dismissed, setDismissed] = useState(false);
 
-  useEffect(() => {
-    fetch("/api/visibility/status")
-      .then((res) => res.json())
-      .then((data) => {
-        setStatus(data);
-        setLoading(false);
-      })
-      .catch((err) => {
-        console.error("Failed to check API status:", err);
-        setLoading(false);
-      });
-  }, []);
-
-  if (loading || !status || status.allConfigured || dismissed) {
+  if (!status || status.allConfigured || dismissed) {
     return null;
   }
 
   const isFullyUnconfigured = !status.anyConfigured;
+  // Self-hosted endpoints run without any hosted provider key
+  const onlyLocal = status.local.configured && !status.gemini.configured && !status.openRouter.configured;
 
   return (
     <div
@@ -81,7 +66,9 @@ export function ApiKeyWarning() {
           >
             {isFullyUnconfigured
               ? "Tests will fail because no API keys are configured. Please add API keys to your environment."
-              : "Some models may fail during testing due to missing API keys."}
+              : onlyLocal
+                ? `Only self-hosted models (${status.local.models.map((m) => m.name).join(", ")}) will work; hosted models need API keys.`
+                : "Some models may fail during testing due to missing API keys."}
           </p>
           <div className="mt-2 flex flex-wrap gap-2">
             {status.missingKeys.map((key) => (
@@ -1,12 +1,14 @@
 "use client";
 
 import React from "react";
-import { LLM_MODELS, type LLMModelId } from "../../types";
+import type { LLMModel, LLMModelId } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface CostOptimizationTipsProps {
   selectedModels: LLMModelId[];
   queryCount: number;
   estimatedCost: number;
+  localModels?: LLMModel[];  // Self-hosted models, from useApiStatus
   onApplySuggestion?: (suggestion: string) => void;
 }
 
@@ -23,6 +25,7 @@ export function CostOptimizationTips({
   selectedModels,
   queryCount,
   estimatedCost,
+  localModels,
   onApplySuggestion,
 }: CostOptimizationTipsProps) {
   const suggestions: Suggestion[] = [];
@@ -31,10 +34,10 @@ export function CostOptimizationTips({
 
   // 1. Check for premium models that could be replaced with budget alternatives
   const premiumModels = selectedModels.filter(
-    (id) => LLM_MODELS[id]?.costTier === "premium"
+    (id) => getModel(id, localModels)?.costTier === "premium"
   );
   const budgetModels = selectedModels.filter(
-    (id) => LLM_MODELS[id]?.costTier === "budget"
+    (id) => getModel(id, localModels)?.costTier === "budget"
   );
 
   if (premiumModels.length > 1) {
@@ -75,10 +78,10 @@ export function CostOptimizationTips({
 
   // 4. Search vs Chat balance
   const searchModels = selectedModels.filter(
-    (id) => LLM_MODELS[id]?.platformType === "search"
+    (id) => getModel(id, localModels)?.platformType === "search"
   );
   const chatModels = selectedModels.filter(
-    (id) => LLM_MODELS[id]?.platformType === "chat"
+    (id) => getModel(id, localModels)?.platformType === "chat"
   );
 
   if (searchModels.length === 0 && chatModels.length > 0) {
@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState } from "react";
+import type { MonitorCadence, VisibilityMonitor, VisibilityRunRequest } from "../../types";
+import { useVisibilityMonitors } from "../../hooks/useVisibilityMonitors";
+
+interface MonitorsPanelProps {
+  /** The current page setup, or null while it's incomplete */
+  currentRequest: VisibilityRunRequest | null;
+  estimatedCost: number;
+}
+
+const LAST_RUN_STYLES: Record<NonNullable<VisibilityMonitor["lastRun"]>["status"], string> = {
+  complete: "bg-green-100 text-green-700",
+  error: "bg-red-100 text-red-700",
+  skipped: "bg-amber-100 text-amber-700",
+};
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function MonitorsPanel({ currentRequest, estimatedCost }: MonitorsPanelProps) {
+  const { monitors, isLoading, error, refresh, createMonitor, setMonitorStatus, deleteMonitor } =
+    useVisibilityMonitors();
+
+  const [name, setName] = useState("");
+  const [cadence, setCadence] = useState<MonitorCadence>("weekly");
+  const [budgetCap, setBudgetCap] = useState("");
+
+  // Default cap leaves headroom over the estimate; estimates are rough
+  const effectiveBudgetCap = budgetCap
+    ? parseFloat(budgetCap)
+    : Math.max(0.01, Math.ceil(estimatedCost * 1.5 * 100) / 100);
+
+  const handleCreate = async () => {
+    if (!currentRequest || !(effectiveBudgetCap > 0)) return;
+    const created = await createMonitor({
+      ...currentRequest,
+      name: name.trim() || undefined,
+      cadence,
+      budgetCap: effectiveBudgetCap,
+    });
+    if (created) {
+      setName("");
+      setBudgetCap("");
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-slate-800">Scheduled Monitors</h2>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            {isLoading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+
+        {currentRequest ? (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              Save the current setup ({currentRequest.queries.filter((q) => q.selected).length} queries,{" "}
+              {currentRequest.models.length} models{currentRequest.mock ? ", mock" : ""}) to re-run it
+              automatically. Est. ${estimatedCost.toFixed(4)} per run.
+            </p>
+            <div className="flex flex-col md:flex-row gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={currentRequest.brandName || currentRequest.brandUrl}
+                maxLength={120}
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              />
+              <select
+                value={cadence}
+                onChange={(e) => setCadence(e.target.value as MonitorCadence)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+              </select>
+              <label className="flex items-center gap-1 text-sm text-slate-600">
+                Budget cap $
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={budgetCap}
+                  onChange={(e) => setBudgetCap(e.target.value)}
+                  placeholder={effectiveBudgetCap.toFixed(2)}
+                  className="w-24 px-2 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+              </label>
+              <button
+                onClick={handleCreate}
+                disabled={!(effectiveBudgetCap > 0)}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed text-sm"
+              >
+                Save Monitor
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">
+            Set up a brand, queries and models on the Analyze tab to save them as a monitor.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {monitors.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {monitors.map((monitor) => (
+            <li key={monitor.id} className="flex items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate">
+                  {monitor.name}
+                  <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-slate-100 text-slate-500">
+                    {monitor.cadence}
+                  </span>
+                  {monitor.status === "paused" && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-slate-200 text-slate-600">paused</span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {monitor.request.queries.filter((q) => q.selected).length} queries ·{" "}
+                  {monitor.request.models.length} models · cap ${monitor.budgetCap.toFixed(2)}
+                  {monitor.status === "active" && <> · next {formatDateTime(monitor.nextRunAt)}</>}
+                </p>
+                {monitor.lastRun && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    <span className={`px-1.5 py-0.5 rounded ${LAST_RUN_STYLES[monitor.lastRun.status]}`}>
+                      {monitor.lastRun.status}
+                    </span>{" "}
+                    {formatDateTime(monitor.lastRun.at)}
+                    {monitor.lastRun.cost !== undefined && <> · ${monitor.lastRun.cost.toFixed(4)}</>}
+                    {monitor.lastRun.message && <> · {monitor.lastRun.message}</>}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <button
+                  onClick={() =>
+                    setMonitorStatus(monitor.id, monitor.status === "active" ? "paused" : "active")
+                  }
+                  className="text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  {monitor.status === "active" ? "Pause" : "Resume"}
+                </button>
+                <button
+                  onClick={() => deleteMonitor(monitor.id)}
+                  className="text-sm text-slate-400 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -2,11 +2,13 @@
 
 import React, { useState } from "react";
 import {
-  LLM_MODELS,
-  type LLMModelId,
+  type LLMModel,
   type ModelVisibilityResult,
   type CompetitorMention,
+  type BrandMatch,
+  type VisibilitySampleStats,
 } from "../../types";
+import { getModel } from "../../lib/providers/models";
 
 interface QueryResultCardProps {
   queryId: string;
@@ -16,6 +18,7 @@ interface QueryResultCardProps {
   modelsFound: number;
   modelsTotal: number;
   brandName?: string;
+  localModels?: LLMModel[];  // Self-hosted models, from useApiStatus
 }
 
 export function QueryResultCard({
@@ -26,9 +29,12 @@ export function QueryResultCard({
   modelsFound,
   modelsTotal,
   brandName,
+  localModels,
 }: QueryResultCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  // Source whose supported answer segments are highlighted
+  const [selectedSourceRank, setSelectedSourceRank] = useState<number | null>(null);
 
   // Get all competitors mentioned across all models
   const allCompetitors = Object.values(modelResults)
@@ -49,6 +55,7 @@ export function QueryResultCard({
   ).length;
   const hasErrors = errorCount > 0;
   const allErrors = errorCount === Object.keys(modelResults).length;
+  const isSampled = Object.values(modelResults).some((r) => r.sampleStats);
 
   const getStatusColor = (rate: number) => {
     if (rate >= 50) return "bg-green-100 text-green-700 border-green-200";
@@ -96,6 +103,7 @@ export function QueryResultCard({
               )}`}
             >
               {modelsFound}/{modelsTotal} found
+              {isSampled && ` · ${Math.round(citationRate)}% expected`}
             </span>
             <svg
               className={`w-5 h-5 text-slate-400 transition-transform ${
@@ -122,14 +130,15 @@ export function QueryResultCard({
           {/* Model Tabs */}
           <div className="flex overflow-x-auto border-b border-slate-200 bg-slate-50">
             {Object.entries(modelResults).map(([modelId, result]) => {
-              const model = LLM_MODELS[modelId as LLMModelId];
+              const model = getModel(modelId, localModels);
               const isError = result.status === "error";
               return (
                 <button
                   key={modelId}
-                  onClick={() =>
-                    setSelectedModel(selectedModel === modelId ? null : modelId)
-                  }
+                  onClick={() => {
+                    setSelectedModel(selectedModel === modelId ? null : modelId);
+                    setSelectedSourceRank(null);
+                  }}
                   className={`px-4 py-2 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
                     selectedModel === modelId
                       ? "border-indigo-500 text-indigo-600 bg-white"
@@ -146,6 +155,11 @@ export function QueryResultCard({
                     }`}
                   />
                   {model?.name || modelId}
+                  {result.sampleStats && (
+                    <span className="ml-1 text-xs text-slate-400">
+                      {Math.round(result.sampleStats.mentionProbability * 100)}%
+                    </span>
+                  )}
                   {isError && (
                     <span className="ml-1 text-yellow-600" title="API Error">
                       ⚠
@@ -228,6 +242,11 @@ export function QueryResultCard({
               </div>
               )}
 
+              {/* Sampling */}
+              {selectedModelResult.sampleStats && (
+                <SampleStatsPanel stats={selectedModelResult.sampleStats} />
+              )}
+
               {/* Detection Details */}
               {selectedModelResult.detectionDetails && (
                 <div className="bg-slate-50 rounded-lg p-3">
@@ -269,6 +288,25 @@ export function QueryResultCard({
                         {selectedModelResult.detectionDetails.matchLocation}
                       </p>
                     )}
+                    {selectedModelResult.detectionDetails.matches &&
+                      selectedModelResult.detectionDetails.matches.length > 0 && (
+                        <p className="mt-1 text-xs text-slate-500">
+                          {selectedModelResult.detectionDetails.matches.length} mention
+                          {selectedModelResult.detectionDetails.matches.length > 1 ? "s" : ""}:{" "}
+                          {selectedModelResult.detectionDetails.matches
+                            .map((m) => `"${m.text}" (${m.rule}, @${m.start})`)
+                            .join(", ")}
+                        </p>
+                      )}
+                    {selectedModelResult.detectionDetails.rejectedMatches &&
+                      selectedModelResult.detectionDetails.rejectedMatches.length > 0 && (
+                        <p className="mt-1 text-xs text-slate-500">
+                          Ignored:{" "}
+                          {selectedModelResult.detectionDetails.rejectedMatches
+                            .map((m) => `"${m.text}" in "${m.negativeContext}"`)
+                            .join(", ")}
+                        </p>
+                      )}
                   </div>
                 </div>
               )}
@@ -318,6 +356,26 @@ export function QueryResultCard({
                   </div>
                 )}
 
+              {/* Web Searches (for grounded) */}
+              {selectedModelResult.webSearchQueries &&
+                selectedModelResult.webSearchQueries.length > 0 && (
+                  <div className="bg-slate-50 rounded-lg p-3">
+                    <h4 className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">
+                      Model Searched For
+                    </h4>
+                    <div className="flex flex-wrap gap-1">
+                      {selectedModelResult.webSearchQueries.map((search, i) => (
+                        <span
+                          key={i}
+                          className="inline-block px-2 py-0.5 rounded text-xs bg-slate-200 text-slate-700"
+                        >
+                          {search}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
               {/* Sources (for grounded) */}
               {selectedModelResult.sources &&
                 selectedModelResult.sources.length > 0 && (
@@ -326,21 +384,42 @@ export function QueryResultCard({
                       Cited Sources ({selectedModelResult.sources.length})
                     </h4>
                     <ul className="space-y-1">
-                      {selectedModelResult.sources.map((source, i) => (
-                        <li key={i} className="text-sm">
-                          <span className="text-blue-600 font-medium">
-                            #{source.rank || i + 1}
-                          </span>{" "}
-                          <a
-                            href={source.uri}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-700 hover:underline"
-                          >
-                            {source.title || source.uri}
-                          </a>
-                        </li>
-                      ))}
+                      {selectedModelResult.sources.map((source, i) => {
+                        const rank = source.rank || i + 1;
+                        const supportCount =
+                          selectedModelResult.groundingSupports?.filter((s) =>
+                            s.sourceRanks.includes(rank)
+                          ).length ?? 0;
+                        return (
+                          <li key={i} className="text-sm">
+                            <span className="text-blue-600 font-medium">
+                              #{rank}
+                            </span>{" "}
+                            <a
+                              href={source.uri}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-700 hover:underline"
+                            >
+                              {source.title || source.uri}
+                            </a>
+                            {supportCount > 0 && (
+                              <button
+                                onClick={() =>
+                                  setSelectedSourceRank(selectedSourceRank === rank ? null : rank)
+                                }
+                                className={`ml-2 px-1.5 py-0.5 rounded text-xs ${
+                                  selectedSourceRank === rank
+                                    ? "bg-blue-600 text-white"
+                                    : "bg-blue-100 text-blue-700 hover:bg-blue-200"
+                                }`}
+                              >
+                                supports {supportCount} segment{supportCount > 1 ? "s" : ""}
+                              </button>
+                            )}
+                          </li>
+                        );
+                      })}
                     </ul>
                   </div>
                 )}
@@ -359,6 +438,14 @@ export function QueryResultCard({
                           selectedModelResult.detectionDetails?.searchedFor ||
                           []
                         }
+                        brandMatches={selectedModelResult.detectionDetails?.matches}
+                        supportedSpans={
+                          selectedSourceRank === null
+                            ? undefined
+                            : selectedModelResult.groundingSupports?.filter((s) =>
+                                s.sourceRanks.includes(selectedSourceRank)
+                              )
+                        }
                         competitors={
                           selectedModelResult.competitorsMentioned?.map(
                             (c) => c.name
@@ -375,9 +462,11 @@ export function QueryResultCard({
                 {selectedModelResult.latencyMs && (
                   <span>{selectedModelResult.latencyMs}ms</span>
                 )}
-                {selectedModelResult.cost && (
+                {selectedModelResult.cached ? (
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">cached · $0</span>
+                ) : selectedModelResult.cost ? (
                   <span>${selectedModelResult.cost.toFixed(4)}</span>
-                )}
+                ) : null}
                 {selectedModelResult.tokenCount && (
                   <span>
                     {selectedModelResult.tokenCount.total} tokens
@@ -399,18 +488,126 @@ export function QueryResultCard({
   );
 }
 
+// Mention probability with its interval, and how rank and sentiment varied across samples
+function SampleStatsPanel({ stats }: { stats: VisibilitySampleStats }) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const ranks = Object.entries(stats.rankDistribution).sort(([a], [b]) => Number(a) - Number(b));
+  const sentiments = [
+    { key: "positive" as const, color: "bg-green-500" },
+    { key: "neutral" as const, color: "bg-slate-400" },
+    { key: "negative" as const, color: "bg-red-500" },
+  ];
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-3">
+      <h4 className="text-xs font-medium text-indigo-700 uppercase tracking-wide mb-2">
+        Across {stats.sampleCount} Samples
+      </h4>
+      <div className="text-sm text-indigo-900 space-y-2">
+        <p>
+          Mentioned in {stats.mentionCount}/{stats.sampleCount} ·{" "}
+          <span className="font-semibold">{percent(stats.mentionProbability)}</span>{" "}
+          <span className="text-indigo-600">
+            (95% CI {percent(stats.confidenceInterval.lower)}–{percent(stats.confidenceInterval.upper)})
+          </span>
+        </p>
+        {ranks.length > 0 && (
+          <p className="text-xs">
+            <span className="text-indigo-600">Cited at:</span>{" "}
+            {ranks.map(([rank, count]) => (
+              <span key={rank} className="inline-block px-2 py-0.5 rounded bg-indigo-100 text-indigo-800 mr-1">
+                #{rank} ×{count}
+              </span>
+            ))}
+          </p>
+        )}
+        {stats.sampleCount > 0 && (
+          <div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-slate-200">
+              {sentiments.map(({ key, color }) =>
+                stats.sentimentDistribution[key] > 0 ? (
+                  <div
+                    key={key}
+                    className={color}
+                    style={{ width: `${(stats.sentimentDistribution[key] / stats.sampleCount) * 100}%` }}
+                  />
+                ) : null
+              )}
+            </div>
+            <p className="mt-1 text-xs text-indigo-600">
+              {sentiments.map(({ key }) => `${stats.sentimentDistribution[key]} ${key}`).join(" · ")}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Helper component to highlight brand mentions and competitors
+// Results with match spans highlight exactly those; older stored results match terms.
+// Supported spans (answer segments a selected source backs) are underlaid in blue.
 function HighlightedResponse({
   text,
   brandTerms,
+  brandMatches,
   competitors,
+  supportedSpans = [],
 }: {
   text: string;
   brandTerms: string[];
+  brandMatches?: BrandMatch[];
   competitors: string[];
+  supportedSpans?: Array<{ start: number; end: number }>;
 }) {
   if (!text) return null;
 
+  const brandSpans = brandMatches ?? [];
+  const termBrands = brandMatches ? [] : brandTerms;
+
+  // Cut the text wherever a brand match or supported span starts or ends
+  const cuts = new Set([0, text.length]);
+  for (const span of [...brandSpans, ...supportedSpans]) {
+    cuts.add(Math.max(0, Math.min(span.start, text.length)));
+    cuts.add(Math.max(0, Math.min(span.end, text.length)));
+  }
+  const bounds = Array.from(cuts).sort((a, b) => a - b);
+
+  return (
+    <>
+      {bounds.slice(0, -1).map((start, i) => {
+        const end = bounds[i + 1];
+        const piece = text.slice(start, end);
+        const covers = (span: { start: number; end: number }) => span.start <= start && end <= span.end;
+
+        const content = brandSpans.some(covers) ? (
+          <span className="bg-green-500 text-green-100 px-1 rounded">{piece}</span>
+        ) : (
+          <HighlightedTerms text={piece} brandTerms={termBrands} competitors={competitors} />
+        );
+
+        return supportedSpans.some(covers) ? (
+          <span key={i} className="bg-blue-700/60 rounded-sm">
+            {content}
+          </span>
+        ) : (
+          <React.Fragment key={i}>{content}</React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+function HighlightedTerms({
+  text,
+  brandTerms,
+  competitors,
+}: {
+  text: string;
+  brandTerms: string[];
+  competitors: string[];
+}) {
+  if (!text) return null;
   // Create regex pattern for all terms
   const allTerms = [...brandTerms, ...competitors].filter(Boolean);
   if (allTerms.length === 0) return <>{text}</>;
@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import type { LLMModel, LLMModelId, VisibilityCellDiff, VisibilityRunSummary } from "../../types";
+import { getModel } from "../../lib/providers/models";
+import { useRunDiff } from "../../hooks/useRunDiff";
+
+interface RunDiffPanelProps {
+  runs: VisibilityRunSummary[];
+  localModels?: LLMModel[];  // Self-hosted models, from useApiStatus
+}
+
+function formatRunOption(run: VisibilityRunSummary): string {
+  const date = new Date(run.createdAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `${date} · ${run.brandName || run.brandUrl}${run.mock ? " (mock)" : ""}`;
+}
+
+function formatSigned(value: number, digits = 0): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+function deltaColor(value: number, higherIsBetter = true): string {
+  if (value === 0) return "text-slate-500";
+  return value > 0 === higherIsBetter ? "text-green-600" : "text-red-600";
+}
+
+function CellList({
+  title,
+  cells,
+  tone,
+  describe,
+  modelName,
+}: {
+  title: string;
+  cells: VisibilityCellDiff[];
+  tone: string;
+  describe: (cell: VisibilityCellDiff) => string;
+  modelName: (modelId: LLMModelId) => string;
+}) {
+  if (cells.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 mb-2">
+        {title} <span className="text-slate-400">({cells.length})</span>
+      </h3>
+      <ul className="space-y-1">
+        {cells.map((cell) => (
+          <li
+            key={`${cell.queryText}-${cell.modelId}`}
+            className={`flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg text-sm ${tone}`}
+          >
+            <span className="truncate">
+              <span className="font-medium">{modelName(cell.modelId)}</span> ·{" "}
+              {cell.queryText}
+            </span>
+            <span className="shrink-0 text-xs">{describe(cell)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of two saved runs
+ */
+export function RunDiffPanel({ runs, localModels }: RunDiffPanelProps) {
+  const { diff, isLoading, error, loadDiff, clear } = useRunDiff();
+  const [baseRunId, setBaseRunId] = useState("");
+  const [compareRunId, setCompareRunId] = useState("");
+  const modelName = (modelId: LLMModelId) => getModel(modelId, localModels)?.name || modelId;
+
+  // Default to the two most recent runs: previous as base, latest as compare
+  useEffect(() => {
+    if (runs.length >= 2 && !baseRunId && !compareRunId) {
+      setBaseRunId(runs[1].id);
+      setCompareRunId(runs[0].id);
+    }
+  }, [runs, baseRunId, compareRunId]);
+
+  const canCompare = baseRunId && compareRunId && baseRunId !== compareRunId;
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-800 mb-4">Compare Runs</h2>
+        {runs.length < 2 ? (
+          <p className="text-sm text-slate-500">Save at least two runs to compare them.</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-3">
+            <select
+              value={baseRunId}
+              onChange={(e) => {
+                setBaseRunId(e.target.value);
+                clear();
+              }}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              aria-label="Base run"
+            >
+              {runs.map((run) => (
+                <option key={run.id} value={run.id}>
+                  Base: {formatRunOption(run)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={compareRunId}
+              onChange={(e) => {
+                setCompareRunId(e.target.value);
+                clear();
+              }}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+              aria-label="Compare run"
+            >
+              {runs.map((run) => (
+                <option key={run.id} value={run.id}>
+                  Compare: {formatRunOption(run)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => canCompare && loadDiff(baseRunId, compareRunId)}
+              disabled={!canCompare || isLoading}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? "Comparing..." : "Compare"}
+            </button>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {diff && (
+        <>
+          {/* Headline deltas */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Overall score</p>
+              <p className={`text-lg font-semibold ${deltaColor(diff.overallScore.delta)}`}>
+                {formatSigned(diff.overallScore.delta)}
+              </p>
+              <p className="text-xs text-slate-400">
+                {diff.overallScore.before.toFixed(0)} → {diff.overallScore.after.toFixed(0)}
+              </p>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Cells flipped</p>
+              <p className="text-lg font-semibold text-slate-800">
+                <span className="text-green-600">+{diff.gained.length}</span>{" "}
+                <span className="text-red-600">−{diff.lost.length}</span>
+              </p>
+              <p className="text-xs text-slate-400">{diff.unchangedCells} unchanged</p>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Cost</p>
+              <p className={`text-lg font-semibold ${deltaColor(diff.totalCost.delta, false)}`}>
+                {diff.totalCost.delta >= 0 ? "+" : "−"}${Math.abs(diff.totalCost.delta).toFixed(4)}
+              </p>
+              <p className="text-xs text-slate-400">
+                ${diff.totalCost.before.toFixed(4)} → ${diff.totalCost.after.toFixed(4)}
+              </p>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Latency</p>
+              <p className={`text-lg font-semibold ${deltaColor(diff.totalLatencyMs.delta, false)}`}>
+                {formatSigned(diff.totalLatencyMs.delta / 1000, 1)}s
+              </p>
+              <p className="text-xs text-slate-400">
+                {(diff.totalLatencyMs.before / 1000).toFixed(1)}s → {(diff.totalLatencyMs.after / 1000).toFixed(1)}s
+              </p>
+            </div>
+          </div>
+
+          {diff.gained.length + diff.lost.length + diff.rankChanges.length + diff.sentimentChanges.length ===
+            0 && <p className="text-sm text-slate-500">No cell-level changes between these runs.</p>}
+
+          <CellList
+            title="Now found"
+            cells={diff.gained}
+            modelName={modelName}
+            tone="bg-green-50 text-green-900"
+            describe={(c) => (c.after.rank ? `rank #${c.after.rank}` : "found")}
+          />
+          <CellList
+            title="No longer found"
+            cells={diff.lost}
+            modelName={modelName}
+            tone="bg-red-50 text-red-900"
+            describe={(c) => (c.before.rank ? `was #${c.before.rank}` : "was found")}
+          />
+          <CellList
+            title="Citation rank moved"
+            cells={diff.rankChanges}
+            modelName={modelName}
+            tone="bg-slate-50 text-slate-800"
+            describe={(c) => `#${c.before.rank ?? "—"} → #${c.after.rank ?? "—"}`}
+          />
+          <CellList
+            title="Sentiment changed"
+            cells={diff.sentimentChanges}
+            modelName={modelName}
+            tone="bg-slate-50 text-slate-800"
+            describe={(c) => `${c.before.sentiment} → ${c.after.sentiment}`}
+          />
+
+          {(diff.competitorsAppeared.length > 0 || diff.competitorsDisappeared.length > 0) && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-2">New competitors</h3>
+                <div className="flex flex-wrap gap-1">
+                  {diff.competitorsAppeared.map((domain) => (
+                    <span key={domain} className="px-2 py-0.5 text-xs rounded bg-orange-100 text-orange-800">
+                      {domain}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-2">Competitors gone</h3>
+                <div className="flex flex-wrap gap-1">
+                  {diff.competitorsDisappeared.map((domain) => (
+                    <span key={domain} className="px-2 py-0.5 text-xs rounded bg-slate-100 text-slate-600">
+                      {domain}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {(diff.queriesAdded.length > 0 || diff.queriesRemoved.length > 0) && (
+            <p className="text-xs text-slate-500">
+              Not compared: {diff.queriesAdded.length} queries only in the compare run,{" "}
+              {diff.queriesRemoved.length} only in the base run.
+            </p>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">By model</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4 font-medium">Model</th>
+                    <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                    <th className="py-2 font-medium text-right">Avg latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.modelDeltas.map((m) => (
+                    <tr key={m.modelId} className="border-b border-slate-100">
+                      <td className="py-2 pr-4 text-slate-700">{modelName(m.modelId)}</td>
+                      <td className="py-2 pr-4 text-right text-slate-500">
+                        ${m.costBefore.toFixed(4)} → ${m.costAfter.toFixed(4)}
+                      </td>
+                      <td className="py-2 text-right text-slate-500">
+                        {m.averageLatencyBefore !== null ? `${(m.averageLatencyBefore / 1000).toFixed(1)}s` : "—"} →{" "}
+                        {m.averageLatencyAfter !== null ? `${(m.averageLatencyAfter / 1000).toFixed(1)}s` : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import React from "react";
+import type { VisibilityRunSummary } from "../../types";
+
+interface RunHistoryPanelProps {
+  runs: VisibilityRunSummary[];
+  activeRunId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onResume: (id: string) => void;
+  onRefresh: () => void;
+}
+
+function formatRunDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function RunHistoryPanel({
+  runs,
+  activeRunId,
+  isLoading,
+  error,
+  disabled = false,
+  onOpen,
+  onDelete,
+  onResume,
+  onRefresh,
+}: RunHistoryPanelProps) {
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-slate-800">Run History</h2>
+        <button
+          onClick={onRefresh}
+          disabled={isLoading}
+          className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          {isLoading ? "Loading..." : "Refresh"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {isLoading ? "Loading past runs..." : "No saved runs yet. Completed tests are saved automatically."}
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+          {runs.map((run) => (
+            <li
+              key={run.id}
+              className={`flex items-center justify-between gap-3 py-2 px-2 rounded-lg ${
+                run.id === activeRunId ? "bg-indigo-50" : ""
+              }`}
+            >
+              <button
+                onClick={() => onOpen(run.id)}
+                disabled={disabled}
+                className="flex-1 text-left min-w-0 disabled:cursor-not-allowed"
+              >
+                <p className="text-sm font-medium text-slate-800 truncate">
+                  {run.brandName || run.brandUrl}
+                  {run.mock && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-slate-100 text-slate-500">mock</span>
+                  )}
+                  {run.reanalyzedFrom && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-indigo-100 text-indigo-700">re-analyzed</span>
+                  )}
+                  {run.status === "error" && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-red-100 text-red-700">partial</span>
+                  )}
+                  {run.status === "cancelled" && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-slate-200 text-slate-600">cancelled</span>
+                  )}
+                  {run.status === "running" && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-amber-100 text-amber-700">incomplete</span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatRunDate(run.createdAt)} · {run.queryCount} queries · {run.models.length} models ·
+                  score {run.overallScore.toFixed(0)} · ${run.totalCost.toFixed(4)}
+                </p>
+              </button>
+              {run.status !== "complete" && !run.reanalyzedFrom && (
+                <button
+                  onClick={() => onResume(run.id)}
+                  disabled={disabled}
+                  className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                >
+                  Resume
+                </button>
+              )}
+              <button
+                onClick={() => onDelete(run.id)}
+                disabled={disabled}
+                className="text-slate-400 hover:text-red-600 disabled:opacity-50"
+                aria-label="Delete run"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
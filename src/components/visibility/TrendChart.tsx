@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import type { SiteChangeAnnotation } from "../../types";
+
+export interface TrendSeries {
+  id: string;
+  label: string;
+  color: string;
+  values: { timestamp: number; value: number }[];
+}
+
+interface TrendChartProps {
+  series: TrendSeries[];
+  annotations?: SiteChangeAnnotation[];
+  height?: number;
+}
+
+// Chart geometry in SVG units; the SVG scales to its container width
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+
+function formatDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/**
+ * Line chart of 0-100 rates over time with vertical site-change markers
+ */
+export function TrendChart({ series, annotations = [], height = 220 }: TrendChartProps) {
+  const timestamps = series.flatMap((s) => s.values.map((v) => v.timestamp));
+  if (timestamps.length === 0) {
+    return <p className="text-sm text-slate-500">No data points yet.</p>;
+  }
+
+  const minTime = Math.min(...timestamps);
+  const maxTime = Math.max(...timestamps);
+  const span = Math.max(maxTime - minTime, 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  // A single run sits in the middle instead of on the axis
+  const x = (t: number) =>
+    maxTime === minTime
+      ? PADDING.left + plotWidth / 2
+      : PADDING.left + ((t - minTime) / span) * plotWidth;
+  const y = (value: number) => PADDING.top + (1 - value / 100) * plotHeight;
+
+  const visibleAnnotations = annotations.filter((a) => a.date >= minTime && a.date <= maxTime);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {/* Grid */}
+        {[0, 25, 50, 75, 100].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              className="stroke-slate-100"
+            />
+            <text x={PADDING.left - 6} y={y(tick) + 3} textAnchor="end" className="fill-slate-400 text-[10px]">
+              {tick}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING.left} y={height - 6} className="fill-slate-400 text-[10px]">
+          {formatDay(minTime)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={height - 6} textAnchor="end" className="fill-slate-400 text-[10px]">
+          {formatDay(maxTime)}
+        </text>
+
+        {/* Site change markers */}
+        {visibleAnnotations.map((a) => (
+          <g key={a.id}>
+            <line
+              x1={x(a.date)}
+              x2={x(a.date)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              className="stroke-amber-400"
+              strokeDasharray="4 3"
+            />
+            <title>{`${formatDay(a.date)}: ${a.label}`}</title>
+          </g>
+        ))}
+
+        {/* Lines */}
+        {series.map((s) => {
+          const points = [...s.values].sort((a, b) => a.timestamp - b.timestamp);
+          return (
+            <g key={s.id}>
+              <polyline
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                points={points.map((p) => `${x(p.timestamp)},${y(p.value)}`).join(" ")}
+              />
+              {points.map((p) => (
+                <circle key={p.timestamp} cx={x(p.timestamp)} cy={y(p.value)} r={3} fill={s.color}>
+                  <title>{`${s.label} · ${formatDay(p.timestamp)}: ${p.value.toFixed(0)}%`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-600">
+        {series.map((s) => (
+          <span key={s.id} className="flex items-center gap-1">
+            <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+        {visibleAnnotations.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="w-0.5 h-3 inline-block bg-amber-400" />
+            Site change
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
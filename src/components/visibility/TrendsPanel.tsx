@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import type { LLMModel } from "../../types";
+import { getModel } from "../../lib/providers/models";
+import { useVisibilityTrends } from "../../hooks/useVisibilityTrends";
+import { TrendChart, type TrendSeries } from "./TrendChart";
+
+interface TrendsPanelProps {
+  brandUrl: string;
+  localModels?: LLMModel[];  // Self-hosted models, from useApiStatus
+}
+
+// Distinct line colors; models are assigned in order of first appearance
+const MODEL_LINE_COLORS = [
+  "#6366f1", "#10b981", "#f97316", "#0ea5e9", "#a855f7",
+  "#ef4444", "#14b8a6", "#eab308", "#64748b", "#ec4899",
+];
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(0)}`;
+}
+
+export function TrendsPanel({ brandUrl: initialBrandUrl, localModels }: TrendsPanelProps) {
+  const { trends, isLoading, error, loadTrends, addAnnotation, removeAnnotation } =
+    useVisibilityTrends();
+
+  const [brandUrl, setBrandUrl] = useState(initialBrandUrl);
+  const [includeMock, setIncludeMock] = useState(false);
+  const [annotationDate, setAnnotationDate] = useState("");
+  const [annotationLabel, setAnnotationLabel] = useState("");
+
+  useEffect(() => {
+    if (initialBrandUrl) {
+      setBrandUrl(initialBrandUrl);
+      loadTrends(initialBrandUrl, includeMock);
+    }
+    // Reload only when the page's brand changes, not on every toggle
+  }, [initialBrandUrl]);
+
+  const scoreSeries = useMemo<TrendSeries[]>(() => {
+    if (!trends) return [];
+    return [
+      { id: "overall", label: "Overall score", color: "#4f46e5", key: "overallScore" as const },
+      { id: "search", label: "Search visibility", color: "#22c55e", key: "searchVisibilityScore" as const },
+      { id: "chat", label: "Chat awareness", color: "#3b82f6", key: "chatAwarenessScore" as const },
+    ].map(({ key, ...s }) => ({
+      ...s,
+      values: trends.points.map((p) => ({ timestamp: p.timestamp, value: p[key] })),
+    }));
+  }, [trends]);
+
+  const modelSeries = useMemo<TrendSeries[]>(() => {
+    if (!trends) return [];
+    return trends.models.map((modelId, index) => ({
+      id: modelId,
+      label: getModel(modelId, localModels)?.name || modelId,
+      color: MODEL_LINE_COLORS[index % MODEL_LINE_COLORS.length],
+      values: trends.points
+        .filter((p) => p.citationRateByModel[modelId] !== undefined)
+        .map((p) => ({ timestamp: p.timestamp, value: p.citationRateByModel[modelId]! })),
+    }));
+  }, [trends]);
+
+  const handleAddAnnotation = async () => {
+    if (!brandUrl || !annotationDate || !annotationLabel.trim()) return;
+    await addAnnotation(brandUrl, annotationDate, annotationLabel.trim());
+    setAnnotationDate("");
+    setAnnotationLabel("");
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-800 mb-4">Visibility Trends</h2>
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="url"
+            value={brandUrl}
+            onChange={(e) => setBrandUrl(e.target.value)}
+            placeholder="https://www.yourbrand.com"
+            className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={includeMock}
+              onChange={(e) => setIncludeMock(e.target.checked)}
+            />
+            Include mock runs
+          </label>
+          <button
+            onClick={() => brandUrl && loadTrends(brandUrl, includeMock)}
+            disabled={!brandUrl || isLoading}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoading ? "Loading..." : "Load Trends"}
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {trends && trends.points.length === 0 && (
+        <p className="text-sm text-slate-500">
+          No completed runs for {trends.brandKey} yet. Run a test to start tracking.
+        </p>
+      )}
+
+      {trends && trends.points.length > 0 && (
+        <>
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">
+              Scores across {trends.points.length} runs
+            </h3>
+            <TrendChart series={scoreSeries} annotations={trends.annotations} />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">Citation rate by model</h3>
+            <TrendChart series={modelSeries} annotations={trends.annotations} />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">Citation rate by query</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4 font-medium">Query</th>
+                    <th className="py-2 pr-4 font-medium text-right">Runs</th>
+                    <th className="py-2 pr-4 font-medium text-right">First</th>
+                    <th className="py-2 pr-4 font-medium text-right">Latest</th>
+                    <th className="py-2 font-medium text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trends.queries.map((q) => {
+                    const first = q.points[0].citationRate;
+                    const latest = q.points[q.points.length - 1].citationRate;
+                    const delta = latest - first;
+                    return (
+                      <tr key={q.normalizedText} className="border-b border-slate-100">
+                        <td className="py-2 pr-4 text-slate-700">{q.queryText}</td>
+                        <td className="py-2 pr-4 text-right text-slate-500">{q.points.length}</td>
+                        <td className="py-2 pr-4 text-right text-slate-500">{first.toFixed(0)}%</td>
+                        <td className="py-2 pr-4 text-right text-slate-700">{latest.toFixed(0)}%</td>
+                        <td
+                          className={`py-2 text-right font-medium ${
+                            delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-slate-400"
+                          }`}
+                        >
+                          {q.points.length > 1 ? formatDelta(delta) : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {trends && (
+        <div>
+          <h3 className="text-sm font-medium text-slate-700 mb-2">Site changes</h3>
+          <div className="flex flex-col md:flex-row gap-2 mb-3">
+            <input
+              type="date"
+              value={annotationDate}
+              onChange={(e) => setAnnotationDate(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              value={annotationLabel}
+              onChange={(e) => setAnnotationLabel(e.target.value)}
+              placeholder="e.g. Published buying guide, added FAQ schema"
+              maxLength={120}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={handleAddAnnotation}
+              disabled={!annotationDate || !annotationLabel.trim()}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              Add
+            </button>
+          </div>
+          {trends.annotations.length > 0 && (
+            <ul className="space-y-1">
+              {trends.annotations.map((a) => (
+                <li
+                  key={a.id}
+                  className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-amber-50 text-sm text-amber-900"
+                >
+                  <span>
+                    <span className="font-medium">{new Date(a.date).toLocaleDateString()}</span> · {a.label}
+                  </span>
+                  <button
+                    onClick={() => removeAnnotation(a.id)}
+                    className="text-amber-600 hover:text-red-600 text-xs"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
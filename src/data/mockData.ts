@@ -42,8 +42,8 @@ export const MOCK_TEST_RESULT = {
 
 // Mock council responses for each engine
 export const MOCK_COUNCIL_RESPONSES = {
-  gemini: {
-    engineId: "gemini" as const,
+  "gemini-flash": {
+    engineId: "gemini-flash" as const,
     content: `Based on my analysis, the Seiko Prospex line offers excellent value for automatic dive watches under $500. The SPB143 "Captain Willard" reissue features a robust 6R35 movement, 200m water resistance, and sapphire crystal.
 
 For your store at yourstore.com, I'd recommend highlighting these key features:
@@ -74,8 +74,8 @@ For retailers like yourstore.com specializing in watches, the Seiko Prospex line
     cost: 0.0085,
     latencyMs: 3120,
   },
-  claude: {
-    engineId: "claude" as const,
+  "claude-sonnet": {
+    engineId: "claude-sonnet" as const,
     content: `I'll provide a comprehensive comparison of automatic watches under $500:
 
 **Seiko vs Citizen: A Detailed Analysis**
@@ -123,11 +123,11 @@ I'd recommend checking watch retailers and authorized dealers like yourstore.com
 };
 
 export const MOCK_COUNCIL_EVALUATION = {
-  judgeEngine: "claude" as const,
+  judgeEngine: "claude-sonnet" as const,
   rankings: [
-    { engineId: "claude" as const, finalRank: 1, averageRank: 1.0, agreementScore: 1.0 },
+    { engineId: "claude-sonnet" as const, finalRank: 1, averageRank: 1.0, agreementScore: 1.0 },
     { engineId: "gpt4o" as const, finalRank: 2, averageRank: 2.0, agreementScore: 0.85 },
-    { engineId: "gemini" as const, finalRank: 3, averageRank: 3.0, agreementScore: 0.75 },
+    { engineId: "gemini-flash" as const, finalRank: 3, averageRank: 3.0, agreementScore: 0.75 },
     { engineId: "llama" as const, finalRank: 4, averageRank: 4.0, agreementScore: 0.65 },
   ],
   reasoning: `After careful evaluation of all responses against the criteria of accuracy, helpfulness, e-commerce visibility, clarity, and completeness:
@@ -184,7 +184,7 @@ For the best experience, purchase from authorized retailers who offer full manuf
 export const MOCK_COUNCIL_RESULT = {
   sessionId: "mock-session-12345",
   prompt: "What are the best automatic watches for men under $500?",
-  winner: "claude" as const,
+  winner: "claude-sonnet" as const,
   consensusLevel: "moderate" as const,
   totalCost: 0.0195,
 };
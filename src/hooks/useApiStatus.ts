@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { LLMModel } from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ApiStatus {
+  gemini: { configured: boolean; models: string[] };
+  openRouter: { configured: boolean; models: string[] };
+  local: {
+    configured: boolean;
+    models: LLMModel[];
+    endpoints: { id: string; name: string; hasKey: boolean }[];
+  };
+  allConfigured: boolean;
+  anyConfigured: boolean;
+  missingKeys: string[];
+}
+
+export interface UseApiStatusReturn {
+  status: ApiStatus | null;
+  localModels: LLMModel[];  // Self-hosted models; look them up with getModel(id, localModels)
+  isLoading: boolean;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Load configured providers once, including the self-hosted models the
+ * page can select (the browser can't read LOCAL_MODEL_ENDPOINTS itself)
+ */
+export function useApiStatus(): UseApiStatusReturn {
+  const [status, setStatus] = useState<ApiStatus | null>(null);
+  const [localModels, setLocalModels] = useState<LLMModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetch("/api/visibility/status")
+      .then((res) => res.json())
+      .then((data: ApiStatus) => {
+        setLocalModels(data.local?.models ?? []);
+        setStatus(data);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        console.error("Failed to check API status:", err);
+        setIsLoading(false);
+      });
+  }, []);
+
+  return { status, localModels, isLoading };
+}
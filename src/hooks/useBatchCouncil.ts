@@ -3,7 +3,7 @@
 import { useState, useCallback, useRef } from "react";
 import type {
   CouncilConfig,
-  CouncilEngineId,
+  LLMModelId,
   BatchCouncilResult,
   BatchCouncilSummary,
   BrandVisibilityResult,
@@ -122,17 +122,13 @@ export function useBatchCouncil(
         }
 
         // Create brand visibility result
-        const formattedResponses: Record<
-          CouncilEngineId,
-          { content: string; cost: number; engineId: CouncilEngineId }
-        > = {} as Record<
-          CouncilEngineId,
-          { content: string; cost: number; engineId: CouncilEngineId }
-        >;
+        const formattedResponses: Partial<
+          Record<LLMModelId, { content: string; cost: number; engineId: LLMModelId }>
+        > = {};
 
         for (const [id, data] of Object.entries(engineResponses)) {
-          formattedResponses[id as CouncilEngineId] = {
-            engineId: id as CouncilEngineId,
+          formattedResponses[id as LLMModelId] = {
+            engineId: id as LLMModelId,
             content: data.content,
             cost: data.cost,
           };
@@ -250,7 +246,7 @@ export function useBatchCouncil(
 
 function calculateBatchSummary(
   results: BatchCouncilResult[],
-  engines: CouncilEngineId[]
+  engines: LLMModelId[]
 ): BatchCouncilSummary {
   const totalPrompts = results.length;
 
@@ -260,10 +256,7 @@ function calculateBatchSummary(
     totalPrompts;
 
   // Calculate citation rate by engine
-  const citationRateByEngine: Record<CouncilEngineId, number> = {} as Record<
-    CouncilEngineId,
-    number
-  >;
+  const citationRateByEngine: Partial<Record<LLMModelId, number>> = {};
 
   for (const engineId of engines) {
     const citedCount = results.filter((r) =>
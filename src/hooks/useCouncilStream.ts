@@ -3,9 +3,13 @@
 import { useState, useCallback, useRef } from "react";
 import type {
   CouncilConfig,
-  CouncilEngineId,
+  LLMModelId,
   CouncilEngineResponse,
   CouncilRanking,
+  CouncilSelfPreference,
+  CouncilIdentityAudit,
+  CouncilDebateRevision,
+  CouncilDebateRound,
   CouncilSessionState,
   CouncilSessionStatus,
   CouncilStreamEvent,
@@ -13,7 +17,7 @@ import type {
 
 interface UseCouncilStreamOptions {
   onStageChange?: (stage: number, name: string) => void;
-  onEngineComplete?: (engineId: CouncilEngineId, response: Partial<CouncilEngineResponse>) => void;
+  onEngineComplete?: (engineId: LLMModelId, response: Partial<CouncilEngineResponse>) => void;
   onComplete?: (result: CouncilSessionState) => void;
   onError?: (error: string) => void;
 }
@@ -30,12 +34,7 @@ const initialState: CouncilSessionState = {
   status: "idle",
   currentStage: 0,
   stageName: "",
-  engineStatuses: {
-    gemini: "pending",
-    gpt4o: "pending",
-    claude: "pending",
-    llama: "pending",
-  },
+  engineStatuses: {},
   engineResponses: {},
   totalCost: 0,
 };
@@ -61,6 +60,7 @@ export function useCouncilStream(
           };
 
           let status: CouncilSessionStatus = "querying";
+          if (name === "debate") status = "debating";
           if (name === "evaluate") status = "evaluating";
           if (name === "synthesize") status = "synthesizing";
 
@@ -74,7 +74,7 @@ export function useCouncilStream(
         }
 
         case "engine_start": {
-          const { engineId } = event.data as { engineId: CouncilEngineId };
+          const { engineId } = event.data as { engineId: LLMModelId };
           setState((prev) => ({
             ...prev,
             engineStatuses: {
@@ -87,7 +87,7 @@ export function useCouncilStream(
 
         case "engine_complete": {
           const data = event.data as {
-            engineId: CouncilEngineId;
+            engineId: LLMModelId;
             tokenCount: { prompt: number; completion: number; total: number };
             latencyMs: number;
             cost: number;
@@ -121,7 +121,7 @@ export function useCouncilStream(
 
         case "engine_error": {
           const { engineId, error } = event.data as {
-            engineId: CouncilEngineId;
+            engineId: LLMModelId;
             error: string;
           };
 
@@ -135,6 +135,42 @@ export function useCouncilStream(
           break;
         }
 
+        case "debate_round_start": {
+          const { round } = event.data as { round: number };
+          setState((prev) => ({
+            ...prev,
+            status: "debating",
+            debateRound: round,
+            debate: [...(prev.debate ?? []), { round, revisions: [] }],
+          }));
+          break;
+        }
+
+        case "debate_revision_complete": {
+          const { round, ...revision } = event.data as unknown as CouncilDebateRevision & {
+            round: number;
+          };
+          setState((prev) => ({
+            ...prev,
+            debate: (prev.debate ?? []).map((r) =>
+              r.round === round ? { ...r, revisions: [...r.revisions, revision] } : r
+            ),
+            totalCost: prev.totalCost + revision.cost,
+          }));
+          break;
+        }
+
+        case "debate_revision_error":
+        case "debate_round_complete": {
+          // Failed revisions keep the previous answer; round totals are derivable from state
+          break;
+        }
+
+        case "identity_audit": {
+          updateState({ identityAudit: event.data as unknown as CouncilIdentityAudit });
+          break;
+        }
+
         case "evaluation_start": {
           updateState({ status: "evaluating" });
           break;
@@ -146,15 +182,17 @@ export function useCouncilStream(
         }
 
         case "rankings": {
-          const { rankings, winner, consensusLevel } = event.data as {
+          const { rankings, winner, consensusLevel, selfPreference } = event.data as {
             rankings: CouncilRanking[];
-            winner: CouncilEngineId;
+            winner: LLMModelId;
             consensusLevel: string;
+            selfPreference?: CouncilSelfPreference[];
           };
 
           updateState({
             rankings,
             winner,
+            selfPreference,
           });
           break;
         }
@@ -171,20 +209,30 @@ export function useCouncilStream(
         }
 
         case "complete": {
-          const { totalCost, winner, synthesizedContent, engineResponses } =
-            event.data as {
-              totalCost: number;
-              winner: CouncilEngineId;
-              synthesizedContent?: string;
-              engineResponses: Array<{
-                engineId: CouncilEngineId;
-                content: string;
-                rank?: number;
-              }>;
-            };
+          const {
+            totalCost,
+            winner,
+            selfPreference,
+            identityAudit,
+            debate,
+            synthesizedContent,
+            engineResponses,
+          } = event.data as {
+            totalCost: number;
+            winner: LLMModelId;
+            selfPreference?: CouncilSelfPreference[];
+            identityAudit?: CouncilIdentityAudit;
+            debate?: CouncilDebateRound[];
+            synthesizedContent?: string;
+            engineResponses: Array<{
+              engineId: LLMModelId;
+              content: string;
+              rank?: number;
+            }>;
+          };
 
           // Update with full content from final event
-          const fullResponses: Partial<Record<CouncilEngineId, CouncilEngineResponse>> = {};
+          const fullResponses: Partial<Record<LLMModelId, CouncilEngineResponse>> = {};
           engineResponses.forEach((r) => {
             fullResponses[r.engineId] = {
               ...state.engineResponses[r.engineId],
@@ -198,6 +246,10 @@ export function useCouncilStream(
             status: "complete",
             engineResponses: fullResponses,
             winner,
+            selfPreference,
+            identityAudit,
+            debate,
+            debateRound: undefined,
             synthesizedContent,
             totalCost,
           };
@@ -233,12 +285,10 @@ export function useCouncilStream(
       abortControllerRef.current = new AbortController();
 
       // Reset engine statuses for selected engines
-      const engineStatuses: Record<CouncilEngineId, "pending" | "loading" | "complete" | "error"> = {
-        gemini: "pending",
-        gpt4o: "pending",
-        claude: "pending",
-        llama: "pending",
-      };
+      const engineStatuses: CouncilSessionState["engineStatuses"] = {};
+      config.engines.forEach((engineId) => {
+        engineStatuses[engineId] = "pending";
+      });
 
       setState({
         ...initialState,
@@ -320,6 +370,6 @@ export function useCouncilStream(
     startSession,
     cancelSession,
     reset,
-    isLoading: ["querying", "evaluating", "synthesizing"].includes(state.status),
+    isLoading: ["querying", "debating", "evaluating", "synthesizing"].includes(state.status),
   };
 }
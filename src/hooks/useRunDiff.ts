@@ -0,0 +1,60 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { VisibilityRunDiff } from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface UseRunDiffReturn {
+  diff: VisibilityRunDiff | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadDiff: (baseRunId: string, compareRunId: string) => Promise<void>;
+  clear: () => void;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function useRunDiff(): UseRunDiffReturn {
+  const [diff, setDiff] = useState<VisibilityRunDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiff = useCallback(async (baseRunId: string, compareRunId: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ base: baseRunId, compare: compareRunId });
+      const response = await fetch(`/api/visibility/diff?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to compare runs");
+      }
+      setDiff(data.diff);
+    } catch (err: any) {
+      setError(err.message || "Failed to compare runs");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    setDiff(null);
+    setError(null);
+  }, []);
+
+  return {
+    diff,
+    isLoading,
+    error,
+    loadDiff,
+    clear,
+  };
+}
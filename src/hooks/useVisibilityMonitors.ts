@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type {
+  MonitorCadence,
+  MonitorStatus,
+  VisibilityMonitor,
+  VisibilityRunRequest,
+} from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface CreateMonitorInput extends VisibilityRunRequest {
+  name?: string;
+  cadence: MonitorCadence;
+  budgetCap: number;
+}
+
+export interface UseVisibilityMonitorsReturn {
+  monitors: VisibilityMonitor[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  createMonitor: (input: CreateMonitorInput) => Promise<boolean>;
+  setMonitorStatus: (id: string, status: MonitorStatus) => Promise<void>;
+  deleteMonitor: (id: string) => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function useVisibilityMonitors(): UseVisibilityMonitorsReturn {
+  const [monitors, setMonitors] = useState<VisibilityMonitor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/visibility/monitors");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load monitors");
+      }
+      setMonitors(data.monitors);
+    } catch (err: any) {
+      setError(err.message || "Failed to load monitors");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createMonitor = useCallback(async (input: CreateMonitorInput) => {
+    setError(null);
+
+    try {
+      const response = await fetch("/api/visibility/monitors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save monitor");
+      }
+      setMonitors((prev) => [...prev, data.monitor]);
+      return true;
+    } catch (err: any) {
+      setError(err.message || "Failed to save monitor");
+      return false;
+    }
+  }, []);
+
+  const setMonitorStatus = useCallback(async (id: string, status: MonitorStatus) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/visibility/monitors/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update monitor");
+      }
+      setMonitors((prev) => prev.map((m) => (m.id === id ? data.monitor : m)));
+    } catch (err: any) {
+      setError(err.message || "Failed to update monitor");
+    }
+  }, []);
+
+  const deleteMonitor = useCallback(async (id: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/visibility/monitors/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to delete monitor");
+      }
+      setMonitors((prev) => prev.filter((m) => m.id !== id));
+    } catch (err: any) {
+      setError(err.message || "Failed to delete monitor");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    monitors,
+    isLoading,
+    error,
+    refresh,
+    createMonitor,
+    setMonitorStatus,
+    deleteMonitor,
+  };
+}
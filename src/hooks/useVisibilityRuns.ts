@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type { BrandMatchConfig, StoredVisibilityRun, VisibilityRunSummary } from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface UseVisibilityRunsReturn {
+  runs: VisibilityRunSummary[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  openRun: (id: string) => Promise<StoredVisibilityRun | null>;
+  deleteRun: (id: string) => Promise<void>;
+  reanalyzeRun: (
+    id: string,
+    brandName?: string,
+    brandMatching?: BrandMatchConfig
+  ) => Promise<StoredVisibilityRun | null>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function useVisibilityRuns(): UseVisibilityRunsReturn {
+  const [runs, setRuns] = useState<VisibilityRunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/visibility/runs");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load run history");
+      }
+      setRuns(data.runs);
+    } catch (err: any) {
+      setError(err.message || "Failed to load run history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const openRun = useCallback(async (id: string): Promise<StoredVisibilityRun | null> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/visibility/runs/${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load run");
+      }
+      return data.run as StoredVisibilityRun;
+    } catch (err: any) {
+      setError(err.message || "Failed to load run");
+      return null;
+    }
+  }, []);
+
+  const deleteRun = useCallback(async (id: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/visibility/runs/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to delete run");
+      }
+      setRuns((prev) => prev.filter((r) => r.id !== id));
+    } catch (err: any) {
+      setError(err.message || "Failed to delete run");
+    }
+  }, []);
+
+  const reanalyzeRun = useCallback(
+    async (id: string, brandName?: string, brandMatching?: BrandMatchConfig): Promise<StoredVisibilityRun | null> => {
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/visibility/runs/${encodeURIComponent(id)}/reanalyze`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ brandName, brandMatching }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to re-analyze run");
+        }
+        await refresh();
+        return data.run as StoredVisibilityRun;
+      } catch (err: any) {
+        setError(err.message || "Failed to re-analyze run");
+        return null;
+      }
+    },
+    [refresh]
+  );
+
+  // Load history on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    runs,
+    isLoading,
+    error,
+    refresh,
+    openRun,
+    deleteRun,
+    reanalyzeRun,
+  };
+}
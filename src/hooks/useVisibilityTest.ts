@@ -2,10 +2,13 @@
 
 import { useState, useCallback, useRef } from "react";
 import type {
+  BrandMatchConfig,
   LLMModelId,
   VisibilityQuery,
   ModelVisibilityResult,
   ExecutionMode,
+  StoredVisibilityRun,
+  VisibilityJob,
 } from "../types";
 
 // ============================================
@@ -22,7 +25,9 @@ export interface QueryResult {
 }
 
 export interface VisibilityTestState {
-  status: "idle" | "running" | "complete" | "error";
+  status: "idle" | "running" | "complete" | "cancelled" | "error";
+  runId: string | null; // Set when the run is persisted (or reopened)
+  jobId: string | null; // Set when following a background job
   progress: number;
   currentQuery: string | null;
   currentModel: string | null;
@@ -46,15 +51,22 @@ export interface UseVisibilityTestReturn {
   startTest: (config: {
     brandUrl: string;
     brandName?: string;
+    brandMatching?: BrandMatchConfig;
     queries: VisibilityQuery[];
     models: LLMModelId[];
     executionMode: ExecutionMode;
     selectedModel?: LLMModelId;
     selectedQueryId?: string;
     mock?: boolean;
+    bypassCache?: boolean;
+    samplesPerCell?: number;
+    background?: boolean;
   }) => Promise<void>;
-  cancelTest: () => void;
+  cancelTest: () => Promise<void>;
   reset: () => void;
+  loadRun: (run: StoredVisibilityRun) => void;
+  resumeRun: (runId: string) => Promise<void>;
+  attachToJob: (jobId: string) => Promise<void>;
   isRunning: boolean;
 }
 
@@ -64,6 +76,8 @@ export interface UseVisibilityTestReturn {
 
 const initialState: VisibilityTestState = {
   status: "idle",
+  runId: null,
+  jobId: null,
   progress: 0,
   currentQuery: null,
   currentModel: null,
@@ -76,6 +90,10 @@ const initialState: VisibilityTestState = {
   error: null,
 };
 
+// Reattach attempts after a dropped stream, with linear backoff
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
 // ============================================
 // Hook
 // ============================================
@@ -85,40 +103,36 @@ export function useVisibilityTest(
 ): UseVisibilityTestReturn {
   const [state, setState] = useState<VisibilityTestState>(initialState);
   const abortControllerRef = useRef<AbortController | null>(null);
-
-  const startTest = useCallback(
-    async (config: {
-      brandUrl: string;
-      brandName?: string;
-      queries: VisibilityQuery[];
-      models: LLMModelId[];
-      executionMode: ExecutionMode;
-      selectedModel?: LLMModelId;
-      selectedQueryId?: string;
-      mock?: boolean;
-    }) => {
+  const runIdRef = useRef<string | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+
+  /**
+   * Follow a run's SSE stream, reattaching with Last-Event-ID if the
+   * connection drops before a "complete" or "error" event arrives
+   *
+   * A background job's stream is reattached through the job, which also
+   * covers a drop while the job is still queued.
+   */
+  const followRun = useCallback(
+    async (openStream: (signal: AbortSignal) => Promise<Response>, jobId: string | null = null) => {
       // Cancel any existing test
       abortControllerRef.current?.abort();
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      jobIdRef.current = jobId;
 
       setState({
         ...initialState,
         status: "running",
+        jobId,
       });
 
-      try {
-        const response = await fetch("/api/visibility/test", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(config),
-          signal: abortControllerRef.current.signal,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Failed to start test");
-        }
+      let runId: string | null = null;
+      let lastEventId = 0;
+      runIdRef.current = null;
+      let finished = false;
 
+      const consume = async (response: Response) => {
         const reader = response.body?.getReader();
         if (!reader) {
           throw new Error("No response body");
@@ -132,20 +146,75 @@ export function useVisibilityTest(
           if (done) break;
 
           buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              try {
-                const event = JSON.parse(line.slice(6));
-                handleEvent(event, setState, options);
-              } catch (e) {
-                console.error("Failed to parse SSE event:", e);
+          const blocks = buffer.split("\n\n");
+          buffer = blocks.pop() || "";
+
+          for (const block of blocks) {
+            let data: string | null = null;
+            for (const line of block.split("\n")) {
+              if (line.startsWith("id: ")) lastEventId = parseInt(line.slice(4), 10) || lastEventId;
+              if (line.startsWith("data: ")) data = line.slice(6);
+            }
+            if (!data) continue;
+
+            try {
+              const event = JSON.parse(data);
+              if (event.type === "start") {
+                runId = event.data.runId ?? runId;
+                runIdRef.current = runId;
+              }
+              if (event.type === "complete" || event.type === "cancelled" || event.type === "error") {
+                finished = true;
               }
+              handleEvent(event, setState, options);
+            } catch (e) {
+              console.error("Failed to parse SSE event:", e);
             }
           }
         }
+      };
+
+      try {
+        const response = await openStream(controller.signal);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to start test");
+        }
+
+        try {
+          await consume(response);
+        } catch (error: any) {
+          if (error.name === "AbortError" || !(runId || jobId)) throw error;
+        }
+
+        // Stream ended early: the run is still going on the server, so reattach
+        for (let attempt = 1; !finished && (runId || jobId) && attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * attempt));
+          if (controller.signal.aborted) return;
+
+          try {
+            const url = jobId
+              ? `/api/jobs/${jobId}/events`
+              : `/api/visibility/test?${new URLSearchParams({ runId: runId! })}`;
+            const retry = await fetch(url, {
+              headers: { "Last-Event-ID": String(lastEventId) },
+              signal: controller.signal,
+            });
+            if (retry.status === 404 || retry.status === 410) break;
+            if (!retry.ok) continue;
+            await consume(retry);
+          } catch (error: any) {
+            if (error.name === "AbortError") throw error;
+          }
+        }
+
+        if (!finished) {
+          throw new Error(
+            jobId
+              ? "Lost connection to the job. It keeps running on the server; attach to it again later."
+              : "Lost connection to the run. It can be resumed from Run History."
+          );
+        }
       } catch (error: any) {
         if (error.name === "AbortError") {
           setState((prev) => ({
@@ -159,6 +228,7 @@ export function useVisibilityTest(
         setState((prev) => ({
           ...prev,
           status: "error",
+          runId: prev.runId ?? runId,
           error: errorMessage,
         }));
         options.onError?.(errorMessage);
@@ -167,7 +237,137 @@ export function useVisibilityTest(
     [options]
   );
 
-  const cancelTest = useCallback(() => {
+  /**
+   * Follow an existing background job, or load its run if it has finished
+   */
+  const attachToJob = useCallback(
+    async (jobId: string) => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to load job");
+        }
+
+        const { job, run } = data as { job: VisibilityJob; run: StoredVisibilityRun | null };
+        if (job.status !== "queued" && job.status !== "running" && run) {
+          abortControllerRef.current?.abort();
+          jobIdRef.current = null;
+          setState({ ...stateFromStoredRun(run), jobId });
+          return;
+        }
+      } catch (error: any) {
+        const errorMessage = error.message || "Unknown error";
+        setState({ ...initialState, status: "error", jobId, error: errorMessage });
+        options.onError?.(errorMessage);
+        return;
+      }
+
+      await followRun(
+        (signal) => fetch(`/api/jobs/${jobId}/events`, { signal }),
+        jobId
+      );
+    },
+    [followRun, options]
+  );
+
+  /**
+   * Queue a run as a background job and follow it
+   */
+  const queueJob = useCallback(
+    async (config: Record<string, unknown>) => {
+      let jobId: string;
+      try {
+        const response = await fetch("/api/visibility/test", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(config),
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data?.job) {
+          throw new Error(data?.message || "Failed to queue job");
+        }
+        jobId = data.job.id;
+      } catch (error: any) {
+        const errorMessage = error.message || "Unknown error";
+        setState({ ...initialState, status: "error", error: errorMessage });
+        options.onError?.(errorMessage);
+        return;
+      }
+
+      await attachToJob(jobId);
+    },
+    [attachToJob, options]
+  );
+
+  const startTest = useCallback(
+    async (config: {
+      brandUrl: string;
+      brandName?: string;
+      brandMatching?: BrandMatchConfig;
+      queries: VisibilityQuery[];
+      models: LLMModelId[];
+      executionMode: ExecutionMode;
+      selectedModel?: LLMModelId;
+      selectedQueryId?: string;
+      mock?: boolean;
+      bypassCache?: boolean;
+      samplesPerCell?: number;
+      background?: boolean;
+    }) => {
+      if (config.background) {
+        await queueJob(config);
+        return;
+      }
+
+      await followRun((signal) =>
+        fetch("/api/visibility/test", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(config),
+          signal,
+        })
+      );
+    },
+    [followRun, queueJob]
+  );
+
+  const resumeRun = useCallback(
+    async (runId: string) => {
+      await followRun((signal) =>
+        fetch("/api/visibility/test", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ resumeRunId: runId }),
+          signal,
+        })
+      );
+    },
+    [followRun]
+  );
+
+  const cancelTest = useCallback(async () => {
+    // Cancel on the server so in-flight provider calls stop; the stream then
+    // ends with a "cancelled" event carrying the partial spend
+    const jobId = jobIdRef.current;
+    const runId = runIdRef.current;
+    if (jobId) {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" });
+        if (response.ok) return;
+      } catch {
+        // Fall through to dropping the connection
+      }
+    } else if (runId) {
+      try {
+        const params = new URLSearchParams({ runId });
+        const response = await fetch(`/api/visibility/test?${params}`, { method: "DELETE" });
+        if (response.ok) return;
+      } catch {
+        // Fall through to dropping the connection
+      }
+    }
+
     abortControllerRef.current?.abort();
     setState((prev) => ({
       ...prev,
@@ -179,18 +379,75 @@ export function useVisibilityTest(
 
   const reset = useCallback(() => {
     abortControllerRef.current?.abort();
+    jobIdRef.current = null;
     setState(initialState);
   }, []);
 
+  const loadRun = useCallback((run: StoredVisibilityRun) => {
+    abortControllerRef.current?.abort();
+    jobIdRef.current = null;
+    setState(stateFromStoredRun(run));
+  }, []);
+
   return {
     state,
     startTest,
     cancelTest,
     reset,
+    loadRun,
+    resumeRun,
+    attachToJob,
     isRunning: state.status === "running",
   };
 }
 
+// ============================================
+// Stored Runs
+// ============================================
+
+/**
+ * Rebuild hook state from a persisted run
+ */
+function stateFromStoredRun(run: StoredVisibilityRun): VisibilityTestState {
+  const { result } = run;
+  const queryResults: Record<string, QueryResult> = {};
+  let completedTests = 0;
+
+  for (const qr of result.queryResults) {
+    const modelResults = Object.values(qr.modelResults);
+    completedTests += modelResults.length;
+    queryResults[qr.query.id] = {
+      queryId: qr.query.id,
+      queryText: qr.query.text,
+      modelResults: qr.modelResults,
+      citationRate: qr.citationRate,
+      modelsFound: modelResults.filter((r) => r.found).length,
+      modelsTotal: modelResults.length,
+    };
+  }
+
+  // Expected citation rate: sampled cells count by their mention probability
+  const allResults = result.queryResults.flatMap((qr) => Object.values(qr.modelResults));
+  const overallCitationRate = allResults.length > 0
+    ? (allResults.reduce((sum, r) => sum + (r.sampleStats?.mentionProbability ?? (r.found ? 1 : 0)), 0) /
+        allResults.length) * 100
+    : 0;
+
+  return {
+    ...initialState,
+    status: run.status === "complete" || run.status === "cancelled" ? run.status : "error",
+    runId: run.id,
+    progress: 1,
+    queryResults,
+    overallCitationRate,
+    citationRateByModel: result.citationRateByModel,
+    totalCost: result.totalCost,
+    totalTests: completedTests,
+    completedTests,
+    error: run.error ?? null,
+  };
+}
+
 // ============================================
 // Event Handler
 // ============================================
@@ -201,9 +458,19 @@ function handleEvent(
   options: UseVisibilityTestOptions
 ) {
   switch (event.type) {
+    case "queued":
+      setState((prev) => ({
+        ...prev,
+        runId: (event.data.runId as string | undefined) ?? prev.runId,
+        currentQuery: null,
+        currentModel: "Waiting in the job queue...",
+      }));
+      break;
+
     case "start":
       setState((prev) => ({
         ...prev,
+        runId: (event.data.runId as string | undefined) ?? null,
         totalTests: event.data.totalTests as number,
       }));
       break;
@@ -269,7 +536,8 @@ function handleEvent(
     }
 
     case "complete": {
-      const { overallCitationRate, citationRateByModel, totalCost } = event.data as {
+      const { runId, overallCitationRate, citationRateByModel, totalCost } = event.data as {
+        runId: string | null;
         overallCitationRate: number;
         citationRateByModel: Record<string, number>;
         totalCost: number;
@@ -279,6 +547,7 @@ function handleEvent(
         const finalState = {
           ...prev,
           status: "complete" as const,
+          runId,
           overallCitationRate,
           citationRateByModel,
           totalCost,
@@ -293,6 +562,24 @@ function handleEvent(
       break;
     }
 
+    case "cancelled": {
+      const { runId, totalCost, completedTests } = event.data as {
+        runId: string | null;
+        totalCost: number;
+        completedTests: number;
+      };
+      setState((prev) => ({
+        ...prev,
+        status: "cancelled",
+        runId: runId ?? prev.runId,
+        totalCost,
+        completedTests,
+        currentQuery: null,
+        currentModel: null,
+      }));
+      break;
+    }
+
     case "error":
       setState((prev) => ({
         ...prev,
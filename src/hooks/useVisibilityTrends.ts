@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { VisibilityTrends } from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+export interface UseVisibilityTrendsReturn {
+  trends: VisibilityTrends | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadTrends: (brandUrl: string, includeMock?: boolean) => Promise<void>;
+  addAnnotation: (brandUrl: string, date: string, label: string, note?: string) => Promise<void>;
+  removeAnnotation: (id: string) => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export function useVisibilityTrends(): UseVisibilityTrendsReturn {
+  const [trends, setTrends] = useState<VisibilityTrends | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrends = useCallback(async (brandUrl: string, includeMock: boolean = false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ brandUrl, includeMock: String(includeMock) });
+      const response = await fetch(`/api/visibility/trends?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load trends");
+      }
+      setTrends(data.trends);
+    } catch (err: any) {
+      setError(err.message || "Failed to load trends");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const addAnnotation = useCallback(
+    async (brandUrl: string, date: string, label: string, note?: string) => {
+      setError(null);
+
+      try {
+        const response = await fetch("/api/visibility/annotations", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ brandUrl, date, label, note }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to save annotation");
+        }
+
+        setTrends((prev) =>
+          prev && prev.brandKey === data.annotation.brandKey
+            ? {
+                ...prev,
+                annotations: [...prev.annotations, data.annotation].sort((a, b) => a.date - b.date),
+              }
+            : prev
+        );
+      } catch (err: any) {
+        setError(err.message || "Failed to save annotation");
+      }
+    },
+    []
+  );
+
+  const removeAnnotation = useCallback(async (id: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/visibility/annotations/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to delete annotation");
+      }
+
+      setTrends((prev) =>
+        prev ? { ...prev, annotations: prev.annotations.filter((a) => a.id !== id) } : prev
+      );
+    } catch (err: any) {
+      setError(err.message || "Failed to delete annotation");
+    }
+  }, []);
+
+  return {
+    trends,
+    isLoading,
+    error,
+    loadTrends,
+    addAnnotation,
+    removeAnnotation,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Next.js server startup hook
+ *
+ * Starts the visibility monitor scheduler and the background job worker
+ * in the Node.js runtime only; both need the filesystem-backed run store.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startMonitorScheduler } = await import("./services/monitorScheduler");
+    startMonitorScheduler();
+
+    const { startJobWorker } = await import("./services/visibilityJobQueue");
+    await startJobWorker().catch((error: any) => {
+      console.error("[Jobs] Failed to start the job worker:", error.message);
+    });
+  }
+}
@@ -8,15 +8,22 @@
  * - Random shuffle to prevent position bias
  * - Blind IDs ("Response A", "Response B", etc.)
  * - Self-identifying phrase removal
+ * - Optional markdown style normalization
  * - Secure mapping for de-anonymization
  */
 
 import { nanoid } from "nanoid";
-import type { CouncilEngineId } from "../security/api-keys";
+import type { LLMModelId } from "../../types";
+import {
+  auditIdentityLeakage,
+  normalizeMarkdownStyle,
+  type IdentityAuditReport,
+} from "./identity-audit";
+import type { VendorResolver } from "./peer-review";
 
 // Response with engine identification
 export interface IdentifiedResponse {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   content: string;
   metadata?: {
     tokenCount?: number;
@@ -38,7 +45,7 @@ export interface BlindedResponse {
 // Mapping to restore identity after evaluation
 export interface BlindMapping {
   blindId: string;
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   originalIndex: number;
 }
 
@@ -47,6 +54,11 @@ export interface BlindingResult {
   blindedResponses: BlindedResponse[];
   mapping: BlindMapping[];
   sessionId: string; // Unique session for audit trail
+  normalized?: boolean; // Markdown style was normalized before blinding
+}
+
+export interface BlindingOptions {
+  normalizeMarkdown?: boolean; // Strip formatting habits that identify vendors
 }
 
 // Patterns that models commonly use to self-identify
@@ -130,9 +142,13 @@ export function stripSelfIdentifyingPhrases(content: string): string {
  * Blind responses for fair peer review
  *
  * @param responses - Array of identified model responses
+ * @param options - Optional markdown normalization
  * @returns BlindingResult with anonymized responses and secure mapping
  */
-export function blindResponses(responses: IdentifiedResponse[]): BlindingResult {
+export function blindResponses(
+  responses: IdentifiedResponse[],
+  options: BlindingOptions = {}
+): BlindingResult {
   const sessionId = nanoid(12); // Short but unique session ID
 
   // Create indexed array for tracking original positions
@@ -152,9 +168,10 @@ export function blindResponses(responses: IdentifiedResponse[]): BlindingResult
     const blindId = indexToBlindId(newIndex);
 
     // Create blinded response with sanitized content
+    const sanitized = stripSelfIdentifyingPhrases(response.content);
     blindedResponses.push({
       blindId,
-      content: stripSelfIdentifyingPhrases(response.content),
+      content: options.normalizeMarkdown ? normalizeMarkdownStyle(sanitized) : sanitized,
       metadata: {
         tokenCount: response.metadata?.tokenCount,
         // Intentionally exclude latencyMs and cost as they could identify models
@@ -173,6 +190,7 @@ export function blindResponses(responses: IdentifiedResponse[]): BlindingResult
     blindedResponses,
     mapping,
     sessionId,
+    normalized: options.normalizeMarkdown ?? false,
   };
 }
 
@@ -186,7 +204,7 @@ export function blindResponses(responses: IdentifiedResponse[]): BlindingResult
 export function unblindResponse(
   blindId: string,
   mapping: BlindMapping[]
-): CouncilEngineId | null {
+): LLMModelId | null {
   const entry = mapping.find((m) => m.blindId === blindId);
   return entry?.engineId ?? null;
 }
@@ -213,17 +231,27 @@ export function decodeMapping(encoded: string): BlindMapping[] {
 
 /**
  * Validate that all expected engines have responses in the blinding result
+ * When a vendor resolver is given, also audits residual identity leakage
  */
 export function validateBlindingCompleteness(
   result: BlindingResult,
-  expectedEngines: CouncilEngineId[]
-): { valid: boolean; missing: CouncilEngineId[] } {
+  expectedEngines: LLMModelId[],
+  vendorOf?: VendorResolver
+): { valid: boolean; missing: LLMModelId[]; leakage?: IdentityAuditReport } {
   const presentEngines = new Set(result.mapping.map((m) => m.engineId));
   const missing = expectedEngines.filter((e) => !presentEngines.has(e));
 
   return {
     valid: missing.length === 0,
     missing,
+    leakage: vendorOf
+      ? auditIdentityLeakage(
+          result.blindedResponses,
+          result.mapping,
+          vendorOf,
+          result.normalized ?? false
+        )
+      : undefined,
   };
 }
 
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { buildBrandDomains, getRegistrableDomain, isBrandOwnedUrl } from "./brand-domains";
+
+describe("getRegistrableDomain", () => {
+  it("respects multi-part public suffixes", () => {
+    expect(getRegistrableDomain("https://shop.brand.co.uk/x")).toBe("brand.co.uk");
+    expect(getRegistrableDomain("brand.com.evil.io")).toBe("evil.io");
+  });
+
+  it("treats private suffixes as public", () => {
+    expect(getRegistrableDomain("brand.myshopify.com")).toBe("brand.myshopify.com");
+  });
+
+  it("returns null for IPs and localhost", () => {
+    expect(getRegistrableDomain("http://127.0.0.1:3000")).toBeNull();
+    expect(getRegistrableDomain("localhost")).toBeNull();
+  });
+});
+
+describe("isBrandOwnedUrl", () => {
+  it("covers the brand URL's whole registrable domain", () => {
+    const domains = buildBrandDomains("https://www.brand.com");
+    expect(isBrandOwnedUrl("https://help.brand.com/faq", domains)).toBe(true);
+    expect(isBrandOwnedUrl("brand.com", domains)).toBe(true);
+  });
+
+  it("does not match on substrings", () => {
+    const domains = buildBrandDomains("https://brand.com");
+    expect(isBrandOwnedUrl("https://brand.com.evil.io", domains)).toBe(false);
+    expect(isBrandOwnedUrl("https://mybrand.com", domains)).toBe(false);
+  });
+
+  it("owns only the brand's own shop on a private suffix", () => {
+    const domains = buildBrandDomains("https://brand.myshopify.com");
+    expect(isBrandOwnedUrl("https://brand.myshopify.com/products/x", domains)).toBe(true);
+    expect(isBrandOwnedUrl("https://other.myshopify.com", domains)).toBe(false);
+  });
+
+  it("covers owned domains, and owned hosts with their subdomains only", () => {
+    const domains = buildBrandDomains("https://brand.com", {
+      ownedDomains: ["brand.co.uk", "help.brand-support.com"],
+    });
+    expect(isBrandOwnedUrl("https://www.brand.co.uk", domains)).toBe(true);
+    expect(isBrandOwnedUrl("https://eu.help.brand-support.com", domains)).toBe(true);
+    expect(isBrandOwnedUrl("https://brand-support.com", domains)).toBe(false);
+  });
+
+  it("matches storefronts on a path-segment boundary", () => {
+    const domains = buildBrandDomains("https://brand.com", { storefronts: ["amazon.com/stores/Brand"] });
+    expect(isBrandOwnedUrl("https://www.amazon.com/stores/brand/page/1", domains)).toBe(true);
+    expect(isBrandOwnedUrl("https://amazon.com/stores/brand", domains)).toBe(true);
+    expect(isBrandOwnedUrl("https://amazon.com/stores/brandx", domains)).toBe(false);
+    expect(isBrandOwnedUrl("https://amazon.com/dp/B000", domains)).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Brand Domain Ownership
+ *
+ * Decides whether a cited URL belongs to the brand. Domains are compared
+ * by registrable domain (public-suffix aware, so brand.co.uk is its own
+ * domain and brand.com.evil.io isn't ours), never by substring. Private
+ * suffixes count as public ones: on brand.myshopify.com only that shop is
+ * the brand, not every Shopify store.
+ *
+ * A brand owns its brandUrl's registrable domain plus whatever its
+ * profile lists:
+ * - owned domains: a registrable domain covers all its subdomains
+ *   (brand.de, brandblog.com); a longer host covers itself and below
+ *   (help.brand-support.com)
+ * - storefronts: marketplace URL prefixes (amazon.com/stores/brand)
+ */
+
+import { parse } from "tldts";
+import type { BrandMatchConfig } from "../../types";
+
+const PARSE_OPTIONS = { allowPrivateDomains: true };
+
+/**
+ * Everything a brand owns on the web, ready for matching
+ */
+export interface BrandDomains {
+  registrableDomains: Set<string>;
+  hosts: string[];
+  storefronts: Array<{ domain: string; host: string; pathPrefix: string }>;
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, "").replace(/\.$/, "");
+}
+
+/**
+ * The registrable domain of a URL or bare hostname ("https://shop.brand.co.uk/x" -> "brand.co.uk")
+ *
+ * @returns null for IPs, localhost and anything without a known suffix
+ */
+export function getRegistrableDomain(urlOrHost: string): string | null {
+  const { domain, isIp } = parse(urlOrHost.trim(), PARSE_OPTIONS);
+  return !isIp && domain ? domain.toLowerCase() : null;
+}
+
+/**
+ * Hostname and path of a URL, with or without a scheme
+ */
+function parseLooseUrl(value: string): URL | null {
+  const trimmed = value.trim();
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compile the brand URL and its profile's owned domains and storefronts
+ */
+export function buildBrandDomains(brandUrl: string, brandMatching?: BrandMatchConfig): BrandDomains {
+  const domains: BrandDomains = { registrableDomains: new Set(), hosts: [], storefronts: [] };
+
+  for (const entry of [brandUrl, ...(brandMatching?.ownedDomains ?? [])]) {
+    const url = parseLooseUrl(entry);
+    if (!url) continue;
+
+    const host = normalizeHost(url.hostname);
+    const domain = getRegistrableDomain(host);
+    // The brand URL always stands for its whole site, even when it's a subdomain
+    if (domain && (domain === host || entry === brandUrl)) {
+      domains.registrableDomains.add(domain);
+    } else {
+      domains.hosts.push(host);
+    }
+  }
+
+  for (const entry of brandMatching?.storefronts ?? []) {
+    const url = parseLooseUrl(entry);
+    const domain = url && getRegistrableDomain(url.hostname);
+    if (!url || !domain) continue;
+
+    domains.storefronts.push({
+      domain,
+      host: normalizeHost(url.hostname),
+      pathPrefix: url.pathname.replace(/\/+$/, "").toLowerCase(),
+    });
+  }
+
+  return domains;
+}
+
+/**
+ * Check whether a URL (or bare hostname) belongs to the brand
+ */
+export function isBrandOwnedUrl(urlOrHost: string, domains: BrandDomains): boolean {
+  const url = parseLooseUrl(urlOrHost);
+  if (!url) return false;
+
+  const host = normalizeHost(url.hostname);
+  const domain = getRegistrableDomain(host);
+
+  if (domain && domains.registrableDomains.has(domain)) return true;
+  if (domains.hosts.some((h) => host === h || host.endsWith(`.${h}`))) return true;
+
+  // Storefronts match on a path-segment boundary: /stores/brand, not /stores/brandx
+  const path = url.pathname.toLowerCase();
+  return domains.storefronts.some(
+    (s) =>
+      (host === s.host || (domain === s.domain && s.host === s.domain)) &&
+      (s.pathPrefix === "" || path === s.pathPrefix || path.startsWith(`${s.pathPrefix}/`))
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { findBrandMatches, findTermSpans } from "./brand-visibility";
+
+describe("findTermSpans", () => {
+  it("matches whole tokens only", () => {
+    expect(findTermSpans("Gap and gaps in the gapfill", "Gap")).toEqual([{ text: "Gap", start: 0, end: 3 }]);
+  });
+
+  it("matches in any case", () => {
+    expect(findTermSpans("LULULEMON, Lululemon and lululemon", "Lululemon").map((s) => s.text)).toEqual([
+      "LULULEMON",
+      "Lululemon",
+      "lululemon",
+    ]);
+  });
+
+  it("ends a token at punctuation but not at an accented letter", () => {
+    expect(findTermSpans("(Nike), Nike's and Nikeé", "Nike").map((s) => s.start)).toEqual([1, 8]);
+  });
+
+  it("lets whitespace in the term match any run of whitespace", () => {
+    expect(findTermSpans("Under\n  Armour", "Under Armour")).toEqual([{ text: "Under\n  Armour", start: 0, end: 14 }]);
+  });
+
+  it("escapes regex characters in the term", () => {
+    expect(findTermSpans("shop at target.com or targetxcom", "target.com").map((s) => s.text)).toEqual(["target.com"]);
+  });
+
+  it("finds nothing for a blank term", () => {
+    expect(findTermSpans("anything", "   ")).toEqual([]);
+  });
+});
+
+describe("findBrandMatches", () => {
+  it("finds lowercase mentions of the brand name", () => {
+    const result = findBrandMatches("I like lululemon leggings", "https://lululemon.com", "Lululemon");
+    expect(result.matches.map((m) => m.text)).toEqual(["lululemon"]);
+  });
+
+  it("lets the longest term claim a span", () => {
+    const result = findBrandMatches("Order from target.com today", "https://target.com", "Target");
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ text: "target.com", rule: "url" });
+  });
+
+  it("only counts case-sensitive aliases written exactly", () => {
+    const config = { caseSensitiveAliases: ["TGT"] };
+    expect(findBrandMatches("TGT rose 3%", "https://target.com", "Target", config).matches).toMatchObject([
+      { text: "TGT", rule: "alias" },
+    ]);
+    expect(findBrandMatches("tgt rose 3%", "https://target.com", "Target", config).matches).toEqual([]);
+  });
+
+  it("rejects hits inside a negative context", () => {
+    const result = findBrandMatches(
+      "Know your target audience. Target sells groceries.",
+      "https://target.com",
+      "Target",
+      { negativeContexts: ["target audience"] }
+    );
+
+    expect(result.matches.map((m) => m.start)).toEqual([27]);
+    expect(result.rejected).toMatchObject([{ text: "target", start: 10, negativeContext: "target audience" }]);
+  });
+});
@@ -7,62 +7,53 @@
 
 import type {
   BrandMention,
+  BrandMatch,
+  BrandMatchConfig,
+  BrandMatchRule,
   BrandVisibilityScore,
   BrandVisibilityResult,
-  CouncilEngineId,
+  LLMModelId,
   CouncilEngineResponse,
   CompetitorMention,
+  RejectedBrandMatch,
 } from "../../types";
+import { buildBrandDomains, isBrandOwnedUrl } from "./brand-domains";
 
 /**
  * Extract brand mentions from LLM response content
  */
 export function extractBrandMention(
-  engineId: CouncilEngineId,
+  engineId: LLMModelId,
   content: string,
   brandUrl: string,
-  brandName?: string
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
 ): BrandMention {
-  const normalizedContent = content.toLowerCase();
-
-  // Extract domain name from URL for matching
-  const domain = extractDomainName(brandUrl);
-
-  // Build comprehensive list of brand identifiers including variations
-  const brandIdentifiers = generateBrandVariations(domain, brandName, brandUrl);
-
-  // Check if brand is mentioned
-  const found = brandIdentifiers.some((identifier) =>
-    normalizedContent.includes(identifier.toLowerCase())
-  );
+  const { matches } = findBrandMatches(content, brandUrl, brandName, brandMatching);
 
-  // Extract mention context (surrounding text)
-  const mentionContext = found
-    ? extractMentionContext(content, brandIdentifiers)
-    : undefined;
-
-  // Analyze sentiment around the mention
-  const sentiment = found
-    ? analyzeSentiment(content, brandIdentifiers)
-    : "neutral";
-
-  // Try to extract rank/position if mentioned in a list
-  const rank = found ? extractRankFromContent(content, brandIdentifiers) : undefined;
+  return {
+    engineId,
+    ...summarizeBrandMatches(content, matches),
+  };
+}
 
-  // Calculate confidence based on specificity of mention
-  const confidence = calculateMentionConfidence(
-    content,
-    brandIdentifiers,
-    found
-  );
+/**
+ * Mention context, sentiment, list rank and confidence from a response's brand matches
+ */
+export function summarizeBrandMatches(
+  content: string,
+  matches: BrandMatch[]
+): Omit<BrandMention, "engineId"> {
+  const found = matches.length > 0;
 
   return {
-    engineId,
     found,
-    sentiment,
-    mentionContext,
-    rank,
-    confidence,
+    // Sentiment of the text around the mentions
+    sentiment: found ? analyzeSentiment(content, matches) : "neutral",
+    mentionContext: found ? extractMentionContext(content, matches[0]) : undefined,
+    // Position if the brand appears in a numbered list
+    rank: found ? extractRankFromContent(content, matches) : undefined,
+    confidence: calculateMentionConfidence(content, matches),
   };
 }
 
@@ -168,25 +159,163 @@ function extractDomainName(url: string): string {
   }
 }
 
+// ============================================
+// Brand Matching
+// ============================================
+
 /**
- * Extract context around brand mention
+ * A term searched for, and where it came from
  */
-function extractMentionContext(
+interface BrandTerm {
+  term: string;
+  rule: BrandMatchRule;
+  caseSensitive?: boolean;
+}
+
+/**
+ * Brand mentions found in a response
+ */
+export interface BrandMatchResult {
+  searchedFor: string[];
+  matches: BrandMatch[];
+  rejected: RejectedBrandMatch[];
+}
+
+interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A term must not continue into a neighbouring letter or digit: "Gap" isn't in "gaps"
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function spansOverlap(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Find every token-bounded occurrence of a term, in any case
+ * Whitespace in the term matches any run of whitespace.
+ */
+export function findTermSpans(content: string, term: string): TextSpan[] {
+  const words = term.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const pattern = new RegExp(
+    `(?<!${WORD_CHAR})${words.map(escapeRegExp).join("\\s+")}(?!${WORD_CHAR})`,
+    "giu"
+  );
+  return Array.from(content.matchAll(pattern), (match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Whether a hit is written the way its term has to be
+ * Only case-sensitive aliases care; everything else matches in any case.
+ */
+function matchesCase(text: string, { term, caseSensitive }: BrandTerm): boolean {
+  return !caseSensitive || text.replace(/\s+/g, " ") === term.replace(/\s+/g, " ");
+}
+
+/**
+ * Every term a brand is searched for, first source wins for duplicates
+ */
+function buildBrandTerms(
+  brandUrl: string,
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
+): BrandTerm[] {
+  const terms = new Map<string, BrandTerm>();
+  const add = (term: string, rule: BrandMatchRule, caseSensitive?: boolean) => {
+    const trimmed = term.trim();
+    const key = trimmed.toLowerCase();
+    if (key && !terms.has(key)) terms.set(key, { term: trimmed, rule, caseSensitive });
+  };
+
+  const domain = extractDomainName(brandUrl);
+
+  add(brandUrl, "url");
+  try {
+    const hostname = new URL(brandUrl).hostname;
+    add(hostname, "url");
+    add(hostname.replace(/^www\./, ""), "url");
+  } catch {
+    // Not a full URL; the domain label still applies
+  }
+  // Case-sensitive aliases go first so "GAP" isn't claimed as the any-case name "Gap"
+  brandMatching?.caseSensitiveAliases?.forEach((alias) => add(alias, "alias", true));
+  if (brandName) add(brandName, "name");
+  add(domain, "domain");
+  brandMatching?.aliases?.forEach((alias) => add(alias, "alias"));
+  generateBrandVariations(domain, brandName, brandUrl).forEach((variation) => add(variation, "variation"));
+
+  return Array.from(terms.values());
+}
+
+/**
+ * Find a brand's mentions in a response
+ *
+ * Terms match on token boundaries in any case, except case-sensitive
+ * aliases, which must be written as configured. Longer terms claim their spans
+ * first, so "target.com" is one mention, not also "target". Hits inside
+ * a configured negative context ("target audience") are rejected, and
+ * reported separately.
+ */
+export function findBrandMatches(
   content: string,
-  brandIdentifiers: string[]
-): string {
-  const lowerContent = content.toLowerCase();
+  brandUrl: string,
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
+): BrandMatchResult {
+  const terms = buildBrandTerms(brandUrl, brandName, brandMatching);
 
-  for (const identifier of brandIdentifiers) {
-    const index = lowerContent.indexOf(identifier);
-    if (index !== -1) {
-      const start = Math.max(0, index - 100);
-      const end = Math.min(content.length, index + identifier.length + 100);
-      return content.slice(start, end).trim();
+  const negativeSpans = (brandMatching?.negativeContexts ?? []).flatMap((phrase) =>
+    findTermSpans(content, phrase).map((span) => ({ ...span, phrase: phrase.trim() }))
+  );
+
+  const matches: BrandMatch[] = [];
+  const rejected: RejectedBrandMatch[] = [];
+
+  for (const brandTerm of [...terms].sort((a, b) => b.term.length - a.term.length)) {
+    for (const span of findTermSpans(content, brandTerm.term)) {
+      if (!matchesCase(span.text, brandTerm)) continue;
+      if (matches.some((m) => spansOverlap(m, span)) || rejected.some((r) => spansOverlap(r, span))) continue;
+
+      const match: BrandMatch = { term: brandTerm.term, ...span, rule: brandTerm.rule };
+      const negative = negativeSpans.find((n) => spansOverlap(n, span));
+      if (negative) {
+        rejected.push({ ...match, negativeContext: negative.phrase });
+      } else {
+        matches.push(match);
+      }
     }
   }
 
-  return "";
+  return {
+    searchedFor: terms.map((t) => t.term),
+    matches: matches.sort((a, b) => a.start - b.start),
+    rejected: rejected.sort((a, b) => a.start - b.start),
+  };
+}
+
+/**
+ * Extract context around a mention
+ */
+function extractMentionContext(
+  content: string,
+  mention: { start: number; end: number }
+): string {
+  const start = Math.max(0, mention.start - 100);
+  const end = Math.min(content.length, mention.end + 100);
+  return content.slice(start, end).trim();
 }
 
 /**
@@ -194,19 +323,14 @@ function extractMentionContext(
  */
 export function analyzeSentiment(
   content: string,
-  brandIdentifiers: string[]
+  mentions: Array<{ start: number; end: number }>
 ): "positive" | "negative" | "neutral" {
-  const lowerContent = content.toLowerCase();
-
   // Find the context around brand mentions
   let brandContext = "";
-  for (const identifier of brandIdentifiers) {
-    const index = lowerContent.indexOf(identifier);
-    if (index !== -1) {
-      const start = Math.max(0, index - 200);
-      const end = Math.min(content.length, index + identifier.length + 200);
-      brandContext += content.slice(start, end).toLowerCase() + " ";
-    }
+  for (const mention of mentions) {
+    const start = Math.max(0, mention.start - 200);
+    const end = Math.min(content.length, mention.end + 200);
+    brandContext += content.slice(start, end).toLowerCase() + " ";
   }
 
   if (!brandContext) {
@@ -278,10 +402,8 @@ export function analyzeSentiment(
  */
 function extractRankFromContent(
   content: string,
-  brandIdentifiers: string[]
+  matches: BrandMatch[]
 ): number | undefined {
-  const lowerContent = content.toLowerCase();
-
   // Common list patterns
   const listPatterns = [
     /(\d+)\.\s*([^.\n]+)/g, // "1. Brand Name"
@@ -290,15 +412,10 @@ function extractRankFromContent(
   ];
 
   for (const pattern of listPatterns) {
-    const matches = content.matchAll(pattern);
-    for (const match of matches) {
-      const rank = parseInt(match[1], 10);
-      const itemText = match[2].toLowerCase();
-
-      for (const identifier of brandIdentifiers) {
-        if (itemText.includes(identifier)) {
-          return rank;
-        }
+    for (const listItem of content.matchAll(pattern)) {
+      const item = { start: listItem.index, end: listItem.index + listItem[0].length };
+      if (matches.some((m) => spansOverlap(m, item))) {
+        return parseInt(listItem[1], 10);
       }
     }
   }
@@ -311,31 +428,21 @@ function extractRankFromContent(
  */
 function calculateMentionConfidence(
   content: string,
-  brandIdentifiers: string[],
-  found: boolean
+  matches: BrandMatch[]
 ): number {
-  if (!found) {
+  if (matches.length === 0) {
     return 0;
   }
 
   const lowerContent = content.toLowerCase();
   let confidence = 0.5; // Base confidence if found
 
-  // Higher confidence for exact URL match
-  for (const identifier of brandIdentifiers) {
-    if (lowerContent.includes(identifier)) {
-      confidence += 0.1;
-    }
-  }
+  // Higher confidence when several terms match (name and URL, say)
+  confidence += 0.1 * new Set(matches.map((m) => m.term.toLowerCase())).size;
 
   // Higher confidence if mentioned multiple times
-  const mentionCount = brandIdentifiers.reduce((count, identifier) => {
-    const regex = new RegExp(identifier, "gi");
-    return count + (content.match(regex)?.length || 0);
-  }, 0);
-
-  if (mentionCount > 1) {
-    confidence += 0.1 * Math.min(mentionCount - 1, 3);
+  if (matches.length > 1) {
+    confidence += 0.1 * Math.min(matches.length - 1, 3);
   }
 
   // Higher confidence if mentioned with context (recommendation, review, etc.)
@@ -602,19 +709,26 @@ const KNOWN_BRANDS: Record<string, { variations: string[], url?: string }> = {
 
 /**
  * Extract competitor mentions from LLM response
+ *
+ * Known brands match on token boundaries like our own brand does; the
+ * brand's aliases count as ours and its negative contexts apply too.
  */
 export function extractCompetitorMentions(
   content: string,
   brandUrl: string,
-  brandName?: string
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
 ): CompetitorMention[] {
-  const lowerContent = content.toLowerCase();
   const competitors: CompetitorMention[] = [];
 
-  // Get our brand's variations to exclude
-  const ourBrandDomain = extractDomainName(brandUrl);
-  const ourVariations = generateBrandVariations(ourBrandDomain, brandName, brandUrl);
-  const ourVariationsLower = new Set(ourVariations.map(v => v.toLowerCase()));
+  // Get our brand's terms and sites to exclude
+  const ourDomains = buildBrandDomains(brandUrl, brandMatching);
+  const ourVariationsLower = new Set(
+    buildBrandTerms(brandUrl, brandName, brandMatching).map((t) => t.term.toLowerCase())
+  );
+  const negativeSpans = (brandMatching?.negativeContexts ?? []).flatMap((phrase) =>
+    findTermSpans(content, phrase)
+  );
 
   // Check each known brand
   for (const [brandDisplayName, brandInfo] of Object.entries(KNOWN_BRANDS)) {
@@ -626,25 +740,19 @@ export function extractCompetitorMentions(
 
     if (isOurBrand) continue;
 
-    // Check if this competitor is mentioned
-    const mentioned = brandInfo.variations.some(v =>
-      lowerContent.includes(v.toLowerCase())
+    // Check if this competitor is mentioned outside a negative context
+    const mentions = brandInfo.variations.flatMap((v) =>
+      findTermSpans(content, v).filter((span) => !negativeSpans.some((n) => spansOverlap(n, span)))
     );
 
-    if (mentioned) {
-      // Extract context around the mention
-      const mentionedVariation = brandInfo.variations.find(v =>
-        lowerContent.includes(v.toLowerCase())
-      ) || brandInfo.variations[0];
-
-      const context = extractMentionContext(content, [mentionedVariation]);
-      const sentiment = analyzeSentiment(content, [mentionedVariation]);
+    if (mentions.length > 0) {
+      mentions.sort((a, b) => a.start - b.start);
 
       competitors.push({
         name: brandDisplayName,
         url: brandInfo.url,
-        context: context.substring(0, 150),
-        sentiment,
+        context: extractMentionContext(content, mentions[0]).substring(0, 150),
+        sentiment: analyzeSentiment(content, mentions),
       });
     }
   }
@@ -656,9 +764,9 @@ export function extractCompetitorMentions(
   for (const match of urlMatches) {
     const domain = match[1].toLowerCase();
 
-    // Skip if it's our domain or already found
+    // Skip if it's one of our sites or already found
     if (ourVariationsLower.has(domain) ||
-        domain.includes(ourBrandDomain.toLowerCase()) ||
+        isBrandOwnedUrl(match[0], ourDomains) ||
         competitors.some(c => c.url?.includes(domain))) {
       continue;
     }
@@ -669,7 +777,10 @@ export function extractCompetitorMentions(
       continue;
     }
 
-    const context = extractMentionContext(content, [domain]);
+    const context = extractMentionContext(content, {
+      start: match.index,
+      end: match.index + match[0].length,
+    });
 
     competitors.push({
       name: domain.split('.')[0].charAt(0).toUpperCase() + domain.split('.')[0].slice(1),
@@ -693,7 +804,7 @@ export function createBrandVisibilityResult(
   query: string,
   brandUrl: string,
   brandName: string | undefined,
-  engineResponses: Partial<Record<CouncilEngineId, CouncilEngineResponse>>,
+  engineResponses: Partial<Record<LLMModelId, CouncilEngineResponse>>,
   totalCost: number
 ): BrandVisibilityResult {
   const mentions: BrandMention[] = [];
@@ -701,7 +812,7 @@ export function createBrandVisibilityResult(
   for (const [engineId, response] of Object.entries(engineResponses)) {
     if (response?.content) {
       const mention = extractBrandMention(
-        engineId as CouncilEngineId,
+        engineId as LLMModelId,
         response.content,
         brandUrl,
         brandName
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { BlindedResponse, BlindMapping } from "./blind-review";
+import { applyJudgeGuesses, auditIdentityLeakage, auditResponseLeakage, normalizeMarkdownStyle } from "./identity-audit";
+
+function response(blindId: string, content: string): BlindedResponse {
+  return { blindId, content, metadata: {} };
+}
+
+const mapping: BlindMapping[] = [
+  { blindId: "Response A", engineId: "claude-sonnet", originalIndex: 0 },
+  { blindId: "Response B", engineId: "gpt4o", originalIndex: 1 },
+];
+const vendorOf = (engineId: string) => (engineId === "gpt4o" ? "OpenAI" : "Anthropic");
+
+describe("auditResponseLeakage", () => {
+  it("names the vendor of a self-identifying response", () => {
+    const leakage = auditResponseLeakage(
+      response("Response A", "As Claude, I'd be happy to help you compare running shoes.")
+    );
+
+    expect(leakage.likelyVendor).toBe("Anthropic");
+    expect(leakage.risk).toBe("high");
+    expect(leakage.signals).toContainEqual(
+      expect.objectContaining({ vendor: "Anthropic", category: "self-reference", match: "Claude" })
+    );
+  });
+
+  it("does not flag generic phrasing", () => {
+    const leakage = auditResponseLeakage(
+      response("Response A", "Brooks and Hoka both make cushioned running shoes. Try a few pairs in store before buying.")
+    );
+
+    expect(leakage.signals).toEqual([]);
+    expect(leakage.risk).toBe("low");
+    expect(leakage.likelyVendor).toBeUndefined();
+  });
+
+  it("needs more than one stylistic habit to name a vendor", () => {
+    const leakage = auditResponseLeakage(response("Response A", "Both are solid choices. I hope this helps!"));
+
+    expect(leakage.signals).toHaveLength(1);
+    expect(leakage.likelyVendor).toBeUndefined();
+    expect(leakage.risk).toBe("low");
+  });
+});
+
+describe("auditIdentityLeakage", () => {
+  it("marks a response identified only when the fingerprints point at its real vendor", () => {
+    const report = auditIdentityLeakage(
+      [response("Response A", "As Claude, I can compare these."), response("Response B", "As ChatGPT, I would pick Brooks.")],
+      mapping,
+      vendorOf
+    );
+
+    expect(report.responses.map((r) => r.identified)).toEqual([true, true]);
+    expect(report.identifiedCount).toBe(2);
+    expect(report.overallRisk).toBe("high");
+
+    const misled = auditIdentityLeakage([response("Response A", "Ask ChatGPT for more.")], mapping, vendorOf);
+    expect(misled.responses[0]).toMatchObject({ likelyVendor: "OpenAI", actualVendor: "Anthropic", identified: false });
+  });
+});
+
+describe("applyJudgeGuesses", () => {
+  it("treats a correct guess as identification even without fingerprints", () => {
+    const report = auditIdentityLeakage(
+      [response("Response A", "Brooks makes good shoes."), response("Response B", "Hoka makes good shoes.")],
+      mapping,
+      vendorOf
+    );
+    const guessed = applyJudgeGuesses(report, { "Response A": "anthropic", "Response B": "Google" });
+
+    expect(guessed.responses[0]).toMatchObject({ judgeGuess: "anthropic", identified: true, risk: "medium" });
+    expect(guessed.responses[1]).toMatchObject({ judgeGuess: "Google", identified: false, risk: "low" });
+    expect(guessed.identifiedCount).toBe(1);
+    expect(guessed.overallRisk).toBe("high");
+  });
+});
+
+describe("normalizeMarkdownStyle", () => {
+  it("rewrites headings, bullets, numbering and bold to one style", () => {
+    const input = ["## **Top Picks** ##", "* Brooks", "+ Hoka", "1) Cushioning", "__Fit__ matters"].join("\n");
+
+    expect(normalizeMarkdownStyle(input)).toBe(
+      ["### Top Picks", "- Brooks", "- Hoka", "1. Cushioning", "**Fit** matters"].join("\n")
+    );
+  });
+
+  it("removes citation markers and rules and collapses blank lines", () => {
+    const input = "Brooks leads [1][2].\r\n\r\n---\r\n\r\n\r\nHoka follows [3].   ";
+
+    expect(normalizeMarkdownStyle(input)).toBe("Brooks leads.\n\nHoka follows.");
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Identity Leak Auditor
+ *
+ * stripSelfIdentifyingPhrases removes explicit self-references, but models
+ * still give themselves away through formatting habits, knowledge-cutoff
+ * statements, refusal boilerplate and product self-references. This module
+ * scores each blinded response for those residual signals.
+ *
+ * Key features:
+ * - Lexical fingerprints per vendor, plus vendor-agnostic leaks
+ * - Optional judge-guess probe results merged into the report
+ * - Markdown style normalization to remove formatting fingerprints
+ */
+
+import type { BlindedResponse, BlindMapping } from "./blind-review";
+import type { VendorResolver } from "./peer-review";
+
+export type LeakCategory =
+  | "self-reference"
+  | "knowledge-cutoff"
+  | "refusal"
+  | "formatting"
+  | "phrasing";
+
+export type LeakageRisk = "low" | "medium" | "high";
+
+interface Fingerprint {
+  pattern: RegExp;
+  category: LeakCategory;
+  weight: number; // Evidence strength; product names ~1, habits ~0.2
+}
+
+// A fingerprint that matched a response
+export interface LeakSignal {
+  vendor: string | null; // null = leaks that an AI wrote it, but not which
+  category: LeakCategory;
+  match: string;
+  weight: number;
+}
+
+// Leakage assessment for one blinded response
+export interface ResponseLeakage {
+  blindId: string;
+  score: number; // 0-1, probability-like leak strength
+  risk: LeakageRisk;
+  signals: LeakSignal[];
+  likelyVendor?: string; // Vendor the fingerprints point to, if any
+  actualVendor?: string; // Filled when the mapping is available
+  judgeGuess?: string; // Filled by the optional judge-guess probe
+  identified: boolean; // Fingerprints or the judge named the actual vendor
+}
+
+export interface IdentityAuditReport {
+  responses: ResponseLeakage[];
+  overallRisk: LeakageRisk;
+  identifiedCount: number;
+  normalized: boolean; // Whether markdown was normalized before auditing
+}
+
+// Lexical fingerprints keyed by LLM_MODELS provider name
+const VENDOR_FINGERPRINTS: Record<string, Fingerprint[]> = {
+  OpenAI: [
+    { pattern: /\b(?:ChatGPT|GPT-?[345](?:\.\d)?o?(?:-mini)?|OpenAI)\b/gi, category: "self-reference", weight: 1.5 },
+    { pattern: /\bAs of my (?:last|latest) (?:update|knowledge update)\b/gi, category: "knowledge-cutoff", weight: 0.8 },
+    { pattern: /\bknowledge cutoff (?:in|of) (?:September 2021|April 2023|October 2023)\b/gi, category: "knowledge-cutoff", weight: 0.8 },
+    { pattern: /\bI hope this helps!?/gi, category: "phrasing", weight: 0.2 },
+    { pattern: /\bdelve into\b/gi, category: "phrasing", weight: 0.2 },
+    { pattern: /^#{3} \d+\. \*\*/gm, category: "formatting", weight: 0.2 },
+  ],
+  Anthropic: [
+    { pattern: /\b(?:Claude|Anthropic)\b/gi, category: "self-reference", weight: 1.5 },
+    { pattern: /\bI'd be happy to help\b/gi, category: "phrasing", weight: 0.3 },
+    { pattern: /\bI apologize, but I (?:can't|cannot|don't)\b/gi, category: "refusal", weight: 0.4 },
+    { pattern: /\bI (?:should|want to) (?:note|be clear|be transparent)\b/gi, category: "phrasing", weight: 0.3 },
+    { pattern: /\bI aim to be\b/gi, category: "phrasing", weight: 0.3 },
+  ],
+  Google: [
+    { pattern: /\b(?:Gemini|Bard|Google AI|Google DeepMind)\b/gi, category: "self-reference", weight: 1.5 },
+    { pattern: /\btrained by Google\b/gi, category: "self-reference", weight: 1.5 },
+    { pattern: /\bI'm still learning\b/gi, category: "refusal", weight: 0.5 },
+    { pattern: /^\*\*(?:Key (?:Considerations|Features|Factors)|Here's a breakdown)[^*]*:\*\*/gim, category: "formatting", weight: 0.2 },
+  ],
+  Meta: [
+    { pattern: /\b(?:Meta AI|Llama(?: \d(?:\.\d)?)?)\b/gi, category: "self-reference", weight: 1.5 },
+    { pattern: /\bI'm an AI assistant (?:built|developed|created) by Meta\b/gi, category: "self-reference", weight: 1.5 },
+  ],
+  Perplexity: [
+    { pattern: /\bPerplexity\b/gi, category: "self-reference", weight: 1.5 },
+    { pattern: /\bAccording to the (?:search results|provided sources)\b/gi, category: "phrasing", weight: 0.6 },
+    { pattern: /\[\d+\](?:\[\d+\])*/g, category: "formatting", weight: 0.4 },
+  ],
+};
+
+// Leaks that reveal AI authorship without pointing at a vendor
+const GENERIC_FINGERPRINTS: Fingerprint[] = [
+  { pattern: /\b(?:my|the) (?:knowledge|training) (?:cutoff|cut-off)\b/gi, category: "knowledge-cutoff", weight: 0.4 },
+  { pattern: /\bI (?:can't|cannot|don't have the ability to) (?:browse|access|search) (?:the internet|the web|real-time)\b/gi, category: "refusal", weight: 0.4 },
+  { pattern: /\bI'm not able to provide (?:real-time|current|live)\b/gi, category: "refusal", weight: 0.3 },
+  { pattern: /\[AI assistant\]/g, category: "self-reference", weight: 0.3 },
+];
+
+// Fingerprint weight a vendor needs before it is named as likely author
+const LIKELY_VENDOR_THRESHOLD = 0.5;
+
+/**
+ * Normalize markdown style so formatting habits don't identify the author
+ * - Headings of any level become "###" without bold
+ * - "*" and "+" bullets become "-", "1)" becomes "1."
+ * - "__bold__" becomes "**bold**"
+ * - Citation markers like [1] and horizontal rules are removed
+ * - Runs of blank lines collapse to one
+ */
+export function normalizeMarkdownStyle(content: string): string {
+  return content
+    .replace(/\r\n/g, "\n")
+    .replace(/^#{1,6}\s*\**(.+?)\**\s*#*\s*$/gm, "### $1")
+    .replace(/^(\s*)[*+]\s+/gm, "$1- ")
+    .replace(/^(\s*)(\d+)\)\s+/gm, "$1$2. ")
+    .replace(/__(.+?)__/g, "**$1**")
+    .replace(/\s?\[\d+\](?:\[\d+\])*/g, "")
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, "")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function collectSignals(
+  content: string,
+  vendor: string | null,
+  fingerprints: Fingerprint[]
+): LeakSignal[] {
+  const signals: LeakSignal[] = [];
+  for (const fp of fingerprints) {
+    // Count each fingerprint once; repeats add little evidence
+    const match = content.match(fp.pattern);
+    if (match) {
+      signals.push({ vendor, category: fp.category, match: match[0], weight: fp.weight });
+    }
+  }
+  return signals;
+}
+
+function toRisk(score: number): LeakageRisk {
+  if (score >= 0.6) return "high";
+  if (score >= 0.3) return "medium";
+  return "low";
+}
+
+/**
+ * Score one blinded response for residual identity signals
+ */
+export function auditResponseLeakage(response: BlindedResponse): ResponseLeakage {
+  const signals: LeakSignal[] = [
+    ...Object.entries(VENDOR_FINGERPRINTS).flatMap(([vendor, fps]) =>
+      collectSignals(response.content, vendor, fps)
+    ),
+    ...collectSignals(response.content, null, GENERIC_FINGERPRINTS),
+  ];
+
+  const weightByVendor = new Map<string, number>();
+  let genericWeight = 0;
+  signals.forEach((s) => {
+    if (s.vendor === null) {
+      genericWeight += s.weight;
+    } else {
+      weightByVendor.set(s.vendor, (weightByVendor.get(s.vendor) ?? 0) + s.weight);
+    }
+  });
+
+  const [topVendor, topWeight] = Array.from(weightByVendor.entries()).sort(
+    (a, b) => b[1] - a[1]
+  )[0] ?? [undefined, 0];
+
+  // Vendor evidence dominates; generic leaks only raise the floor
+  const score = 1 - Math.exp(-(topWeight + genericWeight * 0.5));
+
+  return {
+    blindId: response.blindId,
+    score,
+    risk: toRisk(score),
+    signals,
+    likelyVendor: topWeight >= LIKELY_VENDOR_THRESHOLD ? topVendor : undefined,
+    identified: false,
+  };
+}
+
+/**
+ * Audit every blinded response for identity leakage
+ *
+ * @param blindedResponses - Responses as shown to the judge
+ * @param mapping - Optional mapping; enables checking guesses against the truth
+ * @param vendorOf - Resolves engine IDs to LLM_MODELS provider names
+ */
+export function auditIdentityLeakage(
+  blindedResponses: BlindedResponse[],
+  mapping?: BlindMapping[],
+  vendorOf?: VendorResolver,
+  normalized: boolean = false
+): IdentityAuditReport {
+  const responses = blindedResponses.map((response) => {
+    const leakage = auditResponseLeakage(response);
+    const engineId = mapping?.find((m) => m.blindId === response.blindId)?.engineId;
+    if (engineId && vendorOf) {
+      leakage.actualVendor = vendorOf(engineId);
+      leakage.identified = leakage.likelyVendor === leakage.actualVendor;
+    }
+    return leakage;
+  });
+
+  return summarizeAudit(responses, normalized);
+}
+
+/**
+ * Merge judge-guess probe results into an audit report
+ * A correct guess marks the response as identified and raises its risk to
+ * at least "medium"; the judge could tell even if no fingerprint fired.
+ *
+ * @param guesses - blindId -> vendor the judge guessed
+ */
+export function applyJudgeGuesses(
+  report: IdentityAuditReport,
+  guesses: Record<string, string>
+): IdentityAuditReport {
+  const responses = report.responses.map((r) => {
+    const judgeGuess = guesses[r.blindId];
+    if (!judgeGuess) return r;
+
+    const guessedRight =
+      r.actualVendor !== undefined &&
+      judgeGuess.toLowerCase() === r.actualVendor.toLowerCase();
+    const score = guessedRight ? Math.max(r.score, 0.3) : r.score;
+
+    return {
+      ...r,
+      judgeGuess,
+      score,
+      risk: toRisk(score),
+      identified: r.identified || guessedRight,
+    };
+  });
+
+  return summarizeAudit(responses, report.normalized);
+}
+
+function summarizeAudit(
+  responses: ResponseLeakage[],
+  normalized: boolean
+): IdentityAuditReport {
+  const maxScore = Math.max(0, ...responses.map((r) => r.score));
+  const identifiedCount = responses.filter((r) => r.identified).length;
+
+  return {
+    responses,
+    // One identified response is enough to undermine a blind ranking
+    overallRisk: identifiedCount > 0 ? "high" : toRisk(maxScore),
+    identifiedCount,
+    normalized,
+  };
+}
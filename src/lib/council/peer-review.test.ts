@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { LLMModelId } from "../../types";
+import type { BlindMapping } from "./blind-review";
+import {
+  aggregatePeerReview,
+  detectSelfPreferenceBias,
+  excludeSelfRankings,
+  SELF_PREFERENCE_THRESHOLD,
+} from "./peer-review";
+import type { Evaluation } from "./rankings";
+
+const VENDORS: Partial<Record<LLMModelId, string>> = {
+  gpt4o: "OpenAI",
+  "gpt4o-search": "OpenAI",
+  "claude-sonnet": "Anthropic",
+  "gemini-flash": "Google",
+};
+const vendorOf = (engineId: LLMModelId) => VENDORS[engineId] ?? engineId;
+
+const mapping: BlindMapping[] = [
+  { blindId: "A", engineId: "gpt4o", originalIndex: 0 },
+  { blindId: "B", engineId: "claude-sonnet", originalIndex: 1 },
+  { blindId: "C", engineId: "gemini-flash", originalIndex: 2 },
+  { blindId: "D", engineId: "gpt4o-search", originalIndex: 3 },
+];
+
+// Rankings listed best first
+function evaluation(judgeId: Evaluation["judgeId"], order: string[]): Evaluation {
+  return { judgeId, rankings: order.map((blindId, i) => ({ blindId, rank: i + 1 })), timestamp: 0 };
+}
+
+describe("excludeSelfRankings", () => {
+  it("drops every answer from the judge's vendor and renumbers the rest", () => {
+    const [filtered] = excludeSelfRankings([evaluation("gpt4o", ["A", "B", "D", "C"])], mapping, vendorOf);
+
+    expect(filtered.rankings).toEqual([
+      { blindId: "B", rank: 1 },
+      { blindId: "C", rank: 2 },
+    ]);
+  });
+
+  it("leaves the peer consensus untouched", () => {
+    const peer = evaluation("peer", ["A", "B", "C", "D"]);
+    expect(excludeSelfRankings([peer], mapping, vendorOf)).toEqual([peer]);
+  });
+
+  it("fails the panel when every ranking was same-vendor", () => {
+    const openAiOnly = mapping.filter((m) => vendorOf(m.engineId) === "OpenAI");
+    const evaluations = [evaluation("gpt4o", ["A", "D"]), evaluation("gpt4o-search", ["D", "A"])];
+
+    expect(excludeSelfRankings(evaluations, openAiOnly, vendorOf).every((e) => e.rankings.length === 0)).toBe(true);
+    expect(() => aggregatePeerReview(evaluations, openAiOnly, vendorOf)).toThrow(/at least two vendors/);
+  });
+});
+
+describe("detectSelfPreferenceBias", () => {
+  const threeVendors = mapping.slice(0, 3);
+
+  function gpt4oFinding(evaluations: Evaluation[], threshold?: number) {
+    const report = detectSelfPreferenceBias(evaluations, threeVendors, vendorOf, threshold);
+    return { report, finding: report.findings.find((f) => f.judgeId === "gpt4o")! };
+  }
+
+  it("flags a judge whose lead over the panel equals the threshold", () => {
+    const { report, finding } = gpt4oFinding([
+      evaluation("gpt4o", ["A", "B", "C"]),
+      evaluation("claude-sonnet", ["B", "A", "C"]),
+      evaluation("gemini-flash", ["C", "A", "B"]),
+    ]);
+
+    expect(finding).toMatchObject({ engineId: "gpt4o", selfRank: 1, peerAverageRank: 2, delta: SELF_PREFERENCE_THRESHOLD });
+    expect(finding.flagged).toBe(true);
+    expect(report.flaggedJudges).toContain("gpt4o");
+  });
+
+  it("does not flag a lead just under the threshold", () => {
+    const evaluations = [
+      evaluation("gpt4o", ["A", "B", "C"]),
+      evaluation("claude-sonnet", ["B", "A", "C"]),
+      evaluation("gemini-flash", ["A", "C", "B"]),
+    ];
+    const { report, finding } = gpt4oFinding(evaluations);
+
+    expect(finding.delta).toBe(0.5);
+    expect(finding.flagged).toBe(false);
+    expect(report.flaggedJudges).not.toContain("gpt4o");
+    expect(gpt4oFinding(evaluations, 0.5).finding.flagged).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Peer Review Panel Utilities
+ *
+ * Every participating engine judges the same blinded answers, so each judge
+ * also sees (without knowing it) its own answer. After de-anonymization we:
+ * - Measure self-preference: how much better a judge ranks its own answer
+ *   than the rest of the panel does
+ * - Drop every judge's verdict on answers from its own vendor before
+ *   aggregating, so no contestant is scored by itself
+ */
+
+import type { LLMModelId } from "../../types";
+import type { BlindMapping } from "./blind-review";
+import { aggregateRankings, type AggregationResult, type Evaluation } from "./rankings";
+
+// Resolves an engine to its model vendor (e.g. "gpt4o" -> "OpenAI")
+export type VendorResolver = (engineId: LLMModelId) => string;
+
+// Self-preference of one judge toward one same-vendor contestant
+export interface SelfPreferenceFinding {
+  judgeId: LLMModelId;
+  engineId: LLMModelId; // Contestant from the judge's vendor
+  selfRank: number; // Rank the judge gave the contestant
+  peerAverageRank: number; // Average rank from judges of other vendors
+  delta: number; // peerAverageRank - selfRank; positive = judge favors itself
+  flagged: boolean;
+}
+
+export interface SelfPreferenceReport {
+  findings: SelfPreferenceFinding[];
+  flaggedJudges: LLMModelId[];
+  threshold: number;
+}
+
+export interface PeerReviewResult {
+  aggregation: AggregationResult;
+  selfPreference: SelfPreferenceReport;
+  excludedEntries: number; // Same-vendor rankings dropped before aggregation
+}
+
+// A judge is flagged when it ranks its own answer at least this many
+// places better than the other judges do on average
+export const SELF_PREFERENCE_THRESHOLD = 1;
+
+const identityVendor: VendorResolver = (engineId) => engineId;
+
+/**
+ * Remove each judge's rankings of same-vendor answers and renumber the
+ * remaining entries 1..n so ranks stay comparable across judges
+ */
+export function excludeSelfRankings(
+  evaluations: Evaluation[],
+  mapping: BlindMapping[],
+  vendorOf: VendorResolver = identityVendor
+): Evaluation[] {
+  const engineMap = new Map(mapping.map((m) => [m.blindId, m.engineId]));
+
+  return evaluations.map((evaluation) => {
+    if (evaluation.judgeId === "peer") return evaluation;
+    const judgeVendor = vendorOf(evaluation.judgeId);
+
+    const kept = evaluation.rankings
+      .filter((entry) => {
+        const engineId = engineMap.get(entry.blindId);
+        return !engineId || vendorOf(engineId) !== judgeVendor;
+      })
+      .sort((a, b) => a.rank - b.rank)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+    return { ...evaluation, rankings: kept };
+  });
+}
+
+/**
+ * Compare the rank each judge gave its own vendor's answers with the
+ * average rank the rest of the panel gave the same answers
+ */
+export function detectSelfPreferenceBias(
+  evaluations: Evaluation[],
+  mapping: BlindMapping[],
+  vendorOf: VendorResolver = identityVendor,
+  threshold: number = SELF_PREFERENCE_THRESHOLD
+): SelfPreferenceReport {
+  const findings: SelfPreferenceFinding[] = [];
+
+  evaluations.forEach((evaluation) => {
+    if (evaluation.judgeId === "peer") return;
+    const judgeId = evaluation.judgeId;
+    const judgeVendor = vendorOf(judgeId);
+
+    mapping
+      .filter((m) => vendorOf(m.engineId) === judgeVendor)
+      .forEach((m) => {
+        const selfEntry = evaluation.rankings.find((r) => r.blindId === m.blindId);
+        if (!selfEntry) return;
+
+        // Only judges from other vendors count as the reference panel
+        const peerRanks = evaluations
+          .filter((e) => e.judgeId !== "peer" && vendorOf(e.judgeId) !== judgeVendor)
+          .map((e) => e.rankings.find((r) => r.blindId === m.blindId)?.rank)
+          .filter((rank): rank is number => rank !== undefined);
+
+        if (peerRanks.length === 0) return;
+
+        const peerAverageRank =
+          peerRanks.reduce((a, b) => a + b, 0) / peerRanks.length;
+        const delta = peerAverageRank - selfEntry.rank;
+
+        findings.push({
+          judgeId,
+          engineId: m.engineId,
+          selfRank: selfEntry.rank,
+          peerAverageRank,
+          delta,
+          flagged: delta >= threshold,
+        });
+      });
+  });
+
+  const flaggedJudges = Array.from(
+    new Set(findings.filter((f) => f.flagged).map((f) => f.judgeId))
+  );
+
+  return { findings, flaggedJudges, threshold };
+}
+
+/**
+ * Aggregate a full peer-review panel: bias is measured on the raw
+ * evaluations, rankings are aggregated without same-vendor verdicts
+ *
+ * @throws Error if every ranking was same-vendor (all responses from one vendor)
+ */
+export function aggregatePeerReview(
+  evaluations: Evaluation[],
+  mapping: BlindMapping[],
+  vendorOf: VendorResolver = identityVendor
+): PeerReviewResult {
+  const selfPreference = detectSelfPreferenceBias(evaluations, mapping, vendorOf);
+  const filtered = excludeSelfRankings(evaluations, mapping, vendorOf);
+
+  const excludedEntries =
+    evaluations.reduce((sum, e) => sum + e.rankings.length, 0) -
+    filtered.reduce((sum, e) => sum + e.rankings.length, 0);
+
+  const crossVendor = filtered.filter((e) => e.rankings.length > 0);
+  if (crossVendor.length === 0) {
+    throw new Error("Peer review needs responses from at least two vendors; every ranking was same-vendor");
+  }
+
+  return {
+    aggregation: aggregateRankings(crossVendor, mapping),
+    selfPreference,
+    excludedEntries,
+  };
+}
+
+/**
+ * Format the self-preference report for display
+ */
+export function formatSelfPreferenceSummary(report: SelfPreferenceReport): string {
+  if (report.findings.length === 0) {
+    return "Self-preference: not measurable (no cross-vendor judges)";
+  }
+
+  const lines = ["Self-preference check:"];
+  report.findings.forEach((f) => {
+    const marker = f.flagged ? " [BIAS]" : "";
+    lines.push(
+      `  ${f.judgeId} ranked ${f.engineId} #${f.selfRank} (panel avg: ${f.peerAverageRank.toFixed(2)})${marker}`
+    );
+  });
+
+  return lines.join("\n");
+}
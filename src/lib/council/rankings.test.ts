@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { BlindMapping } from "./blind-review";
+import { aggregatePairwiseComparisons, type PairwiseComparison } from "./rankings";
+
+const mapping: BlindMapping[] = [
+  { blindId: "A", engineId: "gpt4o", originalIndex: 0 },
+  { blindId: "B", engineId: "claude-sonnet", originalIndex: 1 },
+  { blindId: "C", engineId: "gemini-flash", originalIndex: 2 },
+];
+
+function verdict(blindIdA: string, blindIdB: string, winner: string | null): PairwiseComparison {
+  return { judgeId: "gpt4o", blindIdA, blindIdB, winner, timestamp: 0 };
+}
+
+describe("aggregatePairwiseComparisons", () => {
+  it("orders a transitive set of wins and rates the top response highest", () => {
+    const result = aggregatePairwiseComparisons(
+      [verdict("A", "B", "A"), verdict("B", "C", "B"), verdict("A", "C", "A")],
+      mapping
+    );
+
+    expect(result.rankings.map((r) => r.blindId)).toEqual(["A", "B", "C"]);
+    expect(result.winner.blindId).toBe("A");
+    const [a, b, c] = result.rankings;
+    expect(a.rating!).toBeGreaterThan(b.rating!);
+    expect(b.rating!).toBeGreaterThan(c.rating!);
+    expect(result.rankings.every((r) => r.agreementScore === 1)).toBe(true);
+  });
+
+  it("rates tied responses equally, anchored at 1500", () => {
+    const result = aggregatePairwiseComparisons([verdict("A", "B", null)], mapping);
+
+    const [first, second] = result.rankings;
+    expect(first.rating).toBeCloseTo(1500, 6);
+    expect(second.rating).toBeCloseTo(1500, 6);
+    expect(first.bordaScore).toBe(0.5);
+    expect(first.averageRank).toBeCloseTo(1.5, 6);
+  });
+
+  it("keeps an undefeated response's rating finite", () => {
+    const result = aggregatePairwiseComparisons(
+      [verdict("A", "B", "A"), verdict("A", "B", "A"), verdict("B", "A", "A")],
+      mapping
+    );
+
+    expect(Number.isFinite(result.winner.rating)).toBe(true);
+    expect(result.winner.blindId).toBe("A");
+  });
+
+  it("brackets each rating with a reproducible bootstrap interval", () => {
+    const comparisons = [
+      verdict("A", "B", "A"),
+      verdict("B", "A", "B"),
+      verdict("A", "C", "A"),
+      verdict("C", "B", "B"),
+      verdict("C", "A", null),
+    ];
+
+    const first = aggregatePairwiseComparisons(comparisons, mapping);
+    const second = aggregatePairwiseComparisons(comparisons, mapping);
+
+    expect(second.rankings.map((r) => r.ratingInterval)).toEqual(
+      first.rankings.map((r) => r.ratingInterval)
+    );
+    first.rankings.forEach((r) => {
+      const [lower, upper] = r.ratingInterval!;
+      expect(lower).toBeLessThanOrEqual(r.rating!);
+      expect(upper).toBeGreaterThanOrEqual(r.rating!);
+    });
+  });
+
+  it("resolves blind IDs to engines in the outcomes", () => {
+    const result = aggregatePairwiseComparisons([verdict("A", "C", "C")], mapping);
+
+    expect(result.outcomes).toEqual([{ engineA: "gpt4o", engineB: "gemini-flash", winner: "gemini-flash" }]);
+  });
+
+  it("rejects an empty set of comparisons", () => {
+    expect(() => aggregatePairwiseComparisons([], mapping)).toThrow("No comparisons to aggregate");
+  });
+});
@@ -9,14 +9,17 @@
  * - Tie handling with deterministic resolution
  * - Confidence scoring based on agreement
  * - Support for both peer review and judge evaluations
+ * - Pairwise comparisons fit with Bradley-Terry (Elo-scale ratings with
+ *   bootstrap confidence intervals)
  */
 
-import type { CouncilEngineId } from "../security/api-keys";
+import type { LLMModelId } from "../../types";
 import type { BlindMapping } from "./blind-review";
+import { seededRandom } from "../../utils/random";
 
 // Single evaluation from one judge
 export interface Evaluation {
-  judgeId: CouncilEngineId | "peer";
+  judgeId: LLMModelId | "peer";
   rankings: RankingEntry[];
   reasoning?: string;
   timestamp: number;
@@ -33,12 +36,14 @@ export interface RankingEntry {
 // Aggregated result for one response
 export interface AggregatedRank {
   blindId: string;
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   averageRank: number;
   bordaScore: number;
   rankings: number[]; // Individual ranks received
   agreementScore: number; // 0-1, how consistent the rankings are
   finalRank: number; // Resolved final position
+  rating?: number; // Pairwise mode: Elo-scale Bradley-Terry rating
+  ratingInterval?: [number, number]; // Pairwise mode: 95% bootstrap interval
 }
 
 // Complete aggregation result
@@ -49,6 +54,28 @@ export interface AggregationResult {
   consensusLevel: "strong" | "moderate" | "weak" | "none";
 }
 
+// Single head-to-head verdict between two blinded responses
+export interface PairwiseComparison {
+  judgeId: LLMModelId;
+  blindIdA: string; // Shown first
+  blindIdB: string; // Shown second
+  winner: string | null; // Winning blindId, null for a tie
+  reasoning?: string;
+  timestamp: number;
+}
+
+// Head-to-head outcome resolved to engine IDs (comparable across sessions)
+export interface PairwiseOutcome {
+  engineA: LLMModelId;
+  engineB: LLMModelId;
+  winner: LLMModelId | null; // null = tie
+}
+
+// Aggregation produced from pairwise comparisons
+export interface PairwiseAggregationResult extends AggregationResult {
+  outcomes: PairwiseOutcome[];
+}
+
 /**
  * Calculate Borda count score for a position
  * Higher score = better ranking
@@ -174,7 +201,7 @@ export function aggregateRankings(
 
     aggregated.set(blindId, {
       blindId,
-      engineId: engineMap.get(blindId) || ("unknown" as CouncilEngineId),
+      engineId: engineMap.get(blindId) || ("unknown" as LLMModelId),
       averageRank,
       bordaScore: totalBorda,
       rankings: individualRankings,
@@ -198,6 +225,231 @@ export function aggregateRankings(
   };
 }
 
+// ============================================
+// Pairwise Comparison (Bradley-Terry)
+// ============================================
+
+// Elo-scale anchor: a strength of 1 maps to this rating
+const BASE_RATING = 1500;
+const BT_MAX_ITERATIONS = 200;
+const BT_TOLERANCE = 1e-6;
+const BOOTSTRAP_SAMPLES = 200;
+const BOOTSTRAP_SEED = 42;
+
+interface BradleyTerryGame {
+  a: string;
+  b: string;
+  winner: string | null;
+}
+
+interface BradleyTerryFit {
+  rating: number;
+  interval: [number, number];
+}
+
+function strengthToRating(strength: number): number {
+  return BASE_RATING + 400 * Math.log10(strength);
+}
+
+/**
+ * Fit Bradley-Terry strengths with the MM algorithm (Hunter 2004).
+ * Ties count as half a win for each side. Every item also plays one
+ * virtual tied game against a fixed reference of strength 1, which keeps
+ * undefeated or winless items finite and anchors the scale.
+ */
+function fitStrengths(items: string[], games: BradleyTerryGame[]): Map<string, number> {
+  const strengths = new Map(items.map((item) => [item, 1]));
+
+  for (let iter = 0; iter < BT_MAX_ITERATIONS; iter++) {
+    const wins = new Map(items.map((item) => [item, 0.5]));
+    const denominators = new Map(
+      items.map((item) => [item, 1 / (strengths.get(item)! + 1)])
+    );
+
+    games.forEach((game) => {
+      const pa = strengths.get(game.a)!;
+      const pb = strengths.get(game.b)!;
+      const share = 1 / (pa + pb);
+      denominators.set(game.a, denominators.get(game.a)! + share);
+      denominators.set(game.b, denominators.get(game.b)! + share);
+
+      if (game.winner === null) {
+        wins.set(game.a, wins.get(game.a)! + 0.5);
+        wins.set(game.b, wins.get(game.b)! + 0.5);
+      } else {
+        wins.set(game.winner, wins.get(game.winner)! + 1);
+      }
+    });
+
+    let maxChange = 0;
+    items.forEach((item) => {
+      const updated = wins.get(item)! / denominators.get(item)!;
+      maxChange = Math.max(maxChange, Math.abs(updated - strengths.get(item)!));
+      strengths.set(item, updated);
+    });
+
+    if (maxChange < BT_TOLERANCE) break;
+  }
+
+  return strengths;
+}
+
+/**
+ * Fit Bradley-Terry ratings with 95% percentile-bootstrap intervals
+ */
+function fitBradleyTerry(
+  items: string[],
+  games: BradleyTerryGame[]
+): Map<string, BradleyTerryFit> {
+  const point = fitStrengths(items, games);
+  const samples = new Map<string, number[]>(items.map((item) => [item, []]));
+
+  if (games.length > 0) {
+    const random = seededRandom(BOOTSTRAP_SEED);
+    for (let s = 0; s < BOOTSTRAP_SAMPLES; s++) {
+      const resampled = games.map(() => games[Math.floor(random() * games.length)]);
+      const fit = fitStrengths(items, resampled);
+      items.forEach((item) => samples.get(item)!.push(strengthToRating(fit.get(item)!)));
+    }
+  }
+
+  const result = new Map<string, BradleyTerryFit>();
+  items.forEach((item) => {
+    const rating = strengthToRating(point.get(item)!);
+    const sorted = samples.get(item)!.sort((a, b) => a - b);
+    const interval: [number, number] =
+      sorted.length === 0
+        ? [rating, rating]
+        : [
+            sorted[Math.floor(sorted.length * 0.025)],
+            sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.975))],
+          ];
+    result.set(item, { rating, interval });
+  });
+
+  return result;
+}
+
+/**
+ * Aggregate pairwise comparisons into final rankings
+ *
+ * averageRank is the expected rank under the fitted model, bordaScore the
+ * number of wins (ties count half) and agreementScore the share of this
+ * response's comparisons that agree with the final order.
+ *
+ * @param comparisons - Head-to-head verdicts, from one or more judges
+ * @param mapping - Blind ID to engine ID mapping
+ */
+export function aggregatePairwiseComparisons(
+  comparisons: PairwiseComparison[],
+  mapping: BlindMapping[]
+): PairwiseAggregationResult {
+  if (comparisons.length === 0) {
+    throw new Error("No comparisons to aggregate");
+  }
+
+  const engineMap = new Map(mapping.map((m) => [m.blindId, m.engineId]));
+
+  const allBlindIds = new Set<string>();
+  comparisons.forEach((c) => {
+    allBlindIds.add(c.blindIdA);
+    allBlindIds.add(c.blindIdB);
+  });
+  const blindIds = Array.from(allBlindIds);
+
+  const fits = fitBradleyTerry(
+    blindIds,
+    comparisons.map((c) => ({ a: c.blindIdA, b: c.blindIdB, winner: c.winner }))
+  );
+
+  const aggregated: AggregatedRank[] = blindIds.map((blindId) => {
+    const fit = fits.get(blindId)!;
+    const strength = Math.pow(10, (fit.rating - BASE_RATING) / 400);
+
+    // Expected rank = 1 + probability of losing to each other response
+    let expectedRank = 1;
+    blindIds.forEach((other) => {
+      if (other === blindId) return;
+      const otherStrength = Math.pow(10, (fits.get(other)!.rating - BASE_RATING) / 400);
+      expectedRank += otherStrength / (strength + otherStrength);
+    });
+
+    const involved = comparisons.filter(
+      (c) => c.blindIdA === blindId || c.blindIdB === blindId
+    );
+    const wins = involved.reduce(
+      (sum, c) => sum + (c.winner === blindId ? 1 : c.winner === null ? 0.5 : 0),
+      0
+    );
+
+    return {
+      blindId,
+      engineId: engineMap.get(blindId) || ("unknown" as LLMModelId),
+      averageRank: expectedRank,
+      bordaScore: wins,
+      rankings: [],
+      agreementScore: 0, // Set once the final order is known
+      finalRank: 0,
+      rating: fit.rating,
+      ratingInterval: fit.interval,
+    };
+  });
+
+  const resolved = resolveTies(aggregated);
+  const finalRankById = new Map(resolved.map((r) => [r.blindId, r.finalRank]));
+
+  const rankings = resolved.map((r) => {
+    const decided = comparisons.filter(
+      (c) => c.winner !== null && (c.blindIdA === r.blindId || c.blindIdB === r.blindId)
+    );
+    const consistent = decided.filter((c) => {
+      const loser = c.winner === c.blindIdA ? c.blindIdB : c.blindIdA;
+      return finalRankById.get(c.winner!)! < finalRankById.get(loser)!;
+    });
+    return {
+      ...r,
+      agreementScore: decided.length === 0 ? 1 : consistent.length / decided.length,
+    };
+  });
+
+  const outcomes: PairwiseOutcome[] = comparisons.map((c) => ({
+    engineA: engineMap.get(c.blindIdA) || ("unknown" as LLMModelId),
+    engineB: engineMap.get(c.blindIdB) || ("unknown" as LLMModelId),
+    winner: c.winner === null ? null : engineMap.get(c.winner) || ("unknown" as LLMModelId),
+  }));
+
+  return {
+    rankings,
+    winner: rankings.find((r) => r.finalRank === 1)!,
+    totalEvaluations: comparisons.length,
+    consensusLevel: determineConsensusLevel(rankings),
+    outcomes,
+  };
+}
+
+/**
+ * Parse the verdict from a pairwise judge response
+ * Expects a final line like "WINNER: Response B" or "WINNER: TIE".
+ *
+ * @returns The winning blindId, null for a tie, or undefined if unparseable
+ */
+export function parsePairwiseWinnerFromText(
+  text: string,
+  blindIdA: string,
+  blindIdB: string
+): string | null | undefined {
+  const matches = Array.from(text.matchAll(/WINNER:\s*(Response\s+[A-Z]|TIE)\b/gi));
+  if (matches.length === 0) return undefined;
+
+  // Use the last verdict in case the judge restated the format first
+  const verdict = matches[matches.length - 1][1].replace(/\s+/g, " ").trim();
+  if (verdict.toUpperCase() === "TIE") return null;
+
+  const normalized = `Response ${verdict.slice(-1).toUpperCase()}`;
+  if (normalized === blindIdA || normalized === blindIdB) return normalized;
+  return undefined;
+}
+
 /**
  * Parse ranking from LLM judge response
  * Expects format like: "1. Response A\n2. Response B\n3. Response C"
@@ -267,13 +519,27 @@ export function formatRankingSummary(result: AggregationResult): string {
 
 /**
  * Calculate win rate for each engine across multiple queries
+ *
+ * Sessions judged pairwise also contribute their head-to-head outcomes:
+ * pooled across sessions these give a pairwise win rate and an engine-level
+ * Bradley-Terry rating with a confidence interval.
  */
 export interface WinRateStats {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   wins: number;
   totalQueries: number;
   winRate: number;
   avgRank: number;
+  comparisons?: number; // Pairwise sessions only
+  pairwiseWinRate?: number; // Ties count as half a win
+  rating?: number;
+  ratingInterval?: [number, number];
+}
+
+function isPairwiseResult(
+  result: AggregationResult
+): result is PairwiseAggregationResult {
+  return Array.isArray((result as PairwiseAggregationResult).outcomes);
 }
 
 export function calculateWinRates(
@@ -283,7 +549,7 @@ export function calculateWinRates(
 
   // Collect all unique engines
   const engineStats = new Map<
-    CouncilEngineId,
+    LLMModelId,
     { wins: number; totalRanks: number; count: number }
   >();
 
@@ -305,13 +571,43 @@ export function calculateWinRates(
     });
   });
 
+  // Pool head-to-head outcomes from every pairwise session
+  const outcomes = results.filter(isPairwiseResult).flatMap((r) => r.outcomes);
+  const headToHead = new Map<LLMModelId, { wins: number; comparisons: number }>();
+  outcomes.forEach((o) => {
+    [o.engineA, o.engineB].forEach((engineId) => {
+      const current = headToHead.get(engineId) || { wins: 0, comparisons: 0 };
+      current.comparisons++;
+      if (o.winner === engineId) current.wins++;
+      if (o.winner === null) current.wins += 0.5;
+      headToHead.set(engineId, current);
+    });
+  });
+
+  const fits =
+    outcomes.length > 0
+      ? fitBradleyTerry(
+          Array.from(headToHead.keys()),
+          outcomes.map((o) => ({ a: o.engineA, b: o.engineB, winner: o.winner }))
+        )
+      : new Map<string, BradleyTerryFit>();
+
   return Array.from(engineStats.entries())
-    .map(([engineId, stats]) => ({
-      engineId,
-      wins: stats.wins,
-      totalQueries: stats.count,
-      winRate: stats.wins / stats.count,
-      avgRank: stats.totalRanks / stats.count,
-    }))
+    .map(([engineId, stats]) => {
+      const pairwise = headToHead.get(engineId);
+      const fit = fits.get(engineId);
+      return {
+        engineId,
+        wins: stats.wins,
+        totalQueries: stats.count,
+        winRate: stats.wins / stats.count,
+        avgRank: stats.totalRanks / stats.count,
+        ...(pairwise && {
+          comparisons: pairwise.comparisons,
+          pairwiseWinRate: pairwise.wins / pairwise.comparisons,
+        }),
+        ...(fit && { rating: fit.rating, ratingInterval: fit.interval }),
+      };
+    })
     .sort((a, b) => b.winRate - a.winRate);
 }
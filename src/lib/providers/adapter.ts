@@ -0,0 +1,96 @@
+/**
+ * Provider Adapter Contract
+ *
+ * Every LLMModel names the adapter it is queried through. An adapter owns
+ * its client, turns a query into a provider call, pulls citations out of
+ * the provider's response and prices the call. Nothing outside
+ * src/lib/providers needs to know which provider serves which model.
+ */
+
+import type { GroundingSource, GroundingSupportSegment, LLMModel, ProviderAdapterId } from "../../types";
+import type { ProviderScope } from "../security/api-keys";
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 30000;
+
+/**
+ * The API key each adapter is queried with; null: no key needed (self-hosted)
+ * A plain table, so key checks can read it without loading any provider SDK.
+ */
+export const PROVIDER_REQUIRED_KEYS: Readonly<Record<ProviderAdapterId, ProviderScope | null>> = {
+  openrouter: "openrouter",
+  gemini: "gemini",
+  perplexity: "openrouter",
+  "web-search": "openrouter",
+  local: null,
+};
+
+export interface ProviderCapabilities {
+  grounding: boolean;     // Answers from a live web search and returns its sources
+  systemPrompt: boolean;  // Gets the consumer chat prompt; search simulations get the bare query
+}
+
+export interface ProviderRequest {
+  query: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  sample?: number;  // Index of a repeated sample; adapters ignore it, fixtures keep samples apart
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+/**
+ * One provider call, before citation parsing and pricing
+ * `raw` is the provider's own response object.
+ */
+export interface ProviderResponse<TRaw = unknown> {
+  content: string;
+  usage: TokenUsage;
+  latencyMs: number;
+  raw: TRaw;
+  // Final URLs of redirecting citation links, resolved at query time so replays don't refetch
+  resolvedUrls?: Record<string, string>;
+}
+
+/**
+ * Attribution detail beyond the source list, for providers that return it
+ */
+export interface ProviderGrounding {
+  supports?: GroundingSupportSegment[];
+  searchQueries?: string[];
+}
+
+export interface ProviderAdapter<TRaw = unknown> {
+  id: ProviderAdapterId;
+  requiredKey: ProviderScope | null;   // From PROVIDER_REQUIRED_KEYS
+  capabilities: ProviderCapabilities;
+  query(model: LLMModel, request: ProviderRequest): Promise<ProviderResponse<TRaw>>;
+  /** Sources the answer cites, or undefined if the provider returns none */
+  parseCitations(response: ProviderResponse<TRaw>): GroundingSource[] | undefined;
+  /** Answer spans mapped to the parsed citations' ranks, and the searches behind the answer */
+  parseGrounding?(response: ProviderResponse<TRaw>): ProviderGrounding | undefined;
+  computeCost(model: LLMModel, usage: TokenUsage): number;
+}
+
+/**
+ * Price a call from the model's per-million-token rates plus any flat per-call fee
+ */
+export function computeTokenCost(model: LLMModel, usage: TokenUsage): number {
+  const inputCost = (usage.prompt / 1_000_000) * model.costPer1MInput;
+  const outputCost = (usage.completion / 1_000_000) * model.costPer1MOutput;
+  return inputCost + outputCost + (model.costPerRequest ?? 0);
+}
+
+/**
+ * Combine the caller's signal with the request timeout
+ */
+export function requestSignal(request: ProviderRequest): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(request.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS);
+  return request.signal ? AbortSignal.any([request.signal, timeoutSignal]) : timeoutSignal;
+}
@@ -0,0 +1,146 @@
+/**
+ * Provider Response Fixtures
+ *
+ * Record/replay for provider calls, so offline tests and demos run the
+ * real detection code on real answers. PROVIDER_FIXTURE_MODE=record saves
+ * every provider response (content, usage and the raw provider object, so
+ * citations are re-parsed on replay); =replay serves responses from the
+ * saved files and never calls a provider. Mock visibility runs always
+ * replay whatever has been recorded.
+ *
+ * Fixtures are keyed by a hash of the adapter, provider model and request
+ * parameters, one JSON file per response, under PROVIDER_FIXTURES_DIR
+ * (default ./fixtures/providers). They're plain JSON so they can be
+ * reviewed and committed.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { LLMModel, ProviderAdapterId } from "../../types";
+import type { ProviderRequest, ProviderResponse } from "./adapter";
+
+export type ProviderFixtureMode = "off" | "record" | "replay";
+
+/**
+ * One recorded provider response, with the request that produced it
+ */
+export interface ProviderFixture {
+  key: string;
+  adapter: ProviderAdapterId;
+  model: string;
+  request: {
+    query: string;
+    systemPrompt?: string;
+    temperature?: number;
+    maxTokens?: number;
+    sample?: number;
+  };
+  response: ProviderResponse;
+  recordedAt: number;
+}
+
+export class ProviderFixtureMissingError extends Error {
+  constructor(model: LLMModel, request: ProviderRequest) {
+    super(`No recorded response for ${model.name}: "${request.query}"`);
+    this.name = "ProviderFixtureMissingError";
+  }
+}
+
+/**
+ * The fixture mode set for this process; anything unrecognized is "off"
+ */
+export function getProviderFixtureMode(): ProviderFixtureMode {
+  const mode = process.env.PROVIDER_FIXTURE_MODE;
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+function getFixturesDir(): string {
+  return process.env.PROVIDER_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "providers");
+}
+
+function providerModelName(model: LLMModel): string {
+  return model.providerModelId ?? model.openRouterId;
+}
+
+/**
+ * Hash of everything that shapes a provider's answer (the signal and timeout don't)
+ * plus the sample index, so each repeated sample is recorded separately. The
+ * first sample hashes like an unsampled request.
+ */
+export function getFixtureKey(model: LLMModel, request: ProviderRequest): string {
+  const parts: unknown[] = [
+    model.adapter,
+    providerModelName(model),
+    request.systemPrompt ?? "",
+    request.query,
+    request.temperature,
+    request.maxTokens,
+  ];
+  if (request.sample) parts.push(request.sample);
+
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+function fixturePath(key: string): string {
+  return path.join(getFixturesDir(), `${key}.json`);
+}
+
+/**
+ * Load the recorded response for this request, or null if none was recorded
+ */
+export async function readProviderFixture(
+  model: LLMModel,
+  request: ProviderRequest
+): Promise<ProviderFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(fixturePath(getFixtureKey(model, request)), "utf-8")) as ProviderFixture;
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Check whether a response was recorded for this request
+ */
+export async function hasProviderFixture(model: LLMModel, request: ProviderRequest): Promise<boolean> {
+  try {
+    await fs.access(fixturePath(getFixtureKey(model, request)));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Save a provider response, replacing any earlier recording of the same request
+ */
+export async function writeProviderFixture(
+  model: LLMModel,
+  request: ProviderRequest,
+  response: ProviderResponse
+): Promise<void> {
+  const key = getFixtureKey(model, request);
+  const fixture: ProviderFixture = {
+    key,
+    adapter: model.adapter,
+    model: providerModelName(model),
+    request: {
+      query: request.query,
+      systemPrompt: request.systemPrompt,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      sample: request.sample,
+    },
+    // Round-trip the raw response so class instances are stored as what replay will read
+    response: JSON.parse(JSON.stringify(response)),
+    recordedAt: Date.now(),
+  };
+
+  const filePath = fixturePath(key);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(fixture, null, 2), "utf-8");
+  await fs.rename(tmpPath, filePath);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { GenerateContentResponse, GroundingSupport } from "@google/genai";
+import { geminiAdapter } from "./gemini";
+
+const PARTS = ["Locals love Café Olé ☕ for espresso. ", "Runners 🏃 head to Trailhead for shoes."];
+
+// The UTF-8 byte range of `text` within a part, as the API reports it
+function byteSegment(partIndex: number, text: string) {
+  const startIndex = Buffer.byteLength(PARTS[partIndex].slice(0, PARTS[partIndex].indexOf(text)), "utf-8");
+  return { partIndex, startIndex, endIndex: startIndex + Buffer.byteLength(text, "utf-8"), text };
+}
+
+function response(groundingSupports: GroundingSupport[]) {
+  const raw = {
+    candidates: [
+      {
+        content: { role: "model", parts: PARTS.map((text) => ({ text })) },
+        groundingMetadata: {
+          groundingChunks: [
+            { web: { uri: "https://cafeole.example/menu", title: "cafeole.example" } },
+            { web: { uri: "https://trailhead.example/", title: "trailhead.example" } },
+          ],
+          groundingSupports,
+          webSearchQueries: ["best espresso near me"],
+        },
+      },
+    ],
+  } as GenerateContentResponse;
+
+  return { content: PARTS.join(""), usage: { prompt: 0, completion: 0, total: 0 }, latencyMs: 0, raw };
+}
+
+describe("geminiAdapter.parseGrounding", () => {
+  it("maps UTF-8 byte offsets to the string spans the answer highlights", () => {
+    const res = response([
+      { segment: byteSegment(0, "Café Olé ☕ for espresso."), groundingChunkIndices: [0] },
+      { segment: byteSegment(1, "Trailhead for shoes."), groundingChunkIndices: [1] },
+    ]);
+
+    const supports = geminiAdapter.parseGrounding!(res)?.supports;
+
+    expect(supports).toEqual([
+      { text: "Café Olé ☕ for espresso.", start: 12, end: 36, sourceRanks: [1] },
+      { text: "Trailhead for shoes.", start: 56, end: 76, sourceRanks: [2] },
+    ]);
+    expect(supports!.map((s) => res.content.slice(s.start, s.end))).toEqual(supports!.map((s) => s.text));
+  });
+
+  it("falls back to the segment text when the offsets don't line up", () => {
+    // Character offsets instead of byte offsets cut the emoji in half
+    const segment = { partIndex: 1, startIndex: 8, endIndex: 10, text: "🏃" };
+    const res = response([{ segment, groundingChunkIndices: [1] }]);
+
+    expect(geminiAdapter.parseGrounding!(res)?.supports).toEqual([
+      { text: "🏃", start: PARTS[0].length + 8, end: PARTS[0].length + 10, sourceRanks: [2] },
+    ]);
+  });
+
+  it("skips segments with no identified source", () => {
+    const res = response([{ segment: byteSegment(0, "Locals love"), groundingChunkIndices: [5] }]);
+
+    expect(geminiAdapter.parseGrounding!(res)).toEqual({
+      supports: undefined,
+      searchQueries: ["best espresso near me"],
+    });
+  });
+});
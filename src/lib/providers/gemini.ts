@@ -0,0 +1,169 @@
+/**
+ * Gemini Grounded Adapter
+ *
+ * Direct Gemini API calls with Google Search grounding, for simulating
+ * AI search answers. Citations come from the grounding metadata; their
+ * redirect URLs are resolved to the cited pages right after the call.
+ * The metadata's supports (answer segment -> chunks) and web search
+ * queries are kept for attribution.
+ */
+
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import type { GroundingSource, GroundingSupportSegment } from "../../types";
+import { computeTokenCost, PROVIDER_REQUIRED_KEYS, requestSignal, type ProviderAdapter, type ProviderResponse } from "./adapter";
+import { isGroundingRedirect, resolveGroundingRedirects, unwrapRedirectParam } from "./redirects";
+
+// Chunk titles are usually the cited site's domain
+const DOMAIN_TITLE_PATTERN = /^(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)+$/i;
+
+let geminiClient: GoogleGenAI | null = null;
+
+function getGeminiClient(): GoogleGenAI {
+  if (!geminiClient) {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+    if (!apiKey) throw new Error("GEMINI_API_KEY not configured");
+
+    geminiClient = new GoogleGenAI({ apiKey });
+  }
+  return geminiClient;
+}
+
+/**
+ * The cited source behind each grounding chunk, by chunk index
+ * Chunks whose site can't be identified are null; ranks count identified sources only.
+ */
+function citedChunks({ raw, resolvedUrls }: ProviderResponse<GenerateContentResponse>): Array<GroundingSource | null> {
+  const groundingChunks = raw.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  let rank = 0;
+
+  return groundingChunks.map((chunk) => {
+    const uri = chunk.web?.uri || "";
+    const title = chunk.web?.title || "Untitled";
+    if (!uri) return null;
+
+    // A redirect resolves to the cited page; failing that, the title usually names its domain
+    let citedUri: string | null = uri;
+    if (isGroundingRedirect(uri)) {
+      citedUri = unwrapRedirectParam(uri) ?? resolvedUrls?.[uri] ?? null;
+      if (!citedUri && DOMAIN_TITLE_PATTERN.test(title.trim())) {
+        citedUri = `https://${title.trim().toLowerCase()}`;
+      }
+    }
+
+    return citedUri ? { uri: citedUri, title, rank: ++rank } : null;
+  });
+}
+
+/**
+ * Locate a support segment in the answer text
+ *
+ * Segment indices are UTF-8 byte offsets within one part, and the answer
+ * joins all text parts; the segment text is searched for when the offsets
+ * don't line up.
+ */
+function locateSegment(
+  content: string,
+  partOffsets: number[],
+  segment: { partIndex?: number; startIndex?: number; endIndex?: number; text?: string }
+): { start: number; end: number } | null {
+  const partIndex = segment.partIndex ?? 0;
+  const partStart = partOffsets[partIndex];
+  const partEnd = partOffsets[partIndex + 1] ?? content.length;
+
+  if (partStart !== undefined) {
+    const partBytes = Buffer.from(content.slice(partStart, partEnd), "utf-8");
+    const start = partStart + partBytes.subarray(0, segment.startIndex ?? 0).toString("utf-8").length;
+    const end = partStart + partBytes.subarray(0, segment.endIndex ?? 0).toString("utf-8").length;
+    if (end > start && (!segment.text || content.slice(start, end) === segment.text)) {
+      return { start, end };
+    }
+  }
+
+  if (!segment.text) return null;
+  const index = content.indexOf(segment.text);
+  return index === -1 ? null : { start: index, end: index + segment.text.length };
+}
+
+export const geminiAdapter: ProviderAdapter<GenerateContentResponse> = {
+  id: "gemini",
+  requiredKey: PROVIDER_REQUIRED_KEYS.gemini,
+  capabilities: { grounding: true, systemPrompt: false },
+
+  async query(model, request) {
+    const client = getGeminiClient();
+    const startTime = Date.now();
+
+    const response = await client.models.generateContent({
+      model: model.providerModelId ?? model.openRouterId,
+      contents: request.query,
+      config: {
+        tools: [{ googleSearch: {} }],
+        systemInstruction: request.systemPrompt,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        abortSignal: requestSignal(request),
+      },
+    });
+
+    const usage = response.usageMetadata || {};
+    const promptTokens = usage.promptTokenCount || 0;
+    const completionTokens = usage.candidatesTokenCount || 0;
+    const latencyMs = Date.now() - startTime;
+
+    const chunkUris = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+      .map((chunk) => chunk.web?.uri || "")
+      .filter(Boolean);
+
+    return {
+      content: response.text || "",
+      usage: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens,
+      },
+      latencyMs,
+      raw: response,
+      resolvedUrls: await resolveGroundingRedirects(chunkUris, request.signal),
+    };
+  },
+
+  parseCitations(response) {
+    return citedChunks(response).filter((source): source is GroundingSource => source !== null);
+  },
+
+  parseGrounding(response) {
+    const metadata = response.raw.candidates?.[0]?.groundingMetadata;
+    if (!metadata) return undefined;
+
+    const chunks = citedChunks(response);
+
+    // Start of each text part within the joined answer
+    const partOffsets: number[] = [];
+    let offset = 0;
+    for (const part of response.raw.candidates?.[0]?.content?.parts || []) {
+      partOffsets.push(offset);
+      // response.text leaves thought parts out
+      offset += part.thought ? 0 : part.text?.length ?? 0;
+    }
+
+    const supports: GroundingSupportSegment[] = [];
+    for (const support of metadata.groundingSupports || []) {
+      if (!support.segment) continue;
+
+      const sourceRanks = (support.groundingChunkIndices || [])
+        .map((index) => chunks[index]?.rank)
+        .filter((rank): rank is number => rank !== undefined);
+      const span = locateSegment(response.content, partOffsets, support.segment);
+      if (!span || sourceRanks.length === 0) continue;
+
+      supports.push({ text: response.content.slice(span.start, span.end), ...span, sourceRanks });
+    }
+
+    return {
+      supports: supports.length > 0 ? supports : undefined,
+      searchQueries: metadata.webSearchQueries?.length ? metadata.webSearchQueries : undefined,
+    };
+  },
+
+  computeCost: computeTokenCost,
+};
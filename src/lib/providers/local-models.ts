@@ -0,0 +1,103 @@
+/**
+ * Local Model Endpoints
+ *
+ * Self-hosted OpenAI-compatible endpoints (Ollama, vLLM, llama.cpp server)
+ * configured in LOCAL_MODEL_ENDPOINTS as a JSON array:
+ *
+ *   [{ "name": "Llama 3.1 8B (Ollama)", "baseUrl": "http://localhost:11434/v1",
+ *      "model": "llama3.1:8b", "apiKey": "optional", "id": "optional-slug" }]
+ *
+ * Each becomes a model with an ID of the form "local:<slug>". The variable
+ * is re-read whenever it changes, so a removed endpoint is gone on the
+ * next lookup. It is server-only: in the browser there are no endpoints,
+ * and the page gets the model entries from /api/visibility/status. No SDK
+ * imports here: this module ships to the client.
+ */
+
+import { z } from "zod";
+import type { LLMModel } from "../../types";
+
+export const LOCAL_MODEL_PREFIX = "local:";
+
+const localEndpointSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9._-]{0,40}$/i).optional(),
+  name: z.string().min(1).max(80),
+  baseUrl: z.string().url(),
+  model: z.string().min(1),
+  apiKey: z.string().optional(),
+});
+
+export type LocalModelEndpoint = z.infer<typeof localEndpointSchema> & { id: string };
+
+// Parsed endpoints, keyed by model ID, for the LOCAL_MODEL_ENDPOINTS value they came from
+let parsed: { raw: string | undefined; endpoints: Map<string, LocalModelEndpoint> } | null = null;
+
+/**
+ * Check whether a model ID names a self-hosted endpoint
+ */
+export function isLocalModelId(id: string): id is `local:${string}` {
+  return id.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40) || "model";
+}
+
+/**
+ * Build the model entry for an endpoint
+ * Self-hosted models cost nothing per token and have no web search.
+ */
+export function toLocalModel(endpoint: { id: string; name: string; model: string }): LLMModel {
+  return {
+    id: `${LOCAL_MODEL_PREFIX}${endpoint.id}`,
+    name: endpoint.name,
+    provider: "Self-hosted",
+    consumerProduct: "Self-hosted model",
+    platformType: "chat",
+    costTier: "budget",
+    adapter: "local",
+    openRouterId: "",
+    providerModelId: endpoint.model,
+    costPer1MInput: 0,
+    costPer1MOutput: 0,
+  };
+}
+
+/**
+ * Endpoints from LOCAL_MODEL_ENDPOINTS, keyed by model ID
+ * Invalid entries are logged and skipped.
+ */
+export function getLocalEndpoints(): Map<string, LocalModelEndpoint> {
+  const raw = typeof process === "undefined" ? undefined : process.env.LOCAL_MODEL_ENDPOINTS;
+  if (parsed && parsed.raw === raw) return parsed.endpoints;
+
+  const endpoints = new Map<string, LocalModelEndpoint>();
+  parsed = { raw, endpoints };
+  if (!raw) return endpoints;
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    console.error("[Providers] LOCAL_MODEL_ENDPOINTS is not valid JSON");
+    return endpoints;
+  }
+
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const result = localEndpointSchema.safeParse(entry);
+    if (!result.success) {
+      console.error("[Providers] Skipping invalid local endpoint:", result.error.issues[0]?.message);
+      continue;
+    }
+    const endpoint = { ...result.data, id: result.data.id ?? slugify(result.data.model) };
+    endpoints.set(toLocalModel(endpoint).id, endpoint);
+  }
+  return endpoints;
+}
+
+/**
+ * Model entries for the configured endpoints
+ */
+export function getLocalModels(): LLMModel[] {
+  return [...getLocalEndpoints().values()].map(toLocalModel);
+}
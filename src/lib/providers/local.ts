@@ -0,0 +1,57 @@
+/**
+ * Local Endpoint Adapter
+ *
+ * Chat completions against the self-hosted OpenAI-compatible servers in
+ * LOCAL_MODEL_ENDPOINTS (see ./local-models for the format). Base URLs and
+ * keys stay on the server; the browser only sees the model entries.
+ */
+
+import OpenAI from "openai";
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import type { LLMModel } from "../../types";
+import { computeTokenCost, PROVIDER_REQUIRED_KEYS, type ProviderAdapter } from "./adapter";
+import { getLocalEndpoints, type LocalModelEndpoint } from "./local-models";
+import { sendChatCompletion } from "./openrouter";
+
+// One client per parsed endpoint, so a changed endpoint gets a fresh client
+const clients = new WeakMap<LocalModelEndpoint, OpenAI>();
+
+/**
+ * Configured endpoints without their URLs or keys, for the status route
+ */
+export function getLocalEndpointSummaries(): { id: string; name: string; hasKey: boolean }[] {
+  return [...getLocalEndpoints()].map(([id, endpoint]) => ({
+    id,
+    name: endpoint.name,
+    hasKey: Boolean(endpoint.apiKey),
+  }));
+}
+
+function getLocalClient(model: LLMModel): OpenAI {
+  const endpoint = getLocalEndpoints().get(model.id);
+  if (!endpoint) throw new Error(`Local endpoint for ${model.id} is not configured`);
+
+  let client = clients.get(endpoint);
+  if (!client) {
+    // Most local servers ignore the key, but the SDK requires one
+    client = new OpenAI({ baseURL: endpoint.baseUrl, apiKey: endpoint.apiKey || "local" });
+    clients.set(endpoint, client);
+  }
+  return client;
+}
+
+export const localAdapter: ProviderAdapter<ChatCompletion> = {
+  id: "local",
+  requiredKey: PROVIDER_REQUIRED_KEYS.local,
+  capabilities: { grounding: false, systemPrompt: true },
+
+  async query(model, request) {
+    return sendChatCompletion(getLocalClient(model), model.providerModelId ?? model.id, request);
+  },
+
+  parseCitations() {
+    return undefined;
+  },
+
+  computeCost: computeTokenCost,
+};
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LLM_MODELS } from "../../types";
+import { toLocalModel } from "./local-models";
+import { getAllModels, getModel } from "./models";
+
+const ollama = { name: "Llama (Ollama)", baseUrl: "http://localhost:11434/v1", model: "llama3.1:8b", id: "ollama" };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getModel", () => {
+  it("finds built-in models", () => {
+    expect(getModel("gpt4o")).toBe(LLM_MODELS.gpt4o);
+    expect(getModel("no-such-model")).toBeUndefined();
+  });
+
+  it("follows LOCAL_MODEL_ENDPOINTS as it changes", () => {
+    vi.stubEnv("LOCAL_MODEL_ENDPOINTS", JSON.stringify([ollama]));
+    expect(getModel("local:ollama")).toMatchObject({ name: "Llama (Ollama)", adapter: "local" });
+
+    vi.stubEnv("LOCAL_MODEL_ENDPOINTS", "[]");
+    expect(getModel("local:ollama")).toBeUndefined();
+  });
+
+  it("skips invalid endpoints", () => {
+    vi.stubEnv("LOCAL_MODEL_ENDPOINTS", JSON.stringify([{ name: "No URL", model: "x" }, ollama]));
+    expect(getAllModels().filter((m) => m.adapter === "local").map((m) => m.id)).toEqual(["local:ollama"]);
+  });
+
+  it("searches the local models it's given instead of the environment", () => {
+    vi.stubEnv("LOCAL_MODEL_ENDPOINTS", JSON.stringify([ollama]));
+    const fromStatus = [toLocalModel({ id: "vllm", name: "Qwen (vLLM)", model: "qwen" })];
+
+    expect(getModel("local:vllm", fromStatus)?.name).toBe("Qwen (vLLM)");
+    expect(getModel("local:ollama", fromStatus)).toBeUndefined();
+  });
+
+  it("never adds local models to LLM_MODELS", () => {
+    vi.stubEnv("LOCAL_MODEL_ENDPOINTS", JSON.stringify([ollama]));
+    getAllModels();
+
+    expect(Object.isFrozen(LLM_MODELS)).toBe(true);
+    expect(Object.keys(LLM_MODELS).some((id) => id.startsWith("local:"))).toBe(false);
+  });
+});
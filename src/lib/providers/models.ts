@@ -0,0 +1,35 @@
+/**
+ * Model Lookup
+ *
+ * Resolves model IDs against the built-in LLM_MODELS and the self-hosted
+ * endpoints. LLM_MODELS itself never changes; local models are merged in
+ * at lookup time. On the server they come from LOCAL_MODEL_ENDPOINTS. The
+ * browser has no endpoint config, so client code passes the models from
+ * /api/visibility/status.
+ */
+
+import { LLM_MODELS, type BuiltInModelId, type LLMModel } from "../../types";
+import { getLocalModels } from "./local-models";
+
+/**
+ * Look up a model by ID
+ *
+ * @param localModels - Self-hosted models to search; defaults to the configured endpoints
+ * @returns undefined for unknown IDs, including removed local endpoints
+ */
+export function getModel(
+  id: string,
+  localModels: readonly LLMModel[] = getLocalModels()
+): LLMModel | undefined {
+  if (Object.hasOwn(LLM_MODELS, id)) return LLM_MODELS[id as BuiltInModelId];
+  return localModels.find((model) => model.id === id);
+}
+
+/**
+ * Every available model, built-in ones first
+ *
+ * @param localModels - Self-hosted models to include; defaults to the configured endpoints
+ */
+export function getAllModels(localModels: readonly LLMModel[] = getLocalModels()): LLMModel[] {
+  return [...Object.values(LLM_MODELS), ...localModels];
+}
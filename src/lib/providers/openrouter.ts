@@ -0,0 +1,131 @@
+/**
+ * OpenRouter Adapter
+ *
+ * Chat completions through OpenRouter's OpenAI-compatible API, used by
+ * most models. Responses carry no citations.
+ */
+
+import OpenAI from "openai";
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions";
+import type { GroundingSource, LLMModel } from "../../types";
+import {
+  computeTokenCost,
+  PROVIDER_REQUIRED_KEYS,
+  requestSignal,
+  type ProviderAdapter,
+  type ProviderRequest,
+  type ProviderResponse,
+} from "./adapter";
+
+let openRouterClient: OpenAI | null = null;
+
+function getOpenRouterClient(): OpenAI {
+  if (!openRouterClient) {
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    if (!apiKey) throw new Error("OPENROUTER_API_KEY not configured");
+
+    openRouterClient = new OpenAI({
+      baseURL: "https://openrouter.ai/api/v1",
+      apiKey,
+      defaultHeaders: {
+        "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "https://localhost:3000",
+        "X-Title": "Commerce Prompt Analyzer",
+      },
+    });
+  }
+  return openRouterClient;
+}
+
+/**
+ * Send one chat completion through OpenRouter
+ *
+ * Shared with adapters for providers that OpenRouter proxies but whose
+ * responses need their own parsing. `extraBody` carries OpenRouter-only
+ * request fields such as plugins.
+ */
+export async function queryOpenRouterChat<TRaw extends ChatCompletion = ChatCompletion>(
+  model: LLMModel,
+  request: ProviderRequest,
+  extraBody: Record<string, unknown> = {}
+): Promise<ProviderResponse<TRaw>> {
+  return sendChatCompletion<TRaw>(getOpenRouterClient(), model.openRouterId, request, extraBody);
+}
+
+/**
+ * Send one chat completion to any OpenAI-compatible API
+ */
+export async function sendChatCompletion<TRaw extends ChatCompletion = ChatCompletion>(
+  client: OpenAI,
+  modelName: string,
+  request: ProviderRequest,
+  extraBody: Record<string, unknown> = {}
+): Promise<ProviderResponse<TRaw>> {
+  const startTime = Date.now();
+
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+  if (request.systemPrompt) messages.push({ role: "system", content: request.systemPrompt });
+  messages.push({ role: "user", content: request.query });
+
+  const params: ChatCompletionCreateParamsNonStreaming = {
+    model: modelName,
+    messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  };
+  const completion = await client.chat.completions.create(
+    { ...params, ...extraBody } as ChatCompletionCreateParamsNonStreaming,
+    { signal: requestSignal(request) }
+  );
+
+  const usage = completion.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+  return {
+    content: completion.choices[0]?.message?.content || "",
+    usage: {
+      prompt: usage.prompt_tokens,
+      completion: usage.completion_tokens,
+      total: usage.total_tokens,
+    },
+    latencyMs: Date.now() - startTime,
+    raw: completion as TRaw,
+  };
+}
+
+/**
+ * URL citations annotated on the answer, ranked by where they're first cited
+ */
+export function parseUrlCitations(completion: ChatCompletion): GroundingSource[] {
+  const annotations = completion.choices[0]?.message?.annotations ?? [];
+  const citations = annotations
+    .filter((a) => a.type === "url_citation" && a.url_citation?.url)
+    .map((a) => a.url_citation)
+    .sort((a, b) => (a.start_index ?? 0) - (b.start_index ?? 0));
+
+  const seen = new Set<string>();
+  const sources: GroundingSource[] = [];
+  for (const citation of citations) {
+    if (seen.has(citation.url)) continue;
+    seen.add(citation.url);
+    sources.push({ uri: citation.url, title: citation.title || citation.url, rank: sources.length + 1 });
+  }
+  return sources;
+}
+
+export const openRouterAdapter: ProviderAdapter<ChatCompletion> = {
+  id: "openrouter",
+  requiredKey: PROVIDER_REQUIRED_KEYS.openrouter,
+  capabilities: { grounding: false, systemPrompt: true },
+
+  async query(model, request) {
+    return queryOpenRouterChat(model, request);
+  },
+
+  parseCitations() {
+    return undefined;
+  },
+
+  computeCost: computeTokenCost,
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { ChatCompletionMessage } from "openai/resources/chat/completions";
+import { perplexityAdapter } from "./perplexity";
+
+type PerplexityResponse = Parameters<typeof perplexityAdapter.parseCitations>[0];
+type PerplexityCompletion = PerplexityResponse["raw"];
+
+function response(
+  content: string,
+  extra: Pick<PerplexityCompletion, "citations" | "search_results">,
+  annotations?: ChatCompletionMessage["annotations"]
+): PerplexityResponse {
+  return {
+    content,
+    usage: { prompt: 0, completion: 0, total: 0 },
+    latencyMs: 0,
+    raw: {
+      id: "cmpl",
+      object: "chat.completion",
+      created: 0,
+      model: "perplexity/sonar",
+      choices: [
+        {
+          index: 0,
+          finish_reason: "stop",
+          logprobs: null,
+          message: { role: "assistant", content, refusal: null, annotations },
+        },
+      ],
+      ...extra,
+    },
+  };
+}
+
+describe("perplexityAdapter.parseCitations", () => {
+  it("ranks sources by where the answer first cites them, uncited ones last", () => {
+    const sources = perplexityAdapter.parseCitations(
+      response("Best is X [3]. Also Y [1][3].", {
+        citations: ["https://a.com/1", "https://www.b.com/2", "https://c.com/3"],
+      })
+    );
+
+    expect(sources).toEqual([
+      { uri: "https://c.com/3", title: "c.com", rank: 1 },
+      { uri: "https://a.com/1", title: "a.com", rank: 2 },
+      { uri: "https://www.b.com/2", title: "b.com", rank: 3 },
+    ]);
+  });
+
+  it("ignores markers outside the citation list", () => {
+    const sources = perplexityAdapter.parseCitations(
+      response("See [0] and [7] and [2].", { citations: ["https://a.com", "https://b.com"] })
+    );
+
+    expect(sources?.map((s) => s.uri)).toEqual(["https://b.com", "https://a.com"]);
+  });
+
+  it("takes titles from the search results and falls back to them for URLs", () => {
+    const sources = perplexityAdapter.parseCitations(
+      response("Answer [1].", {
+        search_results: [
+          { url: "https://a.com", title: "A Review" },
+          { url: "https://b.com" },
+        ],
+      })
+    );
+
+    expect(sources).toEqual([
+      { uri: "https://a.com", title: "A Review", rank: 1 },
+      { uri: "https://b.com", title: "b.com", rank: 2 },
+    ]);
+  });
+
+  it("falls back to url_citation annotations", () => {
+    const sources = perplexityAdapter.parseCitations(
+      response("Answer.", {}, [
+        { type: "url_citation", url_citation: { url: "https://a.com", title: "A", start_index: 0, end_index: 6 } },
+        { type: "url_citation", url_citation: { url: "https://b.com", title: "B", start_index: 9, end_index: 12 } },
+      ])
+    );
+
+    expect(sources).toEqual([
+      { uri: "https://a.com", title: "A", rank: 1 },
+      { uri: "https://b.com", title: "B", rank: 2 },
+    ]);
+  });
+
+  it("returns undefined when the answer has no sources", () => {
+    expect(perplexityAdapter.parseCitations(response("No sources.", {}))).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Perplexity Adapter
+ *
+ * Perplexity Sonar through OpenRouter. The completion carries the search
+ * behind the answer: `citations` (URLs, indexed by the answer's [n]
+ * markers), `search_results` (URLs with titles) and, from OpenRouter,
+ * url_citation annotations. Sources are ranked by where the answer first
+ * cites them; retrieved but uncited results rank after the cited ones.
+ */
+
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import type { GroundingSource } from "../../types";
+import { computeTokenCost, PROVIDER_REQUIRED_KEYS, type ProviderAdapter } from "./adapter";
+import { parseUrlCitations, queryOpenRouterChat } from "./openrouter";
+
+interface PerplexitySearchResult {
+  url: string;
+  title?: string;
+  date?: string;
+}
+
+type PerplexityCompletion = ChatCompletion & {
+  citations?: string[];
+  search_results?: PerplexitySearchResult[];
+};
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+function hostnameOf(uri: string): string {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, "");
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * 1-based citation numbers in the order the answer first uses them
+ */
+function citationOrder(content: string): number[] {
+  const seen = new Set<number>();
+  for (const match of content.matchAll(CITATION_MARKER)) {
+    seen.add(parseInt(match[1], 10));
+  }
+  return [...seen];
+}
+
+export const perplexityAdapter: ProviderAdapter<PerplexityCompletion> = {
+  id: "perplexity",
+  requiredKey: PROVIDER_REQUIRED_KEYS.perplexity,
+  capabilities: { grounding: true, systemPrompt: true },
+
+  async query(model, request) {
+    return queryOpenRouterChat<PerplexityCompletion>(model, request);
+  },
+
+  parseCitations({ content, raw }) {
+    const searchResults = raw.search_results ?? [];
+
+    // [n] markers index into `citations`; without it, fall back to the search results
+    const urls = raw.citations?.length ? raw.citations : searchResults.map((r) => r.url);
+    if (urls.length === 0) {
+      // OpenRouter may only pass the citations on as annotations
+      const annotated = parseUrlCitations(raw);
+      return annotated.length > 0 ? annotated : undefined;
+    }
+
+    const titles = new Map<string, string>();
+    for (const source of parseUrlCitations(raw)) titles.set(source.uri, source.title);
+    for (const r of searchResults) if (r.title) titles.set(r.url, r.title);
+
+    const cited = citationOrder(content)
+      .map((n) => n - 1)
+      .filter((index) => index >= 0 && index < urls.length);
+    const uncited = urls.map((_, index) => index).filter((index) => !cited.includes(index));
+
+    return [...cited, ...uncited]
+      .filter((index) => urls[index])
+      .map((index, position): GroundingSource => ({
+        uri: urls[index],
+        title: titles.get(urls[index]) || hostnameOf(urls[index]),
+        rank: position + 1,
+      }));
+  },
+
+  computeCost: computeTokenCost,
+};
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveGroundingRedirects, resolveRedirectUrl } from "./redirects";
+
+// resolveRedirectUrl caches by URI for the life of the module, so every test uses its own tokens
+const redirectUri = (token: string) => `https://vertexaisearch.cloud.google.com/grounding-api-redirect/${token}`;
+
+function redirect(location: string, status = 302): Response {
+  return new Response(null, { status, headers: { location } });
+}
+
+// Stub fetch with one handler per URL; unlisted URLs answer 200
+function stubFetch(routes: Record<string, () => Response>) {
+  const fetchMock = vi.fn(async (input: string | URL | Request, _init?: RequestInit) => {
+    const url = String(input);
+    return routes[url]?.() ?? new Response(null, { status: 200 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveRedirectUrl", () => {
+  it("follows the chain to the cited page with HEAD requests", async () => {
+    const uri = redirectUri("chain");
+    const fetchMock = stubFetch({
+      [uri]: () => redirect("https://example.com/start"),
+      "https://example.com/start": () => redirect("https://www.example.com/article", 301),
+    });
+
+    await expect(resolveRedirectUrl(uri)).resolves.toBe("https://www.example.com/article");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls.every(([, init]) => init?.method === "HEAD" && init.redirect === "manual")).toBe(true);
+  });
+
+  it("never requests a hop that points at a private address", async () => {
+    const uri = redirectUri("private-ip");
+    const fetchMock = stubFetch({ [uri]: () => redirect("http://10.0.0.1/admin") });
+
+    await expect(resolveRedirectUrl(uri)).resolves.toBeNull();
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([uri]);
+  });
+
+  it("gives up after five redirects", async () => {
+    const uri = redirectUri("loop");
+    let hops = 0;
+    const fetchMock = vi.fn(async () => redirect(`https://example.com/hop/${++hops}`));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(resolveRedirectUrl(uri)).resolves.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it("resolves a relative Location against the current hop", async () => {
+    const uri = redirectUri("relative");
+    stubFetch({
+      [uri]: () => redirect("https://example.com/blog/post"),
+      "https://example.com/blog/post": () => redirect("../articles/shoes?ref=1"),
+    });
+
+    await expect(resolveRedirectUrl(uri)).resolves.toBe("https://example.com/articles/shoes?ref=1");
+  });
+
+  it("returns null when a redirect without a Location never leaves Google", async () => {
+    const uri = redirectUri("no-location");
+    stubFetch({ [uri]: () => new Response(null, { status: 302 }) });
+
+    await expect(resolveRedirectUrl(uri)).resolves.toBeNull();
+  });
+
+  it("returns null when the request fails", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    }));
+
+    await expect(resolveRedirectUrl(redirectUri("network-error"))).resolves.toBeNull();
+  });
+
+  it("uses the url parameter without requesting the redirect itself", async () => {
+    const fetchMock = stubFetch({});
+
+    await expect(
+      resolveRedirectUrl("https://www.google.com/url?url=https%3A%2F%2Fexample.com%2Freview&sa=D")
+    ).resolves.toBe("https://example.com/review");
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual(["https://example.com/review"]);
+  });
+
+  it("caches resolved URLs but not failures", async () => {
+    const resolved = redirectUri("cached");
+    const failed = redirectUri("not-cached");
+    const fetchMock = stubFetch({
+      [resolved]: () => redirect("https://example.com/cached"),
+      [failed]: () => redirect("http://127.0.0.1/"),
+    });
+
+    await resolveRedirectUrl(resolved);
+    await resolveRedirectUrl(failed);
+    fetchMock.mockClear();
+
+    await expect(resolveRedirectUrl(resolved)).resolves.toBe("https://example.com/cached");
+    await expect(resolveRedirectUrl(failed)).resolves.toBeNull();
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([failed]);
+  });
+});
+
+describe("resolveGroundingRedirects", () => {
+  it("resolves each redirect once and leaves out plain and unresolved URLs", async () => {
+    const good = redirectUri("batch-good");
+    const bad = redirectUri("batch-bad");
+    const fetchMock = stubFetch({
+      [good]: () => redirect("https://example.com/batch"),
+      [bad]: () => redirect("http://192.168.1.1/"),
+    });
+
+    const resolved = await resolveGroundingRedirects([good, "https://example.com/direct", good, bad]);
+
+    expect(resolved).toEqual({ [good]: "https://example.com/batch" });
+    expect(fetchMock.mock.calls.map(([url]) => String(url)).filter((url) => url === good)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Grounding Redirect Resolver
+ *
+ * Gemini grounding chunks cite vertexaisearch/google redirect URLs, usually
+ * opaque tokens rather than links with a readable `url=` parameter.
+ * Following the redirect chain with HEAD requests recovers the page that
+ * was actually cited. Redirect targets come from a third party, so every
+ * hop goes through the SSRF guard before it's requested. Resolved URLs
+ * are cached for the life of the process.
+ */
+
+import { validateUrlForSSRF } from "../security/ssrf-guard";
+
+const MAX_REDIRECTS = 5;
+const RESOLVE_TIMEOUT_MS = 5000;
+const MAX_CACHE_ENTRIES = 5000;
+
+const resolvedUrlCache = new Map<string, string>();
+
+/**
+ * Check whether a URL is a Google grounding redirect rather than a cited page
+ */
+export function isGroundingRedirect(uri: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(uri);
+    if (hostname === "vertexaisearch.cloud.google.com") return true;
+    return (hostname === "google.com" || hostname.endsWith(".google.com")) && pathname === "/url";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The target of a redirect URL that carries it in a `url`/`q` parameter, without any request
+ */
+export function unwrapRedirectParam(uri: string): string | null {
+  try {
+    const url = new URL(uri);
+    const target = url.searchParams.get("url") || url.searchParams.get("q");
+    return target && /^https?:\/\//i.test(target) ? target : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follow a redirect chain to the final URL
+ *
+ * @returns the final URL, or null if a hop failed the SSRF guard, the
+ * chain was too long, the request failed or it never left Google
+ */
+export async function resolveRedirectUrl(uri: string, signal?: AbortSignal): Promise<string | null> {
+  const cached = resolvedUrlCache.get(uri);
+  if (cached) return cached;
+
+  const timeoutSignal = AbortSignal.timeout(RESOLVE_TIMEOUT_MS);
+  const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+  let current = unwrapRedirectParam(uri) ?? uri;
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (!validateUrlForSSRF(current).valid) return null;
+
+      const response = await fetch(current, { method: "HEAD", redirect: "manual", signal: requestSignal });
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        current = new URL(location, current).href;
+        continue;
+      }
+
+      if (isGroundingRedirect(current)) return null;
+
+      // Map keeps insertion order, so the first key is the oldest entry
+      if (resolvedUrlCache.size >= MAX_CACHE_ENTRIES) {
+        const oldest = resolvedUrlCache.keys().next().value;
+        if (oldest !== undefined) resolvedUrlCache.delete(oldest);
+      }
+      resolvedUrlCache.set(uri, current);
+      return current;
+    }
+  } catch {
+    // Network failure or timeout; the caller falls back to the chunk title
+  }
+  return null;
+}
+
+/**
+ * Resolve every grounding redirect among these URIs, in parallel
+ *
+ * @returns final URLs keyed by the redirect URI; unresolved ones are left out
+ */
+export async function resolveGroundingRedirects(
+  uris: string[],
+  signal?: AbortSignal
+): Promise<Record<string, string>> {
+  const redirects = Array.from(new Set(uris.filter(isGroundingRedirect)));
+  const finals = await Promise.all(redirects.map((uri) => resolveRedirectUrl(uri, signal)));
+
+  const resolved: Record<string, string> = {};
+  redirects.forEach((uri, i) => {
+    const final = finals[i];
+    if (final) resolved[uri] = final;
+  });
+  return resolved;
+}
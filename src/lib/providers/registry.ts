@@ -0,0 +1,99 @@
+/**
+ * Provider Adapter Registry
+ *
+ * Maps each LLMModel's `adapter` to its implementation. To add a model,
+ * add its LLM_MODELS entry; to add a provider, add an adapter here too.
+ * Calls go through the fixture recorder/replayer (see ./fixtures).
+ */
+
+import type { GroundingSource, GroundingSupportSegment, LLMModel, ProviderAdapterId } from "../../types";
+import type { ProviderAdapter, ProviderRequest, ProviderResponse, TokenUsage } from "./adapter";
+import {
+  getProviderFixtureMode,
+  readProviderFixture,
+  writeProviderFixture,
+  ProviderFixtureMissingError,
+  type ProviderFixtureMode,
+} from "./fixtures";
+import { openRouterAdapter } from "./openrouter";
+import { geminiAdapter } from "./gemini";
+import { perplexityAdapter } from "./perplexity";
+import { webSearchAdapter } from "./web-search";
+import { localAdapter } from "./local";
+
+const PROVIDER_ADAPTERS: Record<ProviderAdapterId, ProviderAdapter<unknown>> = {
+  openrouter: openRouterAdapter,
+  gemini: geminiAdapter,
+  perplexity: perplexityAdapter,
+  "web-search": webSearchAdapter,
+  local: localAdapter,
+};
+
+/**
+ * A priced model response with its parsed citations
+ */
+export interface ModelResponse {
+  content: string;
+  sources?: GroundingSource[];
+  groundingSupports?: GroundingSupportSegment[];
+  webSearchQueries?: string[];
+  tokenCount: TokenUsage;
+  cost: number;
+  latencyMs: number;
+}
+
+/**
+ * Look up the adapter a model is queried through
+ */
+export function getProviderAdapter(model: LLMModel): ProviderAdapter {
+  return PROVIDER_ADAPTERS[model.adapter];
+}
+
+export interface QueryModelOptions {
+  fixtureMode?: ProviderFixtureMode;  // Overrides PROVIDER_FIXTURE_MODE for this call
+}
+
+/**
+ * Query a model through its adapter, then parse citations (and grounding
+ * detail, where the adapter has it) and price the call
+ *
+ * In replay mode the response comes from a recorded fixture and a missing
+ * one throws ProviderFixtureMissingError; in record mode every response
+ * is saved as a fixture.
+ */
+export async function queryModelProvider(
+  model: LLMModel,
+  request: ProviderRequest,
+  options: QueryModelOptions = {}
+): Promise<ModelResponse> {
+  const adapter = getProviderAdapter(model);
+  const fixtureMode = options.fixtureMode ?? getProviderFixtureMode();
+
+  let response: ProviderResponse;
+  if (fixtureMode === "replay") {
+    request.signal?.throwIfAborted();
+    const fixture = await readProviderFixture(model, request);
+    if (!fixture) throw new ProviderFixtureMissingError(model, request);
+    response = fixture.response;
+  } else {
+    response = await adapter.query(model, request);
+    if (fixtureMode === "record") {
+      // A failed recording shouldn't fail the call that produced it
+      await writeProviderFixture(model, request, response).catch((error: any) =>
+        console.error(`[Fixtures] Failed to record response for ${model.id}:`, error.message)
+      );
+    }
+  }
+
+  const grounding = adapter.parseGrounding?.(response);
+
+  return {
+    content: response.content,
+    sources: adapter.parseCitations(response),
+    groundingSupports: grounding?.supports,
+    webSearchQueries: grounding?.searchQueries,
+    tokenCount: response.usage,
+    cost: adapter.computeCost(model, response.usage),
+    latencyMs: response.latencyMs,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Vendor Web Search Adapter
+ *
+ * Chat models with their vendor's own web search tool switched on (OpenAI
+ * web search, Anthropic web search), through OpenRouter's "web" plugin
+ * with the native engine. Citations come back as url_citation
+ * annotations on the answer.
+ */
+
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import { computeTokenCost, PROVIDER_REQUIRED_KEYS, type ProviderAdapter } from "./adapter";
+import { parseUrlCitations, queryOpenRouterChat } from "./openrouter";
+
+const WEB_SEARCH_PLUGIN = { id: "web", engine: "native" };
+
+export const webSearchAdapter: ProviderAdapter<ChatCompletion> = {
+  id: "web-search",
+  requiredKey: PROVIDER_REQUIRED_KEYS["web-search"],
+  capabilities: { grounding: true, systemPrompt: true },
+
+  async query(model, request) {
+    return queryOpenRouterChat(model, request, { plugins: [WEB_SEARCH_PLUGIN] });
+  },
+
+  // An answer that didn't search has no annotations; that still counts as a grounded answer with no sources
+  parseCitations({ raw }) {
+    return parseUrlCitations(raw);
+  },
+
+  computeCost: computeTokenCost,
+};
@@ -8,7 +8,11 @@
  * - Model allowlists for security
  */
 
-type ProviderScope = "gemini" | "openai" | "tavily" | "openrouter";
+import type { LLMModelId } from "../../types";
+import { PROVIDER_REQUIRED_KEYS } from "../providers/adapter";
+import { getAllModels, getModel } from "../providers/models";
+
+export type ProviderScope = "gemini" | "openai" | "tavily" | "openrouter";
 
 interface ProviderConfig {
   key: string | undefined;
@@ -16,44 +20,6 @@ interface ProviderConfig {
   isRequired: boolean;
 }
 
-interface ModelConfig {
-  id: string;
-  displayName: string;
-  costPer1MInput: number;
-  costPer1MOutput: number;
-}
-
-// OpenRouter model allowlist for security and cost control
-export const OPENROUTER_ALLOWED_MODELS: Record<string, ModelConfig> = {
-  gemini: {
-    id: "google/gemini-2.0-flash-001",
-    displayName: "Gemini 2.0 Flash",
-    costPer1MInput: 0.10,
-    costPer1MOutput: 0.40,
-  },
-  gpt4o: {
-    id: "openai/gpt-4o",
-    displayName: "GPT-4o",
-    costPer1MInput: 2.50,
-    costPer1MOutput: 10.00,
-  },
-  claude: {
-    id: "anthropic/claude-3-5-sonnet-20241022",
-    displayName: "Claude 3.5 Sonnet",
-    costPer1MInput: 3.00,
-    costPer1MOutput: 15.00,
-  },
-  llama: {
-    id: "meta-llama/llama-3.1-70b-instruct",
-    displayName: "Llama 3.1 70B",
-    costPer1MInput: 0.52,
-    costPer1MOutput: 0.75,
-  },
-} as const;
-
-// Council engine IDs
-export type CouncilEngineId = keyof typeof OPENROUTER_ALLOWED_MODELS;
-
 class APIKeyManager {
   private providers: Record<ProviderScope, ProviderConfig>;
   private initialized = false;
@@ -182,29 +148,46 @@ class APIKeyManager {
   }
 
   /**
-   * Check if council mode is available (OpenRouter configured)
+   * Check if a council of these models can run: every adapter they're
+   * queried through has its key
+   */
+  isCouncilModeAvailable(modelIds: LLMModelId[]): boolean {
+    return this.getMissingKeysForModels(modelIds).length === 0;
+  }
+
+  /**
+   * List the env vars that must be set before these models can be queried
+   * Each model needs the key of the provider adapter it's queried through.
    */
-  isCouncilModeAvailable(): boolean {
-    return this.isConfigured("openrouter");
+  getMissingKeysForModels(modelIds: LLMModelId[]): string[] {
+    const providers = new Set<ProviderScope>(
+      modelIds.flatMap((id) => {
+        const model = getModel(id);
+        return model ? PROVIDER_REQUIRED_KEYS[model.adapter] ?? [] : [];
+      })
+    );
+    return [...providers]
+      .filter((provider) => !this.isConfigured(provider))
+      .map((provider) => `${provider.toUpperCase()}_API_KEY`);
   }
 
   /**
-   * Get OpenRouter model ID from council engine ID
+   * Get OpenRouter model ID from a model ID
    */
-  getOpenRouterModelId(councilEngineId: CouncilEngineId): string {
-    const model = OPENROUTER_ALLOWED_MODELS[councilEngineId];
+  getOpenRouterModelId(modelId: LLMModelId): string {
+    const model = getModel(modelId);
     if (!model) {
-      throw new APIKeyError(`Unknown council engine: ${councilEngineId}`);
+      throw new APIKeyError(`Unknown model: ${modelId}`);
     }
-    return model.id;
+    return model.openRouterId;
   }
 
   /**
    * Validate that a model ID is in the allowlist
    */
   isModelAllowed(modelId: string): boolean {
-    return Object.values(OPENROUTER_ALLOWED_MODELS).some(
-      (model) => model.id === modelId
+    return getAllModels().some(
+      (model) => model.openRouterId === modelId
     );
   }
 
@@ -212,11 +195,11 @@ class APIKeyManager {
    * Estimate cost for a request
    */
   estimateCost(
-    councilEngineId: CouncilEngineId,
+    modelId: LLMModelId,
     inputTokens: number,
     outputTokens: number = 500
   ): number {
-    const model = OPENROUTER_ALLOWED_MODELS[councilEngineId];
+    const model = getModel(modelId);
     if (!model) return 0;
 
     const inputCost = (inputTokens / 1_000_000) * model.costPer1MInput;
@@ -226,13 +209,12 @@ class APIKeyManager {
   }
 
   /**
-   * Get list of available council engines
+   * Get list of models that can sit on a council
    */
-  getAvailableCouncilEngines(): CouncilEngineId[] {
-    if (!this.isCouncilModeAvailable()) {
-      return [];
-    }
-    return Object.keys(OPENROUTER_ALLOWED_MODELS) as CouncilEngineId[];
+  getAvailableCouncilEngines(): LLMModelId[] {
+    return getAllModels()
+      .map((model) => model.id)
+      .filter((id) => this.isCouncilModeAvailable([id]));
   }
 }
 
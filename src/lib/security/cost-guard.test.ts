@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { LLM_MODELS } from "../../types";
+import { estimateCouncilSessionCost, estimateSingleQueryCost, estimateSynthesisCost } from "./cost-guard";
+
+const searchFee = LLM_MODELS["gpt4o-search"].costPerRequest!;
+
+describe("cost guard estimates", () => {
+  it("adds the per-request fee to a single query", () => {
+    const model = LLM_MODELS["gpt4o-search"];
+    const tokenCost = (500 / 1_000_000) * model.costPer1MInput + (800 / 1_000_000) * model.costPer1MOutput;
+
+    expect(estimateSingleQueryCost("gpt4o-search")).toBeCloseTo(tokenCost + searchFee, 10);
+  });
+
+  it("charges a search judge's fee once per pairwise comparison", () => {
+    const engines = ["gpt4o", "claude-sonnet", "gemini-flash", "llama"] as const;
+    const estimate = estimateCouncilSessionCost([...engines], "gpt4o-search", false, "pairwise");
+    const judge = estimate.breakdown.find((b) => b.engineId === "gpt4o-search")!;
+    const model = LLM_MODELS["gpt4o-search"];
+    const tokenCost =
+      (judge.inputTokens / 1_000_000) * model.costPer1MInput +
+      (judge.outputTokens / 1_000_000) * model.costPer1MOutput;
+
+    expect(judge.estimatedCost).toBeCloseTo(tokenCost + 6 * searchFee, 10);
+  });
+
+  it("charges a search engine's fee once per debate round on top of its answer", () => {
+    const estimate = estimateCouncilSessionCost(["gpt4o-search", "gpt4o"], "gpt4o", false, "judge", false, 2);
+    const [answer, debate] = estimate.breakdown.filter((b) => b.engineId === "gpt4o-search");
+    const model = LLM_MODELS["gpt4o-search"];
+    const debateTokenCost =
+      (debate.inputTokens / 1_000_000) * model.costPer1MInput +
+      (debate.outputTokens / 1_000_000) * model.costPer1MOutput;
+
+    expect(answer.estimatedCost).toBeCloseTo(estimateSingleQueryCost("gpt4o-search"), 10);
+    expect(debate.estimatedCost).toBeCloseTo(debateTokenCost + 2 * searchFee, 10);
+  });
+
+  it("includes the fee in a standalone synthesis", () => {
+    expect(estimateSynthesisCost("gpt4o-search", 3)).toBeGreaterThan(searchFee);
+  });
+});
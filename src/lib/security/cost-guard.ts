@@ -5,7 +5,8 @@
  * Prevents runaway costs from excessive API usage.
  */
 
-import { OPENROUTER_ALLOWED_MODELS, type CouncilEngineId } from "./api-keys";
+import type { LLMModel, LLMModelId } from "../../types";
+import { getModel } from "../providers/models";
 
 // Cost thresholds
 export const COST_LIMITS = {
@@ -28,12 +29,15 @@ const AVERAGE_TOKENS = {
   output: 800, // Average completion tokens
   evaluation: 1200, // Evaluation prompts are longer
   synthesis: 1000, // Synthesis output is substantial
+  pairwiseVerdict: 300, // Short head-to-head verdicts
+  identityProbe: 100, // One "Response X: Vendor" line per response
+  critique: 300, // Debate critique written before the revised answer
 } as const;
 
 export interface CostEstimate {
   totalCost: number;
   breakdown: {
-    engineId: CouncilEngineId;
+    engineId: LLMModelId;
     estimatedCost: number;
     inputTokens: number;
     outputTokens: number;
@@ -42,62 +46,120 @@ export interface CostEstimate {
   warnings: string[];
 }
 
+/**
+ * Price a number of calls from their total tokens plus each call's flat fee
+ * (web search models charge per request on top of tokens)
+ */
+function estimateCallsCost(
+  model: LLMModel,
+  inputTokens: number,
+  outputTokens: number,
+  calls: number = 1
+): number {
+  const inputCost = (inputTokens / 1_000_000) * model.costPer1MInput;
+  const outputCost = (outputTokens / 1_000_000) * model.costPer1MOutput;
+  return inputCost + outputCost + calls * (model.costPerRequest ?? 0);
+}
+
 /**
  * Estimate cost for a single model query
  */
-export function estimateSingleQueryCost(engineId: CouncilEngineId): number {
-  const model = OPENROUTER_ALLOWED_MODELS[engineId];
+export function estimateSingleQueryCost(engineId: LLMModelId): number {
+  const model = getModel(engineId);
   if (!model) return 0;
 
-  const inputCost = (AVERAGE_TOKENS.input / 1_000_000) * model.costPer1MInput;
-  const outputCost = (AVERAGE_TOKENS.output / 1_000_000) * model.costPer1MOutput;
-
-  return inputCost + outputCost;
+  return estimateCallsCost(model, AVERAGE_TOKENS.input, AVERAGE_TOKENS.output);
 }
 
 /**
  * Estimate total cost for a council session
  */
 export function estimateCouncilSessionCost(
-  engines: CouncilEngineId[],
-  judgeEngine: CouncilEngineId,
-  enableSynthesis: boolean
+  engines: LLMModelId[],
+  judgeEngine: LLMModelId,
+  enableSynthesis: boolean,
+  evaluationMode: "judge" | "peer" | "pairwise" = "judge",
+  identityProbe: boolean = false,
+  debateRounds: number = 0
 ): CostEstimate {
   const breakdown: CostEstimate["breakdown"] = [];
   const warnings: string[] = [];
 
   // Calculate cost for each query engine
   engines.forEach((engineId) => {
-    const model = OPENROUTER_ALLOWED_MODELS[engineId];
+    const model = getModel(engineId);
     if (!model) return;
 
-    const inputCost = (AVERAGE_TOKENS.input / 1_000_000) * model.costPer1MInput;
-    const outputCost = (AVERAGE_TOKENS.output / 1_000_000) * model.costPer1MOutput;
-
     breakdown.push({
       engineId,
-      estimatedCost: inputCost + outputCost,
+      estimatedCost: estimateCallsCost(model, AVERAGE_TOKENS.input, AVERAGE_TOKENS.output),
       inputTokens: AVERAGE_TOKENS.input,
       outputTokens: AVERAGE_TOKENS.output,
     });
   });
 
-  // Add evaluation cost (judge reviews all responses)
-  const judgeModel = OPENROUTER_ALLOWED_MODELS[judgeEngine];
-  if (judgeModel) {
-    const evalInputTokens = AVERAGE_TOKENS.evaluation * engines.length;
-    const evalOutputTokens = AVERAGE_TOKENS.output;
+  // Add debate cost: each round every engine reads all answers, then
+  // writes a critique and a revised answer
+  if (debateRounds > 0) {
+    engines.forEach((engineId) => {
+      const model = getModel(engineId);
+      if (!model) return;
+
+      const debateInputTokens =
+        (AVERAGE_TOKENS.input + AVERAGE_TOKENS.output * engines.length) * debateRounds;
+      const debateOutputTokens = (AVERAGE_TOKENS.critique + AVERAGE_TOKENS.output) * debateRounds;
+
+      breakdown.push({
+        engineId,
+        // One critique-and-revise call per round
+        estimatedCost: estimateCallsCost(model, debateInputTokens, debateOutputTokens, debateRounds),
+        inputTokens: debateInputTokens,
+        outputTokens: debateOutputTokens,
+      });
+    });
+  }
 
-    const evalCost =
-      (evalInputTokens / 1_000_000) * judgeModel.costPer1MInput +
-      (evalOutputTokens / 1_000_000) * judgeModel.costPer1MOutput;
+  // Add evaluation cost (judge reviews all responses; in peer mode
+  // every engine acts as a judge; in pairwise mode the judge sees every
+  // pair of responses once)
+  const judges = evaluationMode === "peer" ? engines : [judgeEngine];
+  const pairCount = (engines.length * (engines.length - 1)) / 2;
+  judges.forEach((judgeId) => {
+    const judge = getModel(judgeId);
+    if (!judge) return;
+
+    const evalInputTokens =
+      evaluationMode === "pairwise"
+        ? AVERAGE_TOKENS.evaluation * 2 * pairCount
+        : AVERAGE_TOKENS.evaluation * engines.length;
+    const evalOutputTokens =
+      evaluationMode === "pairwise"
+        ? AVERAGE_TOKENS.pairwiseVerdict * pairCount
+        : AVERAGE_TOKENS.output;
+
+    const evalCalls = evaluationMode === "pairwise" ? pairCount : 1;
 
     breakdown.push({
-      engineId: judgeEngine,
-      estimatedCost: evalCost,
+      engineId: judgeId,
+      estimatedCost: estimateCallsCost(judge, evalInputTokens, evalOutputTokens, evalCalls),
       inputTokens: evalInputTokens,
       outputTokens: evalOutputTokens,
     });
+  });
+
+  const judgeModel = getModel(judgeEngine);
+
+  // Add identity probe cost if enabled (judge guesses each answer's vendor)
+  if (identityProbe && judgeModel) {
+    const probeInputTokens = AVERAGE_TOKENS.evaluation * engines.length;
+    const probeOutputTokens = AVERAGE_TOKENS.identityProbe;
+
+    breakdown.push({
+      engineId: judgeEngine,
+      estimatedCost: estimateCallsCost(judgeModel, probeInputTokens, probeOutputTokens),
+      inputTokens: probeInputTokens,
+      outputTokens: probeOutputTokens,
+    });
   }
 
   // Add synthesis cost if enabled
@@ -105,13 +167,9 @@ export function estimateCouncilSessionCost(
     const synthInputTokens = AVERAGE_TOKENS.synthesis * engines.length;
     const synthOutputTokens = AVERAGE_TOKENS.synthesis;
 
-    const synthCost =
-      (synthInputTokens / 1_000_000) * judgeModel.costPer1MInput +
-      (synthOutputTokens / 1_000_000) * judgeModel.costPer1MOutput;
-
     breakdown.push({
       engineId: judgeEngine,
-      estimatedCost: synthCost,
+      estimatedCost: estimateCallsCost(judgeModel, synthInputTokens, synthOutputTokens),
       inputTokens: synthInputTokens,
       outputTokens: synthOutputTokens,
     });
@@ -134,6 +192,32 @@ export function estimateCouncilSessionCost(
   };
 }
 
+/**
+ * Estimate cost for a standalone judge evaluation (/api/council/evaluate)
+ */
+export function estimateEvaluationCost(
+  judgeEngine: LLMModelId,
+  responseCount: number
+): number {
+  const model = getModel(judgeEngine);
+  if (!model) return 0;
+
+  return estimateCallsCost(model, AVERAGE_TOKENS.evaluation * responseCount, AVERAGE_TOKENS.output);
+}
+
+/**
+ * Estimate cost for a standalone synthesis (/api/council/synthesize)
+ */
+export function estimateSynthesisCost(
+  synthesizerEngine: LLMModelId,
+  responseCount: number
+): number {
+  const model = getModel(synthesizerEngine);
+  if (!model) return 0;
+
+  return estimateCallsCost(model, AVERAGE_TOKENS.synthesis * responseCount, AVERAGE_TOKENS.synthesis);
+}
+
 /**
  * Validate that a request is within cost limits
  */
@@ -209,15 +293,12 @@ export function getCostSummary(estimate: CostEstimate): string {
  * Calculate actual cost from token usage
  */
 export function calculateActualCost(
-  engineId: CouncilEngineId,
+  engineId: LLMModelId,
   promptTokens: number,
   completionTokens: number
 ): number {
-  const model = OPENROUTER_ALLOWED_MODELS[engineId];
+  const model = getModel(engineId);
   if (!model) return 0;
 
-  const inputCost = (promptTokens / 1_000_000) * model.costPer1MInput;
-  const outputCost = (completionTokens / 1_000_000) * model.costPer1MOutput;
-
-  return inputCost + outputCost;
+  return estimateCallsCost(model, promptTokens, completionTokens);
 }
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import type { LLMModelId } from "../../types";
+import { getModel } from "../providers/models";
 
 // Blocked private/internal network patterns for SSRF protection
 const PRIVATE_IP_PATTERNS = [
@@ -90,14 +92,14 @@ export const engineIdSchema = z.enum([
 ]);
 
 /**
- * Council engine ID validation for council mode
+ * Model ID validation (any built-in or configured self-hosted model, e.g.
+ * for council mode). Checked at parse time, so endpoints added to or
+ * removed from LOCAL_MODEL_ENDPOINTS are picked up.
  */
-export const councilEngineIdSchema = z.enum([
-  "gemini",
-  "gpt4o",
-  "claude",
-  "llama",
-]);
+export const llmModelIdSchema = z.custom<LLMModelId>(
+  (id) => typeof id === "string" && getModel(id) !== undefined,
+  { message: "Unknown model" }
+);
 
 /**
  * Engine object validation
@@ -125,6 +127,28 @@ export const catalogStructureSchema = z.object({
     .max(20),
 });
 
+/**
+ * Visibility query validation (as produced by query discovery)
+ */
+export const visibilityQuerySchema = z.object({
+  id: z.string(),
+  text: z.string().min(1).max(500),
+  source: z.enum(["url-generated", "ai-suggested", "industry-template", "custom"]),
+  category: z.string().optional(),
+  selected: z.boolean(),
+});
+
+/**
+ * Brand matching profile validation (aliases, negative contexts, owned sites)
+ */
+export const brandMatchingSchema = z.object({
+  aliases: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  caseSensitiveAliases: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  negativeContexts: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  ownedDomains: z.array(z.string().trim().min(1).max(253)).max(50).optional(),
+  storefronts: z.array(z.string().trim().min(1).max(500)).max(50).optional(),
+});
+
 // ============================================
 // API Route Request Schemas
 // ============================================
@@ -168,11 +192,15 @@ export const diagnoseGapRequestSchema = z.object({
  */
 export const councilConfigSchema = z.object({
   engines: z
-    .array(councilEngineIdSchema)
+    .array(llmModelIdSchema)
     .min(2, "At least 2 engines required for council")
-    .max(4, "Maximum 4 engines allowed"),
-  judgeEngine: councilEngineIdSchema,
+    .max(6, "Maximum 6 engines allowed"),
+  judgeEngine: llmModelIdSchema,
+  evaluationMode: z.enum(["judge", "peer", "pairwise"]).default("judge"),
   enableSynthesis: z.boolean().default(true),
+  normalizeMarkdown: z.boolean().default(false),
+  identityProbe: z.boolean().default(false),
+  debateRounds: z.number().int().min(0).max(3, "Maximum 3 debate rounds").default(0),
 });
 
 /**
@@ -185,32 +213,82 @@ export const councilStreamRequestSchema = z.object({
   mock: z.boolean().optional().default(false),
 });
 
+/**
+ * Blinded response validation (as produced by blindResponses)
+ */
+export const blindedResponseSchema = z.object({
+  blindId: z.string().regex(/^Response [A-Z]$/, "Invalid blind ID"),
+  content: z.string().min(1).max(20000),
+  metadata: z.object({
+    tokenCount: z.number().optional(),
+  }),
+});
+
+/**
+ * Judge evaluation validation (rankings keyed by blind ID)
+ */
+export const evaluationSchema = z.object({
+  judgeId: z.union([llmModelIdSchema, z.literal("peer")]),
+  rankings: z
+    .array(
+      z.object({
+        blindId: z.string(),
+        rank: z.number().int().min(1),
+        score: z.number().optional(),
+        feedback: z.string().optional(),
+      })
+    )
+    .min(1),
+  reasoning: z.string().optional(),
+  timestamp: z.number(),
+});
+
 /**
  * /api/council/evaluate request validation
+ * `mapping` is the encoded BlindMapping from the original session; when
+ * present the response includes de-anonymized rankings.
  */
 export const councilEvaluateRequestSchema = z.object({
-  blindedResponses: z.array(
-    z.object({
-      blindId: z.string(),
-      content: z.string(),
-      metadata: z.object({
-        tokenCount: z.number().optional(),
-      }),
-    })
-  ),
+  blindedResponses: z
+    .array(blindedResponseSchema)
+    .min(2, "At least 2 responses required for evaluation"),
   prompt: promptSchema,
   userUrl: urlSchema,
-  judgeEngine: councilEngineIdSchema,
+  judgeEngine: llmModelIdSchema,
+  mapping: z.string().max(10000).optional(),
+  mock: z.boolean().optional().default(false),
 });
 
 /**
  * /api/council/synthesize request validation
+ * Ranks come from `evaluations` + `mapping` when both are provided,
+ * otherwise from the optional `rank` on each engine response.
  */
 export const councilSynthesizeRequestSchema = z.object({
-  engineResponses: z.record(z.string(), z.any()),
-  evaluations: z.array(z.any()),
+  engineResponses: z
+    .record(
+      z.string(),
+      z.object({
+        content: z.string().min(1).max(20000),
+        rank: z.number().int().min(1).optional(),
+      })
+    )
+    .refine(
+      (responses) =>
+        Object.keys(responses).every(
+          (id) => llmModelIdSchema.safeParse(id).success
+        ),
+      { message: "Unknown model in engineResponses" }
+    )
+    .refine((responses) => Object.keys(responses).length >= 2, {
+      message: "At least 2 engine responses required for synthesis",
+    }),
+  evaluations: z.array(evaluationSchema).default([]),
+  mapping: z.string().max(10000).optional(),
+  synthesizerEngine: llmModelIdSchema,
   prompt: promptSchema,
   userUrl: urlSchema,
+  mock: z.boolean().optional().default(false),
 });
 
 // ============================================
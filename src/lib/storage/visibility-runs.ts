@@ -0,0 +1,323 @@
+/**
+ * Visibility Run Store
+ *
+ * File-based persistence for visibility runs so a refresh doesn't lose a
+ * paid run. Each run is one JSON file; a small index holds the summaries
+ * used by the run history list. Site change annotations for the trend
+ * charts, scheduled monitors and background jobs live alongside.
+ *
+ * Layout (under VISIBILITY_RUNS_DIR, default ./.data/visibility-runs):
+ * - index.json        VisibilityRunSummary[], newest first
+ * - <runId>.json      StoredVisibilityRun
+ * - annotations.json  SiteChangeAnnotation[]
+ * - monitors.json     VisibilityMonitor[]
+ * - jobs.json         VisibilityJob[]
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  SiteChangeAnnotation,
+  StoredVisibilityRun,
+  VisibilityJob,
+  VisibilityMonitor,
+  VisibilityRunSummary,
+} from "../../types";
+
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+function getRunsDir(): string {
+  return process.env.VISIBILITY_RUNS_DIR || path.join(process.cwd(), ".data", "visibility-runs");
+}
+
+function runPath(id: string): string {
+  // Run IDs come from URLs; never let one escape the runs directory
+  if (!RUN_ID_PATTERN.test(id)) {
+    throw new Error("Invalid run ID");
+  }
+  return path.join(getRunsDir(), `${id}.json`);
+}
+
+function indexPath(): string {
+  return path.join(getRunsDir(), "index.json");
+}
+
+function annotationsPath(): string {
+  return path.join(getRunsDir(), "annotations.json");
+}
+
+function monitorsPath(): string {
+  return path.join(getRunsDir(), "monitors.json");
+}
+
+function jobsPath(): string {
+  return path.join(getRunsDir(), "jobs.json");
+}
+
+/**
+ * Check whether a string is a well-formed run ID
+ */
+export function isValidRunId(id: string): boolean {
+  return RUN_ID_PATTERN.test(id);
+}
+
+// Write to a temp file and rename so readers never see a partial file
+async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data), "utf-8");
+  await fs.rename(tmpPath, filePath);
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// Index, annotation, monitor and job updates are read-modify-write; serialize them within this process
+let indexLock: Promise<unknown> = Promise.resolve();
+
+function withIndexLock<T>(fn: () => Promise<T>): Promise<T> {
+  const next = indexLock.then(fn, fn);
+  indexLock = next.catch(() => undefined);
+  return next;
+}
+
+function toSummary(run: StoredVisibilityRun): VisibilityRunSummary {
+  return {
+    id: run.id,
+    status: run.status,
+    brandUrl: run.result.brandUrl,
+    brandName: run.result.brandName,
+    queryCount: run.result.queryResults.length,
+    models: run.result.models,
+    overallScore: run.result.overallScore,
+    totalCost: run.result.totalCost,
+    mock: run.mock,
+    reanalyzedFrom: run.reanalyzedFrom,
+    createdAt: run.createdAt,
+  };
+}
+
+/**
+ * Persist a run and add (or replace) its entry in the index
+ */
+export async function saveVisibilityRun(run: StoredVisibilityRun): Promise<void> {
+  await writeJsonAtomic(runPath(run.id), run);
+
+  await withIndexLock(async () => {
+    const index = (await readJson<VisibilityRunSummary[]>(indexPath())) ?? [];
+    const updated = [toSummary(run), ...index.filter((r) => r.id !== run.id)].sort(
+      (a, b) => b.createdAt - a.createdAt
+    );
+    await writeJsonAtomic(indexPath(), updated);
+  });
+}
+
+/**
+ * List stored runs, newest first
+ */
+export async function listVisibilityRuns(limit?: number): Promise<VisibilityRunSummary[]> {
+  const index = (await readJson<VisibilityRunSummary[]>(indexPath())) ?? [];
+  return limit !== undefined ? index.slice(0, limit) : index;
+}
+
+/**
+ * Load a full run, or null if it doesn't exist
+ */
+export async function getVisibilityRun(id: string): Promise<StoredVisibilityRun | null> {
+  return readJson<StoredVisibilityRun>(runPath(id));
+}
+
+/**
+ * Delete a run and its index entry
+ *
+ * @returns false if the run didn't exist
+ */
+export async function deleteVisibilityRun(id: string): Promise<boolean> {
+  const filePath = runPath(id);
+
+  return withIndexLock(async () => {
+    let existed = true;
+    try {
+      await fs.unlink(filePath);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+      existed = false;
+    }
+
+    const index = (await readJson<VisibilityRunSummary[]>(indexPath())) ?? [];
+    if (index.some((r) => r.id === id)) {
+      await writeJsonAtomic(
+        indexPath(),
+        index.filter((r) => r.id !== id)
+      );
+      existed = true;
+    }
+
+    return existed;
+  });
+}
+
+// ============================================
+// Site Change Annotations
+// ============================================
+
+/**
+ * List annotations, optionally for one brand, oldest first
+ */
+export async function listSiteAnnotations(brandKey?: string): Promise<SiteChangeAnnotation[]> {
+  const annotations = (await readJson<SiteChangeAnnotation[]>(annotationsPath())) ?? [];
+  return annotations
+    .filter((a) => !brandKey || a.brandKey === brandKey)
+    .sort((a, b) => a.date - b.date);
+}
+
+/**
+ * Store a new annotation
+ */
+export async function addSiteAnnotation(annotation: SiteChangeAnnotation): Promise<void> {
+  await withIndexLock(async () => {
+    const annotations = (await readJson<SiteChangeAnnotation[]>(annotationsPath())) ?? [];
+    await writeJsonAtomic(annotationsPath(), [...annotations, annotation]);
+  });
+}
+
+/**
+ * Delete an annotation
+ *
+ * @returns false if the annotation didn't exist
+ */
+export async function deleteSiteAnnotation(id: string): Promise<boolean> {
+  return withIndexLock(async () => {
+    const annotations = (await readJson<SiteChangeAnnotation[]>(annotationsPath())) ?? [];
+    const remaining = annotations.filter((a) => a.id !== id);
+    if (remaining.length === annotations.length) return false;
+
+    await writeJsonAtomic(annotationsPath(), remaining);
+    return true;
+  });
+}
+
+// ============================================
+// Scheduled Monitors
+// ============================================
+
+/**
+ * List monitors, oldest first
+ */
+export async function listVisibilityMonitors(): Promise<VisibilityMonitor[]> {
+  return (await readJson<VisibilityMonitor[]>(monitorsPath())) ?? [];
+}
+
+/**
+ * Store a new monitor
+ */
+export async function addVisibilityMonitor(monitor: VisibilityMonitor): Promise<void> {
+  await withIndexLock(async () => {
+    const monitors = (await readJson<VisibilityMonitor[]>(monitorsPath())) ?? [];
+    await writeJsonAtomic(monitorsPath(), [...monitors, monitor]);
+  });
+}
+
+/**
+ * Apply an update to a stored monitor
+ *
+ * The updater sees the latest stored copy, so concurrent edits (a pause
+ * while a scheduled run is finishing) don't overwrite each other.
+ *
+ * @returns the updated monitor, or null if it doesn't exist
+ */
+export async function updateVisibilityMonitor(
+  id: string,
+  update: (monitor: VisibilityMonitor) => VisibilityMonitor
+): Promise<VisibilityMonitor | null> {
+  return withIndexLock(async () => {
+    const monitors = (await readJson<VisibilityMonitor[]>(monitorsPath())) ?? [];
+    const index = monitors.findIndex((m) => m.id === id);
+    if (index === -1) return null;
+
+    const updated = update(monitors[index]);
+    monitors[index] = updated;
+    await writeJsonAtomic(monitorsPath(), monitors);
+    return updated;
+  });
+}
+
+/**
+ * Delete a monitor; runs it already produced are kept
+ *
+ * @returns false if the monitor didn't exist
+ */
+export async function deleteVisibilityMonitor(id: string): Promise<boolean> {
+  return withIndexLock(async () => {
+    const monitors = (await readJson<VisibilityMonitor[]>(monitorsPath())) ?? [];
+    const remaining = monitors.filter((m) => m.id !== id);
+    if (remaining.length === monitors.length) return false;
+
+    await writeJsonAtomic(monitorsPath(), remaining);
+    return true;
+  });
+}
+
+// ============================================
+// Background Jobs
+// ============================================
+
+// Finished jobs kept for polling; their runs stay in the run store
+const MAX_FINISHED_JOBS = 100;
+
+/**
+ * List jobs, oldest first
+ */
+export async function listVisibilityJobs(): Promise<VisibilityJob[]> {
+  return (await readJson<VisibilityJob[]>(jobsPath())) ?? [];
+}
+
+/**
+ * Load one job
+ */
+export async function getVisibilityJob(id: string): Promise<VisibilityJob | null> {
+  const jobs = await listVisibilityJobs();
+  return jobs.find((j) => j.id === id) ?? null;
+}
+
+/**
+ * Store a new job, dropping the oldest finished jobs past the retention limit
+ */
+export async function addVisibilityJob(job: VisibilityJob): Promise<void> {
+  await withIndexLock(async () => {
+    const jobs = [...((await readJson<VisibilityJob[]>(jobsPath())) ?? []), job];
+
+    const isFinished = (j: VisibilityJob) => j.status !== "queued" && j.status !== "running";
+    let excess = jobs.filter(isFinished).length - MAX_FINISHED_JOBS;
+    const kept = jobs.filter((j) => !(isFinished(j) && excess-- > 0));
+
+    await writeJsonAtomic(jobsPath(), kept);
+  });
+}
+
+/**
+ * Apply an update to a stored job
+ *
+ * @returns the updated job, or null if it doesn't exist
+ */
+export async function updateVisibilityJob(
+  id: string,
+  update: (job: VisibilityJob) => VisibilityJob
+): Promise<VisibilityJob | null> {
+  return withIndexLock(async () => {
+    const jobs = (await readJson<VisibilityJob[]>(jobsPath())) ?? [];
+    const index = jobs.findIndex((j) => j.id === id);
+    if (index === -1) return null;
+
+    const updated = update(jobs[index]);
+    jobs[index] = updated;
+    await writeJsonAtomic(jobsPath(), jobs);
+    return updated;
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Shared by the streaming routes (council sessions, visibility runs and
+ * background jobs). Events are JSON in a single `data:` line, with an
+ * `id:` line when the event has an ID so clients can reconnect with
+ * Last-Event-ID. Writes after the client has gone away are dropped.
+ */
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+export interface SSEEvent<TType extends string = string> {
+  id?: number;
+  type: TType;
+  data: Record<string, unknown>;
+  timestamp: number;
+}
+
+/**
+ * Tracks whether the stream has closed, shared by everything writing to it
+ */
+export interface StreamState {
+  value: boolean;
+}
+
+/**
+ * Encode one event as an SSE message
+ */
+export function encodeEvent(encoder: TextEncoder, event: SSEEvent): Uint8Array {
+  const idLine = event.id !== undefined ? `id: ${event.id}\n` : "";
+  return encoder.encode(`${idLine}data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Write an event, marking the stream closed if the client has gone away
+ */
+export function sendEvent(
+  controller: ReadableStreamDefaultController,
+  encoder: TextEncoder,
+  event: SSEEvent,
+  isClosed: StreamState
+): void {
+  if (isClosed.value) return;
+  try {
+    controller.enqueue(encodeEvent(encoder, event));
+  } catch {
+    isClosed.value = true;
+  }
+}
+
+/**
+ * Close the stream once; closing an already-closed stream is a no-op
+ */
+export function closeController(
+  controller: ReadableStreamDefaultController,
+  isClosed: StreamState
+): void {
+  if (isClosed.value) return;
+  try {
+    controller.close();
+    isClosed.value = true;
+  } catch {
+    isClosed.value = true;
+  }
+}
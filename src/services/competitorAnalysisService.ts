@@ -5,66 +5,64 @@
  * Implements competitive analysis from the GEO framework.
  */
 
-import type {
-  ModelVisibilityResult,
-  ExtractedCompetitor,
-  LLMModelId,
-  CompetitorMention,
-  GroundingSource,
+import {
+  type ModelVisibilityResult,
+  type ExtractedCompetitor,
+  type LLMModelId,
+  type CompetitorMention,
+  type GroundingSource,
+  type BrandMatchConfig,
 } from "../types";
+import {
+  buildBrandDomains,
+  getRegistrableDomain,
+  isBrandOwnedUrl,
+} from "../lib/council/brand-domains";
+import { getAllModels } from "../lib/providers/models";
 
 // ============================================
 // URL Extraction from Citations
 // ============================================
 
+// Common non-competitor domains (registrable domains)
+const NON_COMPETITOR_DOMAINS = new Set([
+  "google.com", "youtube.com", "wikipedia.org", "reddit.com",
+  "facebook.com", "twitter.com", "instagram.com", "linkedin.com",
+  "amazon.com", "ebay.com", // Generic marketplaces unless they ARE the brand
+  "yelp.com", "trustpilot.com", // Review sites
+]);
+
 /**
  * Extract competitor URLs from grounded sources
- * Filters out the brand URL to find competitors
+ * Filters out every domain and storefront the brand owns; competitors are
+ * keyed by registrable domain, so a competitor's blog and shop merge.
  */
 export function extractCompetitorUrlsFromSources(
   sources: GroundingSource[],
-  brandUrl: string
+  brandUrl: string,
+  brandMatching?: BrandMatchConfig
 ): { url: string; domain: string; title: string; rank: number }[] {
-  let brandDomain = "";
-  try {
-    brandDomain = new URL(brandUrl).hostname.replace(/^www\./, "").toLowerCase();
-  } catch {
-    brandDomain = brandUrl.toLowerCase();
-  }
-
+  const brandDomains = buildBrandDomains(brandUrl, brandMatching);
   const competitors: { url: string; domain: string; title: string; rank: number }[] = [];
 
   for (const source of sources) {
-    try {
-      const sourceUrl = new URL(source.uri);
-      const sourceDomain = sourceUrl.hostname.replace(/^www\./, "").toLowerCase();
-
-      // Skip brand's own URLs
-      if (sourceDomain === brandDomain || sourceDomain.includes(brandDomain)) {
-        continue;
-      }
-
-      // Skip common non-competitor domains
-      const skipDomains = [
-        "google.com", "youtube.com", "wikipedia.org", "reddit.com",
-        "facebook.com", "twitter.com", "instagram.com", "linkedin.com",
-        "amazon.com", "ebay.com", // Generic marketplaces unless they ARE the brand
-        "yelp.com", "trustpilot.com", // Review sites
-      ];
+    const sourceDomain = getRegistrableDomain(source.uri);
 
-      if (skipDomains.some((d) => sourceDomain.includes(d))) {
-        continue;
-      }
+    // Skip invalid URLs and the brand's own URLs
+    if (!sourceDomain || isBrandOwnedUrl(source.uri, brandDomains)) {
+      continue;
+    }
 
-      competitors.push({
-        url: source.uri,
-        domain: sourceDomain,
-        title: source.title || sourceDomain,
-        rank: source.rank || 0,
-      });
-    } catch {
-      // Skip invalid URLs
+    if (NON_COMPETITOR_DOMAINS.has(sourceDomain)) {
+      continue;
     }
+
+    competitors.push({
+      url: source.uri,
+      domain: sourceDomain,
+      title: source.title || sourceDomain,
+      rank: source.rank || 0,
+    });
   }
 
   return competitors;
@@ -79,14 +77,15 @@ export function extractCompetitorUrlsFromSources(
  */
 export function aggregateCompetitors(
   modelResults: Record<LLMModelId, ModelVisibilityResult>,
-  brandUrl: string
+  brandUrl: string,
+  brandMatching?: BrandMatchConfig
 ): ExtractedCompetitor[] {
   const competitorMap = new Map<string, ExtractedCompetitor>();
 
   for (const [modelId, result] of Object.entries(modelResults)) {
     // Process grounded sources (citations)
     if (result.sources) {
-      const competitorUrls = extractCompetitorUrlsFromSources(result.sources, brandUrl);
+      const competitorUrls = extractCompetitorUrlsFromSources(result.sources, brandUrl, brandMatching);
       for (const comp of competitorUrls) {
         const existing = competitorMap.get(comp.domain);
         if (existing) {
@@ -115,9 +114,9 @@ export function aggregateCompetitors(
     // Process text mentions
     if (result.competitorsMentioned) {
       for (const mention of result.competitorsMentioned) {
-        const key = mention.url
-          ? new URL(mention.url).hostname.replace(/^www\./, "").toLowerCase()
-          : mention.name.toLowerCase().replace(/\s+/g, "");
+        // Same key as the citations above, so a cited and mentioned competitor merges
+        const domain = mention.url ? getRegistrableDomain(mention.url) ?? undefined : undefined;
+        const key = domain ?? mention.name.toLowerCase().replace(/\s+/g, "");
 
         const existing = competitorMap.get(key);
         if (existing) {
@@ -138,15 +137,6 @@ export function aggregateCompetitors(
             existing.mentionedInModels.push(modelId as LLMModelId);
           }
         } else {
-          let domain: string | undefined;
-          if (mention.url) {
-            try {
-              domain = new URL(mention.url).hostname.replace(/^www\./, "").toLowerCase();
-            } catch {
-              // Keep undefined
-            }
-          }
-
           competitorMap.set(key, {
             name: mention.name,
             domain,
@@ -261,8 +251,9 @@ export function analyzeCompetitiveGaps(
   const recommendations: string[] = [];
 
   // Group by platform type
-  const searchPlatforms = ["gemini-grounded", "gemini-flash", "perplexity", "perplexity-pro"];
-  const chatPlatforms = ["gpt4o", "gpt4o-mini", "claude-sonnet", "claude-haiku", "llama"];
+  const allModels = getAllModels();
+  const searchPlatforms: string[] = allModels.filter((m) => m.platformType === "search").map((m) => m.id);
+  const chatPlatforms: string[] = allModels.filter((m) => m.platformType === "chat").map((m) => m.id);
 
   // Check search platforms
   let brandFoundInSearch = false;
@@ -0,0 +1,461 @@
+/**
+ * Council Service
+ *
+ * Judge evaluation and synthesis stages for council mode.
+ * Engine fan-out is handled by openRouterService; this module turns the
+ * blinded responses into rankings and an optional synthesized answer.
+ */
+
+import {
+  queryModel,
+  isQueryError,
+  type OpenRouterResponse,
+} from "./openRouterService";
+import {
+  formatBlindedResponsesForPrompt,
+  type BlindedResponse,
+  type BlindMapping,
+} from "../lib/council/blind-review";
+import {
+  parseRankingsFromText,
+  parsePairwiseWinnerFromText,
+  type AggregationResult,
+  type Evaluation,
+  type PairwiseComparison,
+} from "../lib/council/rankings";
+import type { SelfPreferenceReport } from "../lib/council/peer-review";
+import type { IdentityAuditReport } from "../lib/council/identity-audit";
+import { sanitizeUrlForPrompt } from "../lib/security/ssrf-guard";
+import { getModel } from "../lib/providers/models";
+import {
+  type LLMModelId,
+  type CouncilRanking,
+  type CouncilSelfPreference,
+  type CouncilIdentityAudit,
+} from "../types";
+
+// Judges and synthesizers get more room than consumer queries
+const JUDGE_TIMEOUT_MS = 45000;
+const SYNTHESIS_TIMEOUT_MS = 60000;
+const DEBATE_TIMEOUT_MS = 60000;
+
+const JUDGE_SYSTEM_PROMPT = `You are an impartial expert judge evaluating anonymous AI responses to a shopper's question. You do not know which AI system wrote each response and must not guess. Evaluate each response on:
+- Accuracy: factual correctness and relevance
+- Helpfulness: how well it addresses the shopper's intent
+- E-commerce visibility: whether retailers and websites are mentioned naturally and usefully
+- Clarity: structure and readability
+- Completeness: coverage of the important aspects of the question
+
+Briefly explain your assessment of each response, then end with a line reading exactly "FINAL RANKING:" followed by a numbered list from best to worst, one response per line, e.g.
+FINAL RANKING:
+1. Response B
+2. Response A`;
+
+const PAIRWISE_SYSTEM_PROMPT = `You are an impartial expert judge comparing two anonymous AI responses to a shopper's question. You do not know which AI system wrote each response and must not guess. Judge on accuracy, helpfulness, e-commerce visibility (natural, useful mentions of retailers and websites), clarity and completeness. Do not let response order or length sway you.
+
+Briefly explain which response is better and why, then end with a line reading exactly "WINNER: Response X" naming the better response, or "WINNER: TIE" if they are equally good.`;
+
+const SYNTHESIS_SYSTEM_PROMPT = `You are an expert shopping advisor. Several AI assistants answered the same shopper's question and a judge ranked their answers. Write a single answer that combines the most accurate and helpful elements of the ranked answers, favoring the higher-ranked ones. Keep specific brand, retailer and website recommendations where they are well supported. Do not mention the other answers, their rankings, or that this is a synthesis.`;
+
+const DEBATE_SYSTEM_PROMPT = `You are a helpful shopping assistant taking part in a review round. You will see your previous answer to a shopper's question and anonymous answers from other assistants. First critique the other answers briefly: point out errors, weak or unsupported recommendations, and anything useful you missed. Then write your revised answer for the shopper, keeping only recommendations you can stand behind.
+
+Format your reply exactly as:
+CRITIQUE:
+<your critique>
+REVISED ANSWER:
+<your full revised answer>`;
+
+const IDENTITY_PROBE_SYSTEM_PROMPT = `You are auditing whether anonymous AI responses can be traced back to the system that wrote them. For each response, guess which vendor produced it from its wording, formatting and any self-references. Answer with one line per response in the form "Response X: Vendor" using only the vendor names you are given, or "Response X: Unknown" if you cannot tell. Do not explain.`;
+
+export interface CouncilCallCost {
+  tokenCount: OpenRouterResponse["tokenCount"];
+  cost: number;
+  latencyMs: number;
+}
+
+export interface JudgeEvaluationResult extends CouncilCallCost {
+  evaluation: Evaluation;
+}
+
+export interface PairwiseJudgeResult extends CouncilCallCost {
+  comparison: PairwiseComparison;
+}
+
+export interface IdentityProbeResult extends CouncilCallCost {
+  guesses: Record<string, string>; // blindId -> guessed vendor
+}
+
+export interface DebateRevisionResult extends CouncilCallCost {
+  critique: string;
+  revisedContent: string;
+}
+
+export interface SynthesisResult extends CouncilCallCost {
+  content: string;
+}
+
+// Response passed to the synthesizer, ordered by rank when available
+export interface RankedResponse {
+  engineId: LLMModelId;
+  content: string;
+  rank?: number;
+}
+
+/**
+ * Build the evaluation prompt shown to the judge
+ */
+export function buildEvaluationPrompt(
+  prompt: string,
+  userUrl: string,
+  blindedResponses: BlindedResponse[]
+): string {
+  return `Shopper's question: "${prompt}"
+Retailer being analyzed: ${sanitizeUrlForPrompt(userUrl)}
+
+${formatBlindedResponsesForPrompt(blindedResponses)}
+Rank all ${blindedResponses.length} responses.`;
+}
+
+/**
+ * Ask the judge engine to rank blinded responses
+ *
+ * @throws Error if the judge call fails or no ranking can be parsed
+ */
+export async function evaluateBlindedResponses(
+  judgeEngine: LLMModelId,
+  prompt: string,
+  userUrl: string,
+  blindedResponses: BlindedResponse[]
+): Promise<JudgeEvaluationResult> {
+  const result = await queryModel(
+    judgeEngine,
+    buildEvaluationPrompt(prompt, userUrl, blindedResponses),
+    JUDGE_TIMEOUT_MS,
+    { systemPrompt: JUDGE_SYSTEM_PROMPT, temperature: 0, maxTokens: 1500 }
+  );
+
+  if (isQueryError(result)) {
+    throw new Error(`Judge evaluation failed: ${result.error}`);
+  }
+
+  // Only parse the final list so blind IDs mentioned in the reasoning
+  // don't get mistaken for rank positions
+  const markerIndex = result.content.search(/FINAL RANKING:/i);
+  const rankingText =
+    markerIndex === -1 ? result.content : result.content.slice(markerIndex);
+
+  const expectedBlindIds = blindedResponses.map((r) => r.blindId);
+  const rankings = parseRankingsFromText(rankingText, expectedBlindIds);
+
+  if (rankings.length === 0) {
+    throw new Error("Judge response did not contain a parseable ranking");
+  }
+
+  const reasoning =
+    markerIndex === -1 ? result.content : result.content.slice(0, markerIndex);
+
+  return {
+    evaluation: {
+      judgeId: judgeEngine,
+      rankings,
+      reasoning: reasoning.trim(),
+      timestamp: Date.now(),
+    },
+    tokenCount: result.tokenCount,
+    cost: result.cost,
+    latencyMs: result.latencyMs,
+  };
+}
+
+/**
+ * Build every unordered pair of blinded responses for pairwise judging.
+ * Which response is shown first alternates so neither slot is favored.
+ */
+export function buildComparisonPairs(
+  blindedResponses: BlindedResponse[]
+): [BlindedResponse, BlindedResponse][] {
+  const pairs: [BlindedResponse, BlindedResponse][] = [];
+  for (let i = 0; i < blindedResponses.length; i++) {
+    for (let j = i + 1; j < blindedResponses.length; j++) {
+      pairs.push(
+        pairs.length % 2 === 0
+          ? [blindedResponses[i], blindedResponses[j]]
+          : [blindedResponses[j], blindedResponses[i]]
+      );
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Ask the judge engine which of two blinded responses is better
+ *
+ * @throws Error if the judge call fails or no verdict can be parsed
+ */
+export async function compareBlindedPair(
+  judgeEngine: LLMModelId,
+  prompt: string,
+  userUrl: string,
+  first: BlindedResponse,
+  second: BlindedResponse
+): Promise<PairwiseJudgeResult> {
+  const result = await queryModel(
+    judgeEngine,
+    `Shopper's question: "${prompt}"
+Retailer being analyzed: ${sanitizeUrlForPrompt(userUrl)}
+
+${formatBlindedResponsesForPrompt([first, second])}
+Which response is better?`,
+    JUDGE_TIMEOUT_MS,
+    { systemPrompt: PAIRWISE_SYSTEM_PROMPT, temperature: 0, maxTokens: 600 }
+  );
+
+  if (isQueryError(result)) {
+    throw new Error(`Pairwise comparison failed: ${result.error}`);
+  }
+
+  const winner = parsePairwiseWinnerFromText(result.content, first.blindId, second.blindId);
+  if (winner === undefined) {
+    throw new Error("Judge response did not contain a parseable verdict");
+  }
+
+  const markerIndex = result.content.search(/WINNER:/i);
+
+  return {
+    comparison: {
+      judgeId: judgeEngine,
+      blindIdA: first.blindId,
+      blindIdB: second.blindId,
+      winner,
+      reasoning: result.content.slice(0, markerIndex).trim(),
+      timestamp: Date.now(),
+    },
+    tokenCount: result.tokenCount,
+    cost: result.cost,
+    latencyMs: result.latencyMs,
+  };
+}
+
+/**
+ * Build the debate prompt: the engine's own answer plus the others, blinded
+ * The retailer is deliberately not named so any mention that survives the
+ * round does so on its merits.
+ */
+export function buildDebatePrompt(
+  prompt: string,
+  ownContent: string,
+  others: BlindedResponse[]
+): string {
+  return `Shopper's question: "${prompt}"
+
+=== Your previous answer ===
+${ownContent}
+
+${formatBlindedResponsesForPrompt(others)}
+Critique the other answers, then give your revised answer.`;
+}
+
+/**
+ * Run one engine's critique-and-revise turn in a debate round
+ *
+ * @throws Error if the call fails or the reply has no revised answer
+ */
+export async function reviseAfterDebate(
+  engineId: LLMModelId,
+  prompt: string,
+  ownContent: string,
+  others: BlindedResponse[]
+): Promise<DebateRevisionResult> {
+  const result = await queryModel(
+    engineId,
+    buildDebatePrompt(prompt, ownContent, others),
+    DEBATE_TIMEOUT_MS,
+    { systemPrompt: DEBATE_SYSTEM_PROMPT, temperature: 0.7, maxTokens: 2000 }
+  );
+
+  if (isQueryError(result)) {
+    throw new Error(`Debate revision failed: ${result.error}`);
+  }
+
+  const markerIndex = result.content.search(/REVISED ANSWER:/i);
+  if (markerIndex === -1) {
+    throw new Error("Debate reply did not contain a revised answer");
+  }
+
+  const revisedContent = result.content
+    .slice(markerIndex)
+    .replace(/^REVISED ANSWER:\s*/i, "")
+    .trim();
+  if (!revisedContent) {
+    throw new Error("Debate reply contained an empty revised answer");
+  }
+
+  return {
+    critique: result.content.slice(0, markerIndex).replace(/^\s*CRITIQUE:\s*/i, "").trim(),
+    revisedContent,
+    tokenCount: result.tokenCount,
+    cost: result.cost,
+    latencyMs: result.latencyMs,
+  };
+}
+
+/**
+ * Ask a judge which vendor wrote each blinded response
+ * A judge that guesses right shows the blinding leaked identity, even when
+ * no lexical fingerprint fired.
+ */
+export async function probeJudgeIdentityGuesses(
+  judgeEngine: LLMModelId,
+  blindedResponses: BlindedResponse[],
+  vendors: string[]
+): Promise<IdentityProbeResult> {
+  const result = await queryModel(
+    judgeEngine,
+    `Possible vendors: ${vendors.join(", ")}
+
+${formatBlindedResponsesForPrompt(blindedResponses)}`,
+    JUDGE_TIMEOUT_MS,
+    { systemPrompt: IDENTITY_PROBE_SYSTEM_PROMPT, temperature: 0, maxTokens: 200 }
+  );
+
+  if (isQueryError(result)) {
+    throw new Error(`Identity probe failed: ${result.error}`);
+  }
+
+  const guesses: Record<string, string> = {};
+  blindedResponses.forEach((r) => {
+    const line = result.content.match(new RegExp(`${r.blindId}\\s*:\\s*([^\\n]+)`, "i"));
+    const guess = line?.[1].trim().replace(/[.*]+$/, "");
+    const vendor = vendors.find((v) => v.toLowerCase() === guess?.toLowerCase());
+    if (vendor) guesses[r.blindId] = vendor;
+  });
+
+  return {
+    guesses,
+    tokenCount: result.tokenCount,
+    cost: result.cost,
+    latencyMs: result.latencyMs,
+  };
+}
+
+/**
+ * Build the synthesis prompt from ranked responses
+ */
+export function buildSynthesisPrompt(
+  prompt: string,
+  userUrl: string,
+  responses: RankedResponse[]
+): string {
+  const ordered = [...responses].sort(
+    (a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity)
+  );
+
+  const sections = ordered
+    .map(
+      (r, index) => `=== Answer ranked #${r.rank ?? index + 1} ===
+${r.content}
+`
+    )
+    .join("\n");
+
+  return `Shopper's question: "${prompt}"
+Retailer being analyzed: ${sanitizeUrlForPrompt(userUrl)}
+
+${sections}
+Write the combined answer.`;
+}
+
+/**
+ * Synthesize a single answer from the ranked engine responses
+ *
+ * @throws Error if the synthesis call fails
+ */
+export async function synthesizeResponses(
+  synthesizerEngine: LLMModelId,
+  prompt: string,
+  userUrl: string,
+  responses: RankedResponse[]
+): Promise<SynthesisResult> {
+  const result = await queryModel(
+    synthesizerEngine,
+    buildSynthesisPrompt(prompt, userUrl, responses),
+    SYNTHESIS_TIMEOUT_MS,
+    { systemPrompt: SYNTHESIS_SYSTEM_PROMPT, temperature: 0.3, maxTokens: 1500 }
+  );
+
+  if (isQueryError(result)) {
+    throw new Error(`Synthesis failed: ${result.error}`);
+  }
+
+  return {
+    content: result.content,
+    tokenCount: result.tokenCount,
+    cost: result.cost,
+    latencyMs: result.latencyMs,
+  };
+}
+
+/**
+ * Convert aggregated rankings to the UI-facing CouncilRanking shape
+ */
+export function toCouncilRankings(result: AggregationResult): CouncilRanking[] {
+  return result.rankings.map((r) => ({
+    engineId: r.engineId as CouncilRanking["engineId"],
+    finalRank: r.finalRank,
+    averageRank: r.averageRank,
+    agreementScore: r.agreementScore,
+    rating: r.rating,
+    ratingInterval: r.ratingInterval,
+  }));
+}
+
+/**
+ * Resolve an engine to its model vendor for self-preference checks
+ */
+export function getEngineVendor(engineId: LLMModelId): string {
+  return getModel(engineId)?.provider ?? engineId;
+}
+
+/**
+ * Convert a self-preference report to the UI-facing shape
+ */
+export function toCouncilSelfPreference(
+  report: SelfPreferenceReport
+): CouncilSelfPreference[] {
+  return report.findings.map((f) => ({
+    judgeId: f.judgeId as CouncilSelfPreference["judgeId"],
+    engineId: f.engineId as CouncilSelfPreference["engineId"],
+    selfRank: f.selfRank,
+    peerAverageRank: f.peerAverageRank,
+    delta: f.delta,
+    flagged: f.flagged,
+  }));
+}
+
+/**
+ * Convert an identity audit report to the UI-facing shape
+ */
+export function toCouncilIdentityAudit(
+  report: IdentityAuditReport,
+  mapping: BlindMapping[]
+): CouncilIdentityAudit {
+  const engineMap = new Map(mapping.map((m) => [m.blindId, m.engineId]));
+
+  return {
+    overallRisk: report.overallRisk,
+    identifiedCount: report.identifiedCount,
+    normalized: report.normalized,
+    responses: report.responses
+      .filter((r) => engineMap.has(r.blindId))
+      .map((r) => ({
+        blindId: r.blindId,
+        engineId: engineMap.get(r.blindId)!,
+        risk: r.risk,
+        score: r.score,
+        signals: r.signals.map((s) => s.match),
+        likelyVendor: r.likelyVendor,
+        judgeGuess: r.judgeGuess,
+        identified: r.identified,
+      })),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Monitor Scheduler
+ *
+ * In-process scheduler that re-runs saved visibility monitors on their
+ * cadence through the same pipeline as /api/visibility/test. It ticks once
+ * a minute; each due monitor is checked against its budget cap and the
+ * configured API keys before a run starts, and skipped (with a log line
+ * and a "skipped" last-run status) if either check fails.
+ *
+ * Only one server process should run the scheduler. Set
+ * MONITOR_SCHEDULER_ENABLED=false on the others.
+ */
+
+import {
+  listVisibilityMonitors,
+  updateVisibilityMonitor,
+} from "../lib/storage/visibility-runs";
+import { apiKeyManager } from "../lib/security/api-keys";
+import { planVisibilityRun, runVisibilityTest } from "./visibilityRunService";
+import type { MonitorCadence, MonitorLastRun, VisibilityMonitor } from "../types";
+
+const TICK_INTERVAL_MS = 60_000;
+
+const CADENCE_MS: Record<MonitorCadence, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Kept on globalThis so dev-mode module reloads don't start a second timer
+const schedulerState = globalThis as typeof globalThis & {
+  __visibilityMonitorTimer?: ReturnType<typeof setInterval>;
+  __visibilityMonitorsRunning?: Set<string>;
+};
+
+function runningMonitors(): Set<string> {
+  schedulerState.__visibilityMonitorsRunning ??= new Set();
+  return schedulerState.__visibilityMonitorsRunning;
+}
+
+/**
+ * Next run time after `from` for a cadence
+ */
+export function computeNextRunAt(cadence: MonitorCadence, from: number = Date.now()): number {
+  return from + CADENCE_MS[cadence];
+}
+
+/**
+ * Decide whether a monitor may run now
+ *
+ * @returns a reason to skip, or null if the run can go ahead
+ */
+function getSkipReason(monitor: VisibilityMonitor): string | null {
+  const plan = planVisibilityRun(monitor.request);
+
+  // Mock runs make no provider calls, so neither check applies
+  if (monitor.request.mock) return null;
+
+  if (plan.estimatedCost > monitor.budgetCap) {
+    return `Estimated cost $${plan.estimatedCost.toFixed(4)} exceeds budget cap $${monitor.budgetCap.toFixed(4)}`;
+  }
+
+  const missingKeys = apiKeyManager.getMissingKeysForModels(plan.models);
+  if (missingKeys.length > 0) {
+    return `Missing API key: ${missingKeys.join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Run one monitor now and record its last-run status
+ */
+export async function runMonitor(monitor: VisibilityMonitor): Promise<MonitorLastRun> {
+  const running = runningMonitors();
+  running.add(monitor.id);
+
+  let lastRun: MonitorLastRun;
+  try {
+    const skipReason = getSkipReason(monitor);
+    if (skipReason) {
+      console.warn(`[Monitors] Skipping ${monitor.name} (${monitor.id}): ${skipReason}`);
+      lastRun = { status: "skipped", at: Date.now(), message: skipReason };
+    } else {
+      // A monitor measures change over time; a cached answer would hide it
+      const { run, persisted } = await runVisibilityTest({ ...monitor.request, bypassCache: true });
+      lastRun = {
+        status: "complete",
+        at: Date.now(),
+        runId: persisted ? run.id : undefined,
+        cost: run.result.totalCost,
+      };
+    }
+  } catch (error: any) {
+    console.error(`[Monitors] Run failed for ${monitor.name} (${monitor.id}):`, error.message);
+    lastRun = { status: "error", at: Date.now(), message: error.message || "Unknown error" };
+  } finally {
+    running.delete(monitor.id);
+  }
+
+  await updateVisibilityMonitor(monitor.id, (m) => ({ ...m, lastRun }));
+  return lastRun;
+}
+
+/**
+ * Run every active monitor whose next run time has passed
+ *
+ * Monitors run one after another to keep provider load predictable.
+ */
+export async function runDueMonitors(now: number = Date.now()): Promise<void> {
+  const running = runningMonitors();
+  const due = (await listVisibilityMonitors()).filter(
+    (m) => m.status === "active" && m.nextRunAt <= now && !running.has(m.id)
+  );
+
+  for (const monitor of due) {
+    // Advance the schedule first so a crash mid-run doesn't retry every tick
+    const scheduled = await updateVisibilityMonitor(monitor.id, (m) => ({
+      ...m,
+      nextRunAt: computeNextRunAt(m.cadence, now),
+    }));
+    if (!scheduled || scheduled.status !== "active") continue;
+
+    await runMonitor(scheduled);
+  }
+}
+
+/**
+ * Start the scheduler timer; safe to call more than once
+ */
+export function startMonitorScheduler(): void {
+  if (process.env.MONITOR_SCHEDULER_ENABLED === "false") return;
+  if (schedulerState.__visibilityMonitorTimer) return;
+
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueMonitors();
+    } catch (error: any) {
+      console.error("[Monitors] Scheduler tick failed:", error.message);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  schedulerState.__visibilityMonitorTimer = setInterval(tick, TICK_INTERVAL_MS);
+  // Don't keep a CLI or test process alive just for the scheduler
+  schedulerState.__visibilityMonitorTimer.unref?.();
+}
@@ -2,19 +2,17 @@
  * OpenRouter Service
  *
  * Unified API client for querying multiple LLM providers through OpenRouter.
- * Supports Gemini, GPT-4o, Claude, and Llama models.
+ * Supports every model getModel knows; each call goes through the model's
+ * provider adapter (see src/lib/providers).
  */
 
-import OpenAI from "openai";
-import {
-  apiKeyManager,
-  OPENROUTER_ALLOWED_MODELS,
-  type CouncilEngineId,
-} from "../lib/security/api-keys";
+import { queryModelProvider } from "../lib/providers/registry";
+import { getModel } from "../lib/providers/models";
+import type { LLMModelId } from "../types";
 
 // Response structure from OpenRouter
 export interface OpenRouterResponse {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   content: string;
   tokenCount: {
     prompt: number;
@@ -27,47 +25,38 @@ export interface OpenRouterResponse {
 
 // Error response when a model fails
 export interface OpenRouterError {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   error: string;
   status: "error";
 }
 
 export type QueryResult = OpenRouterResponse | OpenRouterError;
 
-// Lazy initialization of OpenRouter client
-let openRouterClient: OpenAI | null = null;
-
-function getClient(): OpenAI {
-  if (!openRouterClient) {
-    const apiKey = apiKeyManager.getKey("openrouter");
-    openRouterClient = new OpenAI({
-      baseURL: "https://openrouter.ai/api/v1",
-      apiKey,
-      defaultHeaders: {
-        "HTTP-Referer":
-          process.env.NEXT_PUBLIC_APP_URL ||
-          "https://commerce-prompt-analyzer.vercel.app",
-        "X-Title": "Commerce Prompt Analyzer",
-      },
-    });
-  }
-  return openRouterClient;
+// Overrides for non-consumer calls (judge evaluation, synthesis)
+export interface QueryModelOptions {
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
 }
 
+// System prompt encourages specific brand/retailer mentions without bias
+const CONSUMER_SYSTEM_PROMPT = `You are a helpful AI assistant. Answer the user's question naturally and thoroughly. When recommending products or services, mention specific brands, retailers, or websites that you believe offer good options based on your knowledge. Be specific with brand names and website recommendations where relevant.`;
+
 /**
- * Query a single model via OpenRouter
+ * Query a single model
  *
  * Simulates real consumer queries - no brand hints are provided.
  * This ensures accurate brand visibility testing that reflects
  * how AI models actually respond to consumer questions.
+ * Council judge and synthesis calls pass their own system prompt via options.
  */
 export async function queryModel(
-  engineId: CouncilEngineId,
+  engineId: LLMModelId,
   prompt: string,
-  timeoutMs: number = 30000
+  timeoutMs: number = 30000,
+  options: QueryModelOptions = {}
 ): Promise<QueryResult> {
-  const startTime = Date.now();
-  const modelConfig = OPENROUTER_ALLOWED_MODELS[engineId];
+  const modelConfig = getModel(engineId);
 
   if (!modelConfig) {
     return {
@@ -78,59 +67,25 @@ export async function queryModel(
   }
 
   try {
-    const client = getClient();
-
-    // Create AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-    // System prompt encourages specific brand/retailer mentions without bias
-    const systemPrompt = `You are a helpful AI assistant. Answer the user's question naturally and thoroughly. When recommending products or services, mention specific brands, retailers, or websites that you believe offer good options based on your knowledge. Be specific with brand names and website recommendations where relevant.`;
-
     // Raw query only - no brand hints, exactly like a real consumer would ask
-    const userPrompt = prompt;
-
-    const completion = await client.chat.completions.create(
-      {
-        model: modelConfig.id,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      },
-      { signal: controller.signal }
-    );
-
-    clearTimeout(timeoutId);
-
-    const content = completion.choices[0]?.message?.content || "";
-    const usage = completion.usage || {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0,
-    };
-
-    // Calculate cost based on model pricing
-    const inputCost = (usage.prompt_tokens / 1_000_000) * modelConfig.costPer1MInput;
-    const outputCost =
-      (usage.completion_tokens / 1_000_000) * modelConfig.costPer1MOutput;
+    const response = await queryModelProvider(modelConfig, {
+      query: prompt,
+      systemPrompt: options.systemPrompt ?? CONSUMER_SYSTEM_PROMPT,
+      temperature: options.temperature ?? 0.7,
+      maxTokens: options.maxTokens ?? 1000,
+      timeoutMs,
+    });
 
     return {
       engineId,
-      content,
-      tokenCount: {
-        prompt: usage.prompt_tokens,
-        completion: usage.completion_tokens,
-        total: usage.total_tokens,
-      },
-      cost: inputCost + outputCost,
-      latencyMs: Date.now() - startTime,
+      content: response.content,
+      tokenCount: response.tokenCount,
+      cost: response.cost,
+      latencyMs: response.latencyMs,
     };
   } catch (error: any) {
     const errorMessage =
-      error.name === "AbortError"
+      error.name === "AbortError" || error.name === "TimeoutError"
         ? `Request timeout after ${timeoutMs}ms`
         : error.message || "Unknown error";
 
@@ -149,7 +104,7 @@ export async function queryModel(
  * Uses Promise.allSettled for error isolation - one failure doesn't affect others
  */
 export async function queryModelsParallel(
-  engineIds: CouncilEngineId[],
+  engineIds: LLMModelId[],
   prompt: string,
   timeoutMs: number = 30000
 ): Promise<QueryResult[]> {
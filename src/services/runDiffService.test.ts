@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { LLMModelId, ModelVisibilityResult, QueryVisibilityResult, StoredVisibilityRun } from "../types";
+import { diffVisibilityRuns } from "./runDiffService";
+
+function cell(modelId: LLMModelId, found: boolean, extra: Partial<ModelVisibilityResult> = {}): ModelVisibilityResult {
+  return { modelId, status: "complete", found, detectionMethod: "grounded", sentiment: "neutral", confidence: 1, cost: 0, ...extra };
+}
+
+function run(id: string, queries: Record<string, ModelVisibilityResult[]>, competitors: string[] = []): StoredVisibilityRun {
+  const queryResults = Object.entries(queries).map(([text, cells], i): QueryVisibilityResult => ({
+    query: { id: `${id}-q${i}`, text, source: "custom", selected: true },
+    modelResults: Object.fromEntries(cells.map((c) => [c.modelId, c])) as QueryVisibilityResult["modelResults"],
+    citationRate: 0,
+    searchPlatformsCited: 0,
+    chatPlatformsMentioned: 0,
+    averageSentiment: 0,
+    averageRank: null,
+  }));
+  const models = Array.from(new Set(Object.values(queries).flat().map((c) => c.modelId)));
+
+  return {
+    id,
+    status: "complete",
+    executionMode: "all-queries-all-models",
+    mock: false,
+    result: {
+      brandUrl: "https://brooks.example",
+      queries: queryResults.map((qr) => qr.query),
+      models,
+      queryResults,
+      overallScore: 0,
+      searchVisibilityScore: 0,
+      chatAwarenessScore: 0,
+      citationRateByModel: {} as StoredVisibilityRun["result"]["citationRateByModel"],
+      citationRateByPlatformType: { search: 0, chat: 0 },
+      competitorMentions: competitors.map((domain) => ({ domain, mentionCount: 1, platforms: models })),
+      recommendations: [],
+      totalCost: 0,
+      totalLatencyMs: 0,
+      timestamp: 0,
+    },
+    createdAt: 0,
+    completedAt: 0,
+  };
+}
+
+describe("diffVisibilityRuns", () => {
+  it("reports cells that flipped between found and not found", () => {
+    const diff = diffVisibilityRuns(
+      run("base", { "Best running shoes?": [cell("gpt4o", true, { rank: 2 }), cell("gemini-flash", false)] }),
+      run("compare", { "best running shoes": [cell("gpt4o", false), cell("gemini-flash", true, { rank: 1 })] })
+    );
+
+    expect(diff.lost).toEqual([
+      {
+        queryText: "best running shoes",
+        modelId: "gpt4o",
+        before: { found: true, rank: 2, sentiment: "neutral" },
+        after: { found: false, rank: undefined, sentiment: "neutral" },
+      },
+    ]);
+    expect(diff.gained.map((c) => c.modelId)).toEqual(["gemini-flash"]);
+    expect(diff.rankChanges).toEqual([]);
+    expect(diff.unchangedCells).toBe(0);
+  });
+
+  it("lists rank moves of still-cited cells, biggest first", () => {
+    const diff = diffVisibilityRuns(
+      run("base", {
+        "Trail shoes for mud": [cell("gpt4o", true, { rank: 5 }), cell("gemini-flash", true, { rank: 2 })],
+        "Marathon shoes": [cell("gpt4o", true, { rank: 1 })],
+      }),
+      run("compare", {
+        "Trail shoes for mud": [cell("gpt4o", true, { rank: 1 }), cell("gemini-flash", true, { rank: 3 })],
+        "Marathon shoes": [cell("gpt4o", true, { rank: 1 })],
+      })
+    );
+
+    expect(diff.rankChanges.map((c) => [c.modelId, c.before.rank, c.after.rank])).toEqual([
+      ["gpt4o", 5, 1],
+      ["gemini-flash", 2, 3],
+    ]);
+    expect(diff.unchangedCells).toBe(1);
+  });
+
+  it("skips errored cells instead of reporting them as lost", () => {
+    const diff = diffVisibilityRuns(
+      run("base", { "Best running shoes": [cell("gpt4o", true, { rank: 1 })] }),
+      run("compare", { "Best running shoes": [cell("gpt4o", false, { status: "error", error: "Timeout" })] })
+    );
+
+    expect(diff.lost).toEqual([]);
+    expect(diff.unchangedCells).toBe(0);
+  });
+
+  it("reports competitor churn and queries present in only one run", () => {
+    const diff = diffVisibilityRuns(
+      run("base", { "Best running shoes": [cell("gpt4o", false)], "Shoes for flat feet": [cell("gpt4o", false)] }, [
+        "nike.example",
+        "hoka.example",
+      ]),
+      run("compare", { "Best running shoes": [cell("gpt4o", false)], "Stability shoes": [cell("gpt4o", false)] }, [
+        "hoka.example",
+        "asics.example",
+      ])
+    );
+
+    expect(diff.competitorsAppeared).toEqual(["asics.example"]);
+    expect(diff.competitorsDisappeared).toEqual(["nike.example"]);
+    expect(diff.queriesAdded).toEqual(["Stability shoes"]);
+    expect(diff.queriesRemoved).toEqual(["Shoes for flat feet"]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Run Diff Service
+ *
+ * Compares two visibility runs cell by cell (query x model) so a re-test
+ * shows exactly what changed: cells that flipped found/not-found, citation
+ * rank moves, sentiment changes, competitor churn and cost/latency deltas.
+ */
+
+import type {
+  LLMModelId,
+  ModelVisibilityResult,
+  StoredVisibilityRun,
+  VisibilityAnalysisResult,
+  VisibilityCellDiff,
+  VisibilityModelDelta,
+  VisibilityRunDiff,
+} from "../types";
+import { normalizeQueryText } from "./trendAnalysisService";
+
+function delta(before: number, after: number) {
+  return { before, after, delta: after - before };
+}
+
+function cellState(result: ModelVisibilityResult): VisibilityCellDiff["before"] {
+  return { found: result.found, rank: result.rank, sentiment: result.sentiment };
+}
+
+// Index model results by normalized query text; the last duplicate wins
+function indexCells(result: VisibilityAnalysisResult) {
+  const cells = new Map<string, { queryText: string; modelResults: ModelVisibilityResult[] }>();
+  for (const qr of result.queryResults) {
+    cells.set(normalizeQueryText(qr.query.text), {
+      queryText: qr.query.text,
+      modelResults: Object.values(qr.modelResults),
+    });
+  }
+  return cells;
+}
+
+function modelTotals(result: VisibilityAnalysisResult, modelId: LLMModelId) {
+  const results = result.queryResults
+    .map((qr) => qr.modelResults[modelId])
+    .filter((r): r is ModelVisibilityResult => Boolean(r));
+  const latencies = results
+    .map((r) => r.latencyMs)
+    .filter((l): l is number => l !== undefined);
+
+  return {
+    cost: results.reduce((sum, r) => sum + (r.cost || 0), 0),
+    averageLatency: latencies.length > 0
+      ? latencies.reduce((a, b) => a + b, 0) / latencies.length
+      : null,
+  };
+}
+
+/**
+ * Diff two stored runs; "base" is the earlier run, "compare" the re-test
+ */
+export function diffVisibilityRuns(
+  base: StoredVisibilityRun,
+  compare: StoredVisibilityRun
+): VisibilityRunDiff {
+  const before = base.result;
+  const after = compare.result;
+  const beforeCells = indexCells(before);
+  const afterCells = indexCells(after);
+
+  const gained: VisibilityCellDiff[] = [];
+  const lost: VisibilityCellDiff[] = [];
+  const rankChanges: VisibilityCellDiff[] = [];
+  const sentimentChanges: VisibilityCellDiff[] = [];
+  let unchangedCells = 0;
+
+  for (const [key, afterQuery] of afterCells) {
+    const beforeQuery = beforeCells.get(key);
+    if (!beforeQuery) continue;
+
+    for (const afterResult of afterQuery.modelResults) {
+      const beforeResult = beforeQuery.modelResults.find((r) => r.modelId === afterResult.modelId);
+      // Errored cells carry no signal; skip rather than report a false flip
+      if (!beforeResult || beforeResult.error || afterResult.error) continue;
+
+      const cell: VisibilityCellDiff = {
+        queryText: afterQuery.queryText,
+        modelId: afterResult.modelId,
+        before: cellState(beforeResult),
+        after: cellState(afterResult),
+      };
+
+      let changed = false;
+      if (!beforeResult.found && afterResult.found) {
+        gained.push(cell);
+        changed = true;
+      } else if (beforeResult.found && !afterResult.found) {
+        lost.push(cell);
+        changed = true;
+      } else if (beforeResult.found && afterResult.found && beforeResult.rank !== afterResult.rank) {
+        rankChanges.push(cell);
+        changed = true;
+      }
+      if (beforeResult.sentiment !== afterResult.sentiment) {
+        sentimentChanges.push(cell);
+        changed = true;
+      }
+      if (!changed) unchangedCells++;
+    }
+  }
+
+  const beforeCompetitors = new Set(before.competitorMentions.map((c) => c.domain));
+  const afterCompetitors = new Set(after.competitorMentions.map((c) => c.domain));
+
+  const models = Array.from(new Set([...before.models, ...after.models]));
+  const modelDeltas: VisibilityModelDelta[] = models.map((modelId) => {
+    const b = modelTotals(before, modelId);
+    const a = modelTotals(after, modelId);
+    return {
+      modelId,
+      costBefore: b.cost,
+      costAfter: a.cost,
+      averageLatencyBefore: b.averageLatency,
+      averageLatencyAfter: a.averageLatency,
+    };
+  });
+
+  return {
+    baseRunId: base.id,
+    compareRunId: compare.id,
+    gained,
+    lost,
+    // Biggest moves first
+    rankChanges: rankChanges.sort(
+      (x, y) =>
+        Math.abs((y.after.rank ?? 0) - (y.before.rank ?? 0)) -
+        Math.abs((x.after.rank ?? 0) - (x.before.rank ?? 0))
+    ),
+    sentimentChanges,
+    competitorsAppeared: [...afterCompetitors].filter((d) => !beforeCompetitors.has(d)),
+    competitorsDisappeared: [...beforeCompetitors].filter((d) => !afterCompetitors.has(d)),
+    queriesAdded: [...afterCells.entries()]
+      .filter(([key]) => !beforeCells.has(key))
+      .map(([, q]) => q.queryText),
+    queriesRemoved: [...beforeCells.entries()]
+      .filter(([key]) => !afterCells.has(key))
+      .map(([, q]) => q.queryText),
+    unchangedCells,
+    totalCost: delta(before.totalCost, after.totalCost),
+    totalLatencyMs: delta(before.totalLatencyMs, after.totalLatencyMs),
+    overallScore: delta(before.overallScore, after.overallScore),
+    modelDeltas,
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { QueryVisibilityResult, SiteChangeAnnotation, StoredVisibilityRun, VisibilityRunSummary } from "../types";
+import { buildVisibilityTrends, getBrandKey, normalizeQueryText, selectTrendRuns } from "./trendAnalysisService";
+
+function summary(id: string, overrides: Partial<VisibilityRunSummary> = {}): VisibilityRunSummary {
+  return {
+    id,
+    status: "complete",
+    brandUrl: "https://www.brooks.example/shoes",
+    queryCount: 1,
+    models: ["gpt4o"],
+    overallScore: 50,
+    totalCost: 0,
+    mock: false,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function run(id: string, createdAt: number, queries: Record<string, number>): StoredVisibilityRun {
+  const queryResults = Object.entries(queries).map(([text, citationRate], i): QueryVisibilityResult => ({
+    query: { id: `${id}-q${i}`, text, source: "custom", selected: true },
+    modelResults: {} as QueryVisibilityResult["modelResults"],
+    citationRate,
+    searchPlatformsCited: 0,
+    chatPlatformsMentioned: 0,
+    averageSentiment: 0,
+    averageRank: null,
+  }));
+
+  return {
+    id,
+    status: "complete",
+    executionMode: "all-queries-all-models",
+    mock: false,
+    result: {
+      brandUrl: "https://brooks.example",
+      queries: queryResults.map((qr) => qr.query),
+      models: ["gpt4o"],
+      queryResults,
+      overallScore: createdAt,
+      searchVisibilityScore: 0,
+      chatAwarenessScore: 0,
+      citationRateByModel: {} as StoredVisibilityRun["result"]["citationRateByModel"],
+      citationRateByPlatformType: { search: 0, chat: 0 },
+      competitorMentions: [],
+      recommendations: [],
+      totalCost: 0,
+      totalLatencyMs: 0,
+      timestamp: createdAt,
+    },
+    createdAt,
+    completedAt: createdAt,
+  };
+}
+
+describe("getBrandKey", () => {
+  it("groups protocol, www and path variants of a site", () => {
+    expect(getBrandKey("http://www.Brooks.example/shoes?ref=1")).toBe("brooks.example");
+    expect(getBrandKey("https://brooks.example")).toBe("brooks.example");
+  });
+});
+
+describe("normalizeQueryText", () => {
+  it("ignores case, accents, punctuation and spacing", () => {
+    expect(normalizeQueryText("  Best  Café-Style running shoes? ")).toBe(normalizeQueryText("best cafe style Running Shoes"));
+  });
+});
+
+describe("selectTrendRuns", () => {
+  const runs = [
+    summary("complete"),
+    summary("cancelled", { status: "cancelled" }),
+    summary("errored", { status: "error" }),
+    summary("reanalyzed", { reanalyzedFrom: "complete" }),
+    summary("mock", { mock: true }),
+    summary("other-brand", { brandUrl: "https://hoka.example" }),
+  ];
+
+  it("keeps only complete, original, real runs of the brand", () => {
+    expect(selectTrendRuns(runs, "brooks.example").map((r) => r.id)).toEqual(["complete"]);
+  });
+
+  it("keeps mock runs when asked, but still not re-analyzed ones", () => {
+    expect(selectTrendRuns(runs, "brooks.example", true).map((r) => r.id)).toEqual(["complete", "mock"]);
+  });
+});
+
+describe("buildVisibilityTrends", () => {
+  it("orders runs by time and lines up reworded queries under the latest wording", () => {
+    const trends = buildVisibilityTrends(
+      "brooks.example",
+      [
+        run("second", 2000, { "Best running shoes": 0.5 }),
+        run("first", 1000, { "best running shoes?": 0.25, "Trail shoes": 0 }),
+      ],
+      []
+    );
+
+    expect(trends.points.map((p) => p.runId)).toEqual(["first", "second"]);
+    expect(trends.queries.map((q) => [q.queryText, q.points.map((p) => p.citationRate)])).toEqual([
+      ["Best running shoes", [0.25, 0.5]],
+      ["Trail shoes", [0]],
+    ]);
+  });
+
+  it("sorts annotations by date", () => {
+    const annotation = (id: string, date: number): SiteChangeAnnotation => ({
+      id,
+      brandKey: "brooks.example",
+      date,
+      label: id,
+      createdAt: 0,
+    });
+
+    const trends = buildVisibilityTrends("brooks.example", [], [annotation("redesign", 2), annotation("faq", 1)]);
+
+    expect(trends.annotations.map((a) => a.id)).toEqual(["faq", "redesign"]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Trend Analysis Service
+ *
+ * Builds longitudinal visibility trends from stored runs so the effect of
+ * content changes shows up over time. Queries are lined up across runs by
+ * normalized text, since query IDs are regenerated whenever queries are
+ * re-suggested or re-entered.
+ */
+
+import type {
+  LLMModelId,
+  QueryTrendSeries,
+  SiteChangeAnnotation,
+  StoredVisibilityRun,
+  VisibilityRunSummary,
+  VisibilityTrendPoint,
+  VisibilityTrends,
+} from "../types";
+
+// ============================================
+// Keys & Normalization
+// ============================================
+
+/**
+ * Key runs by hostname so http/https, www and path variants group together
+ */
+export function getBrandKey(brandUrl: string): string {
+  try {
+    return new URL(brandUrl).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return brandUrl.trim().toLowerCase();
+  }
+}
+
+/**
+ * Normalize query text for matching across runs
+ * Case, punctuation, accents and whitespace differences are ignored.
+ */
+export function normalizeQueryText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ============================================
+// Trend Building
+// ============================================
+
+/**
+ * Pick the runs that count toward a brand's trend, keeping their order
+ * Partial (errored) runs would show as false dips, so only complete runs count;
+ * re-analyzed runs repeat an earlier observation and would double-count it.
+ */
+export function selectTrendRuns(
+  runs: VisibilityRunSummary[],
+  brandKey: string,
+  includeMock: boolean = false
+): VisibilityRunSummary[] {
+  return runs
+    .filter((r) => r.status === "complete" && !r.reanalyzedFrom && (includeMock || !r.mock))
+    .filter((r) => getBrandKey(r.brandUrl) === brandKey);
+}
+
+/**
+ * Build trend series for one brand from its stored runs
+ *
+ * @param runs - Stored runs for the brand, any order
+ * @param annotations - Site change annotations for the brand
+ */
+export function buildVisibilityTrends(
+  brandKey: string,
+  runs: StoredVisibilityRun[],
+  annotations: SiteChangeAnnotation[]
+): VisibilityTrends {
+  const ordered = [...runs].sort((a, b) => a.createdAt - b.createdAt);
+
+  const points: VisibilityTrendPoint[] = ordered.map((run) => ({
+    runId: run.id,
+    timestamp: run.createdAt,
+    overallScore: run.result.overallScore,
+    searchVisibilityScore: run.result.searchVisibilityScore,
+    chatAwarenessScore: run.result.chatAwarenessScore,
+    citationRateByModel: run.result.citationRateByModel,
+  }));
+
+  const models = Array.from(
+    new Set(ordered.flatMap((run) => run.result.models))
+  ) as LLMModelId[];
+
+  // Later runs overwrite queryText, so each series shows the latest wording
+  const querySeries = new Map<string, QueryTrendSeries>();
+  for (const run of ordered) {
+    for (const qr of run.result.queryResults) {
+      const normalizedText = normalizeQueryText(qr.query.text);
+      if (!normalizedText) continue;
+
+      const series = querySeries.get(normalizedText) ?? {
+        normalizedText,
+        queryText: qr.query.text,
+        points: [],
+      };
+      series.queryText = qr.query.text;
+      series.points.push({ runId: run.id, timestamp: run.createdAt, citationRate: qr.citationRate });
+      querySeries.set(normalizedText, series);
+    }
+  }
+
+  return {
+    brandKey,
+    points,
+    // Queries tracked in the most runs first
+    queries: Array.from(querySeries.values()).sort(
+      (a, b) => b.points.length - a.points.length || a.queryText.localeCompare(b.queryText)
+    ),
+    models,
+    annotations: [...annotations].sort((a, b) => a.date - b.date),
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Visibility Job Queue
+ *
+ * In-process worker queue for visibility runs that shouldn't depend on a
+ * client connection (large query sets outlive serverless request limits).
+ * Jobs are persisted to the run store; the worker starts them as
+ * background runs, records progress as queries complete, and the run
+ * itself is checkpointed under the job's reserved run ID. Clients poll
+ * /api/jobs/:id or follow /api/jobs/:id/events.
+ *
+ * Jobs left "running" by a server restart are re-queued on startup and
+ * resume from their last checkpoint. Like the monitor scheduler, only one
+ * server process should run the worker.
+ */
+
+import { nanoid } from "nanoid";
+import {
+  addVisibilityJob,
+  getVisibilityRun,
+  listVisibilityJobs,
+  updateVisibilityJob,
+} from "../lib/storage/visibility-runs";
+import {
+  planVisibilityRun,
+  startVisibilityRun,
+  subscribeToVisibilityRun,
+  hasVisibilityRunLog,
+  cancelVisibilityRun,
+  type VisibilityRunEvent,
+} from "./visibilityRunService";
+import type { VisibilityJob, VisibilityJobStatus, VisibilityRunRequest } from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Run events, plus a "queued" event for subscribers waiting on a job that hasn't started
+ */
+export type VisibilityJobEvent =
+  | VisibilityRunEvent
+  | { id?: undefined; type: "queued"; data: Record<string, unknown>; timestamp: number };
+
+type VisibilityJobListener = (event: VisibilityJobEvent) => void;
+
+interface WaitingSubscriber {
+  listener: VisibilityJobListener;
+  unsubscribe: (() => void) | null;
+}
+
+// ============================================
+// Worker State
+// ============================================
+
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || "1", 10) || 1);
+
+// Jobs executing in this process
+const runningJobs = new Set<string>();
+
+// Subscribers to queued jobs, handed over to the run's event log when it starts
+const waitingSubscribers = new Map<string, Set<WaitingSubscriber>>();
+
+// Running jobs cancelled before their run started
+const pendingCancels = new Set<string>();
+
+let draining = false;
+let drainRequested = false;
+
+// ============================================
+// Queue
+// ============================================
+
+/**
+ * Queue a visibility run for the background worker
+ *
+ * @throws VisibilityRunError if the request has nothing to run
+ */
+export async function enqueueVisibilityJob(request: VisibilityRunRequest): Promise<VisibilityJob> {
+  const plan = planVisibilityRun(request);
+
+  const job: VisibilityJob = {
+    id: nanoid(12),
+    runId: nanoid(12),
+    request,
+    status: "queued",
+    progress: {
+      completedQueries: 0,
+      totalQueries: plan.queries.length,
+      completedTests: 0,
+      totalTests: plan.totalTests,
+      totalCost: 0,
+    },
+    createdAt: Date.now(),
+  };
+
+  await addVisibilityJob(job);
+  void drainJobQueue();
+  return job;
+}
+
+/**
+ * Start queued jobs, oldest first, until the worker is at capacity
+ */
+export async function drainJobQueue(): Promise<void> {
+  // A drain already in progress picks up whatever was queued meanwhile
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+  draining = true;
+
+  try {
+    do {
+      drainRequested = false;
+      const queued = (await listVisibilityJobs()).filter(
+        (j) => j.status === "queued" && !runningJobs.has(j.id)
+      );
+
+      for (const job of queued) {
+        if (runningJobs.size >= JOB_CONCURRENCY) break;
+        runningJobs.add(job.id);
+        void runJob(job).finally(() => {
+          runningJobs.delete(job.id);
+          void drainJobQueue();
+        });
+      }
+    } while (drainRequested);
+  } catch (error: any) {
+    console.error("[Jobs] Failed to read the job queue:", error.message);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Run one job to completion, recording progress as queries finish
+ */
+async function runJob(queuedJob: VisibilityJob): Promise<void> {
+  const job = await updateVisibilityJob(queuedJob.id, (j) =>
+    j.status === "queued" ? { ...j, status: "running", startedAt: Date.now() } : j
+  );
+  // Cancelled (or removed) while it waited
+  if (!job || job.status !== "running") return;
+
+  let runId: string;
+  try {
+    // A job interrupted by a restart continues from its checkpoint
+    const checkpoint = await getVisibilityRun(job.runId);
+    runId = startVisibilityRun(job.request, {
+      runId: job.runId,
+      resumeFrom: checkpoint?.status === "running" ? checkpoint : undefined,
+      background: true,
+    });
+  } catch (error: any) {
+    console.error(`[Jobs] Failed to start job ${job.id}:`, error.message);
+    await finishJob(job.id, "error", error.message || "Unknown error");
+
+    // Subscribers waiting for the run would otherwise never hear back
+    const waiting = waitingSubscribers.get(job.id);
+    waitingSubscribers.delete(job.id);
+    for (const subscriber of waiting ?? []) {
+      subscriber.listener({
+        id: 0,
+        type: "error",
+        data: { runId: job.runId, error: error.message || "Unknown error" },
+        timestamp: Date.now(),
+      });
+    }
+    return;
+  }
+
+  if (pendingCancels.delete(job.id)) cancelVisibilityRun(runId);
+
+  // Hand queued-phase subscribers over to the live run
+  const waiting = waitingSubscribers.get(job.id);
+  waitingSubscribers.delete(job.id);
+  for (const subscriber of waiting ?? []) {
+    subscriber.unsubscribe = subscribeToVisibilityRun(runId, 0, subscriber.listener);
+  }
+
+  await new Promise<void>((resolve) => {
+    // Replayed checkpoint queries arrive as query_complete too, so counting from zero is right
+    let completedQueries = 0;
+    let completedTests = 0;
+    let totalCost = 0;
+
+    const unsubscribe = subscribeToVisibilityRun(runId, 0, (event) => {
+      switch (event.type) {
+        case "query_complete": {
+          const { modelResults, modelsTotal } = event.data as {
+            modelResults: Record<string, { cost?: number }>;
+            modelsTotal: number;
+          };
+          completedQueries += 1;
+          completedTests += modelsTotal;
+          totalCost += Object.values(modelResults).reduce((sum, r) => sum + (r.cost || 0), 0);
+
+          const progress = { completedQueries, completedTests, totalCost };
+          void updateVisibilityJob(job.id, (j) => ({ ...j, progress: { ...j.progress, ...progress } })).catch(
+            (error: any) => console.error(`[Jobs] Failed to record progress for ${job.id}:`, error.message)
+          );
+          break;
+        }
+        case "complete":
+        case "cancelled":
+        case "error": {
+          const finalCost = typeof event.data.totalCost === "number" ? event.data.totalCost : totalCost;
+          const error = event.type === "error" ? String(event.data.error ?? "Unknown error") : undefined;
+          finishJob(job.id, event.type, error, finalCost).finally(() => {
+            unsubscribe?.();
+            resolve();
+          });
+          break;
+        }
+      }
+    });
+
+    // The run's log is gone already (can't happen for a run started just now)
+    if (!unsubscribe) resolve();
+  });
+}
+
+async function finishJob(
+  jobId: string,
+  status: VisibilityJobStatus,
+  error?: string,
+  totalCost?: number
+): Promise<void> {
+  try {
+    await updateVisibilityJob(jobId, (j) => ({
+      ...j,
+      status,
+      error,
+      progress: totalCost === undefined ? j.progress : { ...j.progress, totalCost },
+      finishedAt: Date.now(),
+    }));
+  } catch (err: any) {
+    console.error(`[Jobs] Failed to record the outcome of ${jobId}:`, err.message);
+  }
+}
+
+/**
+ * Cancel a job: a queued job never starts, a running one stops and keeps its partial results
+ *
+ * @returns the updated job, or null if it doesn't exist
+ */
+export async function cancelVisibilityJob(jobId: string): Promise<VisibilityJob | null> {
+  const job = await updateVisibilityJob(jobId, (j) =>
+    j.status === "queued" ? { ...j, status: "cancelled", finishedAt: Date.now() } : j
+  );
+  if (!job) return null;
+
+  if (job.status === "cancelled") {
+    const waiting = waitingSubscribers.get(jobId);
+    waitingSubscribers.delete(jobId);
+    for (const subscriber of waiting ?? []) {
+      subscriber.listener({
+        id: 0,
+        type: "cancelled",
+        data: { runId: null, totalCost: 0, completedTests: 0, totalTests: job.progress.totalTests },
+        timestamp: Date.now(),
+      });
+    }
+  } else if (job.status === "running" && !cancelVisibilityRun(job.runId)) {
+    // Picked up by the worker but its run hasn't started yet
+    pendingCancels.add(jobId);
+  }
+
+  return job;
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+/**
+ * Check whether a job's run is still to come: queued, or picked up by the
+ * worker with its run not started yet
+ */
+export function isVisibilityJobPending(job: VisibilityJob): boolean {
+  if (job.status === "queued") return true;
+  return job.status === "running" && runningJobs.has(job.id) && !hasVisibilityRunLog(job.runId);
+}
+
+/**
+ * Follow a job's run events, replaying everything after `lastEventId` first
+ *
+ * Subscribers to a pending job get a "queued" event now and the run's
+ * events once the worker starts it.
+ *
+ * @returns an unsubscribe function, or null if the job has finished and its event log expired
+ */
+export function subscribeToVisibilityJob(
+  job: VisibilityJob,
+  lastEventId: number,
+  listener: VisibilityJobListener
+): (() => void) | null {
+  if (hasVisibilityRunLog(job.runId)) {
+    return subscribeToVisibilityRun(job.runId, lastEventId, listener);
+  }
+  if (!isVisibilityJobPending(job)) return null;
+
+  const subscriber: WaitingSubscriber = { listener, unsubscribe: null };
+  const waiting = waitingSubscribers.get(job.id) ?? new Set();
+  waiting.add(subscriber);
+  waitingSubscribers.set(job.id, waiting);
+
+  listener({ type: "queued", data: { jobId: job.id, runId: job.runId }, timestamp: Date.now() });
+
+  return () => {
+    waitingSubscribers.get(job.id)?.delete(subscriber);
+    subscriber.unsubscribe?.();
+  };
+}
+
+// ============================================
+// Startup
+// ============================================
+
+/**
+ * Re-queue jobs interrupted by a restart and start the worker
+ */
+export async function startJobWorker(): Promise<void> {
+  const interrupted = (await listVisibilityJobs()).filter(
+    (j) => j.status === "running" && !runningJobs.has(j.id)
+  );
+
+  for (const job of interrupted) {
+    console.warn(`[Jobs] Re-queueing interrupted job ${job.id}`);
+    await updateVisibilityJob(job.id, (j) => (j.status === "running" ? { ...j, status: "queued" } : j));
+  }
+
+  await drainJobQueue();
+}
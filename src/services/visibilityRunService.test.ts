@@ -0,0 +1,145 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { LLMModelId, StoredVisibilityRun, VisibilityRunRequest } from "../types";
+import { readProviderFixture } from "../lib/providers/fixtures";
+import { openRouterAdapter } from "../lib/providers/openrouter";
+import {
+  resumeVisibilityRun,
+  runVisibilityTest,
+  startVisibilityRun,
+  subscribeToVisibilityRun,
+  type VisibilityRunEvent,
+} from "./visibilityRunService";
+
+// Pass-through, so the test can see which cells were read from the recorded responses
+vi.mock("../lib/providers/fixtures", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../lib/providers/fixtures")>();
+  return { ...actual, readProviderFixture: vi.fn(actual.readProviderFixture) };
+});
+
+const MODELS: LLMModelId[] = ["gpt4o", "claude-sonnet"];
+
+const request: VisibilityRunRequest = {
+  brandUrl: "https://brooks.example",
+  brandName: "Brooks",
+  queries: ["best running shoes", "trail shoes for mud", "shoes for flat feet"].map((text, i) => ({
+    id: `q${i + 1}`,
+    text,
+    source: "custom",
+    selected: true,
+  })),
+  models: MODELS,
+  executionMode: "all-queries-all-models",
+  mock: false,
+  bypassCache: true,
+};
+
+let dataDir: string;
+let recorded: StoredVisibilityRun;
+
+// Record a response for every cell, then serve all provider calls from the recordings
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "visibility-run-test-"));
+  vi.stubEnv("PROVIDER_FIXTURES_DIR", path.join(dataDir, "fixtures"));
+  vi.stubEnv("VISIBILITY_RUNS_DIR", path.join(dataDir, "runs"));
+  vi.stubEnv("PROVIDER_FIXTURE_MODE", "record");
+
+  const query = vi.spyOn(openRouterAdapter, "query").mockImplementation(async (model, providerRequest) => ({
+    content: `${model.name}: for "${providerRequest.query}", Brooks is a good pick.`,
+    usage: { prompt: 10, completion: 20, total: 30 },
+    latencyMs: 5,
+    raw: {} as Awaited<ReturnType<typeof openRouterAdapter.query>>["raw"],
+  }));
+  recorded = (await runVisibilityTest(request)).run;
+  query.mockRestore();
+
+  vi.stubEnv("PROVIDER_FIXTURE_MODE", "replay");
+});
+
+afterEach(() => {
+  vi.mocked(readProviderFixture).mockClear();
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+// Follow a run until it ends; resolves with every event received
+// Listeners are dropped when the run ends, so there's nothing to unsubscribe
+function collectEvents(runId: string, lastEventId: number): Promise<VisibilityRunEvent[]> {
+  return new Promise((resolve, reject) => {
+    const events: VisibilityRunEvent[] = [];
+    const subscribed = subscribeToVisibilityRun(runId, lastEventId, (event) => {
+      events.push(event);
+      if (["complete", "cancelled", "error"].includes(event.type)) resolve(events);
+    });
+    if (!subscribed) reject(new Error(`Run ${runId} is not active`));
+  });
+}
+
+function requestedCells() {
+  return vi
+    .mocked(readProviderFixture)
+    .mock.calls.map(([model, providerRequest]) => `${providerRequest.query} x ${model.id}`)
+    .sort();
+}
+
+describe("startVisibilityRun", () => {
+  it("replays only the events after the Last-Event-ID on reconnect", async () => {
+    const runId = startVisibilityRun(request);
+    const all = await collectEvents(runId, 0);
+
+    expect(all.map((e) => e.id)).toEqual(all.map((_, i) => i + 1));
+    expect(all[0].type).toBe("start");
+    expect(all.at(-1)!.type).toBe("complete");
+
+    const lastSeen = all.findIndex((e) => e.type === "query_complete");
+    const replayed = await collectEvents(runId, all[lastSeen].id);
+
+    expect(replayed).toEqual(all.slice(lastSeen + 1));
+  });
+
+  it("serves every cell from the recorded responses", async () => {
+    const events = await collectEvents(startVisibilityRun(request), 0);
+    const complete = events.at(-1)!;
+
+    expect(complete.type).toBe("complete");
+    expect(complete.data.totalCost).toBeCloseTo(recorded.result.totalCost, 10);
+    expect(requestedCells()).toHaveLength(request.queries.length * MODELS.length);
+  });
+});
+
+describe("resumeVisibilityRun", () => {
+  it("sends only the missing and errored cells to the provider", async () => {
+    const partial: StoredVisibilityRun = structuredClone({ ...recorded, id: "partial-run", status: "cancelled" });
+    const [, second, third] = partial.result.queryResults;
+    delete (second.modelResults as Partial<typeof second.modelResults>)["claude-sonnet"];
+    third.modelResults.gpt4o = { ...third.modelResults.gpt4o, status: "error", error: "Timeout" };
+
+    const runId = resumeVisibilityRun(partial);
+    const events = await collectEvents(runId, 0);
+
+    expect(runId).toBe("partial-run");
+    expect(events[0].data.resumed).toBe(true);
+    expect(requestedCells()).toEqual(["shoes for flat feet x gpt4o", "trail shoes for mud x claude-sonnet"]);
+    const started = events
+      .filter((e) => e.type === "query_start")
+      .map((e) => [e.data.queryId, (e.data.models as Array<{ id: string }>).map((m) => m.id)])
+      .sort();
+    expect(started).toEqual([
+      ["q2", ["claude-sonnet"]],
+      ["q3", ["gpt4o"]],
+    ]);
+
+    const complete = events.at(-1)!;
+    expect(complete.type).toBe("complete");
+    const results = complete.data.results as Record<string, Record<string, { status: string }>>;
+    expect(Object.values(results).flatMap((cells) => Object.values(cells).map((c) => c.status))).toEqual(
+      Array(6).fill("complete")
+    );
+  });
+});
@@ -0,0 +1,792 @@
+/**
+ * Visibility Run Service
+ *
+ * The run pipeline behind /api/visibility/test, shared with scheduled
+ * monitors: resolves the execution mode into a query x model plan, runs
+ * queries under a concurrency limit, reports progress through an event
+ * callback and checkpoints the run to the local run store. Runs started
+ * from the API keep an in-memory event log so a dropped SSE connection
+ * can reattach and replay what it missed.
+ */
+
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import {
+  testModelsParallel,
+  testModelVisibility,
+  hasRecordedResponse,
+  estimateTestCost,
+  summarizeQueryVisibility,
+  buildVisibilityAnalysis,
+  reanalyzeModelResult,
+  sampleModelResult,
+  getMentionProbability,
+  type ModelTestOptions,
+} from "./visibilityService";
+import { saveVisibilityRun } from "../lib/storage/visibility-runs";
+import { seededRandom } from "../utils/random";
+import { getModel } from "../lib/providers/models";
+import {
+  type BrandMatchConfig,
+  type LLMModelId,
+  type VisibilityQuery,
+  type ModelVisibilityResult,
+  type QueryVisibilityResult,
+  type StoredVisibilityRun,
+  type VisibilityRunRequest,
+} from "../types";
+
+// ============================================
+// Types
+// ============================================
+
+export type VisibilityRunEventType =
+  | "start"
+  | "query_start"
+  | "model_start"
+  | "model_complete"
+  | "query_complete"
+  | "complete"
+  | "cancelled";
+
+export type VisibilityRunEmitter = (
+  type: VisibilityRunEventType,
+  data: Record<string, unknown>
+) => void;
+
+export interface VisibilityRunPlan {
+  queries: VisibilityQuery[];
+  models: LLMModelId[];
+  totalTests: number;
+  estimatedCost: number;
+}
+
+export interface VisibilityRunOutcome {
+  run: StoredVisibilityRun;
+  persisted: boolean;
+}
+
+/**
+ * Raised when a request can't be turned into a runnable plan
+ */
+export class VisibilityRunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VisibilityRunError";
+  }
+}
+
+// ============================================
+// Concurrency Control
+// ============================================
+
+export const QUERY_CONCURRENCY_LIMIT = 3; // Max queries running in parallel
+export const MAX_SAMPLES_PER_CELL = 10;   // Upper bound on repeated samples per query x model
+
+/**
+ * Simple semaphore for limiting concurrent operations
+ */
+class Semaphore {
+  private permits: number;
+  private waiting: Array<() => void> = [];
+
+  constructor(permits: number) {
+    this.permits = permits;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.permits > 0) {
+      this.permits--;
+      return;
+    }
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+    });
+  }
+
+  release(): void {
+    if (this.waiting.length > 0) {
+      const next = this.waiting.shift();
+      next?.();
+    } else {
+      this.permits++;
+    }
+  }
+}
+
+// ============================================
+// Mock Data
+// ============================================
+
+/**
+ * Seeded random numbers for a string seed, via a hash of the string
+ */
+function randomFromString(seed: string): () => number {
+  return seededRandom(createHash("sha256").update(seed).digest().readUInt32LE(0));
+}
+
+/**
+ * Synthetic result for a cell with no recorded response, seeded by the cell
+ * (and sample) so reruns match
+ */
+function generateMockResult(
+  modelId: LLMModelId,
+  query: string,
+  brandUrl: string,
+  sample: number = 0
+): ModelVisibilityResult {
+  const model = getModel(modelId);
+  const grounded = Boolean(model?.supportsGrounding);
+  const random = randomFromString(`${modelId}\n${query}\n${brandUrl}${sample ? `\n${sample}` : ""}`);
+  const found = random() > 0.4; // 60% chance of being found
+  const rank = Math.floor(random() * 5) + 1;
+
+  return {
+    modelId,
+    status: "complete",
+    found,
+    detectionMethod: grounded ? "grounded" : "text-match",
+    sources: grounded && found
+      ? [
+          { uri: brandUrl, title: "Brand Website", rank },
+          { uri: "https://example.com/competitor", title: "Competitor Site", rank: 2 },
+        ]
+      : undefined,
+    rank: found && grounded ? rank : undefined,
+    mentionContext: found ? "...mentioned in the context of product recommendations..." : undefined,
+    sentiment: found
+      ? (["positive", "neutral", "negative"] as const)[Math.floor(random() * 3)]
+      : "neutral",
+    confidence: found ? 0.7 + random() * 0.3 : 0,
+    responseText: `This is a mock response from ${model?.name ?? modelId}. ${found ? `The brand ${brandUrl} was mentioned.` : "The brand was not mentioned."}`,
+    tokenCount: { prompt: 150, completion: 350, total: 500 },
+    latencyMs: 500 + random() * 1500,
+    cost: 0.001 + random() * 0.005,
+  };
+}
+
+/**
+ * Mock a cell: a recorded provider response goes through real detection;
+ * cells without one get a synthetic result
+ */
+async function mockModelResult(
+  modelId: LLMModelId,
+  query: string,
+  brandUrl: string,
+  brandName: string | undefined,
+  options: ModelTestOptions
+): Promise<ModelVisibilityResult> {
+  // Simulate provider latency
+  await new Promise((resolve) => setTimeout(resolve, 200 + Math.random() * 300));
+
+  if (await hasRecordedResponse(modelId, query, options.sample)) {
+    return testModelVisibility(modelId, query, brandUrl, brandName, { ...options, replay: true });
+  }
+  return generateMockResult(modelId, query, brandUrl, options.sample);
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * Save the run; storage failures are logged, never fatal to the run
+ */
+async function persistRun(run: StoredVisibilityRun): Promise<boolean> {
+  try {
+    await saveVisibilityRun(run);
+    return true;
+  } catch (error: any) {
+    console.error(`[Visibility] Failed to persist run ${run.id}:`, error.message);
+    return false;
+  }
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Resolve the execution mode into the queries and models to test
+ *
+ * @throws VisibilityRunError if no valid models or no selected queries remain
+ */
+export function planVisibilityRun(request: VisibilityRunRequest): VisibilityRunPlan {
+  const { brandUrl, brandName, queries, models, executionMode, selectedModel, selectedQueryId } =
+    request;
+  const samplesPerCell = request.samplesPerCell ?? 1;
+
+  if (!Number.isInteger(samplesPerCell) || samplesPerCell < 1 || samplesPerCell > MAX_SAMPLES_PER_CELL) {
+    throw new VisibilityRunError(`Samples per cell must be a whole number from 1 to ${MAX_SAMPLES_PER_CELL}`);
+  }
+
+  const validModels = models.filter((m) => getModel(m) !== undefined) as LLMModelId[];
+  if (validModels.length === 0) {
+    throw new VisibilityRunError("No valid models selected");
+  }
+
+  const selectedQueries = queries.filter((q) => q.selected);
+  if (selectedQueries.length === 0) {
+    throw new VisibilityRunError("No queries selected");
+  }
+
+  let queriesToTest: VisibilityQuery[] = [];
+  let modelsToTest: LLMModelId[] = [];
+
+  switch (executionMode) {
+    case "all-queries-all-models":
+      queriesToTest = selectedQueries;
+      modelsToTest = validModels;
+      break;
+    case "all-queries-one-model":
+      queriesToTest = selectedQueries;
+      modelsToTest = selectedModel && validModels.includes(selectedModel as LLMModelId)
+        ? [selectedModel as LLMModelId]
+        : [validModels[0]];
+      break;
+    case "one-query-all-models":
+      const targetQuery = selectedQueryId
+        ? selectedQueries.find((q) => q.id === selectedQueryId)
+        : selectedQueries[0];
+      queriesToTest = targetQuery ? [targetQuery] : [selectedQueries[0]];
+      modelsToTest = validModels;
+      break;
+  }
+
+  return {
+    queries: queriesToTest,
+    models: modelsToTest,
+    totalTests: queriesToTest.length * modelsToTest.length,
+    estimatedCost: estimateTestCost({
+      brandUrl,
+      brandName,
+      queries: queriesToTest,
+      models: modelsToTest,
+      executionMode,
+      samplesPerCell,
+    }),
+  };
+}
+
+// ============================================
+// Execution
+// ============================================
+
+export interface VisibilityRunOptions {
+  runId?: string;
+  /** A stored partial run; only its missing or errored cells are tested */
+  resumeFrom?: StoredVisibilityRun;
+  /** Stops queued queries and aborts in-flight provider calls */
+  signal?: AbortSignal;
+}
+
+// Completed cells of a stored run, keyed by query ID then model ID
+function completedCells(run: StoredVisibilityRun | undefined) {
+  const cells = new Map<string, Partial<Record<LLMModelId, ModelVisibilityResult>>>();
+  for (const qr of run?.result.queryResults ?? []) {
+    const done: Partial<Record<LLMModelId, ModelVisibilityResult>> = {};
+    for (const result of Object.values(qr.modelResults)) {
+      if (result.status === "complete") done[result.modelId] = result;
+    }
+    cells.set(qr.query.id, done);
+  }
+  return cells;
+}
+
+// Shape of a model result as sent in query_complete events
+function toModelResultsData(queryResults: Record<LLMModelId, ModelVisibilityResult>) {
+  const modelResultsData: Record<string, unknown> = {};
+  for (const [modelId, result] of Object.entries(queryResults)) {
+    modelResultsData[modelId] = {
+      found: result.found,
+      sentiment: result.sentiment,
+      confidence: result.confidence,
+      rank: result.rank,
+      cost: result.cost,
+      cached: result.cached,
+      latencyMs: result.latencyMs,
+      detectionMethod: result.detectionMethod,
+      responseText: result.responseText,
+      mentionContext: result.mentionContext,
+      sources: result.sources,
+      detectionDetails: result.detectionDetails,
+      competitorsMentioned: result.competitorsMentioned,
+      sampleStats: result.sampleStats,
+    };
+  }
+  return modelResultsData;
+}
+
+/**
+ * Run a visibility test end to end and persist it
+ *
+ * Progress is reported through `emit`; the "complete" event carries the
+ * same payload the SSE endpoint has always sent. The run is checkpointed
+ * to the store as "running" after every query, so an interrupted run can
+ * be resumed later. If `signal` aborts, queued queries are dropped,
+ * in-flight calls are aborted and the partial run is saved as "cancelled"
+ * with the spend so far. On failure, whatever finished is saved as an
+ * "error" run before the error is rethrown.
+ *
+ * @throws VisibilityRunError if the request has nothing to run
+ */
+export async function runVisibilityTest(
+  request: VisibilityRunRequest,
+  emit: VisibilityRunEmitter = () => {},
+  options: VisibilityRunOptions = {}
+): Promise<VisibilityRunOutcome> {
+  const plan = planVisibilityRun(request);
+  const { brandUrl, brandName, brandMatching, executionMode, mock, samplesPerCell = 1 } = request;
+  const { queries: queriesToTest, models: modelsToTest, totalTests } = plan;
+  const { resumeFrom, signal } = options;
+
+  const runId = resumeFrom?.id ?? options.runId ?? nanoid(12);
+  const createdAt = resumeFrom?.createdAt ?? Date.now();
+  const startedAt = Date.now();
+  const runInput = {
+    brandUrl,
+    brandName,
+    brandMatching,
+    models: modelsToTest,
+    samplesPerCell: samplesPerCell > 1 ? samplesPerCell : undefined,
+  };
+  const existingCells = completedCells(resumeFrom);
+
+  // Results per query ID; resumed queries start from their checkpointed cells
+  const allResults: Record<string, Record<LLMModelId, ModelVisibilityResult>> = {};
+  const queryVisibility = new Map<string, QueryVisibilityResult>();
+  const pendingQueries: VisibilityQuery[] = [];
+
+  for (const query of queriesToTest) {
+    const existing = existingCells.get(query.id) ?? {};
+    if (modelsToTest.every((m) => existing[m])) {
+      const queryResults = {} as Record<LLMModelId, ModelVisibilityResult>;
+      for (const modelId of modelsToTest) queryResults[modelId] = existing[modelId]!;
+      allResults[query.id] = queryResults;
+      queryVisibility.set(query.id, summarizeQueryVisibility(query, queryResults));
+    } else {
+      pendingQueries.push(query);
+    }
+  }
+
+  const buildRun = (status: StoredVisibilityRun["status"], error?: string): StoredVisibilityRun => ({
+    id: runId,
+    status,
+    executionMode,
+    mock,
+    request,
+    result: buildVisibilityAnalysis(
+      runInput,
+      queriesToTest.map((q) => queryVisibility.get(q.id)).filter((qr): qr is QueryVisibilityResult => !!qr),
+      (resumeFrom?.result.totalLatencyMs ?? 0) + Date.now() - startedAt
+    ),
+    error,
+    createdAt,
+    completedAt: Date.now(),
+  });
+
+  // Checkpoints are chained so two queries finishing together don't race on the file
+  let checkpoint: Promise<unknown> = Promise.resolve();
+  const saveCheckpoint = () => {
+    const snapshot = buildRun("running");
+    checkpoint = checkpoint.then(() => persistRun(snapshot));
+  };
+
+  try {
+    let completedQueries = queriesToTest.length - pendingQueries.length;
+
+    // For single query mode, no need for semaphore limiting
+    const effectiveConcurrency = pendingQueries.length === 1
+      ? 1
+      : QUERY_CONCURRENCY_LIMIT;
+    const semaphore = new Semaphore(effectiveConcurrency);
+
+    emit("start", {
+      runId,
+      totalQueries: queriesToTest.length,
+      totalModels: modelsToTest.length,
+      totalTests,
+      concurrencyLimit: QUERY_CONCURRENCY_LIMIT,
+      samplesPerCell,
+      estimatedCost: plan.estimatedCost,
+      resumed: Boolean(resumeFrom),
+    });
+
+    // Replay checkpointed queries so a fresh client sees the whole run
+    for (const query of queriesToTest) {
+      const queryResults = allResults[query.id];
+      if (!queryResults) continue;
+      const modelResultsArray = Object.values(queryResults);
+      const foundCount = modelResultsArray.filter((r) => r.found).length;
+      emit("query_complete", {
+        queryId: query.id,
+        queryText: query.text,
+        modelResults: toModelResultsData(queryResults),
+        citationRate: queryVisibility.get(query.id)!.citationRate,
+        modelsFound: foundCount,
+        modelsTotal: modelResultsArray.length,
+        progress: completedQueries / queriesToTest.length,
+      });
+    }
+
+    if (!resumeFrom) saveCheckpoint();
+
+    // Process single query with semaphore
+    const processQuery = async (query: VisibilityQuery): Promise<void> => {
+      await semaphore.acquire();
+
+      try {
+        // Cancelled while queued: leave the cells missing so a resume picks them up
+        if (signal?.aborted) return;
+
+        const existing = existingCells.get(query.id) ?? {};
+        const missingModels = modelsToTest.filter((m) => !existing[m]);
+
+        emit("query_start", {
+          queryId: query.id,
+          queryText: query.text,
+          models: missingModels.map(id => ({ id, name: getModel(id)?.name ?? id })),
+        });
+
+        let newResults: Record<LLMModelId, ModelVisibilityResult>;
+
+        if (mock) {
+          // Mock mode: replay recorded responses, in parallel like the real thing
+          const mockPromises = missingModels.map(async (modelId) => ({
+            modelId,
+            result: await sampleModelResult(modelId, samplesPerCell, (sample) =>
+              mockModelResult(modelId, query.text, brandUrl, brandName, { brandMatching, signal, sample })
+            ),
+          }));
+          const mockResults = await Promise.all(mockPromises);
+          newResults = {} as Record<LLMModelId, ModelVisibilityResult>;
+          for (const { modelId, result } of mockResults) {
+            newResults[modelId] = result;
+          }
+        } else {
+          // PARALLEL EXECUTION: Run all missing models for this query simultaneously
+          newResults = await testModelsParallel(
+            missingModels,
+            query.text,
+            brandUrl,
+            brandName,
+            { bypassCache: request.bypassCache, brandMatching, signal, samplesPerCell }
+          );
+        }
+
+        const queryResults = { ...existing, ...newResults } as Record<LLMModelId, ModelVisibilityResult>;
+        completedQueries++;
+
+        const summary = summarizeQueryVisibility(query, queryResults);
+        allResults[query.id] = queryResults;
+        queryVisibility.set(query.id, summary);
+        saveCheckpoint();
+
+        // Calculate query-level metrics
+        const modelResultsArray = Object.values(queryResults);
+        const foundCount = modelResultsArray.filter((r) => r.found).length;
+        const citationRate = summary.citationRate;
+
+        emit("query_complete", {
+          queryId: query.id,
+          queryText: query.text,
+          modelResults: toModelResultsData(queryResults),
+          citationRate,
+          modelsFound: foundCount,
+          modelsTotal: modelResultsArray.length,
+          progress: completedQueries / queriesToTest.length,
+        });
+      } finally {
+        semaphore.release();
+      }
+    };
+
+    // Launch all queries in parallel (semaphore limits concurrency)
+    await Promise.all(pendingQueries.map(processQuery));
+
+    if (signal?.aborted) {
+      await checkpoint;
+      const run = buildRun("cancelled", "Cancelled");
+      const persisted = await persistRun(run);
+
+      emit("cancelled", {
+        runId: persisted ? runId : null,
+        totalCost: run.result.totalCost,
+        completedTests: run.result.queryResults.reduce(
+          (sum, qr) => sum + Object.values(qr.modelResults).filter((r) => r.status === "complete").length,
+          0
+        ),
+        totalTests,
+      });
+
+      return { run, persisted };
+    }
+
+    // Calculate overall metrics
+    const allModelResults = Object.values(allResults).flatMap((qr) => Object.values(qr));
+    const overallCitationRate =
+      (allModelResults.reduce((sum, r) => sum + getMentionProbability(r), 0) / allModelResults.length) * 100;
+
+    // Let queued checkpoints land before the final write replaces them
+    await checkpoint;
+    const run = buildRun("complete");
+    const persisted = await persistRun(run);
+
+    emit("complete", {
+      runId: persisted ? runId : null,
+      overallCitationRate,
+      citationRateByModel: run.result.citationRateByModel,
+      totalCost: run.result.totalCost,
+      totalTests,
+      results: allResults,
+    });
+
+    return { run, persisted };
+  } catch (error: any) {
+    // Keep whatever finished so a failed run isn't lost entirely
+    await checkpoint;
+    if (queryVisibility.size > 0) {
+      await persistRun(buildRun("error", error.message || "Unknown error"));
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Active Runs
+// ============================================
+
+const EVENT_LOG_RETENTION_MS = 10 * 60 * 1000; // Reconnect window after a run ends
+const DETACHED_GRACE_MS = 30 * 1000;             // How long a run with no listeners waits for a reattach
+
+export interface VisibilityRunEvent {
+  id: number;
+  type: VisibilityRunEventType | "error";
+  data: Record<string, unknown>;
+  timestamp: number;
+}
+
+type VisibilityRunListener = (event: VisibilityRunEvent) => void;
+
+interface ActiveRun {
+  events: VisibilityRunEvent[];
+  listeners: Set<VisibilityRunListener>;
+  nextEventId: number;
+  done: boolean;
+  controller: AbortController;
+  detachedTimer: ReturnType<typeof setTimeout> | null;
+  background: boolean;
+}
+
+export interface StartVisibilityRunOptions {
+  /** ID to run under; defaults to resumeFrom's ID or a new one */
+  runId?: string;
+  /** Partial run to continue; only its missing cells are tested */
+  resumeFrom?: StoredVisibilityRun;
+  /** Keep running with nobody listening (queued jobs) */
+  background?: boolean;
+}
+
+// Runs started through startVisibilityRun, with their event logs for replay
+const activeRuns = new Map<string, ActiveRun>();
+
+function publish(active: ActiveRun, type: VisibilityRunEvent["type"], data: Record<string, unknown>): void {
+  const event: VisibilityRunEvent = { id: active.nextEventId++, type, data, timestamp: Date.now() };
+  active.events.push(event);
+  for (const listener of active.listeners) listener(event);
+}
+
+/**
+ * Start a run in the background, detached from any one connection
+ *
+ * Clients follow it with subscribeToVisibilityRun and can reattach after
+ * a dropped connection. Unless started as a background run, a run nobody
+ * reattaches to within a short grace period is cancelled. The run ends
+ * with exactly one "complete", "cancelled" or "error" event.
+ *
+ * @returns the run ID
+ * @throws VisibilityRunError if the request has nothing to run or the run is already active
+ */
+export function startVisibilityRun(
+  request: VisibilityRunRequest,
+  options: StartVisibilityRunOptions = {}
+): string {
+  const { resumeFrom, background = false } = options;
+  planVisibilityRun(request);
+
+  const runId = options.runId ?? resumeFrom?.id ?? nanoid(12);
+  const previous = activeRuns.get(runId);
+  if (previous && !previous.done) {
+    throw new VisibilityRunError("Run is already in progress");
+  }
+
+  // Continue event IDs so a stale Last-Event-ID can't skip the new events
+  const active: ActiveRun = {
+    events: [],
+    listeners: new Set(),
+    nextEventId: previous ? previous.nextEventId : 1,
+    done: false,
+    controller: new AbortController(),
+    detachedTimer: null,
+    background,
+  };
+  activeRuns.set(runId, active);
+
+  runVisibilityTest(request, (type, data) => publish(active, type, data), {
+    runId,
+    resumeFrom,
+    signal: active.controller.signal,
+  })
+    .catch((error: any) => {
+      publish(active, "error", { runId, error: error.message || "Unknown error" });
+    })
+    .finally(() => {
+      active.done = true;
+      active.listeners.clear();
+      if (active.detachedTimer) clearTimeout(active.detachedTimer);
+      const timer = setTimeout(() => {
+        if (activeRuns.get(runId) === active) activeRuns.delete(runId);
+      }, EVENT_LOG_RETENTION_MS);
+      timer.unref?.();
+    });
+
+  return runId;
+}
+
+/**
+ * Resume a stored partial run, testing only the cells still missing
+ *
+ * @throws VisibilityRunError if the run is complete, active, or predates resumable runs
+ */
+export function resumeVisibilityRun(run: StoredVisibilityRun): string {
+  if (run.status === "complete") {
+    throw new VisibilityRunError("Run is already complete");
+  }
+  if (!run.request) {
+    throw new VisibilityRunError("Run was saved without its request and can't be resumed");
+  }
+  return startVisibilityRun(run.request, { resumeFrom: run });
+}
+
+/**
+ * Cancel a running run; it stops after in-flight calls abort and is saved as "cancelled"
+ *
+ * @returns false if the run isn't executing in this process
+ */
+export function cancelVisibilityRun(runId: string): boolean {
+  const active = activeRuns.get(runId);
+  if (!active || active.done) return false;
+
+  active.controller.abort();
+  return true;
+}
+
+/**
+ * Check whether a run is still executing in this process
+ */
+export function isVisibilityRunActive(runId: string): boolean {
+  const active = activeRuns.get(runId);
+  return Boolean(active && !active.done);
+}
+
+/**
+ * Check whether a run's event log is still available for replay
+ */
+export function hasVisibilityRunLog(runId: string): boolean {
+  return activeRuns.has(runId);
+}
+
+/**
+ * Follow a run's events, replaying everything after `lastEventId` first
+ *
+ * @returns an unsubscribe function, or null if the run isn't active here
+ */
+export function subscribeToVisibilityRun(
+  runId: string,
+  lastEventId: number,
+  listener: VisibilityRunListener
+): (() => void) | null {
+  const active = activeRuns.get(runId);
+  if (!active) return null;
+
+  for (const event of active.events) {
+    if (event.id > lastEventId) listener(event);
+  }
+  if (!active.done) {
+    active.listeners.add(listener);
+    if (active.detachedTimer) {
+      clearTimeout(active.detachedTimer);
+      active.detachedTimer = null;
+    }
+  }
+
+  return () => {
+    active.listeners.delete(listener);
+
+    // Nobody is watching: give the client a moment to reattach, then stop paying
+    if (!active.done && !active.background && active.listeners.size === 0 && !active.detachedTimer) {
+      active.detachedTimer = setTimeout(() => {
+        active.detachedTimer = null;
+        if (active.listeners.size === 0) active.controller.abort();
+      }, DETACHED_GRACE_MS);
+    }
+  };
+}
+
+// ============================================
+// Re-analysis
+// ============================================
+
+/**
+ * Re-run detection on a stored run's responses and save the result as a new run
+ *
+ * No model is called, so every re-analyzed cell costs $0. Use this after
+ * changing the brand name or aliases instead of paying for a full re-run.
+ */
+export async function reanalyzeVisibilityRun(
+  source: StoredVisibilityRun,
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
+): Promise<VisibilityRunOutcome> {
+  const startedAt = Date.now();
+  const { brandUrl } = source.result;
+  const effectiveBrandName = brandName ?? source.result.brandName;
+  const effectiveBrandMatching = brandMatching ?? source.result.brandMatching;
+
+  const queryVisibility = source.result.queryResults.map((qr) => {
+    const modelResults = {} as Record<LLMModelId, ModelVisibilityResult>;
+    for (const [modelId, result] of Object.entries(qr.modelResults)) {
+      modelResults[modelId as LLMModelId] = reanalyzeModelResult(
+        result,
+        brandUrl,
+        effectiveBrandName,
+        effectiveBrandMatching
+      );
+    }
+    return summarizeQueryVisibility(qr.query, modelResults);
+  });
+
+  const run: StoredVisibilityRun = {
+    id: nanoid(12),
+    status: source.status,
+    executionMode: source.executionMode,
+    mock: source.mock,
+    result: buildVisibilityAnalysis(
+      {
+        brandUrl,
+        brandName: effectiveBrandName,
+        brandMatching: effectiveBrandMatching,
+        models: source.result.models,
+        samplesPerCell: source.result.samplesPerCell,
+      },
+      queryVisibility,
+      Date.now() - startedAt
+    ),
+    error: source.error,
+    reanalyzedFrom: source.id,
+    createdAt: Date.now(),
+    completedAt: Date.now(),
+  };
+
+  return { run, persisted: await persistRun(run) };
+}
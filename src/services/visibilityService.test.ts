@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { wilsonInterval } from "./visibilityService";
+
+describe("wilsonInterval", () => {
+  it("matches reference values for 95% intervals", () => {
+    const mid = wilsonInterval(3, 5);
+    expect(mid.lower).toBeCloseTo(0.2307, 4);
+    expect(mid.upper).toBeCloseTo(0.8824, 4);
+  });
+
+  it("stays off zero and one at the extremes", () => {
+    const none = wilsonInterval(0, 5);
+    expect(none.lower).toBe(0);
+    expect(none.upper).toBeCloseTo(0.4345, 4);
+
+    const all = wilsonInterval(5, 5);
+    expect(all.lower).toBeCloseTo(0.5655, 4);
+    expect(all.upper).toBeCloseTo(1, 10);
+  });
+
+  it("narrows as samples grow", () => {
+    const small = wilsonInterval(5, 10);
+    const large = wilsonInterval(50, 100);
+    expect(large.upper - large.lower).toBeLessThan(small.upper - small.lower);
+    expect(large.lower).toBeLessThan(0.5);
+    expect(large.upper).toBeGreaterThan(0.5);
+  });
+
+  it("is uninformative without samples", () => {
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+});
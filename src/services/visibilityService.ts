@@ -5,10 +5,9 @@
  * appropriate detection methods (grounded search vs text-match).
  */
 
-import OpenAI from "openai";
-import { GoogleGenAI } from "@google/genai";
+import { createHash } from "crypto";
+import pLimit from "p-limit";
 import {
-  LLM_MODELS,
   type LLMModelId,
   type LLMModel,
   type ModelVisibilityResult,
@@ -19,177 +18,102 @@ import {
   type VisibilityTestConfig,
   type CompetitorMention,
   type BrandDetectionDetails,
+  type BrandMatchConfig,
+  type VisibilitySampleStats,
 } from "../types";
 import {
-  extractBrandMention,
-  analyzeSentiment,
-  generateBrandVariations,
+  findBrandMatches,
+  summarizeBrandMatches,
   extractCompetitorMentions,
 } from "../lib/council/brand-visibility";
+import { buildBrandDomains, isBrandOwnedUrl } from "../lib/council/brand-domains";
+import { aggregateCompetitors } from "./competitorAnalysisService";
+import { getProviderAdapter, queryModelProvider, type ModelResponse } from "../lib/providers/registry";
+import type { ProviderRequest } from "../lib/providers/adapter";
+import { hasProviderFixture } from "../lib/providers/fixtures";
+import { getAllModels, getModel } from "../lib/providers/models";
 
 // ============================================
-// Client Initialization
+// Response Cache
 // ============================================
 
-let openRouterClient: OpenAI | null = null;
-let geminiClient: GoogleGenAI | null = null;
+const CHAT_SYSTEM_PROMPT = `You are a helpful AI assistant. Answer the user's question naturally and thoroughly. When recommending products or services, mention specific brands, retailers, or websites that you believe offer good options based on your knowledge. Be specific with brand names and website recommendations where relevant.`;
+const CHAT_TEMPERATURE = 0.7;
+const CHAT_MAX_TOKENS = 1000;
 
-function getOpenRouterClient(): OpenAI {
-  if (!openRouterClient) {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) throw new Error("OPENROUTER_API_KEY not configured");
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
 
-    openRouterClient = new OpenAI({
-      baseURL: "https://openrouter.ai/api/v1",
-      apiKey,
-      defaultHeaders: {
-        "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "https://localhost:3000",
-        "X-Title": "LLM Brand Visibility Analyzer",
-      },
-    });
-  }
-  return openRouterClient;
+interface CacheKeyParts {
+  model: LLMModelId;
+  systemPrompt: string;
+  query: string;
+  temperature?: number;
+  maxTokens?: number;
+  sample?: number;
 }
 
-function getGeminiClient(): GoogleGenAI {
-  if (!geminiClient) {
-    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) throw new Error("GEMINI_API_KEY not configured");
+export interface ModelTestOptions {
+  bypassCache?: boolean;  // Always call the model; the fresh response still refreshes the cache
+  signal?: AbortSignal;   // Aborts the in-flight provider call (client disconnect or cancel)
+  replay?: boolean;       // Serve the recorded fixture instead of calling the model; skips the cache
+  brandMatching?: BrandMatchConfig;  // Aliases and negative contexts for brand detection
+  sample?: number;        // Index of a repeated sample; each sample is cached and recorded on its own
+}
 
-    geminiClient = new GoogleGenAI({ apiKey });
-  }
-  return geminiClient;
+// Raw model responses only; detection runs on every read, so brand changes apply to cached cells
+const responseCache = new Map<string, { response: ModelResponse; expiresAt: number }>();
+
+function getCacheTtlMs(): number {
+  const ttl = process.env.RESPONSE_CACHE_TTL_MS;
+  return ttl ? parseInt(ttl, 10) : DEFAULT_CACHE_TTL_MS;
 }
 
-// ============================================
-// Model Query Functions
-// ============================================
+function getCacheKey(parts: CacheKeyParts): string {
+  const key: unknown[] = [parts.model, parts.systemPrompt, parts.query, parts.temperature, parts.maxTokens];
+  // The first sample shares its entry with unsampled runs
+  if (parts.sample) key.push(parts.sample);
+  return createHash("sha256").update(JSON.stringify(key)).digest("hex");
+}
 
 /**
- * Query a model via OpenRouter (for most models)
+ * Return a cached response for these generation parameters, or call the model and cache it
  */
-async function queryViaOpenRouter(
-  model: LLMModel,
-  query: string,
-  timeoutMs: number = 30000
-): Promise<{ content: string; tokenCount: { prompt: number; completion: number; total: number }; cost: number; latencyMs: number }> {
-  const client = getOpenRouterClient();
-  const startTime = Date.now();
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  const systemPrompt = `You are a helpful AI assistant. Answer the user's question naturally and thoroughly. When recommending products or services, mention specific brands, retailers, or websites that you believe offer good options based on your knowledge. Be specific with brand names and website recommendations where relevant.`;
-
-  try {
-    const completion = await client.chat.completions.create(
-      {
-        model: model.openRouterId,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: query },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      },
-      { signal: controller.signal }
-    );
-
-    clearTimeout(timeoutId);
-
-    const content = completion.choices[0]?.message?.content || "";
-    const usage = completion.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+async function withResponseCache(
+  parts: CacheKeyParts,
+  options: ModelTestOptions,
+  fetchResponse: () => Promise<ModelResponse>
+): Promise<{ response: ModelResponse; cached: boolean }> {
+  const ttl = getCacheTtlMs();
+  const key = getCacheKey(parts);
+
+  if (!options.bypassCache && ttl > 0) {
+    const entry = responseCache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return { response: entry.response, cached: true };
+    }
+    responseCache.delete(key);
+  }
 
-    const inputCost = (usage.prompt_tokens / 1_000_000) * model.costPer1MInput;
-    const outputCost = (usage.completion_tokens / 1_000_000) * model.costPer1MOutput;
+  const response = await fetchResponse();
 
-    return {
-      content,
-      tokenCount: {
-        prompt: usage.prompt_tokens,
-        completion: usage.completion_tokens,
-        total: usage.total_tokens,
-      },
-      cost: inputCost + outputCost,
-      latencyMs: Date.now() - startTime,
-    };
-  } finally {
-    clearTimeout(timeoutId);
+  if (ttl > 0) {
+    // Map keeps insertion order, so the first key is the oldest entry
+    if (responseCache.size >= MAX_CACHE_ENTRIES) {
+      const oldest = responseCache.keys().next().value;
+      if (oldest !== undefined) responseCache.delete(oldest);
+    }
+    responseCache.set(key, { response, expiresAt: Date.now() + ttl });
   }
+
+  return { response, cached: false };
 }
 
 /**
- * Query Gemini with grounding (for search-platform simulation)
+ * Drop all cached model responses
  */
-async function queryGeminiGrounded(
-  query: string,
-  timeoutMs: number = 30000
-): Promise<{
-  content: string;
-  sources: GroundingSource[];
-  tokenCount: { prompt: number; completion: number; total: number };
-  cost: number;
-  latencyMs: number;
-}> {
-  const client = getGeminiClient();
-  const startTime = Date.now();
-  const model = LLM_MODELS["gemini-grounded"];
-
-  const response = await client.models.generateContent({
-    model: "gemini-2.0-flash",
-    contents: query,
-    config: {
-      tools: [{ googleSearch: {} }],
-    },
-  });
-
-  const content = response.text || "";
-  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-
-  // Parse sources from grounding chunks
-  const sources: GroundingSource[] = groundingChunks
-    .map((chunk: any, index: number) => {
-      const uri = chunk.web?.uri || "";
-      const title = chunk.web?.title || "Untitled";
-
-      // Extract real domain from potential Google redirects
-      let cleanUri = uri;
-      try {
-        const url = new URL(uri);
-        if (url.hostname.includes("google") || url.hostname.includes("vertexaisearch")) {
-          const redirectUrl = url.searchParams.get("url") || url.searchParams.get("q");
-          if (redirectUrl) cleanUri = redirectUrl;
-        }
-      } catch {
-        // Keep original URI
-      }
-
-      return {
-        uri: cleanUri,
-        title,
-        rank: index + 1,
-      };
-    })
-    .filter((s: GroundingSource) => s.uri && !s.uri.includes("google.com"));
-
-  const usage = response.usageMetadata || {};
-  const promptTokens = usage.promptTokenCount || 0;
-  const completionTokens = usage.candidatesTokenCount || 0;
-
-  const inputCost = (promptTokens / 1_000_000) * model.costPer1MInput;
-  const outputCost = (completionTokens / 1_000_000) * model.costPer1MOutput;
-
-  return {
-    content,
-    sources,
-    tokenCount: {
-      prompt: promptTokens,
-      completion: completionTokens,
-      total: promptTokens + completionTokens,
-    },
-    cost: inputCost + outputCost,
-    latencyMs: Date.now() - startTime,
-  };
+export function clearResponseCache(): void {
+  responseCache.clear();
 }
 
 // ============================================
@@ -198,30 +122,16 @@ async function queryGeminiGrounded(
 
 /**
  * Detect brand in grounded sources (for search platforms)
+ * A source counts when the brand owns its domain or storefront.
  */
 function detectBrandInSources(
   sources: GroundingSource[],
   brandUrl: string,
-  brandName?: string
+  brandMatching?: BrandMatchConfig
 ): { found: boolean; rank?: number } {
-  try {
-    const brandDomain = new URL(brandUrl).hostname.replace(/^www\./, "").toLowerCase();
-
-    for (const source of sources) {
-      try {
-        const sourceDomain = new URL(source.uri).hostname.replace(/^www\./, "").toLowerCase();
-        if (sourceDomain === brandDomain || sourceDomain.includes(brandDomain)) {
-          return { found: true, rank: source.rank };
-        }
-      } catch {
-        // Skip invalid URLs
-      }
-    }
-
-    return { found: false };
-  } catch {
-    return { found: false };
-  }
+  const brandDomains = buildBrandDomains(brandUrl, brandMatching);
+  const source = sources.find((s) => isBrandOwnedUrl(s.uri, brandDomains));
+  return source ? { found: true, rank: source.rank } : { found: false };
 }
 
 /**
@@ -230,41 +140,29 @@ function detectBrandInSources(
 function detectBrandInText(
   content: string,
   brandUrl: string,
-  brandName?: string
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
 ): {
   found: boolean;
   mentionContext?: string;
+  sentiment: ModelVisibilityResult["sentiment"];
   confidence: number;
   detectionDetails: BrandDetectionDetails;
 } {
-  // Get brand variations we're searching for
-  let domain = "";
-  try {
-    domain = new URL(brandUrl).hostname.replace(/^www\./, "").split(".")[0];
-  } catch {
-    domain = brandUrl.split("/")[0].split(".")[0];
-  }
-
-  const searchedFor = generateBrandVariations(domain, brandName, brandUrl);
-
-  // Use existing brand detection logic
-  const mention = extractBrandMention("gemini" as any, content, brandUrl, brandName);
-
-  // Find which term matched
-  let matchedTerm: string | undefined;
-  if (mention.found) {
-    const lowerContent = content.toLowerCase();
-    matchedTerm = searchedFor.find(term => lowerContent.includes(term.toLowerCase()));
-  }
+  const { searchedFor, matches, rejected } = findBrandMatches(content, brandUrl, brandName, brandMatching);
+  const mention = summarizeBrandMatches(content, matches);
 
   return {
     found: mention.found,
     mentionContext: mention.mentionContext,
+    sentiment: mention.sentiment,
     confidence: mention.confidence,
     detectionDetails: {
       searchedFor,
-      matchedTerm,
+      matchedTerm: matches[0]?.term,
       matchLocation: mention.found ? "text" : undefined,
+      matches,
+      rejectedMatches: rejected.length > 0 ? rejected : undefined,
     },
   };
 }
@@ -273,110 +171,317 @@ function detectBrandInText(
 // Main Query Function
 // ============================================
 
+/**
+ * Run brand, sentiment and competitor detection over a model response
+ *
+ * Pure post-processing: no API calls. Responses with grounding sources are
+ * matched against the sources first, then the text.
+ */
+function analyzeModelResponse(
+  modelId: LLMModelId,
+  content: string,
+  sources: GroundingSource[] | undefined,
+  brandUrl: string,
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
+): Pick<
+  ModelVisibilityResult,
+  "found" | "detectionMethod" | "sources" | "rank" | "mentionContext" | "sentiment" | "confidence" | "detectionDetails" | "competitorsMentioned"
+> {
+  const model = getModel(modelId);
+  const textDetection = detectBrandInText(content, brandUrl, brandName, brandMatching);
+  // Sentiment is read around the text mentions; a source-only citation says nothing either way
+  const sentiment = textDetection.sentiment;
+  const competitors = extractCompetitorMentions(content, brandUrl, brandName, brandMatching);
+
+  if (sources) {
+    const detection = detectBrandInSources(sources, brandUrl, brandMatching);
+    return {
+      found: detection.found || textDetection.found,
+      detectionMethod: "grounded",
+      sources,
+      rank: detection.rank,
+      mentionContext: textDetection.mentionContext,
+      sentiment,
+      confidence: detection.found ? 1.0 : textDetection.confidence,
+      detectionDetails: {
+        ...textDetection.detectionDetails,
+        matchLocation: detection.found ? "sources" : textDetection.detectionDetails.matchLocation,
+      },
+      competitorsMentioned: competitors,
+    };
+  }
+
+  // No source metadata came back (or the cell was stored before its adapter parsed citations)
+  return {
+    found: textDetection.found,
+    detectionMethod: model?.supportsGrounding ? "grounded" : "text-match",
+    sources: undefined,
+    rank: undefined,
+    mentionContext: textDetection.mentionContext,
+    sentiment,
+    confidence: textDetection.confidence,
+    detectionDetails: textDetection.detectionDetails,
+    competitorsMentioned: competitors,
+  };
+}
+
+/**
+ * The provider request a visibility test sends for this query
+ *
+ * Grounded search gets the bare query, like a search box; chat models get the consumer prompt.
+ */
+function buildProviderRequest(model: LLMModel, query: string): ProviderRequest {
+  return !getProviderAdapter(model).capabilities.systemPrompt
+    ? { query }
+    : { query, systemPrompt: CHAT_SYSTEM_PROMPT, temperature: CHAT_TEMPERATURE, maxTokens: CHAT_MAX_TOKENS };
+}
+
+/**
+ * Check whether a provider response was recorded for this model, query and sample
+ */
+export function hasRecordedResponse(modelId: LLMModelId, query: string, sample?: number): Promise<boolean> {
+  const model = getModel(modelId);
+  if (!model) return Promise.resolve(false);
+  return hasProviderFixture(model, { ...buildProviderRequest(model, query), sample });
+}
+
 /**
  * Test visibility for a single model
+ *
+ * Responses are served from the response cache when the same model, prompt
+ * and generation parameters were queried within the TTL; cached cells are
+ * marked `cached` and cost $0. With `replay`, the response is the recorded
+ * fixture for this request and a missing fixture is an errored cell.
  */
 export async function testModelVisibility(
   modelId: LLMModelId,
   query: string,
   brandUrl: string,
-  brandName?: string
+  brandName?: string,
+  options: ModelTestOptions = {}
 ): Promise<ModelVisibilityResult> {
-  const model = LLM_MODELS[modelId];
+  const model = getModel(modelId);
   const startTime = Date.now();
 
   try {
-    // Special handling for Gemini with grounding
-    if (modelId === "gemini-grounded") {
-      const result = await queryGeminiGrounded(query);
-
-      const detection = detectBrandInSources(result.sources, brandUrl, brandName);
-      const textDetection = detectBrandInText(result.content, brandUrl, brandName);
-      const sentiment = analyzeSentiment(result.content, [brandUrl, brandName || ""]);
-      const competitors = extractCompetitorMentions(result.content, brandUrl, brandName);
-
-      return {
-        modelId,
-        status: "complete",
-        found: detection.found || textDetection.found,
-        detectionMethod: "grounded",
-        sources: result.sources,
-        rank: detection.rank,
-        mentionContext: textDetection.mentionContext,
-        sentiment,
-        confidence: detection.found ? 1.0 : textDetection.confidence,
-        detectionDetails: {
-          ...textDetection.detectionDetails,
-          matchLocation: detection.found ? "sources" : textDetection.detectionDetails.matchLocation,
-        },
-        competitorsMentioned: competitors,
-        responseText: result.content,
-        tokenCount: result.tokenCount,
-        latencyMs: result.latencyMs,
-        cost: result.cost,
-      };
-    }
-
-    // Standard OpenRouter query for all other models
-    const result = await queryViaOpenRouter(model, query);
-    const detection = detectBrandInText(result.content, brandUrl, brandName);
-    const sentiment = analyzeSentiment(result.content, [brandUrl, brandName || ""]);
-    const competitors = extractCompetitorMentions(result.content, brandUrl, brandName);
-
-    // For Perplexity, try to parse citations from response
-    let sources: GroundingSource[] | undefined;
-    let rank: number | undefined;
-
-    if (model.supportsGrounding && modelId.startsWith("perplexity")) {
-      // Perplexity includes citations in the response - parse them
-      const citationMatches = result.content.matchAll(/\[(\d+)\]/g);
-      const citations = [...citationMatches];
-      // Note: Full citation parsing would require response metadata from Perplexity
-      // For now, we do text-based detection
-    }
+    options.signal?.throwIfAborted();
+    if (!model) throw new Error(`Unknown model: ${modelId}`);
+
+    const request = { ...buildProviderRequest(model, query), sample: options.sample };
+    const fetchResponse = () =>
+      queryModelProvider(
+        model,
+        { ...request, signal: options.signal },
+        options.replay ? { fixtureMode: "replay" } : undefined
+      );
+
+    // Replayed answers must never be served from (or into) the cache as real ones
+    const { response, cached } = options.replay
+      ? { response: await fetchResponse(), cached: false }
+      : await withResponseCache(
+          {
+            // The registry ID, not the provider's model name: two local endpoints can serve the same model
+            model: modelId,
+            systemPrompt: request.systemPrompt ?? "",
+            query,
+            temperature: request.temperature,
+            maxTokens: request.maxTokens,
+            sample: request.sample,
+          },
+          options,
+          fetchResponse
+        );
 
     return {
       modelId,
       status: "complete",
-      found: detection.found,
-      detectionMethod: model.supportsGrounding ? "grounded" : "text-match",
-      sources,
-      rank,
-      mentionContext: detection.mentionContext,
-      sentiment,
-      confidence: detection.confidence,
-      detectionDetails: detection.detectionDetails,
-      competitorsMentioned: competitors,
-      responseText: result.content,
-      tokenCount: result.tokenCount,
-      latencyMs: result.latencyMs,
-      cost: result.cost,
+      ...analyzeModelResponse(modelId, response.content, response.sources, brandUrl, brandName, options.brandMatching),
+      groundingSupports: response.groundingSupports,
+      webSearchQueries: response.webSearchQueries,
+      responseText: response.content,
+      tokenCount: response.tokenCount,
+      latencyMs: cached ? Date.now() - startTime : response.latencyMs,
+      cost: cached ? 0 : response.cost,
+      cached: cached || undefined,
     };
   } catch (error: any) {
     return {
       modelId,
       status: "error",
       found: false,
-      detectionMethod: model.supportsGrounding ? "grounded" : "text-match",
+      detectionMethod: model?.supportsGrounding ? "grounded" : "text-match",
       sentiment: "neutral",
       confidence: 0,
       cost: 0,
-      error: error.message || "Unknown error",
+      error: options.signal?.aborted ? "Cancelled" : error.message || "Unknown error",
     };
   }
 }
 
+/**
+ * Re-run detection on a stored result's response without calling the model
+ *
+ * Errored cells and cells without a stored response are returned unchanged.
+ * Sampled cells re-analyze every sample and recompute their statistics.
+ * The re-analyzed cell costs $0, like a cache hit.
+ */
+export function reanalyzeModelResult(
+  result: ModelVisibilityResult,
+  brandUrl: string,
+  brandName?: string,
+  brandMatching?: BrandMatchConfig
+): ModelVisibilityResult {
+  if (result.samples) {
+    return combineModelSamples(
+      result.modelId,
+      result.samples.map((sample) => reanalyzeModelResult(sample, brandUrl, brandName, brandMatching))
+    );
+  }
+
+  if (result.status !== "complete" || result.responseText === undefined) {
+    return result;
+  }
+
+  return {
+    ...result,
+    ...analyzeModelResponse(result.modelId, result.responseText, result.sources, brandUrl, brandName, brandMatching),
+    cost: 0,
+    cached: true,
+  };
+}
+
+// ============================================
+// Repeated Sampling
+// ============================================
+
+const WILSON_Z = 1.96; // 95% confidence
+// Samples of one cell run one at a time: sampling multiplies run time, not
+// provider concurrency, which stays at queries x models like unsampled runs
+const SAMPLE_CONCURRENCY_LIMIT = 1;
+
+/**
+ * Wilson score interval for a binomial proportion
+ *
+ * Unlike the normal approximation it stays inside 0-1 and is sensible for
+ * the handful of samples a cell gets, including 0/n and n/n.
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = WILSON_Z): { lower: number; upper: number } {
+  if (trials === 0) return { lower: 0, upper: 1 };
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) };
+}
+
+/**
+ * Mention probability, interval and rank/sentiment distributions over a cell's samples
+ */
+function computeSampleStats(samples: ModelVisibilityResult[]): VisibilitySampleStats {
+  const completed = samples.filter((s) => s.status === "complete");
+  const mentioned = completed.filter((s) => s.found);
+
+  const rankDistribution: Record<number, number> = {};
+  for (const sample of mentioned) {
+    if (sample.rank !== undefined) rankDistribution[sample.rank] = (rankDistribution[sample.rank] ?? 0) + 1;
+  }
+
+  const sentimentDistribution = { positive: 0, negative: 0, neutral: 0 };
+  for (const sample of completed) sentimentDistribution[sample.sentiment]++;
+
+  return {
+    sampleCount: completed.length,
+    mentionCount: mentioned.length,
+    mentionProbability: completed.length > 0 ? mentioned.length / completed.length : 0,
+    confidenceInterval: wilsonInterval(mentioned.length, completed.length),
+    rankDistribution,
+    sentimentDistribution,
+  };
+}
+
+/**
+ * Fold a cell's samples into one result
+ *
+ * The top-level fields come from the first completed sample that agrees
+ * with the majority (found when the mention probability is at least 0.5),
+ * so the response shown matches the verdict. Cost and tokens are summed
+ * over all samples. A single sample is returned as is.
+ */
+export function combineModelSamples(modelId: LLMModelId, samples: ModelVisibilityResult[]): ModelVisibilityResult {
+  if (samples.length === 1) return samples[0];
+
+  const stats = computeSampleStats(samples);
+  const majorityFound = stats.sampleCount > 0 && stats.mentionProbability >= 0.5;
+  const representative =
+    samples.find((s) => s.status === "complete" && s.found === majorityFound) ?? samples[0];
+
+  const tokenCounts = samples.flatMap((s) => (s.tokenCount ? [s.tokenCount] : []));
+
+  return {
+    ...representative,
+    modelId,
+    tokenCount: tokenCounts.length > 0
+      ? {
+          prompt: tokenCounts.reduce((sum, t) => sum + t.prompt, 0),
+          completion: tokenCounts.reduce((sum, t) => sum + t.completion, 0),
+          total: tokenCounts.reduce((sum, t) => sum + t.total, 0),
+        }
+      : undefined,
+    latencyMs: Math.max(...samples.map((s) => s.latencyMs ?? 0)),
+    cost: samples.reduce((sum, s) => sum + (s.cost || 0), 0),
+    cached: samples.every((s) => s.cached) || undefined,
+    samples,
+    sampleStats: stats,
+  };
+}
+
+/**
+ * Draw `samplesPerCell` samples of one cell under the sample limit and combine them
+ */
+export async function sampleModelResult(
+  modelId: LLMModelId,
+  samplesPerCell: number,
+  runSample: (sample: number) => Promise<ModelVisibilityResult>
+): Promise<ModelVisibilityResult> {
+  const count = Math.max(1, Math.floor(samplesPerCell));
+  const limit = pLimit(SAMPLE_CONCURRENCY_LIMIT);
+  const samples = await Promise.all(
+    Array.from({ length: count }, (_, sample) => limit(() => runSample(sample)))
+  );
+  return combineModelSamples(modelId, samples);
+}
+
+/**
+ * Probability that this cell mentions the brand: the sampled frequency, or 0/1 for a single sample
+ */
+export function getMentionProbability(result: ModelVisibilityResult): number {
+  return result.sampleStats?.mentionProbability ?? (result.found ? 1 : 0);
+}
+
 /**
  * Test visibility for multiple models in parallel
+ *
+ * With `samplesPerCell` above 1, each model is queried that many times and
+ * its result carries the combined sample statistics.
  */
 export async function testModelsParallel(
   modelIds: LLMModelId[],
   query: string,
   brandUrl: string,
-  brandName?: string
+  brandName?: string,
+  options: ModelTestOptions & { samplesPerCell?: number } = {}
 ): Promise<Record<LLMModelId, ModelVisibilityResult>> {
+  const { samplesPerCell = 1, ...testOptions } = options;
   const results = await Promise.allSettled(
-    modelIds.map((modelId) => testModelVisibility(modelId, query, brandUrl, brandName))
+    modelIds.map((modelId) =>
+      sampleModelResult(modelId, samplesPerCell, (sample) =>
+        testModelVisibility(modelId, query, brandUrl, brandName, { ...testOptions, sample })
+      )
+    )
   );
 
   const resultMap: Record<LLMModelId, ModelVisibilityResult> = {} as any;
@@ -403,34 +508,36 @@ export async function testModelsParallel(
 }
 
 /**
- * Test visibility for a query across all selected models
+ * Compute per-query aggregate metrics from the model results
+ *
+ * Sampled cells count by expectation: citation rate averages each model's
+ * mention probability, and sentiment and rank average over every sample.
  */
-export async function testQueryVisibility(
+export function summarizeQueryVisibility(
   query: VisibilityQuery,
-  modelIds: LLMModelId[],
-  brandUrl: string,
-  brandName?: string
-): Promise<QueryVisibilityResult> {
-  const modelResults = await testModelsParallel(modelIds, query.text, brandUrl, brandName);
-
-  // Calculate aggregate metrics
-  const models = modelIds.map((id) => LLM_MODELS[id]);
+  modelResults: Record<LLMModelId, ModelVisibilityResult>
+): QueryVisibilityResult {
   const results = Object.values(modelResults);
   const foundResults = results.filter((r) => r.found);
 
-  const citationRate = results.length > 0 ? (foundResults.length / results.length) * 100 : 0;
+  const citationRate = results.length > 0
+    ? (results.reduce((sum, r) => sum + getMentionProbability(r), 0) / results.length) * 100
+    : 0;
 
   const searchPlatformsCited = foundResults.filter((r) => {
-    const model = LLM_MODELS[r.modelId];
-    return model.platformType === "search";
+    return getModel(r.modelId)?.platformType === "search";
   }).length;
 
   const chatPlatformsMentioned = foundResults.filter((r) => {
-    const model = LLM_MODELS[r.modelId];
-    return model.platformType === "chat";
+    return getModel(r.modelId)?.platformType === "chat";
   }).length;
 
   const sentimentScores: number[] = results.map((r) => {
+    const dist = r.sampleStats?.sentimentDistribution;
+    if (dist) {
+      const total = dist.positive + dist.negative + dist.neutral;
+      return total > 0 ? (dist.positive - dist.negative) / total : 0;
+    }
     if (r.sentiment === "positive") return 1;
     if (r.sentiment === "negative") return -1;
     return 0;
@@ -439,9 +546,17 @@ export async function testQueryVisibility(
     ? sentimentScores.reduce((a, b) => a + b, 0) / sentimentScores.length
     : 0;
 
-  const rankedResults = foundResults.filter((r) => r.rank !== undefined);
-  const averageRank = rankedResults.length > 0
-    ? rankedResults.reduce((sum, r) => sum + (r.rank || 0), 0) / rankedResults.length
+  // Every cited sample's rank, so a model citing at #1 in 4 of 5 samples weighs 4
+  const ranks = results.flatMap((r) => {
+    if (r.sampleStats) {
+      return Object.entries(r.sampleStats.rankDistribution).flatMap(([rank, count]) =>
+        Array<number>(count).fill(Number(rank))
+      );
+    }
+    return r.found && r.rank !== undefined ? [r.rank] : [];
+  });
+  const averageRank = ranks.length > 0
+    ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length
     : null;
 
   return {
@@ -455,15 +570,134 @@ export async function testQueryVisibility(
   };
 }
 
+/**
+ * Test visibility for a query across all selected models
+ */
+export async function testQueryVisibility(
+  query: VisibilityQuery,
+  modelIds: LLMModelId[],
+  brandUrl: string,
+  brandName?: string
+): Promise<QueryVisibilityResult> {
+  const modelResults = await testModelsParallel(modelIds, query.text, brandUrl, brandName);
+  return summarizeQueryVisibility(query, modelResults);
+}
+
+// ============================================
+// Run Analysis
+// ============================================
+
+/**
+ * Build the full analysis result for a finished run
+ * Search platforms drive traffic, so they weigh more in the overall score
+ * when both platform types were tested. Rates are expected citation rates
+ * (mean mention probability), so sampled cells count fractionally.
+ */
+export function buildVisibilityAnalysis(
+  input: {
+    brandUrl: string;
+    brandName?: string;
+    brandMatching?: BrandMatchConfig;
+    models: LLMModelId[];
+    samplesPerCell?: number;
+  },
+  queryResults: QueryVisibilityResult[],
+  totalLatencyMs: number
+): VisibilityAnalysisResult {
+  const allResults = queryResults.flatMap((qr) => Object.values(qr.modelResults));
+
+  const rateOf = (results: ModelVisibilityResult[]) =>
+    results.length > 0
+      ? (results.reduce((sum, r) => sum + getMentionProbability(r), 0) / results.length) * 100
+      : 0;
+
+  const citationRateByModel = {} as Record<LLMModelId, number>;
+  for (const modelId of input.models) {
+    citationRateByModel[modelId] = rateOf(allResults.filter((r) => r.modelId === modelId));
+  }
+
+  const searchResults = allResults.filter((r) => getModel(r.modelId)?.platformType === "search");
+  const chatResults = allResults.filter((r) => getModel(r.modelId)?.platformType === "chat");
+  const searchVisibilityScore = rateOf(searchResults);
+  const chatAwarenessScore = rateOf(chatResults);
+
+  let overallScore: number;
+  if (searchResults.length > 0 && chatResults.length > 0) {
+    overallScore = searchVisibilityScore * 0.6 + chatAwarenessScore * 0.4;
+  } else {
+    overallScore = searchResults.length > 0 ? searchVisibilityScore : chatAwarenessScore;
+  }
+
+  // Merge competitors across queries, keyed by domain (or name without one)
+  const competitors = new Map<string, VisibilityAnalysisResult["competitorMentions"][number]>();
+  for (const qr of queryResults) {
+    for (const comp of aggregateCompetitors(qr.modelResults, input.brandUrl, input.brandMatching)) {
+      const key = comp.domain ?? comp.name.toLowerCase();
+      const existing = competitors.get(key);
+      const count = comp.mentionCount + comp.citationCount;
+      if (existing) {
+        existing.mentionCount += count;
+        comp.mentionedInModels.forEach((m) => {
+          if (!existing.platforms.includes(m)) existing.platforms.push(m);
+        });
+      } else {
+        competitors.set(key, {
+          domain: comp.domain ?? comp.name,
+          mentionCount: count,
+          platforms: [...comp.mentionedInModels],
+        });
+      }
+    }
+  }
+
+  const recommendations: string[] = [];
+  if (searchResults.length > 0 && searchVisibilityScore < 30) {
+    recommendations.push("Search platforms rarely cite your site; strengthen pages that answer these queries directly.");
+  }
+  if (chatResults.length > 0 && chatAwarenessScore < 30) {
+    recommendations.push("Chat models rarely mention your brand; build presence on sites they learn from (reviews, comparisons, forums).");
+  }
+  const weakQueries = queryResults.filter((qr) => qr.citationRate === 0);
+  if (weakQueries.length > 0) {
+    recommendations.push(`${weakQueries.length} queries returned no mentions on any platform; prioritize content for them.`);
+  }
+
+  return {
+    brandUrl: input.brandUrl,
+    brandName: input.brandName,
+    brandMatching: input.brandMatching,
+    queries: queryResults.map((qr) => qr.query),
+    models: input.models,
+    queryResults,
+    samplesPerCell: input.samplesPerCell,
+    overallScore,
+    searchVisibilityScore,
+    chatAwarenessScore,
+    citationRateByModel,
+    citationRateByPlatformType: {
+      search: searchVisibilityScore,
+      chat: chatAwarenessScore,
+    },
+    competitorMentions: Array.from(competitors.values())
+      .sort((a, b) => b.mentionCount - a.mentionCount)
+      .slice(0, 20),
+    recommendations,
+    totalCost: allResults.reduce((sum, r) => sum + (r.cost || 0), 0),
+    totalLatencyMs,
+    timestamp: Date.now(),
+  };
+}
+
 // ============================================
 // Cost Estimation
 // ============================================
 
 /**
  * Estimate cost for a visibility test configuration
+ * Every sample is a separate call, so the estimate scales with samplesPerCell.
  */
 export function estimateTestCost(config: VisibilityTestConfig): number {
-  const { queries, models, executionMode, selectedModel, selectedQuery } = config;
+  const { queries, models, executionMode, selectedModel, selectedQuery, samplesPerCell = 1 } = config;
 
   let numQueries = 0;
   let numModels = 0;
@@ -492,10 +726,11 @@ export function estimateTestCost(config: VisibilityTestConfig): number {
     : models;
 
   for (const modelId of modelsToUse) {
-    const model = LLM_MODELS[modelId];
+    const model = getModel(modelId);
+    if (!model) continue;
     const inputCost = (tokensPerQuery * 0.3 / 1_000_000) * model.costPer1MInput;
     const outputCost = (tokensPerQuery * 0.7 / 1_000_000) * model.costPer1MOutput;
-    totalCost += (inputCost + outputCost) * numQueries;
+    totalCost += (inputCost + outputCost + (model.costPerRequest ?? 0)) * numQueries * samplesPerCell;
   }
 
   return totalCost;
@@ -505,12 +740,12 @@ export function estimateTestCost(config: VisibilityTestConfig): number {
  * Get models by platform type
  */
 export function getModelsByPlatformType(type: "search" | "chat"): LLMModel[] {
-  return Object.values(LLM_MODELS).filter((m) => m.platformType === type);
+  return getAllModels().filter((m) => m.platformType === type);
 }
 
 /**
  * Get models by cost tier
  */
 export function getModelsByCostTier(tier: "budget" | "premium"): LLMModel[] {
-  return Object.values(LLM_MODELS).filter((m) => m.costTier === tier);
+  return getAllModels().filter((m) => m.costTier === tier);
 }
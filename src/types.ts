@@ -36,6 +36,17 @@ export interface GroundingSource {
   rank?: number;
 }
 
+/**
+ * A span of the answer attributed to cited sources (Gemini grounding supports)
+ * [start, end) indexes the response text; sourceRanks are the ranks of the supporting sources.
+ */
+export interface GroundingSupportSegment {
+  text: string;
+  start: number;
+  end: number;
+  sourceRanks: number[];
+}
+
 export interface TestResult {
   status: TestStatus;
   sources?: GroundingSource[];
@@ -114,20 +125,34 @@ export type PlatformType = "search" | "chat";
 export type CostTier = "budget" | "premium";
 
 /**
- * All available model IDs
+ * Model IDs defined in LLM_MODELS
  */
-export type LLMModelId =
+export type BuiltInModelId =
   | "gemini-flash"      // Google AI - Budget
   | "gemini-pro"        // Google AI - Premium
   | "perplexity"        // Perplexity - Budget
   | "perplexity-pro"    // Perplexity - Premium
   | "gpt4o-mini"        // ChatGPT - Budget
   | "gpt4o"             // ChatGPT - Premium
+  | "gpt4o-search"      // ChatGPT with web search
   | "claude-haiku"      // Claude - Budget
   | "claude-sonnet"     // Claude - Premium
+  | "claude-haiku-search"   // Claude with web search - Budget
+  | "claude-sonnet-search"  // Claude with web search - Premium
   | "llama"             // Meta AI - Budget
   | "gemini-grounded";  // Google AI with grounding (special case)
 
+/**
+ * All available model IDs: built-in models plus self-hosted endpoints
+ * configured in LOCAL_MODEL_ENDPOINTS (look both up with getModel)
+ */
+export type LLMModelId = BuiltInModelId | `local:${string}`;
+
+/**
+ * Provider adapter a model is queried through (see src/lib/providers)
+ */
+export type ProviderAdapterId = "openrouter" | "gemini" | "perplexity" | "web-search" | "local";
+
 export interface LLMModel {
   id: LLMModelId;
   name: string;
@@ -135,13 +160,16 @@ export interface LLMModel {
   consumerProduct: string;      // What consumer tool uses this
   platformType: PlatformType;
   costTier: CostTier;
-  openRouterId: string;         // OpenRouter model ID
+  adapter: ProviderAdapterId;
+  openRouterId: string;         // OpenRouter model ID ("" for models not on OpenRouter)
+  providerModelId?: string;     // Native model ID for direct (non-OpenRouter) adapters
   costPer1MInput: number;
   costPer1MOutput: number;
+  costPerRequest?: number;      // Flat per-call fee, e.g. a web search tool call
   supportsGrounding?: boolean;  // Has real web search/citations
 }
 
-export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
+export const LLM_MODELS: Readonly<Record<BuiltInModelId, LLMModel>> = Object.freeze({
   // Google AI - Search platform (with grounding)
   "gemini-flash": {
     id: "gemini-flash",
@@ -150,6 +178,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Google AI / Search",
     platformType: "search",
     costTier: "budget",
+    adapter: "openrouter",
     openRouterId: "google/gemini-2.0-flash-001",
     costPer1MInput: 0.075,
     costPer1MOutput: 0.30,
@@ -162,6 +191,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Gemini Advanced",
     platformType: "search",
     costTier: "premium",
+    adapter: "openrouter",
     openRouterId: "google/gemini-2.0-pro-exp-02-05",
     costPer1MInput: 1.25,
     costPer1MOutput: 5.00,
@@ -174,7 +204,9 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Google AI Overviews",
     platformType: "search",
     costTier: "budget",
-    openRouterId: "google/gemini-2.0-flash-001", // Uses direct Gemini API with grounding
+    adapter: "gemini",            // Direct Gemini API with Google Search grounding
+    openRouterId: "google/gemini-2.0-flash-001",
+    providerModelId: "gemini-2.0-flash",
     costPer1MInput: 0.075,
     costPer1MOutput: 0.30,
     supportsGrounding: true,
@@ -188,6 +220,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Perplexity Free",
     platformType: "search",
     costTier: "budget",
+    adapter: "perplexity",        // OpenRouter, with native citations
     openRouterId: "perplexity/sonar",
     costPer1MInput: 1.00,
     costPer1MOutput: 1.00,
@@ -200,6 +233,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Perplexity Pro",
     platformType: "search",
     costTier: "premium",
+    adapter: "perplexity",
     openRouterId: "perplexity/sonar-pro",
     costPer1MInput: 3.00,
     costPer1MOutput: 15.00,
@@ -214,6 +248,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "ChatGPT Free",
     platformType: "chat",
     costTier: "budget",
+    adapter: "openrouter",
     openRouterId: "openai/gpt-4o-mini",
     costPer1MInput: 0.15,
     costPer1MOutput: 0.60,
@@ -225,9 +260,54 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "ChatGPT Plus",
     platformType: "chat",
     costTier: "premium",
+    adapter: "openrouter",
+    openRouterId: "openai/gpt-4o",
+    costPer1MInput: 2.50,
+    costPer1MOutput: 10.00,
+  },
+
+  // Chat models with the vendor's own web search tool - Search platform
+  "gpt4o-search": {
+    id: "gpt4o-search",
+    name: "GPT-4o + Web Search",
+    provider: "OpenAI",
+    consumerProduct: "ChatGPT Search",
+    platformType: "search",
+    costTier: "premium",
+    adapter: "web-search",
     openRouterId: "openai/gpt-4o",
     costPer1MInput: 2.50,
     costPer1MOutput: 10.00,
+    costPerRequest: 0.025,
+    supportsGrounding: true,
+  },
+  "claude-haiku-search": {
+    id: "claude-haiku-search",
+    name: "Claude 3.5 Haiku + Web Search",
+    provider: "Anthropic",
+    consumerProduct: "Claude with web search",
+    platformType: "search",
+    costTier: "budget",
+    adapter: "web-search",
+    openRouterId: "anthropic/claude-3-5-haiku-20241022",
+    costPer1MInput: 0.80,
+    costPer1MOutput: 4.00,
+    costPerRequest: 0.01,         // Per search; Claude may search more than once
+    supportsGrounding: true,
+  },
+  "claude-sonnet-search": {
+    id: "claude-sonnet-search",
+    name: "Claude 3.5 Sonnet + Web Search",
+    provider: "Anthropic",
+    consumerProduct: "Claude Pro with web search",
+    platformType: "search",
+    costTier: "premium",
+    adapter: "web-search",
+    openRouterId: "anthropic/claude-3-5-sonnet-20241022",
+    costPer1MInput: 3.00,
+    costPer1MOutput: 15.00,
+    costPerRequest: 0.01,
+    supportsGrounding: true,
   },
 
   // Anthropic - Chat platform
@@ -238,6 +318,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Claude Free",
     platformType: "chat",
     costTier: "budget",
+    adapter: "openrouter",
     openRouterId: "anthropic/claude-3-5-haiku-20241022",
     costPer1MInput: 0.80,
     costPer1MOutput: 4.00,
@@ -249,6 +330,7 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Claude Pro",
     platformType: "chat",
     costTier: "premium",
+    adapter: "openrouter",
     openRouterId: "anthropic/claude-3-5-sonnet-20241022",
     costPer1MInput: 3.00,
     costPer1MOutput: 15.00,
@@ -262,16 +344,17 @@ export const LLM_MODELS: Record<LLMModelId, LLMModel> = {
     consumerProduct: "Meta AI",
     platformType: "chat",
     costTier: "budget",
+    adapter: "openrouter",
     openRouterId: "meta-llama/llama-3.1-70b-instruct",
     costPer1MInput: 0.52,
     costPer1MOutput: 0.75,
   },
-};
+});
 
 /**
  * Model presets for quick selection
  */
-export type ModelPreset = "quick" | "balanced" | "comprehensive" | "custom";
+export type ModelPreset = "quick" | "balanced" | "comprehensive" | "search-compare" | "custom";
 
 export const MODEL_PRESETS: Record<ModelPreset, { name: string; description: string; models: LLMModelId[] }> = {
   quick: {
@@ -289,6 +372,11 @@ export const MODEL_PRESETS: Record<ModelPreset, { name: string; description: str
     description: "6 models, ~$0.05/query",
     models: ["gemini-flash", "perplexity", "gpt4o-mini", "gpt4o", "claude-haiku", "llama"],
   },
+  "search-compare": {
+    name: "Search On vs Off",
+    description: "GPT-4o and Claude with and without web search, ~$0.05/query incl. $0.035 search fees",
+    models: ["gpt4o", "gpt4o-search", "claude-haiku", "claude-haiku-search"],
+  },
   custom: {
     name: "Custom",
     description: "Select your own models",
@@ -297,54 +385,27 @@ export const MODEL_PRESETS: Record<ModelPreset, { name: string; description: str
 };
 
 // ============================================
-// Legacy Council Types (to be removed)
-// Keeping temporarily for backward compatibility
+// Council Types
+// Council sessions run over any built-in or self-hosted model (see getModel)
 // ============================================
 
-export type CouncilEngineId = "gemini" | "gpt4o" | "claude" | "llama";
-
-export interface CouncilEngine {
-  id: CouncilEngineId;
-  name: string;
-  description: string;
-  provider: string;
-}
-
-export const COUNCIL_ENGINES: Record<CouncilEngineId, CouncilEngine> = {
-  gemini: {
-    id: "gemini",
-    name: "Gemini 2.0 Flash",
-    description: "Google's fast multimodal model",
-    provider: "Google",
-  },
-  gpt4o: {
-    id: "gpt4o",
-    name: "GPT-4o",
-    description: "OpenAI's flagship model",
-    provider: "OpenAI",
-  },
-  claude: {
-    id: "claude",
-    name: "Claude 3.5 Sonnet",
-    description: "Anthropic's balanced model",
-    provider: "Anthropic",
-  },
-  llama: {
-    id: "llama",
-    name: "Llama 3.1 70B",
-    description: "Meta's open-weight model",
-    provider: "Meta",
-  },
-};
+// "judge": one judge ranks every answer
+// "peer": every engine judges the others' answers (self-preference checked)
+// "pairwise": one judge compares answers two at a time (Bradley-Terry fit)
+export type CouncilEvaluationMode = "judge" | "peer" | "pairwise";
 
 export interface CouncilConfig {
-  engines: CouncilEngineId[];
-  judgeEngine: CouncilEngineId;
+  engines: LLMModelId[];
+  judgeEngine: LLMModelId; // Also the synthesizer in peer mode
+  evaluationMode: CouncilEvaluationMode;
   enableSynthesis: boolean;
+  normalizeMarkdown?: boolean; // Normalize formatting before judging
+  identityProbe?: boolean; // Ask the judge to guess each answer's vendor
+  debateRounds?: number; // Critique-and-revise rounds before judging (0 = off)
 }
 
 export interface CouncilEngineResponse {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   content: string;
   tokenCount: {
     prompt: number;
@@ -359,27 +420,77 @@ export interface CouncilEngineResponse {
 }
 
 export interface CouncilRanking {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   finalRank: number;
   averageRank: number;
   agreementScore: number;
+  rating?: number; // Pairwise mode only
+  ratingInterval?: [number, number];
 }
 
 export interface CouncilEvaluation {
-  judgeEngine: CouncilEngineId;
+  judgeEngine: LLMModelId;
   rankings: CouncilRanking[];
   reasoning: string;
   timestamp: number;
 }
 
+// A judge's verdict on its own vendor's answer vs the rest of the panel
+export interface CouncilSelfPreference {
+  judgeId: LLMModelId;
+  engineId: LLMModelId;
+  selfRank: number;
+  peerAverageRank: number;
+  delta: number;
+  flagged: boolean;
+}
+
+// Residual identity signals in one blinded answer
+export interface CouncilIdentityLeak {
+  blindId: string;
+  engineId: LLMModelId;
+  risk: "low" | "medium" | "high";
+  score: number;
+  signals: string[]; // Matched phrases, e.g. "As of my last update"
+  likelyVendor?: string;
+  judgeGuess?: string;
+  identified: boolean;
+}
+
+export interface CouncilIdentityAudit {
+  overallRisk: "low" | "medium" | "high";
+  identifiedCount: number;
+  normalized: boolean;
+  responses: CouncilIdentityLeak[];
+}
+
+// One engine's critique and revised answer in a debate round
+export interface CouncilDebateRevision {
+  engineId: LLMModelId;
+  critique: string;
+  contentPreview: string;
+  urlMentionedBefore: boolean; // Retailer mentioned in the previous answer
+  urlMentionedAfter: boolean; // ...and still mentioned after revision
+  cost: number;
+  latencyMs: number;
+}
+
+export interface CouncilDebateRound {
+  round: number;
+  revisions: CouncilDebateRevision[];
+}
+
 export interface CouncilResult {
   sessionId: string;
   prompt: string;
   userUrl: string;
   engineResponses: CouncilEngineResponse[];
   evaluation: CouncilEvaluation;
+  selfPreference?: CouncilSelfPreference[]; // Peer mode only
+  identityAudit?: CouncilIdentityAudit;
+  debate?: CouncilDebateRound[];
   synthesizedContent?: string;
-  winner: CouncilEngineId;
+  winner: LLMModelId;
   consensusLevel: "strong" | "moderate" | "weak" | "none";
   totalCost: number;
   totalLatencyMs: number;
@@ -391,8 +502,14 @@ export type CouncilStreamEventType =
   | "engine_start"
   | "engine_complete"
   | "engine_error"
+  | "debate_round_start"
+  | "debate_revision_complete"
+  | "debate_revision_error"
+  | "debate_round_complete"
+  | "identity_audit"
   | "evaluation_start"
   | "evaluation_complete"
+  | "comparison_complete"
   | "synthesis_start"
   | "synthesis_complete"
   | "rankings"
@@ -409,6 +526,7 @@ export interface CouncilStreamEvent {
 export type CouncilSessionStatus =
   | "idle"
   | "querying"
+  | "debating"
   | "evaluating"
   | "synthesizing"
   | "complete"
@@ -418,10 +536,14 @@ export interface CouncilSessionState {
   status: CouncilSessionStatus;
   currentStage: number;
   stageName: string;
-  engineStatuses: Record<CouncilEngineId, "pending" | "loading" | "complete" | "error">;
-  engineResponses: Partial<Record<CouncilEngineId, CouncilEngineResponse>>;
+  engineStatuses: Partial<Record<LLMModelId, "pending" | "loading" | "complete" | "error">>;
+  engineResponses: Partial<Record<LLMModelId, CouncilEngineResponse>>;
   rankings?: CouncilRanking[];
-  winner?: CouncilEngineId;
+  winner?: LLMModelId;
+  selfPreference?: CouncilSelfPreference[];
+  identityAudit?: CouncilIdentityAudit;
+  debate?: CouncilDebateRound[];
+  debateRound?: number; // Round in progress
   synthesizedContent?: string;
   error?: string;
   totalCost: number;
@@ -432,7 +554,7 @@ export interface CouncilSessionState {
 // ============================================
 
 export interface BrandMention {
-  engineId: CouncilEngineId;
+  engineId: LLMModelId;
   found: boolean;
   sentiment: "positive" | "negative" | "neutral";
   mentionContext?: string;
@@ -455,13 +577,13 @@ export interface BrandVisibilityResult {
   timestamp: number;
   mentions: BrandMention[];
   score: BrandVisibilityScore;
-  engineResponses: Partial<Record<CouncilEngineId, CouncilEngineResponse>>;
+  engineResponses: Partial<Record<LLMModelId, CouncilEngineResponse>>;
   recommendations: string[];
   totalCost: number;
 }
 
 export interface QuickAssessmentConfig {
-  engines: CouncilEngineId[];
+  engines: LLMModelId[];
   brandUrl: string;
   brandName?: string;
   customPrompt?: string;
@@ -476,7 +598,7 @@ export interface BatchCouncilResult {
 export interface BatchCouncilSummary {
   totalPrompts: number;
   averageVisibilityScore: number;
-  citationRateByEngine: Record<CouncilEngineId, number>;
+  citationRateByEngine: Partial<Record<LLMModelId, number>>;
   sentimentDistribution: {
     positive: number;
     neutral: number;
@@ -562,13 +684,51 @@ export interface CompetitorMention {
   sentiment?: "positive" | "negative" | "neutral";
 }
 
+/**
+ * Per-brand matching configuration, on top of the terms generated from the URL and name
+ */
+export interface BrandMatchConfig {
+  aliases?: string[];            // Product lines, sub-brands, ticker symbols; match in any case
+  caseSensitiveAliases?: string[];  // Aliases that only count written exactly so ("GAP", "TGT")
+  negativeContexts?: string[];   // Phrases where a brand term isn't the brand ("target audience")
+  ownedDomains?: string[];       // Other sites we own: regional (brand.co.uk), blog, help center
+  storefronts?: string[];        // Marketplace store URL prefixes (amazon.com/stores/brand)
+}
+
+/**
+ * Where a brand term came from
+ * url: the brand URL or hostname; name: the brand name; domain: the domain
+ * label; variation: a spacing/compound split of the domain label; alias: configured
+ */
+export type BrandMatchRule = "url" | "name" | "domain" | "variation" | "alias";
+
+/**
+ * One brand mention in a response; [start, end) indexes the response text
+ */
+export interface BrandMatch {
+  term: string;                  // The term that matched, as searched for
+  text: string;                  // The mention as written in the response
+  start: number;
+  end: number;
+  rule: BrandMatchRule;
+}
+
+/**
+ * A term hit that was discarded because it sits inside a negative context
+ */
+export interface RejectedBrandMatch extends BrandMatch {
+  negativeContext: string;
+}
+
 /**
  * Brand detection details - explains what we searched for and found
  */
 export interface BrandDetectionDetails {
   searchedFor: string[];           // Brand variations we looked for
-  matchedTerm?: string;            // Which term actually matched
+  matchedTerm?: string;            // Term of the first match
   matchLocation?: "url" | "text" | "sources";  // Where the match was found
+  matches?: BrandMatch[];          // Every text mention, in order
+  rejectedMatches?: RejectedBrandMatch[];  // Hits discarded by a negative context
 }
 
 /**
@@ -585,6 +745,8 @@ export interface ModelVisibilityResult {
   // For grounded/search platforms
   sources?: GroundingSource[];                 // Actual cited URLs
   rank?: number;                               // Position in citations
+  groundingSupports?: GroundingSupportSegment[];  // Which answer spans each source supports
+  webSearchQueries?: string[];                 // Searches the model ran to answer
 
   // For all platforms
   mentionContext?: string;                     // Surrounding text if mentioned
@@ -601,8 +763,26 @@ export interface ModelVisibilityResult {
   responseText?: string;
   tokenCount?: { prompt: number; completion: number; total: number };
   latencyMs?: number;
-  cost: number;
+  cost: number;                                // 0 for cached cells
+  cached?: boolean;                            // Served from the response cache or re-analyzed; no API call
   error?: string;
+
+  // Repeated sampling (samplesPerCell > 1); the fields above describe one representative sample
+  samples?: ModelVisibilityResult[];           // Every sample, in the order they were drawn
+  sampleStats?: VisibilitySampleStats;
+}
+
+/**
+ * Aggregate over repeated samples of one query x model cell
+ * Errored samples are left out of every count.
+ */
+export interface VisibilitySampleStats {
+  sampleCount: number;                         // Samples that completed
+  mentionCount: number;                        // Samples that found the brand
+  mentionProbability: number;                  // mentionCount / sampleCount, 0-1
+  confidenceInterval: { lower: number; upper: number };  // 95% Wilson interval, 0-1
+  rankDistribution: Record<number, number>;    // Rank -> samples cited at that rank
+  sentimentDistribution: Record<"positive" | "negative" | "neutral", number>;  // Sentiment -> samples
 }
 
 /**
@@ -613,7 +793,7 @@ export interface QueryVisibilityResult {
   modelResults: Record<LLMModelId, ModelVisibilityResult>;
 
   // Aggregate metrics for this query
-  citationRate: number;           // % of models that found brand
+  citationRate: number;           // Expected % of models that find the brand (mean mention probability)
   searchPlatformsCited: number;   // # of search platforms that cited (drives traffic)
   chatPlatformsMentioned: number; // # of chat platforms that mentioned (awareness)
   averageSentiment: number;       // -1 to 1
@@ -627,14 +807,17 @@ export interface VisibilityAnalysisResult {
   // Input
   brandUrl: string;
   brandName?: string;
+  brandMatching?: BrandMatchConfig;
   queries: VisibilityQuery[];
   models: LLMModelId[];
 
   // Per-query results
   queryResults: QueryVisibilityResult[];
 
+  samplesPerCell?: number;                     // Samples drawn per query x model (1 when unset)
+
   // Aggregate scores
-  overallScore: number;                        // 0-100 composite
+  overallScore: number;                        // 0-100 composite of expected citation rates
   searchVisibilityScore: number;               // 0-100 for search platforms
   chatAwarenessScore: number;                  // 0-100 for chat platforms
 
@@ -682,6 +865,195 @@ export interface VisibilityTestConfig {
   executionMode: ExecutionMode;
   selectedModel?: LLMModelId;    // For "all-queries-one-model"
   selectedQuery?: string;        // For "one-query-all-models"
+  samplesPerCell?: number;       // Repeat each query x model this many times (default 1)
+}
+
+/**
+ * A visibility test request as accepted by /api/visibility/test
+ * Model IDs are checked with getModel when the run is planned.
+ */
+export interface VisibilityRunRequest {
+  brandUrl: string;
+  brandName?: string;
+  brandMatching?: BrandMatchConfig;
+  queries: VisibilityQuery[];
+  models: string[];
+  executionMode: ExecutionMode;
+  selectedModel?: string;        // For "all-queries-one-model"
+  selectedQueryId?: string;      // For "one-query-all-models"
+  mock: boolean;
+  bypassCache?: boolean;         // Skip the response cache and pay for fresh responses
+  samplesPerCell?: number;       // Repeat each query x model this many times (default 1)
+}
+
+/**
+ * A persisted visibility run
+ */
+export type VisibilityRunStatus = "running" | "complete" | "cancelled" | "error";
+
+export interface StoredVisibilityRun {
+  id: string;
+  status: VisibilityRunStatus;
+  executionMode: ExecutionMode;
+  mock: boolean;
+  request?: VisibilityRunRequest;  // Kept so an interrupted run can be resumed
+  result: VisibilityAnalysisResult;
+  error?: string;
+  reanalyzedFrom?: string;       // Source run ID when built by re-running detection on stored responses
+  createdAt: number;
+  completedAt: number;
+}
+
+/**
+ * Run history entry - summary of a stored run without per-model responses
+ */
+export interface VisibilityRunSummary {
+  id: string;
+  status: VisibilityRunStatus;
+  brandUrl: string;
+  brandName?: string;
+  queryCount: number;
+  models: LLMModelId[];
+  overallScore: number;
+  totalCost: number;
+  mock: boolean;
+  reanalyzedFrom?: string;
+  createdAt: number;
+}
+
+/**
+ * A dated note marking a change to the brand's site (for trend charts)
+ */
+export interface SiteChangeAnnotation {
+  id: string;
+  brandKey: string;              // Hostname without "www."
+  date: number;                  // When the change went live
+  label: string;
+  note?: string;
+  createdAt: number;
+}
+
+/**
+ * Scores from one stored run, as a point on the trend line
+ */
+export interface VisibilityTrendPoint {
+  runId: string;
+  timestamp: number;
+  overallScore: number;
+  searchVisibilityScore: number;
+  chatAwarenessScore: number;
+  citationRateByModel: Partial<Record<LLMModelId, number>>;
+}
+
+/**
+ * Citation rate of one query across runs, matched on normalized text
+ */
+export interface QueryTrendSeries {
+  normalizedText: string;
+  queryText: string;             // Wording from the latest run
+  points: { runId: string; timestamp: number; citationRate: number }[];
+}
+
+export interface VisibilityTrends {
+  brandKey: string;
+  points: VisibilityTrendPoint[]; // Oldest first
+  queries: QueryTrendSeries[];
+  models: LLMModelId[];           // Every model seen in any run
+  annotations: SiteChangeAnnotation[];
+}
+
+export type MonitorCadence = "daily" | "weekly";
+
+export type MonitorStatus = "active" | "paused";
+
+/**
+ * Outcome of a monitor's most recent scheduled attempt
+ * "skipped" means no run was started (budget cap or missing API key).
+ */
+export interface MonitorLastRun {
+  status: "complete" | "error" | "skipped";
+  at: number;
+  runId?: string;
+  cost?: number;
+  message?: string;
+}
+
+/**
+ * A saved visibility test that the server re-runs on a cadence
+ */
+export interface VisibilityMonitor {
+  id: string;
+  name: string;
+  request: VisibilityRunRequest;
+  cadence: MonitorCadence;
+  budgetCap: number;               // USD; runs estimated above this are skipped
+  status: MonitorStatus;
+  nextRunAt: number;
+  lastRun?: MonitorLastRun;
+  createdAt: number;
+}
+
+export type VisibilityJobStatus = "queued" | "running" | "complete" | "cancelled" | "error";
+
+export interface VisibilityJobProgress {
+  completedQueries: number;
+  totalQueries: number;
+  completedTests: number;
+  totalTests: number;
+  totalCost: number;
+}
+
+/**
+ * A visibility run queued for the background worker
+ * The run ID is reserved up front; partial results are checkpointed under it.
+ */
+export interface VisibilityJob {
+  id: string;
+  runId: string;
+  request: VisibilityRunRequest;
+  status: VisibilityJobStatus;
+  progress: VisibilityJobProgress;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * One query x model cell in a run-to-run diff
+ * Queries are matched on normalized text, like the trend views.
+ */
+export interface VisibilityCellDiff {
+  queryText: string;
+  modelId: LLMModelId;
+  before: { found: boolean; rank?: number; sentiment: ModelVisibilityResult["sentiment"] };
+  after: { found: boolean; rank?: number; sentiment: ModelVisibilityResult["sentiment"] };
+}
+
+export interface VisibilityModelDelta {
+  modelId: LLMModelId;
+  costBefore: number;
+  costAfter: number;
+  averageLatencyBefore: number | null;
+  averageLatencyAfter: number | null;
+}
+
+export interface VisibilityRunDiff {
+  baseRunId: string;
+  compareRunId: string;
+  gained: VisibilityCellDiff[];          // not found -> found
+  lost: VisibilityCellDiff[];            // found -> not found
+  rankChanges: VisibilityCellDiff[];     // found in both, citation position moved
+  sentimentChanges: VisibilityCellDiff[];
+  competitorsAppeared: string[];
+  competitorsDisappeared: string[];
+  queriesAdded: string[];                // Only in the compare run
+  queriesRemoved: string[];              // Only in the base run
+  unchangedCells: number;
+  totalCost: { before: number; after: number; delta: number };
+  totalLatencyMs: { before: number; after: number; delta: number };
+  overallScore: { before: number; after: number; delta: number };
+  modelDeltas: VisibilityModelDelta[];
 }
 
 // ============================================
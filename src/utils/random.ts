@@ -0,0 +1,16 @@
+/**
+ * Deterministic PRNG (mulberry32): the same seed always yields the same
+ * sequence, for reproducible bootstraps and mock data
+ *
+ * @returns a function returning numbers in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}